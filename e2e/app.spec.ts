@@ -44,6 +44,9 @@ test('core routes render expected content', async ({ page }) => {
   await page.goto('how-it-works')
   await expect(page.getByRole('heading', { name: 'How HDR PNG Conversion Works' })).toBeVisible()
 
+  await page.goto('inspect')
+  await expect(page.getByRole('heading', { name: 'HDR PNG Inspector' })).toBeVisible()
+
   await page.goto('does-not-exist')
   await expect(page.getByRole('heading', { name: 'Signal Lost' })).toBeVisible()
 })
@@ -80,6 +83,57 @@ test('upload, preview update, and download flow works', async ({ page }) => {
   expect(download.suggestedFilename()).toMatch(/-hdr\.png$/)
 })
 
+test('Ultra HDR JPEG export downloads a .jpg', async ({ page }) => {
+  await page.goto('./')
+
+  await page.locator('input[type="file"]').setInputFiles(fixturePath)
+  await expect(page.locator('.filename')).toContainText('test.png', { timeout: 15_000 })
+  await waitForPreviewReady(page)
+
+  await page.getByRole('button', { name: 'Ultra HDR JPEG' }).click()
+  await expect(page.getByRole('group', { name: 'Transfer' })).toHaveCount(0)
+
+  const [download] = await Promise.all([page.waitForEvent('download'), page.getByRole('button', { name: 'Download HDR JPEG' }).click()])
+  expect(download.suggestedFilename()).toMatch(/-hdr\.jpg$/)
+})
+
+test('cancelling an export mid-flight restores the button without downloading', async ({ page }) => {
+  await page.goto('./')
+
+  // Large enough that the export is still running when Cancel is clicked.
+  const largePng = await page.evaluate(async () => {
+    const canvas = new OffscreenCanvas(6000, 4000)
+    const context = canvas.getContext('2d')!
+    const gradient = context.createLinearGradient(0, 0, canvas.width, canvas.height)
+    gradient.addColorStop(0, '#102040')
+    gradient.addColorStop(0.5, '#f0c080')
+    gradient.addColorStop(1, '#ffffff')
+    context.fillStyle = gradient
+    context.fillRect(0, 0, canvas.width, canvas.height)
+    const blob = await canvas.convertToBlob({ type: 'image/png' })
+    return Array.from(new Uint8Array(await blob.arrayBuffer()))
+  })
+  await page.locator('input[type="file"]').setInputFiles({ name: 'large.png', mimeType: 'image/png', buffer: Buffer.from(largePng) })
+  await expect(page.locator('.filename')).toContainText('large.png', { timeout: 15_000 })
+  await waitForPreviewReady(page)
+
+  let downloads = 0
+  page.on('download', () => {
+    downloads += 1
+  })
+
+  await page.getByRole('button', { name: 'Download HDR PNG' }).click()
+  const cancelButton = page.getByRole('button', { name: 'Cancel export' })
+  await expect(cancelButton).toBeVisible()
+  await cancelButton.click()
+
+  await expect(page.getByRole('button', { name: 'Download HDR PNG' })).toBeEnabled()
+  await expect(page.getByRole('alert')).toHaveCount(0)
+  // Give a stray result time to arrive; it must not turn into a download.
+  await page.waitForTimeout(1_500)
+  expect(downloads).toBe(0)
+})
+
 test('drag-mode compare handle is keyboard operable', async ({ page }) => {
   await page.goto('./')
 
@@ -111,3 +165,45 @@ test('drag-mode compare handle is keyboard operable', async ({ page }) => {
   await page.keyboard.up('Shift')
   await expect(knob).toHaveAttribute('aria-valuenow', '16')
 })
+
+test('tone curve points are keyboard operable', async ({ page }) => {
+  await page.goto('./')
+
+  const fileInput = page.locator('input[type="file"]')
+  await fileInput.setInputFiles(fixturePath)
+  await expect(page.locator('.filename')).toContainText('test.png', { timeout: 15_000 })
+  await waitForPreviewReady(page)
+
+  await page.locator('summary', { hasText: 'Curve' }).click()
+
+  const points = page.getByRole('slider', { name: /^Luma point/ })
+  await expect(points).toHaveCount(2)
+  const first = page.getByRole('slider', { name: 'Luma point 1' })
+  await expect(first).toHaveAttribute('aria-valuenow', '0')
+
+  await first.focus()
+
+  await page.keyboard.press('ArrowUp')
+  await page.keyboard.press('ArrowUp')
+  await expect(first).toHaveAttribute('aria-valuenow', '2')
+  // End points keep their input level.
+  await page.keyboard.press('ArrowRight')
+  await expect(first).toHaveAttribute('aria-valuetext', 'Input 0, output 2')
+
+  await page.keyboard.press('Enter')
+  await expect(points).toHaveCount(3)
+  const added = page.getByRole('slider', { name: 'Luma point 2' })
+  await expect(added).toBeFocused()
+  await expect(added).toHaveAttribute('aria-valuetext', /^Input 50,/)
+
+  await page.keyboard.press('ArrowRight')
+  await expect(added).toHaveAttribute('aria-valuetext', /^Input 51,/)
+  await page.keyboard.down('Shift')
+  await page.keyboard.press('ArrowRight')
+  await page.keyboard.up('Shift')
+  await expect(added).toHaveAttribute('aria-valuetext', /^Input 56,/)
+
+  await page.keyboard.press('Delete')
+  await expect(points).toHaveCount(2)
+  await expect(first).toBeFocused()
+})
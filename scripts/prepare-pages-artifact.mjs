@@ -139,7 +139,7 @@ async function findHeroFontFiles() {
   return matched
 }
 
-const LAZY_ROUTE_PATTERNS = [/^how-it-works-.*\.js$/, /^guides-.*\.js$/, /^not-found-.*\.js$/]
+const LAZY_ROUTE_PATTERNS = [/^how-it-works-.*\.js$/, /^guides-.*\.js$/, /^inspect-.*\.js$/, /^not-found-.*\.js$/]
 
 async function findLazyRouteChunks() {
   if (!(await exists(ASSETS_DIR))) return []
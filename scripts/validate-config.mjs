@@ -1,7 +1,7 @@
 import { readSeoRoutesConfig } from './seo-routes-utils.mjs'
 
 const VALID_ROBOTS = new Set(['index,follow', 'noindex,nofollow'])
-const VALID_TEMPLATES = new Set(['home', 'how-it-works', 'intent-guide', 'compatibility', 'not-found'])
+const VALID_TEMPLATES = new Set(['home', 'how-it-works', 'intent-guide', 'compatibility', 'inspector', 'not-found'])
 const VALID_SCHEMA_PROFILES = new Set(['webapp', 'faq', 'none'])
 
 function isNonEmptyString(value) {
@@ -119,7 +119,7 @@ function validateRoutes(routes, issues) {
     }
   }
 
-  for (const template of ['home', 'how-it-works', 'not-found']) {
+  for (const template of ['home', 'how-it-works', 'inspector', 'not-found']) {
     const count = templateCounts.get(template) ?? 0
     if (count !== 1) {
       issues.push(`seo-routes.json: expected exactly one route for template "${template}", found ${count}`)
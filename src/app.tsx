@@ -2,9 +2,10 @@ import { ErrorBoundary, LocationProvider, Route, Router, lazy, useLocation } fro
 import { GUIDE_SEO_ROUTES, SEO_ROUTE_BY_ROUTER_PATH } from './lib/seo-routes'
 import { AppErrorBoundary } from './components/app-error-boundary'
 import { Home } from './routes/home'
-import { GuideLinksInline, HOME_ROUTE, HOW_IT_WORKS_ROUTE, NOT_FOUND_ROUTE } from './routes/shared'
+import { GuideLinksInline, HOME_ROUTE, HOW_IT_WORKS_ROUTE, INSPECT_ROUTE, NOT_FOUND_ROUTE } from './routes/shared'
 
 const HowItWorks = lazy(() => import('./routes/how-it-works').then((m) => m.HowItWorks))
+const Inspect = lazy(() => import('./routes/inspect').then((m) => m.Inspect))
 const NotFound = lazy(() => import('./routes/not-found').then((m) => m.NotFound))
 const GuideRoutePage = lazy(() => import('./routes/guides').then((m) => m.GuideRoutePage))
 
@@ -60,6 +61,9 @@ function Header() {
         <a class="header__nav-link how-link" href={HOW_IT_WORKS_ROUTE.routerPath}>
           How it works
         </a>
+        <a class="header__nav-link" href={INSPECT_ROUTE.routerPath}>
+          Inspect
+        </a>
         <a
           class="header__nav-link header__nav-link--accent"
           href="https://github.com/zjsng/supernova-image"
@@ -104,6 +108,7 @@ export function App() {
               {GUIDE_SEO_ROUTES.map((route) => (
                 <Route key={route.id} path={route.routerPath} component={GUIDE_ROUTE_COMPONENT_BY_ID.get(route.id)!} />
               ))}
+              <Route path={INSPECT_ROUTE.routerPath} component={Inspect} />
               <Route path={NOT_FOUND_ROUTE.routerPath} component={NotFound} />
               <Route default component={NotFound} />
             </Router>
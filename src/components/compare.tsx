@@ -1,7 +1,8 @@
 import type { RefObject } from 'preact'
 import { useCallback, useEffect, useRef, useState } from 'preact/hooks'
+import { FALSE_COLOR_BANDS, falseColorSwatch } from '../lib/false-color'
 
-export type CompareMode = 'split' | 'drag' | 'swap'
+export type CompareMode = 'split' | 'drag' | 'swap' | 'false-color'
 
 interface CompareProps {
   mode: CompareMode
@@ -27,16 +28,28 @@ function AfterImage({
 }) {
   return (
     <div class="preview-output">
-      {previewImageSrc ? (
-        <img src={previewImageSrc} alt="Converted preview" class="preview-output-image" />
-      ) : (
-        <canvas ref={previewCanvasRef} class="preview-output-canvas" />
-      )}
+      {previewImageSrc && <img src={previewImageSrc} alt="Converted preview" class="preview-output-image" />}
+      {/* Stays mounted under an HDR image so a pixel preview (SDR fallback, false color) always has a canvas to land in. */}
+      <canvas ref={previewCanvasRef} class="preview-output-canvas" hidden={Boolean(previewImageSrc)} />
       {!previewReady && <div class="preview-placeholder">Adjust controls to render preview</div>}
     </div>
   )
 }
 
+/** Names every band next to its swatch, so the map never relies on hue alone. */
+function FalseColorLegend() {
+  return (
+    <ul class="false-color-legend" aria-label="False color legend">
+      {FALSE_COLOR_BANDS.map((band) => (
+        <li key={band.label} class="false-color-legend__item">
+          <span class="false-color-legend__swatch" style={{ background: falseColorSwatch(band) }} aria-hidden="true" />
+          {band.label}
+        </li>
+      ))}
+    </ul>
+  )
+}
+
 function BeforeImage({ src, alt }: { src: string; alt: string }) {
   return (
     <div class="compare__cell-image">
@@ -82,6 +95,18 @@ export function Compare({ mode, beforeSrc, beforeAlt, previewImageSrc, previewCa
     return detach
   }, [handleDrag, mode])
 
+  if (mode === 'false-color') {
+    return (
+      <div class="compare compare--false-color">
+        <figure class="preview-panel compare__cell compare__cell--after">
+          <figcaption class="compare__label compare__label--after">Nits · False color</figcaption>
+          <AfterImage previewImageSrc={previewImageSrc} previewCanvasRef={previewCanvasRef} previewReady={previewReady} />
+        </figure>
+        <FalseColorLegend />
+      </div>
+    )
+  }
+
   if (mode === 'split') {
     return (
       <div class="compare compare--split preview-compare">
@@ -92,7 +117,6 @@ export function Compare({ mode, beforeSrc, beforeAlt, previewImageSrc, previewCa
         <figure class="preview-panel compare__cell compare__cell--after">
           <figcaption class="compare__label compare__label--after">After · HDR · PQ</figcaption>
           <AfterImage previewImageSrc={previewImageSrc} previewCanvasRef={previewCanvasRef} previewReady={previewReady} />
-          <div class="hdr-bloom" aria-hidden="true" />
         </figure>
       </div>
     )
@@ -109,7 +133,6 @@ export function Compare({ mode, beforeSrc, beforeAlt, previewImageSrc, previewCa
         <figure class="preview-panel compare__cell compare__cell--after" hidden={!showAfter}>
           <figcaption class="compare__label compare__label--after">After · HDR · PQ</figcaption>
           <AfterImage previewImageSrc={previewImageSrc} previewCanvasRef={previewCanvasRef} previewReady={previewReady} />
-          <div class="hdr-bloom" aria-hidden="true" />
         </figure>
         <div class="compare-mode-switch" role="group" aria-label="Swap before and after">
           <button
@@ -177,7 +200,6 @@ export function Compare({ mode, beforeSrc, beforeAlt, previewImageSrc, previewCa
       <figure class="compare__cell compare__cell--after compare__cell--drag-cell" style={{ clipPath: `inset(0 0 0 ${dragPct}%)` }}>
         <figcaption class="compare__label compare__label--after">After · HDR · PQ</figcaption>
         <AfterImage previewImageSrc={previewImageSrc} previewCanvasRef={previewCanvasRef} previewReady={previewReady} />
-        <div class="hdr-bloom" aria-hidden="true" />
       </figure>
       <div class="compare-handle" style={{ left: `${dragPct}%` }}>
         <div
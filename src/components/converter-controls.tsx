@@ -1,10 +1,58 @@
+import type { ComponentChildren } from 'preact'
 import { useCallback, useEffect, useRef, useState } from 'preact/hooks'
-import { BOOST_UI_MAX, BOOST_UI_MIN, boostToTargetNits } from '../lib/hdr-boost'
+import { BOOST_UI_MAX, BOOST_UI_MIN, HLG_NOMINAL_PEAK_NITS } from '../lib/hdr-boost'
+import type { AlphaMode } from '../lib/alpha-handling'
+import type { TransferFunction } from '../lib/pq-transfer'
+import type { ExportFormat } from '../lib/export-format'
+import { UP_CONVERSION_LABELS, UP_CONVERSION_METHODS, upConversionWhiteNits, type UpConversionMethod } from '../lib/up-conversion'
+import { DISPLAY_PEAK_PRESETS } from '../lib/eetf'
+import { FALL_BUDGET_PRESETS } from '../lib/abl-limiter'
 import {
+  GAMUT_MAPPING_LABELS,
+  GAMUT_MAPPINGS,
+  GAMUT_VOLUME_LABELS,
+  GAMUT_VOLUMES,
+  type GamutMapping,
+  type GamutVolume,
+} from '../lib/gamut-mapping'
+import { LUT_SPACE_LABELS, LUT_SPACES, type LutSpace } from '../lib/color-lut'
+import {
+  CAPTION_FONT_LABELS,
+  CAPTION_FONTS,
+  CAPTION_NITS_MAX,
+  CAPTION_NITS_MIN,
+  CAPTION_POSITION_LABELS,
+  CAPTION_POSITIONS,
+  CAPTION_SIZE_MAX,
+  CAPTION_SIZE_MIN,
+  CAPTION_TEXT_MAX_LENGTH,
+  isCaptionActive,
+  type CaptionFont,
+  type CaptionPosition,
+  type CaptionSettings,
+} from '../lib/caption'
+import {
+  CURVE_CHANNEL_LABELS,
+  CURVE_CHANNELS,
+  CURVE_MIN_POINT_GAP,
+  isDefaultToneCurve,
+  sampleCurve,
+  TONE_CURVE_MAX_POINTS,
+  type CurveChannel,
+  type CurvePoint,
+  type ToneCurve,
+} from '../lib/tone-curve'
+import { EXPORT_STAGE_LABELS, overallExportFraction, type ExportProgress } from '../lib/export-progress'
+import {
+  DEFAULT_LOOK_CONTROLS,
+  HSL_BAND_CONTROL_KEYS,
+  HSL_BAND_LABELS,
+  HSL_BANDS,
   LOOK_CONTROL_GROUPS,
   LOOK_CONTROL_RANGES,
   LOOK_CONTROL_RENDER_META,
   saturationSubLabel,
+  type HslBand,
   type LookControlKey,
   type LookControls,
 } from '../lib/look-controls'
@@ -15,35 +63,174 @@ interface ConverterControlsProps {
   imageHeight: number
   boost: number
   lookControls: LookControls
+  /** True while the worker is analyzing the source for the Auto look. */
+  autoLookPending: boolean
+  canUndoAutoLook: boolean
+  toneCurve: ToneCurve
+  alphaMode: AlphaMode
+  flattenColor: string
+  transferFunction: TransferFunction
+  upConversion: UpConversionMethod
+  targetPeakNits: number | null
+  gamutMapping: GamutMapping
+  gamutVolume: GamutVolume
+  fallBudgetNits: number | null
+  /** Name of the imported .cube LUT, or null when none is loaded. */
+  colorLutName: string | null
+  lutSpace: LutSpace
+  lutStrength: number
+  caption: CaptionSettings
+  exportFormat: ExportFormat
   processing: boolean
+  exportProgress: ExportProgress | null
   downloaded: boolean
   hdrPreviewEnabled: boolean
   onSetBoost: (value: number) => void
   onSetLookControl: (key: keyof LookControls, value: number) => void
+  onAutoLook: () => void
+  onUndoAutoLook: () => void
+  onSetCurvePoints: (channel: CurveChannel, points: CurvePoint[]) => void
+  onResetToneCurve: () => void
+  onSetAlphaMode: (mode: AlphaMode) => void
+  onSetFlattenColor: (color: string) => void
+  onSetTransferFunction: (transferFunction: TransferFunction) => void
+  onSetGamutMapping: (gamutMapping: GamutMapping) => void
+  onSetGamutVolume: (gamutVolume: GamutVolume) => void
+  onSetUpConversion: (method: UpConversionMethod) => void
+  onSetTargetPeakNits: (nits: number | null) => void
+  onSetFallBudgetNits: (nits: number | null) => void
+  onLoadColorLut: (file: File) => void
+  onClearColorLut: () => void
+  onSetLutSpace: (space: LutSpace) => void
+  onSetLutStrength: (strength: number) => void
+  onSetCaption: (update: Partial<CaptionSettings>) => void
+  onSetExportFormat: (format: ExportFormat) => void
   onReset: () => void
   onConvert: () => void
+  /** Aborts the running export; the download button turns into this action while `processing`. */
+  onCancelConvert: () => void
+}
+
+interface OptionRowChoice<T extends string> {
+  value: T
+  label: string
 }
 
+const ALPHA_MODE_CHOICES: OptionRowChoice<AlphaMode>[] = [
+  { value: 'keep', label: 'Keep' },
+  { value: 'flatten', label: 'Flatten' },
+]
+
+// JPEG has no alpha channel, so Ultra HDR exports always flatten.
+const JPEG_ALPHA_MODE_CHOICES: OptionRowChoice<AlphaMode>[] = [{ value: 'flatten', label: 'Flatten' }]
+
+const EXPORT_FORMAT_CHOICES: OptionRowChoice<ExportFormat>[] = [
+  { value: 'png', label: 'PNG' },
+  { value: 'jpeg', label: 'Ultra HDR JPEG' },
+]
+
+const TRANSFER_FUNCTION_CHOICES: OptionRowChoice<TransferFunction>[] = [
+  { value: 'pq', label: 'PQ' },
+  { value: 'hlg', label: 'HLG' },
+]
+
+const UP_CONVERSION_CHOICES: OptionRowChoice<UpConversionMethod>[] = UP_CONVERSION_METHODS.map((value) => ({
+  value,
+  label: UP_CONVERSION_LABELS[value],
+}))
+
+const GAMUT_MAPPING_CHOICES: OptionRowChoice<GamutMapping>[] = GAMUT_MAPPINGS.map((value) => ({
+  value,
+  label: GAMUT_MAPPING_LABELS[value],
+}))
+
+const GAMUT_VOLUME_CHOICES: OptionRowChoice<GamutVolume>[] = GAMUT_VOLUMES.map((value) => ({
+  value,
+  label: GAMUT_VOLUME_LABELS[value],
+}))
+
+const DISPLAY_PEAK_CHOICES: OptionRowChoice<string>[] = [
+  { value: 'off', label: 'Off' },
+  ...DISPLAY_PEAK_PRESETS.map((preset) => ({ value: String(preset.nits), label: preset.label })),
+]
+
+const FALL_BUDGET_CHOICES: OptionRowChoice<string>[] = [
+  { value: 'off', label: 'Off' },
+  ...FALL_BUDGET_PRESETS.map((preset) => ({ value: String(preset.nits), label: preset.label })),
+]
+
+const LUT_SPACE_CHOICES: OptionRowChoice<LutSpace>[] = LUT_SPACES.map((value) => ({ value, label: LUT_SPACE_LABELS[value] }))
+
+const CAPTION_FONT_CHOICES: OptionRowChoice<CaptionFont>[] = CAPTION_FONTS.map((value) => ({
+  value,
+  label: CAPTION_FONT_LABELS[value],
+}))
+
+const CAPTION_POSITION_CHOICES: OptionRowChoice<CaptionPosition>[] = CAPTION_POSITIONS.map((value) => ({
+  value,
+  label: CAPTION_POSITION_LABELS[value],
+}))
+
+const HSL_BAND_CHOICES: OptionRowChoice<HslBand>[] = HSL_BANDS.map((value) => ({ value, label: HSL_BAND_LABELS[value] }))
+
+const CURVE_CHANNEL_CHOICES: OptionRowChoice<CurveChannel>[] = CURVE_CHANNELS.map((value) => ({
+  value,
+  label: CURVE_CHANNEL_LABELS[value],
+}))
+
+// Curve editor geometry, in curve units (0–1 on both axes).
+const CURVE_HIT_RADIUS = 0.05
+const CURVE_KEY_STEP = 0.01
+const CURVE_KEY_STEP_LARGE = 0.05
+const CURVE_SAMPLE_XS = Array.from({ length: 129 }, (_, i) => i / 128)
+const CURVE_GRID_LINES = [0.25, 0.5, 0.75]
+
 interface ScrollState {
   canScroll: boolean
   atTop: boolean
   atBottom: boolean
 }
 
-function downloadButtonLabel(processing: boolean, downloaded: boolean): string {
-  if (processing) return 'Converting...'
+function downloadButtonLabel(processing: boolean, downloaded: boolean, exportFormat: ExportFormat): string {
+  if (processing) return 'Cancel export'
   if (downloaded) return 'Downloaded'
-  return 'Download HDR PNG'
+  return exportFormat === 'jpeg' ? 'Download HDR JPEG' : 'Download HDR PNG'
+}
+
+function exportStatusText(processing: boolean, exportProgress: ExportProgress | null): string {
+  if (!processing) return ''
+  if (!exportProgress) return 'Converting...'
+  return `${EXPORT_STAGE_LABELS[exportProgress.stage]}… ${Math.round(overallExportFraction(exportProgress) * 100)}%`
 }
 
 function downloadButtonGlyph(processing: boolean, downloaded: boolean): string {
-  if (processing) return '↓'
+  if (processing) return '✕'
   if (downloaded) return '✓'
   return '↓'
 }
 
-function downloadReceiptMeta(boost: number): string {
-  return `PQ · Rec.2020 · ${Math.round(boostToTargetNits(boost)).toLocaleString()} nits peak`
+function boostSubLabel(boost: number, upConversion: UpConversionMethod, targetPeakNits: number | null): string {
+  const whiteNits = Math.round(upConversionWhiteNits(upConversion, boost)).toLocaleString()
+  const fit = targetPeakNits !== null ? ` → ${targetPeakNits.toLocaleString()}` : ''
+  if (upConversion === 'boost') return `${whiteNits}${fit} nits peak`
+  return `${UP_CONVERSION_LABELS[upConversion]} · ${whiteNits}${fit} nits white`
+}
+
+function downloadReceiptMeta(
+  boost: number,
+  upConversion: UpConversionMethod,
+  targetPeakNits: number | null,
+  transferFunction: TransferFunction,
+  gamutVolume: GamutVolume,
+  exportFormat: ExportFormat,
+): string {
+  const gradedNits = upConversionWhiteNits(upConversion, boost)
+  const whiteNits = targetPeakNits !== null ? Math.min(gradedNits, targetPeakNits) : gradedNits
+  if (exportFormat === 'jpeg') return `Ultra HDR · gain map · ${Math.round(whiteNits).toLocaleString()} nits peak`
+  // HLG is relative to a 1000-nit display, so brighter grades clip there.
+  const peakNits = transferFunction === 'hlg' ? Math.min(whiteNits, HLG_NOMINAL_PEAK_NITS) : whiteNits
+  const volume = gamutVolume === 'p3' ? 'P3 in Rec.2020' : 'Rec.2020'
+  return `${transferFunction.toUpperCase()} · ${volume} · ${Math.round(peakNits).toLocaleString()} nits peak`
 }
 
 function HeroSlider(props: {
@@ -55,11 +242,12 @@ function HeroSlider(props: {
   value: number
   display: string
   sub: string
+  disabled?: boolean
   onInput: (value: number) => void
 }) {
   const pct = ((props.value - props.min) / (props.max - props.min)) * 100
   return (
-    <div class="hero-slider">
+    <div class={`hero-slider${props.disabled ? ' hero-slider--disabled' : ''}`}>
       <div class="hero-slider__head">
         <label class="hero-slider__label" htmlFor={props.id}>
           {props.label}
@@ -81,6 +269,7 @@ function HeroSlider(props: {
           max={props.max}
           step={props.step}
           value={props.value}
+          disabled={props.disabled}
           aria-valuetext={`${props.display}, ${props.sub}`}
           onInput={(event) => props.onInput(Number((event.target as HTMLInputElement).value))}
         />
@@ -130,21 +319,280 @@ function Slider(props: {
   )
 }
 
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value))
+}
+
+/**
+ * Draggable spline editor for one curve at a time. Drag a point to move it,
+ * click empty space to add one, double-click a point to remove it. From the
+ * keyboard, arrows move the focused point, Enter adds one after it and Delete
+ * removes it. The end points stay at x = 0 and x = 1, and points can't pass
+ * their neighbours.
+ */
+function ToneCurveEditor(props: { curve: ToneCurve; onChange: (channel: CurveChannel, points: CurvePoint[]) => void }) {
+  const [channel, setChannel] = useState<CurveChannel>('luma')
+  const [dragIndex, setDragIndex] = useState<number | null>(null)
+  const [selectedIndex, setSelectedIndex] = useState(0)
+  const svgRef = useRef<SVGSVGElement>(null)
+  // Point to focus once an added or removed point has rendered.
+  const pendingFocusRef = useRef<number | null>(null)
+  const points = props.curve[channel]
+
+  useEffect(() => {
+    const index = pendingFocusRef.current
+    if (index === null) return
+    pendingFocusRef.current = null
+    svgRef.current?.querySelectorAll<SVGCircleElement>('.tone-curve__point')[index]?.focus()
+  })
+
+  const toCurvePoint = (event: PointerEvent | MouseEvent): CurvePoint | null => {
+    const rect = svgRef.current?.getBoundingClientRect()
+    if (!rect || rect.width === 0 || rect.height === 0) return null
+    return { x: clamp01((event.clientX - rect.left) / rect.width), y: clamp01(1 - (event.clientY - rect.top) / rect.height) }
+  }
+
+  const pointIndexNear = (target: CurvePoint): number =>
+    points.findIndex((point) => Math.hypot(point.x - target.x, point.y - target.y) <= CURVE_HIT_RADIUS)
+
+  const insertPoint = (target: CurvePoint): number => {
+    const insertAt = points.findIndex((point) => point.x > target.x)
+    const previous = points[insertAt - 1]
+    const next = points[insertAt]
+    const fits = previous && next && target.x - previous.x >= CURVE_MIN_POINT_GAP && next.x - target.x >= CURVE_MIN_POINT_GAP
+    if (!fits || points.length >= TONE_CURVE_MAX_POINTS) return -1
+    props.onChange(channel, [...points.slice(0, insertAt), target, ...points.slice(insertAt)])
+    return insertAt
+  }
+
+  const movePoint = (index: number, target: CurvePoint) => {
+    const current = points[index]
+    if (!current) return
+    const last = points.length - 1
+    let x = target.x
+    if (index === 0 || index === last) {
+      x = current.x
+    } else {
+      const min = (points[index - 1]?.x ?? 0) + CURVE_MIN_POINT_GAP
+      const max = (points[index + 1]?.x ?? 1) - CURVE_MIN_POINT_GAP
+      x = Math.min(max, Math.max(min, x))
+    }
+    props.onChange(
+      channel,
+      points.map((point, i) => (i === index ? { x, y: clamp01(target.y) } : point)),
+    )
+  }
+
+  const removePoint = (index: number): boolean => {
+    if (index <= 0 || index >= points.length - 1) return false
+    props.onChange(
+      channel,
+      points.filter((_, i) => i !== index),
+    )
+    return true
+  }
+
+  const handlePointerDown = (event: PointerEvent) => {
+    const target = toCurvePoint(event)
+    if (!target) return
+    let index = pointIndexNear(target)
+    if (index < 0) index = insertPoint(target)
+    if (index < 0) return
+    svgRef.current?.setPointerCapture(event.pointerId)
+    setDragIndex(index)
+    setSelectedIndex(index)
+  }
+
+  const handlePointerMove = (event: PointerEvent) => {
+    if (dragIndex === null) return
+    const target = toCurvePoint(event)
+    if (target) movePoint(dragIndex, target)
+  }
+
+  const handlePointerUp = (event: PointerEvent) => {
+    if (svgRef.current?.hasPointerCapture(event.pointerId)) svgRef.current.releasePointerCapture(event.pointerId)
+    setDragIndex(null)
+  }
+
+  const handleDoubleClick = (event: MouseEvent) => {
+    const target = toCurvePoint(event)
+    if (target) removePoint(pointIndexNear(target))
+  }
+
+  const handlePointKeyDown = (index: number, event: KeyboardEvent) => {
+    const point = points[index]
+    if (!point) return
+    const step = event.shiftKey ? CURVE_KEY_STEP_LARGE : CURVE_KEY_STEP
+    if (event.key === 'ArrowLeft' || event.key === 'ArrowRight') {
+      event.preventDefault()
+      movePoint(index, { x: point.x + (event.key === 'ArrowLeft' ? -step : step), y: point.y })
+    } else if (event.key === 'ArrowUp' || event.key === 'ArrowDown') {
+      event.preventDefault()
+      movePoint(index, { x: point.x, y: point.y + (event.key === 'ArrowDown' ? -step : step) })
+    } else if (event.key === 'Enter') {
+      event.preventDefault()
+      // Add halfway to the next point (or the previous one, from the last point), on the curve.
+      const neighbour = points[index + 1] ?? points[index - 1]
+      if (!neighbour) return
+      const x = (point.x + neighbour.x) / 2
+      const added = insertPoint({ x, y: clamp01(sampleCurve(points, [x])[0] ?? x) })
+      if (added < 0) return
+      setSelectedIndex(added)
+      pendingFocusRef.current = added
+    } else if (event.key === 'Delete' || event.key === 'Backspace') {
+      event.preventDefault()
+      if (!removePoint(index)) return
+      setSelectedIndex(index - 1)
+      pendingFocusRef.current = index - 1
+    }
+  }
+
+  const selectChannel = (next: CurveChannel) => {
+    setChannel(next)
+    setSelectedIndex(0)
+  }
+
+  const ys = sampleCurve(points, CURVE_SAMPLE_XS)
+  const path = CURVE_SAMPLE_XS.map((x, i) => `${i === 0 ? 'M' : 'L'}${(x * 100).toFixed(2)},${((1 - (ys[i] ?? 0)) * 100).toFixed(2)}`).join(
+    ' ',
+  )
+  const activeIndex = Math.min(selectedIndex, points.length - 1)
+
+  return (
+    <div class="tone-curve">
+      <OptionRow id="curve-channel" label="Channel" choices={CURVE_CHANNEL_CHOICES} value={channel} onSelect={selectChannel} />
+      <svg
+        ref={svgRef}
+        class={`tone-curve__plot tone-curve__plot--${channel}`}
+        viewBox="0 0 100 100"
+        role="group"
+        aria-label={`${CURVE_CHANNEL_LABELS[channel]} curve with ${points.length} points. Drag a point or use the arrow keys to move it, click or press Enter to add one, double-click or press Delete to remove it.`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onDblClick={handleDoubleClick}
+      >
+        {CURVE_GRID_LINES.map((line) => (
+          <g key={line} class="tone-curve__grid">
+            <line x1={line * 100} y1={0} x2={line * 100} y2={100} />
+            <line x1={0} y1={line * 100} x2={100} y2={line * 100} />
+          </g>
+        ))}
+        <line class="tone-curve__diagonal" x1={0} y1={100} x2={100} y2={0} />
+        <path class="tone-curve__path" d={path} />
+        {points.map((point, i) => {
+          const input = Math.round(point.x * 100)
+          const output = Math.round(point.y * 100)
+          return (
+            <circle
+              key={i}
+              class={`tone-curve__point${i === dragIndex ? ' tone-curve__point--active' : ''}`}
+              cx={point.x * 100}
+              cy={(1 - point.y) * 100}
+              r={2.6}
+              role="slider"
+              tabindex={i === activeIndex ? 0 : -1}
+              aria-label={`${CURVE_CHANNEL_LABELS[channel]} point ${i + 1}`}
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={output}
+              aria-valuetext={`Input ${input}, output ${output}`}
+              onFocus={() => setSelectedIndex(i)}
+              onKeyDown={(event) => handlePointKeyDown(i, event)}
+            />
+          )
+        })}
+      </svg>
+    </div>
+  )
+}
+
+function OptionRow<T extends string>(props: {
+  id: string
+  label: string
+  choices: OptionRowChoice<T>[]
+  value: T
+  onSelect: (value: T) => void
+  children?: ComponentChildren
+}) {
+  const labelId = `${props.id}-label`
+  return (
+    <div class="option-row">
+      <span class="option-row__label" id={labelId}>
+        {props.label}
+      </span>
+      <div class="option-row__choices" role="group" aria-labelledby={labelId}>
+        {props.choices.map((choice) => (
+          <button
+            key={choice.value}
+            type="button"
+            class={`option-row__btn${props.value === choice.value ? ' option-row__btn--active' : ''}`}
+            aria-pressed={props.value === choice.value}
+            onClick={() => props.onSelect(choice.value)}
+          >
+            {choice.label}
+          </button>
+        ))}
+      </div>
+      {props.children}
+    </div>
+  )
+}
+
 export function ConverterControls({
   imageName,
   imageWidth,
   imageHeight,
   boost,
   lookControls,
+  autoLookPending,
+  canUndoAutoLook,
+  toneCurve,
+  alphaMode,
+  flattenColor,
+  transferFunction,
+  upConversion,
+  targetPeakNits,
+  gamutMapping,
+  gamutVolume,
+  fallBudgetNits,
+  colorLutName,
+  lutSpace,
+  lutStrength,
+  caption,
+  exportFormat,
   processing,
+  exportProgress,
   downloaded,
   hdrPreviewEnabled,
   onSetBoost,
   onSetLookControl,
+  onAutoLook,
+  onUndoAutoLook,
+  onSetCurvePoints,
+  onResetToneCurve,
+  onSetAlphaMode,
+  onSetFlattenColor,
+  onSetTransferFunction,
+  onSetGamutMapping,
+  onSetGamutVolume,
+  onSetUpConversion,
+  onSetTargetPeakNits,
+  onSetFallBudgetNits,
+  onLoadColorLut,
+  onClearColorLut,
+  onSetLutSpace,
+  onSetLutStrength,
+  onSetCaption,
+  onSetExportFormat,
   onReset,
   onConvert,
+  onCancelConvert,
 }: ConverterControlsProps) {
   const scrollRef = useRef<HTMLDivElement>(null)
+  const effectiveAlphaMode: AlphaMode = exportFormat === 'jpeg' ? 'flatten' : alphaMode
+  const [hslBand, setHslBand] = useState<HslBand>('red')
   const [scrollState, setScrollState] = useState<ScrollState>({
     canScroll: false,
     atTop: true,
@@ -193,6 +641,15 @@ export function ConverterControls({
     }
   }, [updateScrollState])
 
+  const handleDownloadClick = (event: MouseEvent) => {
+    if (!processing) {
+      onConvert()
+      return
+    }
+    // The second click of a double-click on Download must not cancel the export it just started.
+    if (event.detail <= 1) onCancelConvert()
+  }
+
   const renderLookControl = (key: LookControlKey) => {
     const range = LOOK_CONTROL_RANGES[key]
     const meta = LOOK_CONTROL_RENDER_META[key]
@@ -213,6 +670,11 @@ export function ConverterControls({
     )
   }
 
+  const adjustedHslBands = HSL_BANDS.filter((band) =>
+    HSL_BAND_CONTROL_KEYS[band].some((key) => lookControls[key] !== DEFAULT_LOOK_CONTROLS[key]),
+  ).length
+  const hslHint = adjustedHslBands > 0 ? `${adjustedHslBands} of ${HSL_BANDS.length} bands` : 'Off'
+
   return (
     <div class="controls-panel">
       <div class="hero-sliders">
@@ -225,8 +687,41 @@ export function ConverterControls({
           value={boost}
           onInput={onSetBoost}
           display={`${boost.toFixed(1)}×`}
-          sub={`${Math.round(boostToTargetNits(boost)).toLocaleString()} nits peak`}
+          sub={boostSubLabel(boost, upConversion, targetPeakNits)}
+          disabled={upConversion !== 'boost'}
+        />
+        <OptionRow
+          id="target-peak"
+          label="Display peak"
+          choices={DISPLAY_PEAK_CHOICES}
+          value={targetPeakNits === null ? 'off' : String(targetPeakNits)}
+          onSelect={(value) => onSetTargetPeakNits(value === 'off' ? null : Number(value))}
         />
+        <OptionRow
+          id="fall-budget"
+          label="OLED limit"
+          choices={FALL_BUDGET_CHOICES}
+          value={fallBudgetNits === null ? 'off' : String(fallBudgetNits)}
+          onSelect={(value) => onSetFallBudgetNits(value === 'off' ? null : Number(value))}
+        />
+        <div class="option-row">
+          <span class="option-row__label">Look</span>
+          <button
+            id="auto-look"
+            type="button"
+            class="option-row__btn"
+            disabled={autoLookPending}
+            title="Set exposure, contrast, blacks, whites and white balance from the image's histogram"
+            onClick={onAutoLook}
+          >
+            {autoLookPending ? 'Analyzing…' : 'Auto'}
+          </button>
+          {canUndoAutoLook && (
+            <button type="button" class="option-row__btn" onClick={onUndoAutoLook}>
+              Undo
+            </button>
+          )}
+        </div>
         {LOOK_CONTROL_GROUPS.primary.map((key) => {
           const range = LOOK_CONTROL_RANGES[key]
           const meta = LOOK_CONTROL_RENDER_META[key]
@@ -254,6 +749,52 @@ export function ConverterControls({
         }${!scrollState.atBottom ? ' has-more-below' : ''}`}
       >
         <div ref={scrollRef} class="controls-panel__scroll">
+          <div class="output-options">
+            <OptionRow
+              id="export-format"
+              label="Format"
+              choices={EXPORT_FORMAT_CHOICES}
+              value={exportFormat}
+              onSelect={onSetExportFormat}
+            />
+            <OptionRow
+              id="alpha-mode"
+              label="Transparency"
+              choices={exportFormat === 'jpeg' ? JPEG_ALPHA_MODE_CHOICES : ALPHA_MODE_CHOICES}
+              value={effectiveAlphaMode}
+              onSelect={onSetAlphaMode}
+            >
+              {effectiveAlphaMode === 'flatten' && (
+                <input
+                  id="flatten-color"
+                  class="option-row__color"
+                  type="color"
+                  value={flattenColor}
+                  aria-label="Flatten background color"
+                  onInput={(event) => onSetFlattenColor((event.target as HTMLInputElement).value)}
+                />
+              )}
+            </OptionRow>
+            <OptionRow
+              id="up-conversion"
+              label="Mapping"
+              choices={UP_CONVERSION_CHOICES}
+              value={upConversion}
+              onSelect={onSetUpConversion}
+            />
+            {exportFormat === 'png' && (
+              <OptionRow
+                id="transfer-function"
+                label="Transfer"
+                choices={TRANSFER_FUNCTION_CHOICES}
+                value={transferFunction}
+                onSelect={onSetTransferFunction}
+              />
+            )}
+            <OptionRow id="gamut-mapping" label="Gamut" choices={GAMUT_MAPPING_CHOICES} value={gamutMapping} onSelect={onSetGamutMapping} />
+            <OptionRow id="gamut-volume" label="Volume" choices={GAMUT_VOLUME_CHOICES} value={gamutVolume} onSelect={onSetGamutVolume} />
+          </div>
+
           <details class="fine-tune-group" onToggle={queueScrollStateUpdate}>
             <summary class="fine-tune-group__summary">
               <span class="fine-tune-group__label">Tune image</span>
@@ -265,6 +806,188 @@ export function ConverterControls({
             <div class="fine-tune fine-tune-group__grid">{LOOK_CONTROL_GROUPS.specFineTune.map(renderLookControl)}</div>
           </details>
 
+          <details class="fine-tune-group" onToggle={queueScrollStateUpdate}>
+            <summary class="fine-tune-group__summary">
+              <span class="fine-tune-group__label">Highlights</span>
+              <span class="fine-tune-group__hint">{lookControls.specularFocus > 0 ? 'Specular only' : 'Global boost'}</span>
+              <span class="fine-tune-group__chevron" aria-hidden="true">
+                +
+              </span>
+            </summary>
+            <div class="fine-tune fine-tune-group__grid">{LOOK_CONTROL_GROUPS.highlights.map(renderLookControl)}</div>
+          </details>
+
+          <details class="fine-tune-group" onToggle={queueScrollStateUpdate}>
+            <summary class="fine-tune-group__summary">
+              <span class="fine-tune-group__label">Bloom</span>
+              <span class="fine-tune-group__hint">{lookControls.bloomIntensity > 0 ? 'Glowing' : 'Off'}</span>
+              <span class="fine-tune-group__chevron" aria-hidden="true">
+                +
+              </span>
+            </summary>
+            <div class="fine-tune fine-tune-group__grid">{LOOK_CONTROL_GROUPS.bloom.map(renderLookControl)}</div>
+          </details>
+
+          <details class="fine-tune-group" onToggle={queueScrollStateUpdate}>
+            <summary class="fine-tune-group__summary">
+              <span class="fine-tune-group__label">Curve</span>
+              <span class="fine-tune-group__hint">{isDefaultToneCurve(toneCurve) ? 'Linear' : 'Custom'}</span>
+              <span class="fine-tune-group__chevron" aria-hidden="true">
+                +
+              </span>
+            </summary>
+            <div class="fine-tune fine-tune-group__grid">
+              <ToneCurveEditor curve={toneCurve} onChange={onSetCurvePoints} />
+              {!isDefaultToneCurve(toneCurve) && (
+                <button type="button" class="option-row__btn tone-curve__reset" onClick={onResetToneCurve}>
+                  Reset curves
+                </button>
+              )}
+            </div>
+          </details>
+
+          <details class="fine-tune-group" onToggle={queueScrollStateUpdate}>
+            <summary class="fine-tune-group__summary">
+              <span class="fine-tune-group__label">HSL</span>
+              <span class="fine-tune-group__hint">{hslHint}</span>
+              <span class="fine-tune-group__chevron" aria-hidden="true">
+                +
+              </span>
+            </summary>
+            <div class="fine-tune fine-tune-group__grid">
+              <OptionRow id="hsl-band" label="Band" choices={HSL_BAND_CHOICES} value={hslBand} onSelect={setHslBand} />
+              {HSL_BAND_CONTROL_KEYS[hslBand].map(renderLookControl)}
+            </div>
+          </details>
+
+          <details class="fine-tune-group" onToggle={queueScrollStateUpdate}>
+            <summary class="fine-tune-group__summary">
+              <span class="fine-tune-group__label">LUT</span>
+              <span class="fine-tune-group__hint">{colorLutName ?? 'None'}</span>
+              <span class="fine-tune-group__chevron" aria-hidden="true">
+                +
+              </span>
+            </summary>
+            <div class="fine-tune fine-tune-group__grid">
+              <div class="option-row">
+                <span class="option-row__label">File</span>
+                <label class="option-row__btn option-row__btn--file">
+                  {colorLutName ? 'Replace' : 'Load .cube'}
+                  <input
+                    id="lut-file"
+                    class="visually-hidden"
+                    type="file"
+                    accept=".cube"
+                    onChange={(event) => {
+                      const input = event.target as HTMLInputElement
+                      const file = input.files?.[0]
+                      if (file) onLoadColorLut(file)
+                      // Let the same file be picked again after it is edited on disk.
+                      input.value = ''
+                    }}
+                  />
+                </label>
+                {colorLutName && (
+                  <button type="button" class="option-row__btn" onClick={onClearColorLut}>
+                    Remove
+                  </button>
+                )}
+              </div>
+              {colorLutName && (
+                <>
+                  <OptionRow id="lut-space" label="Space" choices={LUT_SPACE_CHOICES} value={lutSpace} onSelect={onSetLutSpace} />
+                  <Slider
+                    id="lut-strength"
+                    label="Strength"
+                    min={0}
+                    max={1}
+                    step={0.01}
+                    value={lutStrength}
+                    displayValue={lutStrength.toFixed(2)}
+                    centered={false}
+                    onInput={onSetLutStrength}
+                  />
+                </>
+              )}
+            </div>
+          </details>
+
+          <details class="fine-tune-group" onToggle={queueScrollStateUpdate}>
+            <summary class="fine-tune-group__summary">
+              <span class="fine-tune-group__label">Caption</span>
+              <span class="fine-tune-group__hint">
+                {isCaptionActive(caption) ? `${Math.round(caption.nits).toLocaleString()} nits` : 'None'}
+              </span>
+              <span class="fine-tune-group__chevron" aria-hidden="true">
+                +
+              </span>
+            </summary>
+            <div class="fine-tune fine-tune-group__grid">
+              <div class="option-row">
+                <label class="option-row__label" htmlFor="caption-text">
+                  Text
+                </label>
+                <textarea
+                  id="caption-text"
+                  class="option-row__text"
+                  rows={2}
+                  maxLength={CAPTION_TEXT_MAX_LENGTH}
+                  placeholder="Add a caption"
+                  value={caption.text}
+                  onInput={(event) => onSetCaption({ text: (event.target as HTMLTextAreaElement).value })}
+                />
+              </div>
+              <OptionRow
+                id="caption-font"
+                label="Font"
+                choices={CAPTION_FONT_CHOICES}
+                value={caption.font}
+                onSelect={(font) => onSetCaption({ font })}
+              />
+              <OptionRow
+                id="caption-position"
+                label="Position"
+                choices={CAPTION_POSITION_CHOICES}
+                value={caption.position}
+                onSelect={(position) => onSetCaption({ position })}
+              />
+              {/* Nits move on a log scale so the 100–1,000 range gets as much travel as 1,000–10,000. */}
+              <Slider
+                id="caption-nits"
+                label="Nits"
+                min={Math.log10(CAPTION_NITS_MIN)}
+                max={Math.log10(CAPTION_NITS_MAX)}
+                step={0.01}
+                value={Math.log10(caption.nits)}
+                displayValue={Math.round(caption.nits).toLocaleString()}
+                centered={false}
+                onInput={(value) => onSetCaption({ nits: Math.round(10 ** value) })}
+              />
+              <Slider
+                id="caption-size"
+                label="Size"
+                min={CAPTION_SIZE_MIN}
+                max={CAPTION_SIZE_MAX}
+                step={0.01}
+                value={caption.size}
+                displayValue={`${Math.round(caption.size * 100)}%`}
+                centered={false}
+                onInput={(size) => onSetCaption({ size })}
+              />
+              <Slider
+                id="caption-outline"
+                label="Outline"
+                min={0}
+                max={1}
+                step={0.01}
+                value={caption.outline}
+                displayValue={caption.outline.toFixed(2)}
+                centered={false}
+                onInput={(outline) => onSetCaption({ outline })}
+              />
+            </div>
+          </details>
+
           <details class="advanced-fine-tune" onToggle={queueScrollStateUpdate}>
             <summary class="advanced-fine-tune__summary">
               <span class="advanced-fine-tune__label">Advanced</span>
@@ -295,16 +1018,26 @@ export function ConverterControls({
           </button>
           <button
             type="button"
-            class={`btn btn-download${downloaded ? ' btn-download--success' : ''}`}
-            onClick={onConvert}
-            disabled={processing}
+            class={`btn btn-download${processing ? ' btn-download--busy' : ''}${downloaded ? ' btn-download--success' : ''}`}
+            onClick={handleDownloadClick}
           >
-            <span class="btn-download__label">{downloadButtonLabel(processing, downloaded)}</span>
+            {processing && exportProgress && (
+              <span
+                class="btn-download__progress"
+                aria-hidden="true"
+                style={{ transform: `scaleX(${overallExportFraction(exportProgress)})` }}
+              />
+            )}
+            <span class="btn-download__label">{downloadButtonLabel(processing, downloaded, exportFormat)}</span>
             <span class="btn-download__glyph" aria-hidden="true">
               {downloadButtonGlyph(processing, downloaded)}
             </span>
           </button>
         </div>
+        {/* Always mounted so screen readers announce progress as it changes. */}
+        <p class="export-status" role="status">
+          {exportStatusText(processing, exportProgress)}
+        </p>
 
         {downloaded && (
           <div class="download-receipt" role="status" aria-live="polite">
@@ -313,7 +1046,9 @@ export function ConverterControls({
             </span>
             <span class="download-receipt__copy">
               <span class="download-receipt__label">HDR payload saved</span>
-              <span class="download-receipt__meta">{downloadReceiptMeta(boost)}</span>
+              <span class="download-receipt__meta">
+                {downloadReceiptMeta(boost, upConversion, targetPeakNits, transferFunction, gamutVolume, exportFormat)}
+              </span>
             </span>
           </div>
         )}
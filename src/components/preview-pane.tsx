@@ -1,7 +1,11 @@
 import type { RefObject } from 'preact'
-import { useMemo, useState } from 'preact/hooks'
+import { useState } from 'preact/hooks'
 import { Compare, type CompareMode } from './compare'
 import { ChromaticTitle } from './chromatic-title'
+import { SCOPE_MODES, ScopeView, type ScopeMode } from './scope-view'
+import type { AblReport } from '../lib/abl-limiter'
+import { CICP_TRANSFER_CODES, DEFAULT_TRANSFER_FUNCTION, type TransferFunction } from '../lib/pq-transfer'
+import type { ScopeData } from '../lib/scopes'
 
 interface PreviewImage {
   src: string
@@ -27,67 +31,93 @@ interface PreviewPaneProps {
   imageName?: string | undefined
   imageWidth?: number | undefined
   imageHeight?: number | undefined
-  boost?: number | undefined
-  exposure?: number | undefined
+  /** Called when the False color compare mode is picked or left; the preview output follows it. */
+  onSetFalseColor?: ((enabled: boolean) => void) | undefined
+  /** Scopes from the latest preview; null or omitted until one arrives. */
+  scopes?: ScopeData | null | undefined
+  /** Latest ABL limiter report; null or omitted when the limiter is off. */
+  abl?: AblReport | null | undefined
+  /** Transfer function the export is encoded with; the signal tags follow it. */
+  transferFunction?: TransferFunction | undefined
 }
 
 const COMPARE_MODES: { id: CompareMode; label: string }[] = [
   { id: 'split', label: 'Split' },
   { id: 'drag', label: 'Drag' },
   { id: 'swap', label: 'Swap' },
+  { id: 'false-color', label: 'False color' },
 ]
 
-function PeakReadout({ boost, exposure }: { boost: number; exposure: number }) {
-  const peakNits = Math.round(boost * 400)
-
-  const bars = useMemo(() => {
-    const arr: number[] = []
-    for (let i = 0; i < 24; i++) {
-      const t = i / 23
-      const peakBias = Math.min(1, boost / 12)
-      const base = Math.exp(-Math.pow((t - 0.28 - exposure * 0.1) * 3, 2))
-      const hiLift = peakBias * Math.exp(-Math.pow((t - 0.82) * 5, 2)) * 0.75
-      arr.push(Math.min(1, base + hiLift))
-    }
-    return arr
-  }, [boost, exposure])
+function ablTag(abl: AblReport): { label: string; title: string } {
+  const budget = `${Math.round(abl.budgetNits)}-nit MaxFALL budget`
+  if (abl.maxReduction <= 0) {
+    return { label: 'ABL idle', title: `Frame average ${Math.round(abl.fallBeforeNits)} nits is within the ${budget}` }
+  }
+  return {
+    label: `ABL −${Math.round(abl.maxReduction * 100)}%`,
+    title:
+      `Frame average ${Math.round(abl.fallBeforeNits)} → ${Math.round(abl.fallAfterNits)} nits for the ${budget}; ` +
+      `${Math.round(abl.limitedFraction * 100)}% of the frame dimmed`,
+  }
+}
+
+const TRANSFER_TAGS: Record<TransferFunction, string> = { pq: 'PQ', hlg: 'HLG' }
+
+function PeakReadout({
+  scopes,
+  abl,
+  transferFunction,
+}: {
+  scopes: ScopeData | null
+  abl: AblReport | null
+  transferFunction: TransferFunction
+}) {
+  const [mode, setMode] = useState<ScopeMode>('histogram')
+  const peakNits = scopes ? Math.round(scopes.peakNits) : null
 
   return (
-    <div class="peak-readout" aria-label={`Estimated peak ${peakNits} nits`}>
+    <div class="peak-readout" aria-label={peakNits !== null ? `Peak ${peakNits} nits` : 'Peak not measured yet'}>
       <div class="peak-readout__metric">
         <span class="peak-readout__label">Peak</span>
-        <span class="peak-readout__value">{peakNits.toLocaleString()}</span>
+        <span class="peak-readout__value">{peakNits !== null ? peakNits.toLocaleString() : '—'}</span>
         <span class="peak-readout__unit">nits</span>
       </div>
-      <div class="peak-readout__bars" aria-hidden="true">
-        {bars.map((value, index) => {
-          const t = index / (bars.length - 1)
-          const hue = 240 - t * 220
-          const isHdr = t > 0.75 && boost > 2
-          const scale = Math.max(0.04, value)
-          return (
-            <span
-              key={index}
-              class="peak-readout__bar"
-              style={{
-                transform: `scaleY(${scale})`,
-                background: isHdr ? `oklch(0.75 0.2 ${hue})` : `oklch(0.5 0.08 ${hue})`,
-                opacity: isHdr ? 1 : 0.7,
-                boxShadow: isHdr ? `0 0 6px oklch(0.7 0.2 ${hue} / 0.5)` : 'none',
-              }}
-            />
-          )
-        })}
+      <div class="peak-readout__scope">
+        {scopes ? <ScopeView scopes={scopes} mode={mode} /> : <div class="scope-view" aria-hidden="true" />}
+        <div class="preview-mode-picker preview-mode-picker--scope" role="group" aria-label="Scope">
+          {SCOPE_MODES.map((option) => (
+            <button
+              key={option.id}
+              type="button"
+              class={`preview-mode-picker__btn${mode === option.id ? ' preview-mode-picker__btn--active' : ''}`}
+              onClick={() => setMode(option.id)}
+              aria-pressed={mode === option.id}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
       </div>
       <div class="peak-readout__tags">
-        <span>PQ</span>
+        <span>{TRANSFER_TAGS[transferFunction]}</span>
         <span>Rec.2020</span>
-        <span class="peak-readout__tag--muted">cICP 9·16·0</span>
+        <span class="peak-readout__tag--muted">cICP 9·{CICP_TRANSFER_CODES[transferFunction]}·0</span>
+        {abl && <AblTag abl={abl} />}
       </div>
     </div>
   )
 }
 
+function AblTag({ abl }: { abl: AblReport }) {
+  const { label, title } = ablTag(abl)
+  const active = abl.maxReduction > 0
+  return (
+    <span class={active ? 'peak-readout__tag--abl' : 'peak-readout__tag--muted'} title={title} aria-label={title}>
+      {label}
+    </span>
+  )
+}
+
 export function PreviewPane({
   image,
   dragover,
@@ -106,8 +136,10 @@ export function PreviewPane({
   imageName,
   imageWidth,
   imageHeight,
-  boost = 5,
-  exposure = 0,
+  onSetFalseColor,
+  scopes = null,
+  abl = null,
+  transferFunction = DEFAULT_TRANSFER_FUNCTION,
 }: PreviewPaneProps) {
   const [compareMode, setCompareMode] = useState<CompareMode>('drag')
 
@@ -165,7 +197,7 @@ export function PreviewPane({
         </div>
       </div>
 
-      <PeakReadout boost={boost} exposure={exposure} />
+      <PeakReadout scopes={scopes} abl={abl} transferFunction={transferFunction} />
 
       <div class="preview-frame" aria-busy={isBusy}>
         <div class="preview-mode-picker preview-mode-picker--frame" role="group" aria-label="Compare mode">
@@ -174,7 +206,10 @@ export function PreviewPane({
               key={option.id}
               type="button"
               class={`preview-mode-picker__btn${compareMode === option.id ? ' preview-mode-picker__btn--active' : ''}`}
-              onClick={() => setCompareMode(option.id)}
+              onClick={() => {
+                setCompareMode(option.id)
+                onSetFalseColor?.(option.id === 'false-color')
+              }}
               aria-pressed={compareMode === option.id}
             >
               {option.label}
@@ -0,0 +1,135 @@
+import { useEffect, useRef } from 'preact/hooks'
+import {
+  histogramPosition,
+  SCOPE_COLUMNS,
+  SCOPE_HISTOGRAM_BINS,
+  SCOPE_HISTOGRAM_MIN_NITS,
+  SCOPE_LEVELS,
+  waveformPosition,
+  type ScopeData,
+} from '../lib/scopes'
+import { BT2408_REFERENCE_WHITE_NITS } from '../lib/up-conversion'
+
+export type ScopeMode = 'histogram' | 'parade' | 'waveform'
+
+export const SCOPE_MODES: { id: ScopeMode; label: string }[] = [
+  { id: 'histogram', label: 'Nits' },
+  { id: 'parade', label: 'Parade' },
+  { id: 'waveform', label: 'Wave' },
+]
+
+// Graticule lines on the waveform and parade, in nits.
+const WAVEFORM_MARKS = [100, 1000]
+
+// Trace colors for the luma waveform and the red, green and blue parade panels.
+const LUMA_TRACE: readonly [number, number, number] = [200, 255, 190]
+const PARADE_TRACES: readonly (readonly [number, number, number])[] = [
+  [255, 90, 80],
+  [90, 240, 110],
+  [90, 140, 255],
+]
+
+// Log scaling keeps sparse highlights visible next to dense midtones.
+function traceIntensity(count: number, logMax: number): number {
+  return count > 0 ? 0.25 + (0.75 * Math.log1p(count)) / logMax : 0
+}
+
+/**
+ * Draw one waveform per trace color side by side, each from its own
+ * `SCOPE_COLUMNS × SCOPE_LEVELS` block of `counts`, with level 0 at the bottom.
+ */
+function drawTraces(canvas: HTMLCanvasElement, counts: Uint32Array, traces: readonly (readonly [number, number, number])[]): void {
+  const context = canvas.getContext('2d')
+  if (!context) return
+  const width = SCOPE_COLUMNS * traces.length
+  canvas.width = width
+  canvas.height = SCOPE_LEVELS
+
+  let max = 0
+  for (const count of counts) if (count > max) max = count
+  const logMax = Math.log1p(max) || 1
+
+  const image = context.createImageData(width, SCOPE_LEVELS)
+  traces.forEach((trace, panel) => {
+    for (let column = 0; column < SCOPE_COLUMNS; column++) {
+      for (let level = 0; level < SCOPE_LEVELS; level++) {
+        const intensity = traceIntensity(counts[(panel * SCOPE_COLUMNS + column) * SCOPE_LEVELS + level] ?? 0, logMax)
+        if (intensity === 0) continue
+        const i = ((SCOPE_LEVELS - 1 - level) * width + panel * SCOPE_COLUMNS + column) * 4
+        image.data[i] = trace[0]
+        image.data[i + 1] = trace[1]
+        image.data[i + 2] = trace[2]
+        image.data[i + 3] = Math.round(intensity * 255)
+      }
+    }
+  })
+  context.putImageData(image, 0, 0)
+}
+
+function Traces({ scopes, mode }: { scopes: ScopeData; mode: 'parade' | 'waveform' }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+    if (mode === 'parade') drawTraces(canvas, scopes.parade, PARADE_TRACES)
+    else drawTraces(canvas, scopes.waveform, [LUMA_TRACE])
+  }, [mode, scopes])
+
+  return (
+    <div class="scope-view__traces">
+      <canvas ref={canvasRef} class="scope-view__canvas" />
+      {WAVEFORM_MARKS.map((nits) => (
+        <span key={nits} class="scope-view__mark" style={{ bottom: `${waveformPosition(nits) * 100}%` }}>
+          {nits.toLocaleString()}
+        </span>
+      ))}
+    </div>
+  )
+}
+
+function Histogram({ histogram }: { histogram: Uint32Array }) {
+  let max = 0
+  for (const count of histogram) if (count > max) max = count
+  const referenceBin = histogramPosition(BT2408_REFERENCE_WHITE_NITS) * SCOPE_HISTOGRAM_BINS
+
+  return (
+    <div class="peak-readout__bars">
+      {Array.from(histogram, (count, index) => {
+        const t = index / (SCOPE_HISTOGRAM_BINS - 1)
+        const hue = 240 - t * 220
+        // Above the BT.2408 reference white is light an SDR display can't show.
+        const isHdr = index >= referenceBin
+        // Square root so small populations still show as bars.
+        const scale = max > 0 ? Math.max(0.04, Math.sqrt(count / max)) : 0.04
+        return (
+          <span
+            key={index}
+            class="peak-readout__bar"
+            style={{
+              transform: `scaleY(${scale})`,
+              background: isHdr ? `oklch(0.75 0.2 ${hue})` : `oklch(0.5 0.08 ${hue})`,
+              opacity: count > 0 ? (isHdr ? 1 : 0.7) : 0.25,
+              boxShadow: isHdr && count > 0 ? `0 0 6px oklch(0.7 0.2 ${hue} / 0.5)` : 'none',
+            }}
+          />
+        )
+      })}
+    </div>
+  )
+}
+
+/** Histogram on a log nits axis, or the waveform or parade on a PQ axis. */
+export function ScopeView({ scopes, mode }: { scopes: ScopeData; mode: ScopeMode }) {
+  const label =
+    mode === 'histogram'
+      ? `Luminance histogram from ${SCOPE_HISTOGRAM_MIN_NITS} to 10,000 nits`
+      : mode === 'parade'
+        ? 'Red, green and blue parade'
+        : 'Luma waveform'
+  return (
+    <div class="scope-view" role="img" aria-label={label}>
+      {mode === 'histogram' ? <Histogram histogram={scopes.histogram} /> : <Traces scopes={scopes} mode={mode} />}
+    </div>
+  )
+}
@@ -1,8 +1,27 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'preact/hooks'
 import { DEFAULT_LOOK_CONTROLS, PREVIEW_DEBOUNCE_MS, type LookControls } from '../lib/look-controls'
 import { getWorkerErrorCode, getWorkerErrorMessage, useConverterWorker } from './use-converter-worker'
-import { requestExportConversion, requestPreviewConversion, type PixelDecodeResult } from '../lib/image-processing-requests'
+import {
+  isCancelledRequestError,
+  requestExportConversion,
+  requestImageAnalysis,
+  requestPreviewConversion,
+  type AlphaSettings,
+  type PixelDecodeResult,
+} from '../lib/image-processing-requests'
+import { DEFAULT_ALPHA_MODE, DEFAULT_FLATTEN_COLOR, type AlphaMode } from '../lib/alpha-handling'
+import { DEFAULT_TRANSFER_FUNCTION, type TransferFunction } from '../lib/pq-transfer'
+import { DEFAULT_UP_CONVERSION_METHOD, type UpConversionMethod } from '../lib/up-conversion'
+import { DEFAULT_EXPORT_FORMAT, EXPORT_FORMAT_FILES, type ExportFormat } from '../lib/export-format'
+import type { ExportProgress } from '../lib/export-progress'
+import { readRecipeFromFile, type SupernovaRecipe } from '../lib/recipe'
 import type { WorkerPreviewSuccessResponse } from '../lib/worker-protocol'
+import type { AblReport } from '../lib/abl-limiter'
+import type { ScopeData } from '../lib/scopes'
+import { DEFAULT_TONE_CURVE, isDefaultToneCurve, type CurveChannel, type CurvePoint, type ToneCurve } from '../lib/tone-curve'
+import { DEFAULT_GAMUT_MAPPING, DEFAULT_GAMUT_VOLUME, type GamutMapping, type GamutVolume } from '../lib/gamut-mapping'
+import { DEFAULT_LUT_SPACE, parseCubeLut, type ColorLut, type ColorLutSettings, type LutSpace } from '../lib/color-lut'
+import { DEFAULT_CAPTION, isCaptionActive, type CaptionSettings } from '../lib/caption'
 
 export interface ImageState {
   src: string
@@ -11,6 +30,7 @@ export interface ImageState {
   height: number
   file: File
   el: HTMLImageElement
+  imageId: number
 }
 
 function supportsHdrPreview(): boolean {
@@ -36,14 +56,15 @@ function buildUserFacingError(error: unknown): string {
   return getWorkerErrorMessage(error)
 }
 
-function triggerPngDownload(pngData: Uint8Array, sourceName: string): void {
-  const blob = new Blob([new Uint8Array(pngData)], { type: 'image/png' })
+function triggerDownload(fileData: Uint8Array, format: ExportFormat, sourceName: string): void {
+  const { mimeType, extension } = EXPORT_FORMAT_FILES[format]
+  const blob = new Blob([new Uint8Array(fileData)], { type: mimeType })
   const url = URL.createObjectURL(blob)
   const anchor = document.createElement('a')
   const stem = sourceName.replace(/\.[^.]+$/, '') || 'image'
 
   anchor.href = url
-  anchor.download = `${stem}-hdr.png`
+  anchor.download = `${stem}-hdr.${extension}`
   anchor.rel = 'noopener'
   anchor.style.display = 'none'
   document.body.append(anchor)
@@ -55,40 +76,98 @@ function triggerPngDownload(pngData: Uint8Array, sourceName: string): void {
   }, 1000)
 }
 
+// Looks replaced by Auto that Undo can step back through.
+const LOOK_UNDO_LIMIT = 20
+
 export function useConversionSession() {
   const [image, setImage] = useState<ImageState | null>(null)
   const [boost, setBoost] = useState(5)
   const [lookControls, setLookControls] = useState<LookControls>(DEFAULT_LOOK_CONTROLS)
+  const [lookUndoStack, setLookUndoStack] = useState<LookControls[]>([])
+  const [autoLookPending, setAutoLookPending] = useState(false)
+  const [toneCurve, setToneCurve] = useState<ToneCurve>(DEFAULT_TONE_CURVE)
+  const [alpha, setAlpha] = useState<AlphaSettings>({ alphaMode: DEFAULT_ALPHA_MODE, flattenColor: DEFAULT_FLATTEN_COLOR })
+  const [transferFunction, setTransferFunction] = useState<TransferFunction>(DEFAULT_TRANSFER_FUNCTION)
+  const [upConversion, setUpConversion] = useState<UpConversionMethod>(DEFAULT_UP_CONVERSION_METHOD)
+  // Peak of the display the export is fit to (BT.2390 EETF), or null to keep the full PQ range.
+  const [targetPeakNits, setTargetPeakNits] = useState<number | null>(null)
+  // How out-of-gamut colors are brought in, and whether the export is held to the P3 volume.
+  const [gamutMapping, setGamutMapping] = useState<GamutMapping>(DEFAULT_GAMUT_MAPPING)
+  const [gamutVolume, setGamutVolume] = useState<GamutVolume>(DEFAULT_GAMUT_VOLUME)
+  // OLED MaxFALL budget for the ABL limiter, or null to leave the frame average alone.
+  const [fallBudgetNits, setFallBudgetNits] = useState<number | null>(null)
+  // What the limiter did on the latest preview or export; null when it is off.
+  const [ablReport, setAblReport] = useState<AblReport | null>(null)
+  // Histogram, waveform and parade of the export grade from the latest preview.
+  const [scopes, setScopes] = useState<ScopeData | null>(null)
+  // Imported .cube LUT with the space it expects and how strongly it applies.
+  const [colorLut, setColorLut] = useState<ColorLut | null>(null)
+  const [colorLutName, setColorLutName] = useState<string | null>(null)
+  const [lutSpace, setLutSpace] = useState<LutSpace>(DEFAULT_LUT_SPACE)
+  const [lutStrength, setLutStrength] = useState(1)
+  // Text overlay with its own brightness; sent only once it has text.
+  const [caption, setCaptionState] = useState<CaptionSettings>(DEFAULT_CAPTION)
+  const [exportFormat, setExportFormat] = useState<ExportFormat>(DEFAULT_EXPORT_FORMAT)
   const [processing, setProcessing] = useState(false)
+  const [exportProgress, setExportProgress] = useState<ExportProgress | null>(null)
   const [downloaded, setDownloaded] = useState(false)
   const [dragover, setDragover] = useState(false)
   const [previewPending, setPreviewPending] = useState(false)
   const [previewReady, setPreviewReady] = useState(false)
   const [previewImageSrc, setPreviewImageSrc] = useState<string | null>(null)
   const [hdrPreviewEnabled, setHdrPreviewEnabled] = useState(false)
+  // Show the false-color nits map in place of the preview picture.
+  const [falseColor, setFalseColor] = useState(false)
   const [errorMessage, setErrorMessage] = useState<string | null>(null)
+  const [pendingRecipe, setPendingRecipe] = useState<SupernovaRecipe | null>(null)
 
   const decodeCanvasRef = useRef<HTMLCanvasElement>(null)
   const previewCanvasRef = useRef<HTMLCanvasElement>(null)
   const previewDebounceTimerRef = useRef<number | null>(null)
   const previewImageUrlRef = useRef<string | null>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
-
-  const { runWorkerConvert, runWorkerPreview, cancelActivePreview, shouldTryWorkerDecode, markWorkerDecodeSupport, teardownWorker } =
-    useConverterWorker({
-      onWorkerFailure: () => {
-        setErrorMessage('Worker crashed while processing image. Please retry.')
-      },
-    })
+  const recipeSourceRef = useRef<File | null>(null)
+  // Current look for callbacks that resume after an await, when the closure's copy may be stale.
+  const lookControlsRef = useRef(lookControls)
+  lookControlsRef.current = lookControls
+
+  const colorLutSettings = useMemo<ColorLutSettings | null>(
+    () => (colorLut ? { lut: colorLut, space: lutSpace, strength: lutStrength } : null),
+    [colorLut, lutSpace, lutStrength],
+  )
+  // The identity curve is left out of requests entirely.
+  const activeToneCurve = useMemo(() => (isDefaultToneCurve(toneCurve) ? null : toneCurve), [toneCurve])
+  const activeCaption = useMemo(() => (isCaptionActive(caption) ? caption : null), [caption])
+
+  const {
+    runWorkerConvert,
+    runWorkerPreview,
+    runWorkerAnalyze,
+    cancelActivePreview,
+    cancelActiveConvert,
+    cancelActiveAnalyze,
+    allocateImageId,
+    isImageCached,
+    releaseImage,
+    shouldTryWorkerDecode,
+    markWorkerDecodeSupport,
+    teardownWorker,
+  } = useConverterWorker({
+    onWorkerFailure: () => {
+      setErrorMessage('Worker crashed while processing image. Please retry.')
+    },
+  })
 
   const worker = useMemo(
     () => ({
       runWorkerConvert,
       runWorkerPreview,
+      runWorkerAnalyze,
+      isImageCached,
       shouldTryWorkerDecode,
       markWorkerDecodeSupport,
     }),
-    [markWorkerDecodeSupport, runWorkerConvert, runWorkerPreview, shouldTryWorkerDecode],
+    [isImageCached, markWorkerDecodeSupport, runWorkerAnalyze, runWorkerConvert, runWorkerPreview, shouldTryWorkerDecode],
   )
 
   const clearPreviewDebounce = useCallback(() => {
@@ -187,7 +266,18 @@ export function useConversionSession() {
           image: currentImage,
           boost,
           lookControls,
+          alpha,
+          transferFunction,
+          upConversion,
+          targetPeakNits,
+          gamutMapping,
+          gamutVolume,
+          fallBudgetNits,
+          colorLut: colorLutSettings,
+          toneCurve: activeToneCurve,
+          caption: activeCaption,
           hdrPreviewEnabled,
+          falseColor,
           worker,
           decodePixelsOnMainThread: () => decodePixelsOnMainThread(currentImage),
         })
@@ -196,6 +286,8 @@ export function useConversionSession() {
           setHdrPreviewEnabled(response.hdrPreviewEnabled)
         }
         drawPreview(response.result)
+        setAblReport(response.result.abl ?? null)
+        setScopes(response.result.scopes)
       } catch (error) {
         const message = getWorkerErrorMessage(error).toLowerCase()
         if (!message.includes('cancelled')) {
@@ -205,7 +297,25 @@ export function useConversionSession() {
         setPreviewPending(false)
       }
     },
-    [boost, decodePixelsOnMainThread, drawPreview, hdrPreviewEnabled, lookControls, worker],
+    [
+      activeCaption,
+      activeToneCurve,
+      alpha,
+      boost,
+      colorLutSettings,
+      decodePixelsOnMainThread,
+      drawPreview,
+      falseColor,
+      fallBudgetNits,
+      gamutMapping,
+      gamutVolume,
+      hdrPreviewEnabled,
+      lookControls,
+      targetPeakNits,
+      transferFunction,
+      upConversion,
+      worker,
+    ],
   )
 
   const loadImage = useCallback(
@@ -214,20 +324,36 @@ export function useConversionSession() {
 
       setErrorMessage(null)
       cancelActivePreview()
+      cancelActiveAnalyze()
       clearPreviewDebounce()
       setPreviewPending(false)
       clearPreviewOutput()
+      setPendingRecipe(null)
+      setScopes(null)
+      setLookUndoStack([])
+
+      if (image) {
+        URL.revokeObjectURL(image.src)
+        releaseImage(image.imageId)
+      }
 
-      if (image?.src) URL.revokeObjectURL(image.src)
+      // A Supernova export carries the settings it was made with; offer them
+      // once the file has been read, unless another image replaced it first.
+      recipeSourceRef.current = file
+      void readRecipeFromFile(file)
+        .then((recipe) => {
+          if (recipe && recipeSourceRef.current === file) setPendingRecipe(recipe)
+        })
+        .catch(() => {})
 
       const url = URL.createObjectURL(file)
       const img = new Image()
       img.onload = () => {
-        setImage({ src: url, name: file.name, width: img.width, height: img.height, file, el: img })
+        setImage({ src: url, name: file.name, width: img.width, height: img.height, file, el: img, imageId: allocateImageId() })
       }
       img.src = url
     },
-    [cancelActivePreview, clearPreviewDebounce, clearPreviewOutput, image],
+    [allocateImageId, cancelActiveAnalyze, cancelActivePreview, clearPreviewDebounce, clearPreviewOutput, image, releaseImage],
   )
 
   const handleDrop = useCallback(
@@ -262,19 +388,107 @@ export function useConversionSession() {
   }, [])
 
   const reset = useCallback(() => {
-    if (image?.src) URL.revokeObjectURL(image.src)
+    if (image) {
+      URL.revokeObjectURL(image.src)
+      releaseImage(image.imageId)
+    }
     cancelActivePreview()
+    cancelActiveAnalyze()
     clearPreviewDebounce()
     setPreviewPending(false)
     clearPreviewOutput()
     setErrorMessage(null)
+    recipeSourceRef.current = null
+    setPendingRecipe(null)
+    setAblReport(null)
+    setScopes(null)
+    setLookUndoStack([])
     setImage(null)
-  }, [cancelActivePreview, clearPreviewDebounce, clearPreviewOutput, image])
+  }, [cancelActiveAnalyze, cancelActivePreview, clearPreviewDebounce, clearPreviewOutput, image, releaseImage])
 
   const setLookControl = useCallback((key: keyof LookControls, value: number) => {
     setLookControls((previous) => ({ ...previous, [key]: value }))
   }, [])
 
+  // Analyzes the source in the worker and applies its suggestion over the
+  // current look, keeping the look it replaced for `undoAutoLook`.
+  const applyAutoLook = useCallback(async () => {
+    if (!image) return
+
+    setAutoLookPending(true)
+    setErrorMessage(null)
+    try {
+      const { suggestion } = await requestImageAnalysis({
+        image,
+        worker,
+        decodePixelsOnMainThread: () => decodePixelsOnMainThread(image),
+      })
+      const previous = lookControlsRef.current
+      setLookUndoStack((stack) => [...stack.slice(1 - LOOK_UNDO_LIMIT), previous])
+      setLookControls({ ...previous, ...suggestion })
+    } catch (error) {
+      if (!isCancelledRequestError(error)) setErrorMessage(buildUserFacingError(error))
+    } finally {
+      setAutoLookPending(false)
+    }
+  }, [decodePixelsOnMainThread, image, worker])
+
+  const undoAutoLook = useCallback(() => {
+    const previous = lookUndoStack[lookUndoStack.length - 1]
+    if (!previous) return
+    setLookUndoStack(lookUndoStack.slice(0, -1))
+    setLookControls(previous)
+  }, [lookUndoStack])
+
+  const setCurvePoints = useCallback((channel: CurveChannel, points: CurvePoint[]) => {
+    setToneCurve((previous) => ({ ...previous, [channel]: points }))
+  }, [])
+
+  const resetToneCurve = useCallback(() => {
+    setToneCurve(DEFAULT_TONE_CURVE)
+  }, [])
+
+  const restoreRecipe = useCallback(() => {
+    if (!pendingRecipe) return
+    setBoost(pendingRecipe.boost)
+    setLookControls(pendingRecipe.lookControls)
+    setToneCurve(pendingRecipe.toneCurve ?? DEFAULT_TONE_CURVE)
+    setLookUndoStack([])
+    setPendingRecipe(null)
+  }, [pendingRecipe])
+
+  const dismissRecipe = useCallback(() => {
+    setPendingRecipe(null)
+  }, [])
+
+  const loadColorLut = useCallback(async (file: File) => {
+    try {
+      const lut = parseCubeLut(await file.text())
+      setColorLut(lut)
+      setColorLutName(lut.title || file.name.replace(/\.cube$/i, ''))
+      setErrorMessage(null)
+    } catch (error) {
+      setErrorMessage(`Could not load ${file.name}: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }, [])
+
+  const clearColorLut = useCallback(() => {
+    setColorLut(null)
+    setColorLutName(null)
+  }, [])
+
+  const setCaption = useCallback((update: Partial<CaptionSettings>) => {
+    setCaptionState((previous) => ({ ...previous, ...update }))
+  }, [])
+
+  const setAlphaMode = useCallback((alphaMode: AlphaMode) => {
+    setAlpha((previous) => ({ ...previous, alphaMode }))
+  }, [])
+
+  const setFlattenColor = useCallback((flattenColor: string) => {
+    setAlpha((previous) => ({ ...previous, flattenColor }))
+  }, [])
+
   useEffect(() => {
     if (!image || processing) return
 
@@ -290,6 +504,7 @@ export function useConversionSession() {
     if (!image) return
 
     setProcessing(true)
+    setExportProgress(null)
     setErrorMessage(null)
     cancelActivePreview()
     clearPreviewDebounce()
@@ -299,9 +514,21 @@ export function useConversionSession() {
         image,
         boost,
         lookControls,
+        alpha,
+        transferFunction,
+        upConversion,
+        targetPeakNits,
+        gamutMapping,
+        gamutVolume,
+        fallBudgetNits,
+        colorLut: colorLutSettings,
+        toneCurve: activeToneCurve,
+        caption: activeCaption,
+        outputFormat: exportFormat,
         collectStats: import.meta.env.DEV,
         worker,
         decodePixelsOnMainThread: () => decodePixelsOnMainThread(image),
+        onProgress: setExportProgress,
       })
 
       if (import.meta.env.DEV && result.stats) {
@@ -317,37 +544,107 @@ export function useConversionSession() {
         })
       }
 
-      triggerPngDownload(result.pngData, image.name)
+      setAblReport(result.abl ?? null)
+      triggerDownload(result.fileData, result.format, image.name)
 
       setDownloaded(true)
       window.setTimeout(() => setDownloaded(false), 2500)
     } catch (error) {
-      setErrorMessage(buildUserFacingError(error))
+      if (!isCancelledRequestError(error)) setErrorMessage(buildUserFacingError(error))
     } finally {
       setProcessing(false)
+      setExportProgress(null)
     }
-  }, [boost, cancelActivePreview, clearPreviewDebounce, decodePixelsOnMainThread, image, lookControls, worker])
+  }, [
+    activeCaption,
+    activeToneCurve,
+    alpha,
+    boost,
+    cancelActivePreview,
+    clearPreviewDebounce,
+    colorLutSettings,
+    decodePixelsOnMainThread,
+    exportFormat,
+    fallBudgetNits,
+    gamutMapping,
+    gamutVolume,
+    image,
+    lookControls,
+    targetPeakNits,
+    transferFunction,
+    upConversion,
+    worker,
+  ])
+
+  // Rejects the pending export, so `convert` skips the download and clears
+  // `processing` from its own finally block.
+  const cancelConvert = useCallback(() => {
+    cancelActiveConvert()
+  }, [cancelActiveConvert])
 
   return {
     image,
     boost,
     lookControls,
+    canUndoAutoLook: lookUndoStack.length > 0,
+    autoLookPending,
+    toneCurve,
+    alphaMode: alpha.alphaMode,
+    flattenColor: alpha.flattenColor,
+    transferFunction,
+    upConversion,
+    targetPeakNits,
+    gamutMapping,
+    gamutVolume,
+    fallBudgetNits,
+    ablReport,
+    scopes,
+    colorLutName,
+    lutSpace,
+    lutStrength,
+    caption,
+    exportFormat,
     processing,
+    exportProgress,
     downloaded,
     dragover,
     previewPending,
     previewReady,
     previewImageSrc,
     hdrPreviewEnabled,
+    falseColor,
     errorMessage,
+    pendingRecipe,
     decodeCanvasRef,
     previewCanvasRef,
     fileInputRef,
     setBoost,
     setLookControl,
+    applyAutoLook,
+    undoAutoLook,
+    setCurvePoints,
+    resetToneCurve,
+    setAlphaMode,
+    setFlattenColor,
+    setTransferFunction,
+    setUpConversion,
+    setTargetPeakNits,
+    setGamutMapping,
+    setGamutVolume,
+    setFallBudgetNits,
+    loadColorLut,
+    clearColorLut,
+    setLutSpace,
+    setLutStrength,
+    setCaption,
+    setExportFormat,
+    setFalseColor,
+    restoreRecipe,
+    dismissRecipe,
     loadImage,
     reset,
     convert,
+    cancelConvert,
     handleDrop,
     handleDragOver,
     handleDragLeave,
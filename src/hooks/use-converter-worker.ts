@@ -1,5 +1,8 @@
 import { useCallback, useEffect, useRef } from 'preact/hooks'
+import type { ExportProgress } from '../lib/export-progress'
 import type {
+  WorkerAnalyzeRequest,
+  WorkerAnalyzeSuccessResponse,
   WorkerConvertRequest,
   WorkerPreviewRequest,
   WorkerPreviewSuccessResponse,
@@ -7,21 +10,36 @@ import type {
   WorkerSuccessResponse,
 } from '../lib/worker-protocol'
 
-type PendingRequestKind = 'convert' | 'preview'
+type PendingRequestKind = 'convert' | 'preview' | 'analyze'
+
+type SuccessResponse = WorkerSuccessResponse | WorkerPreviewSuccessResponse | WorkerAnalyzeSuccessResponse
+
+// The terminal message type each kind of request is answered with.
+const RESPONSE_TYPES = {
+  convert: 'result',
+  preview: 'preview-result',
+  analyze: 'analyze-result',
+} as const satisfies Record<PendingRequestKind, WorkerResponseMessage['type']>
 
 interface PendingRequest {
   kind: PendingRequestKind
-  resolve: (value: WorkerSuccessResponse | WorkerPreviewSuccessResponse) => void
+  resolve: (value: SuccessResponse) => void
   reject: (error: Error) => void
   timeout: number
+  restartTimeout: () => void
+  onProgress?: (progress: ExportProgress) => void
+  imageId?: number
 }
 
 interface UseConverterWorkerOptions {
+  /** How long a request may go without any message from the worker before it fails. */
   timeoutMs?: number
   onWorkerFailure?: (error: Error) => void
 }
 
-const DEFAULT_REQUEST_TIMEOUT_MS = 30_000
+// An inactivity limit rather than a total one: progress messages restart it,
+// so slow machines can finish long exports.
+const DEFAULT_INACTIVITY_TIMEOUT_MS = 30_000
 
 function createTimedError(message: string, code: string): Error {
   const error = new Error(message) as Error & { code?: string }
@@ -40,15 +58,18 @@ export function getWorkerErrorMessage(error: unknown): string {
 }
 
 export function useConverterWorker(options: UseConverterWorkerOptions = {}) {
-  const timeoutMs = options.timeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS
+  const timeoutMs = options.timeoutMs ?? DEFAULT_INACTIVITY_TIMEOUT_MS
 
   const workerRef = useRef<Worker | null>(null)
   const onWorkerFailureRef = useRef(options.onWorkerFailure)
   const nextRequestIdRef = useRef(1)
-  const activeConvertRequestIdRef = useRef<number | null>(null)
-  const activePreviewRequestIdRef = useRef<number | null>(null)
+  // At most one request of each kind is in flight; a new one supersedes it.
+  const activeRequestIdsRef = useRef<Record<PendingRequestKind, number | null>>({ convert: null, preview: null, analyze: null })
   const workerDecodeSupportRef = useRef<boolean | null>(null)
   const pendingRef = useRef(new Map<number, PendingRequest>())
+  const nextImageIdRef = useRef(1)
+  // Allocated image ids → whether the current worker has confirmed it holds the decoded source.
+  const imageCacheRef = useRef(new Map<number, boolean>())
 
   useEffect(() => {
     onWorkerFailureRef.current = options.onWorkerFailure
@@ -59,7 +80,7 @@ export function useConverterWorker(options: UseConverterWorkerOptions = {}) {
     if (!pending) return
     window.clearTimeout(pending.timeout)
     pendingRef.current.delete(id)
-    pending.reject(new Error(reason))
+    pending.reject(createTimedError(reason, 'CANCELLED'))
   }, [])
 
   const clearPendingById = useCallback((id: number) => {
@@ -76,9 +97,9 @@ export function useConverterWorker(options: UseConverterWorkerOptions = {}) {
       pending.reject(createTimedError(`Worker terminated before request ${id} completed`, 'INTERNAL'))
     }
     pendingRef.current.clear()
+    for (const imageId of imageCacheRef.current.keys()) imageCacheRef.current.set(imageId, false)
 
-    activeConvertRequestIdRef.current = null
-    activePreviewRequestIdRef.current = null
+    activeRequestIdsRef.current = { convert: null, preview: null, analyze: null }
     workerRef.current?.terminate()
     workerRef.current = null
   }, [])
@@ -92,27 +113,30 @@ export function useConverterWorker(options: UseConverterWorkerOptions = {}) {
       const message = event.data
       if (!message) return
 
+      if (message.type === 'progress') {
+        const pending = pendingRef.current.get(message.id)
+        if (!pending) return
+        pending.restartTimeout()
+        pending.onProgress?.({ stage: message.stage, fraction: message.fraction })
+        return
+      }
+
       const pending = clearPendingById(message.id)
       if (!pending) return
 
-      if (pending.kind === 'convert' && activeConvertRequestIdRef.current === message.id) {
-        activeConvertRequestIdRef.current = null
-      }
-      if (pending.kind === 'preview' && activePreviewRequestIdRef.current === message.id) {
-        activePreviewRequestIdRef.current = null
-      }
+      const activeRequestIds = activeRequestIdsRef.current
+      if (activeRequestIds[pending.kind] === message.id) activeRequestIds[pending.kind] = null
 
-      if (pending.kind === 'convert' && message.type !== 'result') {
-        pending.reject(new Error('Worker responded with mismatched message type for convert request'))
-        return
-      }
-      if (pending.kind === 'preview' && message.type !== 'preview-result') {
-        pending.reject(new Error('Worker responded with mismatched message type for preview request'))
+      if (message.type !== RESPONSE_TYPES[pending.kind]) {
+        pending.reject(new Error(`Worker responded with mismatched message type for ${pending.kind} request`))
         return
       }
 
       if (message.ok) {
-        pending.resolve(message as WorkerSuccessResponse | WorkerPreviewSuccessResponse)
+        if (pending.imageId !== undefined && imageCacheRef.current.has(pending.imageId)) {
+          imageCacheRef.current.set(pending.imageId, true)
+        }
+        pending.resolve(message)
         return
       }
 
@@ -131,50 +155,62 @@ export function useConverterWorker(options: UseConverterWorkerOptions = {}) {
   }, [clearPendingById, teardownWorker])
 
   const submitRequest = useCallback(
-    <TResponse extends WorkerSuccessResponse | WorkerPreviewSuccessResponse>(
+    <TResponse extends SuccessResponse>(
       kind: PendingRequestKind,
-      payload: Omit<WorkerConvertRequest, 'type' | 'id'> | Omit<WorkerPreviewRequest, 'type' | 'id'>,
+      payload:
+        | Omit<WorkerConvertRequest, 'type' | 'id'>
+        | Omit<WorkerPreviewRequest, 'type' | 'id'>
+        | Omit<WorkerAnalyzeRequest, 'type' | 'id'>,
       transfer: Transferable[] = [],
+      onProgress?: (progress: ExportProgress) => void,
     ): Promise<TResponse> => {
       const worker = getWorker()
       const id = nextRequestIdRef.current++
 
-      const activeId = kind === 'convert' ? activeConvertRequestIdRef.current : activePreviewRequestIdRef.current
+      const activeRequestIds = activeRequestIdsRef.current
+      const activeId = activeRequestIds[kind]
       if (activeId !== null) {
         worker.postMessage({ type: 'cancel', id: activeId })
         cancelPendingById(activeId, `Previous ${kind} request cancelled`)
       }
 
-      if (kind === 'convert') activeConvertRequestIdRef.current = id
-      else activePreviewRequestIdRef.current = id
+      activeRequestIds[kind] = id
 
       return new Promise<TResponse>((resolve, reject) => {
-        const timeout = window.setTimeout(() => {
+        const onTimeout = () => {
           worker.postMessage({ type: 'cancel', id })
           const pending = clearPendingById(id)
           if (!pending) return
-          if (kind === 'convert' && activeConvertRequestIdRef.current === id) activeConvertRequestIdRef.current = null
-          if (kind === 'preview' && activePreviewRequestIdRef.current === id) activePreviewRequestIdRef.current = null
+          if (activeRequestIdsRef.current[kind] === id) activeRequestIdsRef.current[kind] = null
           reject(createTimedError(`Worker ${kind} request timed out`, 'INTERNAL'))
-        }, timeoutMs)
+        }
 
-        pendingRef.current.set(id, {
+        const pending: PendingRequest = {
           kind,
-          resolve: resolve as (value: WorkerSuccessResponse | WorkerPreviewSuccessResponse) => void,
+          resolve: resolve as (value: SuccessResponse) => void,
           reject,
-          timeout,
-        })
-
-        const type = kind === 'convert' ? 'convert' : 'preview'
-        worker.postMessage({ type, id, ...payload }, transfer)
+          timeout: window.setTimeout(onTimeout, timeoutMs),
+          restartTimeout: () => {
+            window.clearTimeout(pending.timeout)
+            pending.timeout = window.setTimeout(onTimeout, timeoutMs)
+          },
+          ...(onProgress ? { onProgress } : {}),
+          ...(payload.imageId !== undefined ? { imageId: payload.imageId } : {}),
+        }
+        pendingRef.current.set(id, pending)
+
+        worker.postMessage({ type: kind, id, ...payload }, transfer)
       })
     },
     [cancelPendingById, clearPendingById, getWorker, timeoutMs],
   )
 
   const runWorkerConvert = useCallback(
-    (payload: Omit<WorkerConvertRequest, 'type' | 'id'>, transfer: Transferable[] = []): Promise<WorkerSuccessResponse> =>
-      submitRequest<WorkerSuccessResponse>('convert', payload, transfer),
+    (
+      payload: Omit<WorkerConvertRequest, 'type' | 'id'>,
+      transfer: Transferable[] = [],
+      onProgress?: (progress: ExportProgress) => void,
+    ): Promise<WorkerSuccessResponse> => submitRequest<WorkerSuccessResponse>('convert', payload, transfer, onProgress),
     [submitRequest],
   )
 
@@ -184,25 +220,45 @@ export function useConverterWorker(options: UseConverterWorkerOptions = {}) {
     [submitRequest],
   )
 
-  const cancelActivePreview = useCallback(() => {
-    const activeId = activePreviewRequestIdRef.current
-    const worker = workerRef.current
-    if (activeId === null || !worker) return
+  const runWorkerAnalyze = useCallback(
+    (payload: Omit<WorkerAnalyzeRequest, 'type' | 'id'>, transfer: Transferable[] = []): Promise<WorkerAnalyzeSuccessResponse> =>
+      submitRequest<WorkerAnalyzeSuccessResponse>('analyze', payload, transfer),
+    [submitRequest],
+  )
+
+  const cancelActive = useCallback(
+    (kind: PendingRequestKind, reason: string) => {
+      const activeId = activeRequestIdsRef.current[kind]
+      const worker = workerRef.current
+      if (activeId === null || !worker) return
+
+      worker.postMessage({ type: 'cancel', id: activeId })
+      cancelPendingById(activeId, reason)
+      activeRequestIdsRef.current[kind] = null
+    },
+    [cancelPendingById],
+  )
+
+  const cancelActivePreview = useCallback(() => cancelActive('preview', 'Preview request cancelled'), [cancelActive])
 
-    worker.postMessage({ type: 'cancel', id: activeId })
-    cancelPendingById(activeId, 'Preview request cancelled')
-    activePreviewRequestIdRef.current = null
-  }, [cancelPendingById])
+  const cancelActiveConvert = useCallback(() => cancelActive('convert', 'Convert request cancelled'), [cancelActive])
 
-  const cancelActiveConvert = useCallback(() => {
-    const activeId = activeConvertRequestIdRef.current
-    const worker = workerRef.current
-    if (activeId === null || !worker) return
+  const cancelActiveAnalyze = useCallback(() => cancelActive('analyze', 'Analyze request cancelled'), [cancelActive])
 
-    worker.postMessage({ type: 'cancel', id: activeId })
-    cancelPendingById(activeId, 'Convert request cancelled')
-    activeConvertRequestIdRef.current = null
-  }, [cancelPendingById])
+  const allocateImageId = useCallback((): number => {
+    const imageId = nextImageIdRef.current++
+    imageCacheRef.current.set(imageId, false)
+    return imageId
+  }, [])
+
+  const isImageCached = useCallback((imageId: number): boolean => {
+    return imageCacheRef.current.get(imageId) === true
+  }, [])
+
+  const releaseImage = useCallback((imageId: number) => {
+    if (!imageCacheRef.current.delete(imageId)) return
+    workerRef.current?.postMessage({ type: 'release', imageId })
+  }, [])
 
   const shouldTryWorkerDecode = useCallback((hasFile: boolean): boolean => {
     return hasFile && workerDecodeSupportRef.current !== false
@@ -219,8 +275,13 @@ export function useConverterWorker(options: UseConverterWorkerOptions = {}) {
   return {
     runWorkerConvert,
     runWorkerPreview,
+    runWorkerAnalyze,
     cancelActivePreview,
     cancelActiveConvert,
+    cancelActiveAnalyze,
+    allocateImageId,
+    isImageCached,
+    releaseImage,
     shouldTryWorkerDecode,
     markWorkerDecodeSupport,
     teardownWorker,
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import { ablGainAt, planAblGrid, solveAblLimiter, type BlockLightLevels } from './abl-limiter'
+
+function levels(means: number[], gridWidth = means.length, block = 10): BlockLightLevels {
+  return {
+    gridWidth,
+    gridHeight: means.length / gridWidth,
+    blockWidth: block,
+    blockHeight: block,
+    means: Float64Array.from(means),
+    weights: new Float64Array(means.length).fill(block * block),
+  }
+}
+
+describe('planAblGrid', () => {
+  it('sizes blocks from the long edge and samples a fraction of each', () => {
+    expect(planAblGrid(4800, 3200)).toEqual({ blockWidth: 100, blockHeight: 100, stride: 12 })
+    expect(planAblGrid(3, 2)).toEqual({ blockWidth: 1, blockHeight: 1, stride: 1 })
+  })
+})
+
+describe('solveAblLimiter', () => {
+  it('leaves frames within budget alone', () => {
+    const { limiter, report } = solveAblLimiter(levels([100, 200, 150]), 250)
+    expect(limiter).toBeNull()
+    expect(report).toEqual({ budgetNits: 250, fallBeforeNits: 150, fallAfterNits: 150, limitedFraction: 0, maxReduction: 0 })
+  })
+
+  it('brings the frame average down to the budget by compressing only bright blocks', () => {
+    const { limiter, report } = solveAblLimiter(levels([100, 100, 900, 500]), 250)
+    const gains = Array.from(limiter!.gains)
+    expect(gains[0]).toBe(1)
+    expect(gains[1]).toBe(1)
+    const after = [100, 100, 900, 500].reduce((sum, mean, i) => sum + mean * gains[i]!, 0) / 4
+    expect(after).toBeCloseTo(250, 3)
+    expect(report.fallBeforeNits).toBe(400)
+    expect(report.limitedFraction).toBe(0.5)
+    // The brightest block gives up the most.
+    expect(gains[2]!).toBeLessThan(gains[3]!)
+    expect(report.maxReduction).toBeCloseTo(1 - gains[2]!, 6)
+  })
+
+  it('keeps every limited block at or above the budget', () => {
+    const { limiter } = solveAblLimiter(levels([50, 300, 1200, 4000]), 400)
+    const means = [50, 300, 1200, 4000]
+    means.forEach((mean, i) => {
+      if (mean > 400) expect(mean * limiter!.gains[i]!).toBeGreaterThanOrEqual(400 - 1e-3)
+    })
+  })
+})
+
+describe('ablGainAt', () => {
+  it('interpolates between block centers and honours the strip row offset', () => {
+    const { limiter } = solveAblLimiter(levels([100, 1000], 1), 400)
+    const top = limiter!.gains[0]!
+    const bottom = limiter!.gains[1]!
+    expect(ablGainAt(limiter!, 0, 4.5)).toBeCloseTo(top, 6)
+    expect(ablGainAt(limiter!, 0, 14.5)).toBeCloseTo(bottom, 6)
+    expect(ablGainAt(limiter!, 0, 9.5)).toBeCloseTo((top + bottom) / 2, 6)
+    expect(ablGainAt({ ...limiter!, rowOffset: 10 }, 0, 4.5)).toBeCloseTo(bottom, 6)
+  })
+})
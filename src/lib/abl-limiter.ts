@@ -0,0 +1,155 @@
+/**
+ * Average picture level (ABL) limiter
+ *
+ * OLED panels dim the whole screen once too much of it is bright, so an
+ * export whose frame-average light level (MaxFALL) exceeds the panel's
+ * budget looks dimmer than a gentler grade. The limiter works on a coarse
+ * grid of blocks: each block's mean light level is measured after grading,
+ * blocks brighter than the budget are compressed toward it just enough for
+ * the frame average to meet the budget, and the per-block gains are
+ * interpolated back across the image. A small specular peak barely moves
+ * its block's mean, so it keeps its full brightness; broad bright areas are
+ * what get scaled back.
+ */
+
+import { PQ_MAX_NITS } from './hdr-boost'
+
+export interface AblLimiter {
+  gridWidth: number
+  gridHeight: number
+  blockWidth: number
+  blockHeight: number
+  /** Per-block gains, row-major, each in (0, 1]. */
+  gains: Float32Array
+  /** Image row of the first row being processed; non-zero for export strips. */
+  rowOffset: number
+}
+
+/** How much the limiter intervened, for the UI. */
+export interface AblReport {
+  budgetNits: number
+  /** Frame-average light level the grade would have had without the limiter. */
+  fallBeforeNits: number
+  /** Frame-average light level after limiting. */
+  fallAfterNits: number
+  /** Share of the frame (0–1) that was dimmed. */
+  limitedFraction: number
+  /** Largest reduction applied anywhere (0–1; 0.4 means a block kept 60%). */
+  maxReduction: number
+}
+
+export interface BlockLightLevels {
+  gridWidth: number
+  gridHeight: number
+  blockWidth: number
+  blockHeight: number
+  /** Mean max-channel light per block, in nits. */
+  means: Float64Array
+  /** Pixels covered by each block (edge blocks can be smaller). */
+  weights: Float64Array
+}
+
+export interface FallBudgetPreset {
+  nits: number
+  label: string
+  description: string
+}
+
+export const FALL_BUDGET_PRESETS: readonly FallBudgetPreset[] = [
+  { nits: 150, label: '150', description: 'OLED TVs' },
+  { nits: 250, label: '250', description: 'OLED monitors and laptops' },
+  { nits: 400, label: '400', description: 'OLED phones' },
+]
+
+export const FALL_BUDGET_MIN_NITS = 50
+export const FALL_BUDGET_MAX_NITS = PQ_MAX_NITS
+
+// Blocks along the long edge: coarse enough that a highlight is a small part of its block.
+const GRID_LONG_EDGE = 48
+// Samples per block edge when measuring; the mean needs far fewer than every pixel.
+const SAMPLES_PER_BLOCK_EDGE = 8
+const LIMITED_GAIN_THRESHOLD = 0.995
+
+/** Block layout for an image, and the sampling stride to measure it with. */
+export function planAblGrid(width: number, height: number): { blockWidth: number; blockHeight: number; stride: number } {
+  const block = Math.max(1, Math.ceil(Math.max(width, height) / GRID_LONG_EDGE))
+  return { blockWidth: block, blockHeight: block, stride: Math.max(1, Math.floor(block / SAMPLES_PER_BLOCK_EDGE)) }
+}
+
+/**
+ * Solve per-block gains so the pixel-weighted mean meets `budgetNits`.
+ * Blocks at or under the budget keep gain 1; the excess of brighter blocks
+ * is scaled by one shared factor, found in closed form because the frame
+ * mean is linear in it. Returns a null limiter when the frame is already
+ * within budget.
+ */
+export function solveAblLimiter(levels: BlockLightLevels, budgetNits: number): { limiter: AblLimiter | null; report: AblReport } {
+  const { means, weights } = levels
+  let total = 0
+  let underSum = 0
+  let excessSum = 0
+  for (let b = 0; b < means.length; b++) {
+    const mean = means[b] ?? 0
+    const weight = weights[b] ?? 0
+    total += weight
+    underSum += weight * Math.min(mean, budgetNits)
+    excessSum += weight * Math.max(0, mean - budgetNits)
+  }
+
+  const fallBefore = total > 0 ? (underSum + excessSum) / total : 0
+  if (fallBefore <= budgetNits || excessSum <= 0) {
+    return {
+      limiter: null,
+      report: { budgetNits, fallBeforeNits: fallBefore, fallAfterNits: fallBefore, limitedFraction: 0, maxReduction: 0 },
+    }
+  }
+
+  const excessScale = (budgetNits * total - underSum) / excessSum
+  const gains = new Float32Array(means.length)
+  let limitedWeight = 0
+  let minGain = 1
+  for (let b = 0; b < means.length; b++) {
+    const mean = means[b] ?? 0
+    const gain = mean > budgetNits ? (budgetNits + (mean - budgetNits) * excessScale) / mean : 1
+    gains[b] = gain
+    if (gain < LIMITED_GAIN_THRESHOLD) limitedWeight += weights[b] ?? 0
+    if (gain < minGain) minGain = gain
+  }
+
+  return {
+    limiter: {
+      gridWidth: levels.gridWidth,
+      gridHeight: levels.gridHeight,
+      blockWidth: levels.blockWidth,
+      blockHeight: levels.blockHeight,
+      gains,
+      rowOffset: 0,
+    },
+    report: {
+      budgetNits,
+      fallBeforeNits: fallBefore,
+      fallAfterNits: budgetNits,
+      limitedFraction: limitedWeight / total,
+      maxReduction: 1 - minGain,
+    },
+  }
+}
+
+/**
+ * Gain for pixel (x, y) of the processed rows, bilinearly interpolated
+ * between block centers so block edges never show.
+ */
+export function ablGainAt(limiter: AblLimiter, x: number, y: number): number {
+  const { gridWidth, gridHeight, gains } = limiter
+  const gx = Math.min(Math.max((x + 0.5) / limiter.blockWidth - 0.5, 0), gridWidth - 1)
+  const gy = Math.min(Math.max((y + limiter.rowOffset + 0.5) / limiter.blockHeight - 0.5, 0), gridHeight - 1)
+  const x0 = Math.floor(gx)
+  const y0 = Math.floor(gy)
+  const x1 = Math.min(x0 + 1, gridWidth - 1)
+  const y1 = Math.min(y0 + 1, gridHeight - 1)
+  const tx = gx - x0
+  const ty = gy - y0
+  const top = (gains[y0 * gridWidth + x0] ?? 1) * (1 - tx) + (gains[y0 * gridWidth + x1] ?? 1) * tx
+  const bottom = (gains[y1 * gridWidth + x0] ?? 1) * (1 - tx) + (gains[y1 * gridWidth + x1] ?? 1) * tx
+  return top * (1 - ty) + bottom * ty
+}
@@ -0,0 +1,51 @@
+/**
+ * Transparency handling for exports and previews.
+ *
+ * Decoded ImageData is straight (un-premultiplied) alpha, so color channels are
+ * graded exactly like opaque pixels and alpha is carried alongside them:
+ *   - keep:    export RGBA16 (PNG color type 6) with alpha widened 8 → 16 bit
+ *   - flatten: composite onto a solid color in linear light before grading and
+ *              export opaque RGB16
+ *
+ * Fully opaque sources always take the RGB16 path so existing output and file
+ * sizes don't change.
+ */
+
+export type AlphaMode = 'keep' | 'flatten'
+export type RGB8 = readonly [number, number, number]
+
+export type ProcessAlpha = { mode: 'keep' } | { mode: 'flatten'; background: RGB8 }
+
+export const ALPHA_MODES: readonly AlphaMode[] = ['keep', 'flatten']
+export const DEFAULT_ALPHA_MODE: AlphaMode = 'keep'
+export const DEFAULT_FLATTEN_COLOR = '#000000'
+
+const HEX_COLOR_PATTERN = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i
+
+export function isHexColor(value: unknown): value is string {
+  return typeof value === 'string' && HEX_COLOR_PATTERN.test(value)
+}
+
+export function parseHexColor(value: string): RGB8 {
+  const match = HEX_COLOR_PATTERN.exec(value)
+  if (!match) throw new Error(`Invalid hex color: ${value}`)
+  const [, r = '0', g = '0', b = '0'] = match
+  return [parseInt(r, 16), parseInt(g, 16), parseInt(b, 16)]
+}
+
+export function hasTransparentPixels(data: Uint8ClampedArray): boolean {
+  for (let i = 3; i < data.length; i += 4) {
+    if ((data[i] ?? 255) < 255) return true
+  }
+  return false
+}
+
+/**
+ * Resolve the per-request alpha mode against the decoded pixels. Returns
+ * undefined for opaque images (nothing to keep or flatten).
+ */
+export function resolveProcessAlpha(data: Uint8ClampedArray, alphaMode: AlphaMode, flattenColor: string): ProcessAlpha | undefined {
+  if (!hasTransparentPixels(data)) return undefined
+  if (alphaMode === 'flatten') return { mode: 'flatten', background: parseHexColor(flattenColor) }
+  return { mode: 'keep' }
+}
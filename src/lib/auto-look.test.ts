@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest'
+import { analyzeImage, histogramPercentile, suggestAutoLook, AUTO_LOOK_KEYS } from './auto-look'
+import { LOOK_CONTROL_RANGES } from './look-controls'
+
+const SIZE = 64
+
+/** RGBA image whose pixel at (x, y) comes from `pixel`. */
+function makeImage(pixel: (x: number, y: number) => [number, number, number, number?]) {
+  const data = new Uint8ClampedArray(SIZE * SIZE * 4)
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      const [r, g, b, a = 255] = pixel(x, y)
+      data.set([r, g, b, a], (y * SIZE + x) * 4)
+    }
+  }
+  return { data, width: SIZE, height: SIZE }
+}
+
+/** Neutral ramp from `low` to `high` across the frame, optionally tinted per channel. */
+function ramp(low: number, high: number, gains: [number, number, number] = [1, 1, 1]) {
+  return makeImage((x, y) => {
+    const value = low + ((high - low) * (y * SIZE + x)) / (SIZE * SIZE - 1)
+    return [value * gains[0], value * gains[1], value * gains[2]]
+  })
+}
+
+describe('analyzeImage', () => {
+  it('builds the luma histogram and clipping ratios', () => {
+    const analysis = analyzeImage(makeImage((x) => (x < 8 ? [0, 0, 0] : x < 16 ? [255, 255, 255] : [128, 128, 128])))
+    expect(analysis.sampleCount).toBe(SIZE * SIZE)
+    expect(analysis.histogram[0]).toBe(SIZE * 8)
+    expect(analysis.histogram[255]).toBe(SIZE * 8)
+    expect(analysis.shadowClipping).toBeCloseTo(0.125, 6)
+    expect(analysis.highlightClipping).toBeCloseTo(0.125, 6)
+    expect(analysis.meanSaturation).toBe(0)
+    expect(histogramPercentile(analysis.histogram, 0.5)).toBeCloseTo(128 / 255, 6)
+  })
+
+  it('skips transparent pixels', () => {
+    const analysis = analyzeImage(makeImage((x) => (x < 32 ? [255, 0, 0, 0] : [100, 100, 100])))
+    expect(analysis.sampleCount).toBe(SIZE * 32)
+    expect(analysis.meanSaturation).toBe(0)
+  })
+
+  it('measures a warm cast on neutral midtones', () => {
+    const analysis = analyzeImage(ramp(60, 200, [1.1, 1, 0.85]))
+    expect(analysis.warmth).toBeGreaterThan(0.3)
+    expect(Math.abs(analysis.greenness)).toBeLessThan(0.1)
+  })
+})
+
+describe('suggestAutoLook', () => {
+  it('leaves a well-exposed neutral frame close to the defaults', () => {
+    const suggestion = suggestAutoLook(analyzeImage(ramp(4, 250)))
+    expect(Math.abs(suggestion.exposure)).toBeLessThanOrEqual(0.3)
+    expect(Math.abs(suggestion.contrast - 1)).toBeLessThanOrEqual(0.1)
+    expect(suggestion.temperature).toBe(0)
+    expect(suggestion.tint).toBe(0)
+  })
+
+  it('brightens an underexposed frame without pushing it into clipping', () => {
+    const suggestion = suggestAutoLook(analyzeImage(ramp(2, 110)))
+    expect(suggestion.exposure).toBeGreaterThan(0.5)
+    expect(suggestion.whites).toBeGreaterThanOrEqual(0)
+  })
+
+  it('darkens an overexposed frame and pulls clipped whites back', () => {
+    const suggestion = suggestAutoLook(analyzeImage(ramp(120, 255 * 1.2)))
+    expect(suggestion.exposure).toBeLessThan(0)
+    expect(suggestion.whites).toBeLessThan(0)
+  })
+
+  it('adds contrast and deepens the blacks of a hazy frame', () => {
+    const suggestion = suggestAutoLook(analyzeImage(ramp(70, 180)))
+    expect(suggestion.contrast).toBeGreaterThan(1)
+    expect(suggestion.blacks).toBeLessThan(0)
+  })
+
+  it('cools a warm cast and adds magenta to a green one', () => {
+    expect(suggestAutoLook(analyzeImage(ramp(60, 200, [1.1, 1, 0.85]))).temperature).toBeLessThan(0)
+    // Positive tint lowers the green gain, toward magenta.
+    expect(suggestAutoLook(analyzeImage(ramp(60, 200, [0.92, 1, 0.92]))).tint).toBeGreaterThan(0)
+  })
+
+  it('corrects the cast of a strongly colored frame less', () => {
+    const muted = suggestAutoLook(analyzeImage(ramp(60, 200, [1.1, 1, 0.85])))
+    const vivid = analyzeImage(ramp(60, 200, [1.1, 1, 0.85]))
+    const vividSuggestion = suggestAutoLook({ ...vivid, meanSaturation: 0.5 })
+    expect(Math.abs(vividSuggestion.temperature)).toBeLessThan(Math.abs(muted.temperature))
+  })
+
+  it('stays within the control ranges on their steps', () => {
+    const extreme = suggestAutoLook({ ...analyzeImage(ramp(0, 20, [1, 0.3, 0.1])), warmth: 4, greenness: -3 })
+    for (const key of AUTO_LOOK_KEYS) {
+      const { min, max, step } = LOOK_CONTROL_RANGES[key]
+      expect(extreme[key]).toBeGreaterThanOrEqual(min)
+      expect(extreme[key]).toBeLessThanOrEqual(max)
+      expect(Math.abs(extreme[key] / step - Math.round(extreme[key] / step))).toBeLessThan(1e-6)
+    }
+  })
+
+  it('keeps the defaults for an image with no opaque pixels', () => {
+    const suggestion = suggestAutoLook(analyzeImage(makeImage(() => [10, 10, 10, 0])))
+    for (const key of AUTO_LOOK_KEYS) expect(suggestion[key]).toBe(LOOK_CONTROL_RANGES[key].defaultValue)
+  })
+})
@@ -0,0 +1,208 @@
+/**
+ * Histogram-driven Auto look.
+ *
+ * `analyzeImage` measures the decoded 8-bit source: a luma histogram, how
+ * much of the frame is crushed or clipped, the mean saturation, and the cast
+ * of near-neutral midtones. `suggestAutoLook` turns that into exposure,
+ * contrast, blacks, whites, temperature and tint values snapped to
+ * `LOOK_CONTROL_RANGES`.
+ *
+ * The suggestions are deliberately partial corrections: a starting point
+ * that leaves room for the user's intent, not a normalization. Strongly
+ * colored frames (a sunset, a neon street) get less cast correction, since
+ * their dominant color is usually the subject rather than a white balance
+ * error.
+ */
+
+import { srgbEncode, srgbEOTF } from './pq-transfer'
+import { LOOK_CONTROL_RANGES, type LookControls } from './look-controls'
+import { clamp } from './bt2020-grading'
+
+export const AUTO_LOOK_KEYS = ['exposure', 'contrast', 'blacks', 'whites', 'temperature', 'tint'] as const
+export type AutoLookKey = (typeof AUTO_LOOK_KEYS)[number]
+export type AutoLook = Pick<LookControls, AutoLookKey>
+
+export interface ImageAnalysis {
+  /** Rec.709 luma of the sampled pixels in 256 bins over the encoded 0–255 range. */
+  histogram: Uint32Array
+  /** Opaque pixels that were sampled. */
+  sampleCount: number
+  /** Fraction of samples crushed to black. */
+  shadowClipping: number
+  /** Fraction of samples with a channel at full scale. */
+  highlightClipping: number
+  /** Mean HSV-style saturation, 0–1. */
+  meanSaturation: number
+  /** Cast of near-neutral midtones in linear light: ln(R/B), positive when warm. */
+  warmth: number
+  /** ln(G / √(R·B)) over the same pixels, positive when green. */
+  greenness: number
+}
+
+export interface AnalyzeImageInput {
+  data: Uint8ClampedArray
+  width: number
+  height: number
+}
+
+// Roughly a quarter-megapixel sample, enough for stable percentiles.
+const TARGET_SAMPLES = 262_144
+// Alpha below this is treated as background and left out.
+const MIN_ALPHA = 128
+const SHADOW_CLIP_LUMA = 1
+const HIGHLIGHT_CLIP_CHANNEL = 254
+// Midtone, low-saturation pixels drive the cast estimate.
+const CAST_LUMA_MIN = 40
+const CAST_LUMA_MAX = 220
+const CAST_MAX_SATURATION = 0.35
+
+const LINEAR = Float32Array.from({ length: 256 }, (_, code) => srgbEOTF(code / 255))
+
+/** Measure a decoded RGBA source on a strided subsample. */
+export function analyzeImage({ data, width, height }: AnalyzeImageInput): ImageAnalysis {
+  const histogram = new Uint32Array(256)
+  const stride = Math.max(1, Math.floor(Math.sqrt((width * height) / TARGET_SAMPLES)))
+  let sampleCount = 0
+  let shadowClipped = 0
+  let highlightClipped = 0
+  let saturationSum = 0
+  let castR = 0
+  let castG = 0
+  let castB = 0
+
+  for (let y = 0; y < height; y += stride) {
+    for (let x = 0; x < width; x += stride) {
+      const index = (y * width + x) * 4
+      if ((data[index + 3] ?? 255) < MIN_ALPHA) continue
+      const r = data[index] ?? 0
+      const g = data[index + 1] ?? 0
+      const b = data[index + 2] ?? 0
+      const luma = Math.round(0.2126 * r + 0.7152 * g + 0.0722 * b)
+      const max = Math.max(r, g, b)
+      const saturation = max > 0 ? (max - Math.min(r, g, b)) / max : 0
+
+      histogram[luma] = (histogram[luma] ?? 0) + 1
+      sampleCount++
+      saturationSum += saturation
+      if (luma <= SHADOW_CLIP_LUMA) shadowClipped++
+      if (max >= HIGHLIGHT_CLIP_CHANNEL) highlightClipped++
+      if (luma >= CAST_LUMA_MIN && luma <= CAST_LUMA_MAX && saturation <= CAST_MAX_SATURATION) {
+        castR += LINEAR[r] ?? 0
+        castG += LINEAR[g] ?? 0
+        castB += LINEAR[b] ?? 0
+      }
+    }
+  }
+
+  const hasCast = castR > 0 && castG > 0 && castB > 0
+  return {
+    histogram,
+    sampleCount,
+    shadowClipping: sampleCount > 0 ? shadowClipped / sampleCount : 0,
+    highlightClipping: sampleCount > 0 ? highlightClipped / sampleCount : 0,
+    meanSaturation: sampleCount > 0 ? saturationSum / sampleCount : 0,
+    warmth: hasCast ? Math.log(castR / castB) : 0,
+    greenness: hasCast ? Math.log(castG / Math.sqrt(castR * castB)) : 0,
+  }
+}
+
+/** Encoded luma (0–1) below which `fraction` of the samples fall. */
+export function histogramPercentile(histogram: Uint32Array, fraction: number): number {
+  let total = 0
+  for (const count of histogram) total += count
+  if (total === 0) return 0
+  const target = fraction * total
+  let cumulative = 0
+  for (let bin = 0; bin < histogram.length; bin++) {
+    cumulative += histogram[bin] ?? 0
+    if (cumulative >= target) return bin / 255
+  }
+  return 1
+}
+
+// Encoded median the exposure aims for, close to mid-grey.
+const TARGET_MEDIAN = 0.46
+const EXPOSURE_DAMPING = 0.7
+// Encoded p5–p95 spread of a well-exposed frame.
+const TARGET_SPREAD = 0.72
+const CONTRAST_PER_SPREAD = 0.6
+// Above this encoded p1 the blacks read as haze.
+const HAZY_BLACK = 0.08
+const HAZY_BLACK_TARGET = 0.03
+// Below this encoded p99 the frame never reaches white.
+const DIM_WHITE = 0.85
+const DIM_WHITE_TARGET = 0.94
+const CLIP_TOLERANCE = 0.005
+const CAST_CORRECTION = 0.6
+// Mean saturation at which cast correction has faded out.
+const CAST_SATURATION_CUTOFF = 0.6
+// White balance strengths of the grader (`createLookRuntime`), to invert its gains.
+const WB_TEMP_STRENGTH = 0.12
+const WB_TINT_STRENGTH = 0.1
+
+function snap(key: AutoLookKey, value: number): number {
+  const { min, max, step } = LOOK_CONTROL_RANGES[key]
+  const snapped = Math.round(clamp(value, min, max) / step) * step
+  // Rounding off float noise from the step multiply, and never -0.
+  return Number(snapped.toFixed(4)) + 0
+}
+
+/** Encoded value after scaling its linear light by 2^stops. */
+function exposeEncoded(encoded: number, stops: number): number {
+  return srgbEncode(Math.min(1, srgbEOTF(encoded) * Math.pow(2, stops)))
+}
+
+/** Look values that move the analyzed image toward a neutral, full-range starting point. */
+export function suggestAutoLook(analysis: ImageAnalysis): AutoLook {
+  const suggestion: AutoLook = {
+    exposure: LOOK_CONTROL_RANGES.exposure.defaultValue,
+    contrast: LOOK_CONTROL_RANGES.contrast.defaultValue,
+    blacks: LOOK_CONTROL_RANGES.blacks.defaultValue,
+    whites: LOOK_CONTROL_RANGES.whites.defaultValue,
+    temperature: LOOK_CONTROL_RANGES.temperature.defaultValue,
+    tint: LOOK_CONTROL_RANGES.tint.defaultValue,
+  }
+  if (analysis.sampleCount === 0) return suggestion
+
+  const { histogram } = analysis
+  const median = histogramPercentile(histogram, 0.5)
+  let exposure = EXPOSURE_DAMPING * Math.log2(srgbEOTF(TARGET_MEDIAN) / srgbEOTF(Math.max(median, 0.02)))
+  if (exposure > 0) {
+    // Brightening stops where the 99th percentile would reach white, and not at all once highlights clip.
+    const p99Linear = srgbEOTF(histogramPercentile(histogram, 0.99))
+    const headroom = p99Linear > 0 ? Math.log2(1 / p99Linear) : exposure
+    exposure = analysis.highlightClipping > CLIP_TOLERANCE ? 0 : Math.min(exposure, headroom)
+  }
+  suggestion.exposure = snap('exposure', exposure)
+
+  // Judge the rest of the tonal range as it will be after the exposure change.
+  const p1 = exposeEncoded(histogramPercentile(histogram, 0.01), suggestion.exposure)
+  const p5 = exposeEncoded(histogramPercentile(histogram, 0.05), suggestion.exposure)
+  const p95 = exposeEncoded(histogramPercentile(histogram, 0.95), suggestion.exposure)
+  const p99 = exposeEncoded(histogramPercentile(histogram, 0.99), suggestion.exposure)
+
+  suggestion.contrast = snap('contrast', 1 + (TARGET_SPREAD - (p95 - p5)) * CONTRAST_PER_SPREAD)
+
+  if (analysis.shadowClipping > CLIP_TOLERANCE) {
+    suggestion.blacks = snap('blacks', analysis.shadowClipping * 4)
+  } else if (p1 > HAZY_BLACK) {
+    suggestion.blacks = snap('blacks', -(p1 - HAZY_BLACK_TARGET) * 1.5)
+  }
+
+  if (analysis.highlightClipping > CLIP_TOLERANCE) {
+    suggestion.whites = snap('whites', -analysis.highlightClipping * 4)
+  } else if (p99 < DIM_WHITE) {
+    suggestion.whites = snap('whites', (DIM_WHITE_TARGET - p99) * 1.5)
+  }
+
+  const castStrength = CAST_CORRECTION * clamp(1 - analysis.meanSaturation / CAST_SATURATION_CUTOFF, 0, 1)
+  if (castStrength > 0) {
+    // Invert the grader's gains: R/B = (1 + t) / (1 − t) and G/√(R·B) ≈ (1 − k) / (1 + k/2).
+    const warmth = -analysis.warmth * castStrength
+    const greenGain = Math.exp(-analysis.greenness * castStrength)
+    suggestion.temperature = snap('temperature', Math.tanh(warmth / 2) / WB_TEMP_STRENGTH)
+    suggestion.tint = snap('tint', (1 - greenGain) / (1 + 0.5 * greenGain) / WB_TINT_STRENGTH)
+  }
+
+  return suggestion
+}
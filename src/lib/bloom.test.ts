@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest'
+import { addBloom, bloomCellSize, buildBloomLayer } from './bloom'
+import { DEFAULT_LOOK_CONTROLS } from './look-controls'
+import type { RGBTuple } from './bt2020-grading'
+
+const WHITE = 0.1
+
+/** A dark 256×256 grade with one bright 4×4 source in the middle. */
+function gradeSpot(i: number, out: RGBTuple): void {
+  const x = i % 256
+  const y = Math.floor(i / 256)
+  const value = x >= 126 && x < 130 && y >= 126 && y < 130 ? WHITE * 4 : WHITE * 0.1
+  out[0] = out[1] = out[2] = value
+}
+
+const bloom = (overrides: Partial<typeof DEFAULT_LOOK_CONTROLS>) => ({ ...DEFAULT_LOOK_CONTROLS, bloomIntensity: 0.5, ...overrides })
+
+function glowAt(layer: NonNullable<ReturnType<typeof buildBloomLayer>>, x: number, y: number): number {
+  const rgb: RGBTuple = [0, 0, 0]
+  addBloom(layer, x, y, rgb)
+  return rgb[1]
+}
+
+describe('bloomCellSize', () => {
+  it('keeps the layer about 256 cells on the long edge', () => {
+    expect(bloomCellSize(6000, 4000)).toBe(24)
+    expect(bloomCellSize(1280, 853)).toBe(5)
+    expect(bloomCellSize(100, 50)).toBe(1)
+  })
+})
+
+describe('buildBloomLayer', () => {
+  it('is off at zero intensity and when nothing crosses the threshold', () => {
+    expect(buildBloomLayer(256, 256, DEFAULT_LOOK_CONTROLS, WHITE, gradeSpot)).toBeNull()
+    const layer = buildBloomLayer(256, 256, bloom({}), WHITE * 10, gradeSpot)!
+    expect(layer.data.every((value) => value === 0)).toBe(true)
+  })
+
+  it('spreads highlights outward, falling off with distance', () => {
+    const layer = buildBloomLayer(256, 256, bloom({}), WHITE, gradeSpot)!
+    const center = glowAt(layer, 128, 128)
+    const near = glowAt(layer, 138, 128)
+    const far = glowAt(layer, 168, 128)
+    expect(center).toBeGreaterThan(near)
+    expect(near).toBeGreaterThan(far)
+    expect(far).toBeGreaterThan(0)
+    expect(glowAt(layer, 0, 0)).toBeLessThan(far)
+  })
+
+  it('reaches further with a larger radius and scales with intensity', () => {
+    const tight = buildBloomLayer(256, 256, bloom({ bloomRadius: 0 }), WHITE, gradeSpot)!
+    const wide = buildBloomLayer(256, 256, bloom({ bloomRadius: 1 }), WHITE, gradeSpot)!
+    expect(glowAt(wide, 168, 128)).toBeGreaterThan(glowAt(tight, 168, 128))
+
+    const strong = buildBloomLayer(256, 256, bloom({ bloomIntensity: 1 }), WHITE, gradeSpot)!
+    const base = buildBloomLayer(256, 256, bloom({}), WHITE, gradeSpot)!
+    expect(glowAt(strong, 128, 128)).toBeCloseTo(glowAt(base, 128, 128) * 2, 6)
+  })
+
+  it('samples strip rows at their place in the whole image', () => {
+    const layer = buildBloomLayer(256, 256, bloom({}), WHITE, gradeSpot)!
+    expect(glowAt({ ...layer, rowOffset: 100 }, 128, 28)).toBeCloseTo(glowAt(layer, 128, 128), 10)
+  })
+})
@@ -0,0 +1,221 @@
+/**
+ * HDR bloom
+ *
+ * Light above a threshold spills into its surroundings, the way bright
+ * sources flare in a lens or the eye. Highlights are extracted from the
+ * graded image in linear BT.2020 on a coarse layer (about 256 cells on the
+ * long edge, so preview and export glow at the same relative size), blurred
+ * through a Gaussian pyramid — each level half the resolution of the one
+ * before with the same kernel, so every level doubles the radius — and the
+ * levels are summed. The result is added back to each graded pixel before
+ * the EETF and PQ/HLG encode, so it glows in the exported file, not just on
+ * screen.
+ *
+ * The threshold is relative to the grade's SDR white, so it selects the same
+ * highlights at any Boost. Only the excess above the threshold blooms,
+ * which keeps the glow free of diffuse content.
+ */
+
+import { BT2020_LUMA, type RGBTuple } from './bt2020-grading'
+import type { LookControls } from './look-controls'
+
+export interface BloomLayer {
+  width: number
+  height: number
+  /** Source pixels per layer cell along each axis. */
+  cellSize: number
+  /** Glow to add, RGB interleaved per cell, in the grade's linear units. */
+  data: Float32Array
+  /** Image row of the first row being processed; non-zero for export strips. */
+  rowOffset: number
+}
+
+const LAYER_LONG_EDGE = 256
+// Extraction samples per cell edge; the cell mean needs far fewer than every pixel.
+const SAMPLES_PER_CELL_EDGE = 4
+const PYRAMID_LEVELS = 4
+// Level-0 Gaussian sigma in cells at Radius 0 and 1; the top level spreads 2^(levels−1) times wider.
+const SIGMA_MIN = 0.5
+const SIGMA_MAX = 3.5
+// Full Bloom adds this many times the mean extracted highlight energy.
+const BLOOM_GAIN = 2.0
+
+export function bloomCellSize(width: number, height: number): number {
+  return Math.max(1, Math.ceil(Math.max(width, height) / LAYER_LONG_EDGE))
+}
+
+function gaussianKernel(sigma: number): Float32Array {
+  const radius = Math.max(1, Math.ceil(sigma * 3))
+  const kernel = new Float32Array(radius * 2 + 1)
+  for (let i = -radius; i <= radius; i++) kernel[i + radius] = Math.exp(-(i * i) / (2 * sigma * sigma))
+  return kernel
+}
+
+/** Separable Gaussian over RGB cells; weights are renormalized where the kernel leaves the layer. */
+function gaussianBlur(data: Float32Array, width: number, height: number, sigma: number): Float32Array {
+  const kernel = gaussianKernel(sigma)
+  const radius = (kernel.length - 1) / 2
+  const horizontal = new Float32Array(data.length)
+  const out = new Float32Array(data.length)
+  const pass = (source: Float32Array, target: Float32Array, length: number, count: number, step: number, stride: number) => {
+    for (let line = 0; line < count; line++) {
+      const base = line * stride
+      for (let i = 0; i < length; i++) {
+        let r = 0
+        let g = 0
+        let b = 0
+        let weight = 0
+        for (let k = Math.max(-radius, -i); k <= Math.min(radius, length - 1 - i); k++) {
+          const w = kernel[k + radius] ?? 0
+          const index = (base + (i + k) * step) * 3
+          r += (source[index] ?? 0) * w
+          g += (source[index + 1] ?? 0) * w
+          b += (source[index + 2] ?? 0) * w
+          weight += w
+        }
+        const index = (base + i * step) * 3
+        target[index] = r / weight
+        target[index + 1] = g / weight
+        target[index + 2] = b / weight
+      }
+    }
+  }
+  pass(data, horizontal, width, height, 1, width)
+  pass(horizontal, out, height, width, width, 1)
+  return out
+}
+
+/** 2×2 box downsample; odd edges average what they have. */
+function downsample(data: Float32Array, width: number, height: number): { data: Float32Array; width: number; height: number } {
+  const halfWidth = Math.ceil(width / 2)
+  const halfHeight = Math.ceil(height / 2)
+  const out = new Float32Array(halfWidth * halfHeight * 3)
+  for (let y = 0; y < halfHeight; y++) {
+    for (let x = 0; x < halfWidth; x++) {
+      let count = 0
+      const target = (y * halfWidth + x) * 3
+      for (let dy = 0; dy < 2 && y * 2 + dy < height; dy++) {
+        for (let dx = 0; dx < 2 && x * 2 + dx < width; dx++) {
+          const source = ((y * 2 + dy) * width + x * 2 + dx) * 3
+          out[target] = (out[target] ?? 0) + (data[source] ?? 0)
+          out[target + 1] = (out[target + 1] ?? 0) + (data[source + 1] ?? 0)
+          out[target + 2] = (out[target + 2] ?? 0) + (data[source + 2] ?? 0)
+          count++
+        }
+      }
+      out[target] = (out[target] ?? 0) / count
+      out[target + 1] = (out[target + 1] ?? 0) / count
+      out[target + 2] = (out[target + 2] ?? 0) / count
+    }
+  }
+  return { data: out, width: halfWidth, height: halfHeight }
+}
+
+/** Bilinear sample of an RGB cell grid at continuous cell coordinates, added into `out`. */
+function addBilinear(data: Float32Array, width: number, height: number, gx: number, gy: number, scale: number, out: RGBTuple): void {
+  const x = Math.min(Math.max(gx, 0), width - 1)
+  const y = Math.min(Math.max(gy, 0), height - 1)
+  const x0 = Math.floor(x)
+  const y0 = Math.floor(y)
+  const x1 = Math.min(x0 + 1, width - 1)
+  const y1 = Math.min(y0 + 1, height - 1)
+  const tx = x - x0
+  const ty = y - y0
+  const w00 = (1 - tx) * (1 - ty) * scale
+  const w10 = tx * (1 - ty) * scale
+  const w01 = (1 - tx) * ty * scale
+  const w11 = tx * ty * scale
+  const i00 = (y0 * width + x0) * 3
+  const i10 = (y0 * width + x1) * 3
+  const i01 = (y1 * width + x0) * 3
+  const i11 = (y1 * width + x1) * 3
+  const channel = (c: number) =>
+    (data[i00 + c] ?? 0) * w00 + (data[i10 + c] ?? 0) * w10 + (data[i01 + c] ?? 0) * w01 + (data[i11 + c] ?? 0) * w11
+  out[0] += channel(0)
+  out[1] += channel(1)
+  out[2] += channel(2)
+}
+
+/** Sum of every pyramid level, each blurred at its own resolution and upsampled back to the base. */
+function pyramidBlur(data: Float32Array, width: number, height: number, sigma: number): Float32Array {
+  const out = new Float32Array(data.length)
+  const sample: RGBTuple = [0, 0, 0]
+  let level = { data, width, height }
+  let scale = 1
+  for (let k = 0; k < PYRAMID_LEVELS; k++) {
+    const blurred = gaussianBlur(level.data, level.width, level.height, sigma)
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        sample[0] = sample[1] = sample[2] = 0
+        addBilinear(blurred, level.width, level.height, (x + 0.5) / scale - 0.5, (y + 0.5) / scale - 0.5, 1 / PYRAMID_LEVELS, sample)
+        const index = (y * width + x) * 3
+        out[index] = (out[index] ?? 0) + sample[0]
+        out[index + 1] = (out[index + 1] ?? 0) + sample[1]
+        out[index + 2] = (out[index + 2] ?? 0) + sample[2]
+      }
+    }
+    if (k < PYRAMID_LEVELS - 1) {
+      level = downsample(level.data, level.width, level.height)
+      scale *= 2
+    }
+  }
+  return out
+}
+
+/**
+ * Extract and blur the highlights of a `width`×`height` grade. `gradePixel`
+ * writes the graded linear BT.2020 value of a pixel index; `referenceWhite`
+ * is where SDR white lands in those units. Returns null when Bloom is off.
+ */
+export function buildBloomLayer(
+  width: number,
+  height: number,
+  look: LookControls,
+  referenceWhite: number,
+  gradePixel: (pixelIndex: number, out: RGBTuple) => void,
+): BloomLayer | null {
+  if (look.bloomIntensity <= 0) return null
+  const cellSize = bloomCellSize(width, height)
+  const layerWidth = Math.ceil(width / cellSize)
+  const layerHeight = Math.ceil(height / cellSize)
+  const sums = new Float32Array(layerWidth * layerHeight * 3)
+  const counts = new Float32Array(layerWidth * layerHeight)
+  const stride = Math.max(1, Math.floor(cellSize / SAMPLES_PER_CELL_EDGE))
+  const threshold = look.bloomThreshold * referenceWhite
+  const graded: RGBTuple = [0, 0, 0]
+
+  for (let y = 0; y < height; y += stride) {
+    const cellRow = Math.floor(y / cellSize) * layerWidth
+    for (let x = 0; x < width; x += stride) {
+      const cell = cellRow + Math.floor(x / cellSize)
+      counts[cell] = (counts[cell] ?? 0) + 1
+      gradePixel(y * width + x, graded)
+      const luma = BT2020_LUMA[0] * graded[0] + BT2020_LUMA[1] * graded[1] + BT2020_LUMA[2] * graded[2]
+      if (luma <= threshold) continue
+      const excess = (luma - threshold) / luma
+      sums[cell * 3] = (sums[cell * 3] ?? 0) + Math.max(0, graded[0]) * excess
+      sums[cell * 3 + 1] = (sums[cell * 3 + 1] ?? 0) + Math.max(0, graded[1]) * excess
+      sums[cell * 3 + 2] = (sums[cell * 3 + 2] ?? 0) + Math.max(0, graded[2]) * excess
+    }
+  }
+  for (let cell = 0; cell < counts.length; cell++) {
+    const count = counts[cell] ?? 0
+    if (count <= 0) continue
+    sums[cell * 3] = (sums[cell * 3] ?? 0) / count
+    sums[cell * 3 + 1] = (sums[cell * 3 + 1] ?? 0) / count
+    sums[cell * 3 + 2] = (sums[cell * 3 + 2] ?? 0) / count
+  }
+
+  const sigma = SIGMA_MIN + (SIGMA_MAX - SIGMA_MIN) * look.bloomRadius
+  const data = pyramidBlur(sums, layerWidth, layerHeight, sigma)
+  const gain = look.bloomIntensity * BLOOM_GAIN
+  for (let i = 0; i < data.length; i++) data[i] = (data[i] ?? 0) * gain
+  return { width: layerWidth, height: layerHeight, cellSize, data, rowOffset: 0 }
+}
+
+/** Add the bloom at pixel (x, y) of the processed rows into `rgb`. */
+export function addBloom(layer: BloomLayer, x: number, y: number, rgb: RGBTuple): void {
+  const gx = (x + 0.5) / layer.cellSize - 0.5
+  const gy = (y + layer.rowOffset + 0.5) / layer.cellSize - 0.5
+  addBilinear(layer.data, layer.width, layer.height, gx, gy, 1, rgb)
+}
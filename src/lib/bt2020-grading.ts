@@ -1,6 +1,11 @@
+import type { RGB8 } from './alpha-handling'
 import { SDR_TO_PQ_SCALE } from './hdr-boost'
 import type { LookControls } from './look-controls'
 import { srgbEOTF } from './pq-transfer'
+import { applyColorLut, type ColorLutSettings } from './color-lut'
+import { applyHslBands, createHslRuntime, type HslRuntime } from './hsl-bands'
+import { applyToneCurve, bakeToneCurve, type ToneCurve, type ToneCurveTables } from './tone-curve'
+import type { UpConversionCurve } from './up-conversion'
 
 export type RGBTuple = [number, number, number]
 
@@ -8,10 +13,11 @@ interface LookRuntime {
   exposureGain: number
   sat: number
   vibranceDelta: number
+  /** Per-hue HSL, or null when every band is neutral. */
+  hsl: HslRuntime | null
   contrast: number
   blacks: number
   whites: number
-  clarity: number
   highlightSaturation: number
   shadowLift: number
   shadowGlow: number
@@ -23,12 +29,23 @@ interface LookRuntime {
   toneControlEnabled: boolean
   scenePeak: number
   shoulderKnee: number
+  specularFocus: number
+  specularMaskLow: number
+  specularMaskHigh: number
 }
 
 export interface ProcessingContext {
   lut: Float32Array
   gain: number
   runtime: LookRuntime
+  /** Linearized flatten color (same LUT as the image), or null to ignore alpha. */
+  flattenBackground: RGBTuple | null
+  /** Standards up-conversion curve replacing `gain`, or null for the Boost method. */
+  upConvert: UpConversionCurve | null
+  /** Imported .cube LUT applied to the source before the expansion, or null. */
+  colorLut: ColorLutSettings | null
+  /** Baked tone curve applied after the LUT, or null when every curve is the identity. */
+  toneCurve: ToneCurveTables | null
 }
 
 export const BT2020_LUMA = [0.2627, 0.678, 0.0593] as const
@@ -39,7 +56,9 @@ const WB_TEMP_STRENGTH = 0.12
 const WB_TINT_STRENGTH = 0.1
 const BLACKS_STRENGTH = 0.35
 const WHITES_STRENGTH = 0.35
-const CLARITY_STRENGTH = 0.45
+// Pixels at or below this linear luma stay pinned to SDR diffuse white under
+// full specular focus, however low the threshold slider goes.
+const SPECULAR_MASK_FLOOR = 0.05
 
 const SHOULDER_KNEE_RATIO = 0.78
 const SHOULDER_KNEE_MIN = 0.05
@@ -99,7 +118,6 @@ function applyToneControlsToLuma(
   shadowLiftStrength: number,
   blacks: number,
   whites: number,
-  clarity: number,
 ): number {
   const referencePeak = toneReferencePeak(scenePeak)
   let yMapped = MID_GRAY_PIVOT + (y - MID_GRAY_PIVOT) * contrast
@@ -114,11 +132,6 @@ function applyToneControlsToLuma(
     const highlightWeight = tonePos * tonePos
     yMapped += whites * WHITES_STRENGTH * highlightWeight * referencePeak
   }
-  if (clarity !== 0.0) {
-    const midWeight = 1.0 - Math.abs(2.0 * tonePos - 1.0)
-    yMapped += clarity * CLARITY_STRENGTH * (tonePos - 0.5) * midWeight * referencePeak
-  }
-
   return yMapped
 }
 
@@ -134,10 +147,10 @@ function createLookRuntime(look: LookControls, scenePeak: number, shoulderKnee:
     exposureGain: Math.pow(2, look.exposure),
     sat: look.saturation,
     vibranceDelta: look.vibrance - 1.0,
+    hsl: createHslRuntime(look),
     contrast: look.contrast,
     blacks: look.blacks,
     whites: look.whites,
-    clarity: look.clarity,
     highlightSaturation: look.highlightSaturation,
     shadowLift: look.shadowLift,
     shadowGlow: look.shadowGlow,
@@ -146,10 +159,12 @@ function createLookRuntime(look: LookControls, scenePeak: number, shoulderKnee:
     wbR: 1.0 + wbTemp + 0.5 * wbTint,
     wbG: Math.max(0.5, 1.0 - 0.15 * Math.abs(wbTemp) - wbTint),
     wbB: 1.0 - wbTemp + 0.5 * wbTint,
-    toneControlEnabled:
-      look.contrast !== 1.0 || look.shadowLift > 0.0 || look.blacks !== 0.0 || look.whites !== 0.0 || look.clarity !== 0.0,
+    toneControlEnabled: look.contrast !== 1.0 || look.shadowLift > 0.0 || look.blacks !== 0.0 || look.whites !== 0.0,
     scenePeak,
     shoulderKnee,
+    specularFocus: look.specularFocus,
+    specularMaskLow: Math.max(SPECULAR_MASK_FLOOR, look.specularThreshold - look.specularFeather * 0.5),
+    specularMaskHigh: look.specularThreshold + look.specularFeather * 0.5,
   }
 }
 
@@ -172,21 +187,53 @@ function getLinearizedGammaLUT(gamma: number): Float32Array {
   return lut
 }
 
+function smoothstep(edge0: number, edge1: number, x: number): number {
+  const t = clamp((x - edge0) / (edge1 - edge0), 0.0, 1.0)
+  return t * t * (3.0 - 2.0 * t)
+}
+
+/**
+ * Inverse tone mapping gain for one pixel. With `specularFocus` at 0 this is
+ * the plain global boost; at 1 diffuse content stays at SDR reference white and
+ * only pixels above the feathered luma threshold ramp up to the full boost.
+ */
+function specularExpansionGain(sourceLuma: number, gain: number, runtime: LookRuntime): number {
+  if (runtime.specularFocus <= 0.0) return gain
+  const diffuseGain = Math.min(gain, SDR_TO_PQ_SCALE)
+  const mask = smoothstep(runtime.specularMaskLow, runtime.specularMaskHigh, sourceLuma)
+  const selectiveGain = diffuseGain + (gain - diffuseGain) * mask
+  return gain + (selectiveGain - gain) * runtime.specularFocus
+}
+
 function softShoulderLuma(y: number, knee = 0.75): number {
   if (y <= knee) return y
   const d = y - knee
   return knee + (d * (1 - knee)) / (d + (1 - knee))
 }
 
-export function createProcessingContext(look: LookControls, gain: number): ProcessingContext {
+export function createProcessingContext(
+  look: LookControls,
+  gain: number,
+  flattenBackground?: RGB8,
+  upConvert: UpConversionCurve | null = null,
+  colorLut: ColorLutSettings | null = null,
+  toneCurve: ToneCurve | null = null,
+): ProcessingContext {
   const scenePeak = Math.min(gain, 1.0)
   const baseShoulderKnee = clamp(scenePeak * SHOULDER_KNEE_RATIO, SHOULDER_KNEE_MIN, SHOULDER_KNEE_MAX)
   const shoulderKnee = clamp(baseShoulderKnee / look.highlightRollOff, SHOULDER_KNEE_MIN, SHOULDER_KNEE_MAX)
+  const lut = getLinearizedGammaLUT(look.gamma)
 
   return {
-    lut: getLinearizedGammaLUT(look.gamma),
+    lut,
     gain,
     runtime: createLookRuntime(look, scenePeak, shoulderKnee),
+    flattenBackground: flattenBackground
+      ? [lut[flattenBackground[0]] ?? 0, lut[flattenBackground[1]] ?? 0, lut[flattenBackground[2]] ?? 0]
+      : null,
+    upConvert,
+    colorLut: colorLut && colorLut.strength > 0 ? colorLut : null,
+    toneCurve: toneCurve ? bakeToneCurve(toneCurve) : null,
   }
 }
 
@@ -208,6 +255,18 @@ export function gradeBt2020Pixel(r2020: number, g2020: number, b2020: number, ru
     y = yBefore
   }
 
+  if (runtime.hsl) {
+    // `out` isn't written until the end, so the bands can work in it.
+    out[0] = r2020
+    out[1] = g2020
+    out[2] = b2020
+    applyHslBands(runtime.hsl, out)
+    r2020 = out[0]
+    g2020 = out[1]
+    b2020 = out[2]
+    y = BT2020_LUMA[0] * r2020 + BT2020_LUMA[1] * g2020 + BT2020_LUMA[2] * b2020
+  }
+
   if (runtime.sat !== 1.0) {
     r2020 = y + (r2020 - y) * runtime.sat
     g2020 = y + (g2020 - y) * runtime.sat
@@ -235,7 +294,6 @@ export function gradeBt2020Pixel(r2020: number, g2020: number, b2020: number, ru
       runtime.shadowLiftStrength,
       runtime.blacks,
       runtime.whites,
-      runtime.clarity,
     )
 
     if (y > 1e-6) {
@@ -303,17 +361,77 @@ export function gradeBt2020Pixel(r2020: number, g2020: number, b2020: number, ru
   out[2] = b2020
 }
 
-export function decodeAndGradeBt2020Pixel(data: Uint8ClampedArray, sourceIndex: number, context: ProcessingContext, out: RGBTuple): void {
-  const r = context.lut[data[sourceIndex] ?? 0] ?? 0
-  const g = context.lut[data[sourceIndex + 1] ?? 0] ?? 0
-  const b = context.lut[data[sourceIndex + 2] ?? 0] ?? 0
-  const gain = context.gain * context.runtime.exposureGain
+/**
+ * Linear BT.2020 of one source pixel, before any grading. Source pixels are
+ * straight (un-premultiplied) RGBA8, so color is decoded as-is and alpha
+ * never scales it. Flattening blends toward the background in linear light,
+ * which keeps anti-aliased edges free of dark fringes.
+ */
+export function decodeBt2020Pixel(data: Uint8ClampedArray, sourceIndex: number, context: ProcessingContext, out: RGBTuple): void {
+  let r = context.lut[data[sourceIndex] ?? 0] ?? 0
+  let g = context.lut[data[sourceIndex + 1] ?? 0] ?? 0
+  let b = context.lut[data[sourceIndex + 2] ?? 0] ?? 0
+
+  const background = context.flattenBackground
+  if (background) {
+    const alpha = (data[sourceIndex + 3] ?? 255) / 255
+    if (alpha < 1) {
+      r = r * alpha + background[0] * (1 - alpha)
+      g = g * alpha + background[1] * (1 - alpha)
+      b = b * alpha + background[2] * (1 - alpha)
+    }
+  }
+
+  out[0] = SRGB_TO_BT2020[0] * r + SRGB_TO_BT2020[1] * g + SRGB_TO_BT2020[2] * b
+  out[1] = SRGB_TO_BT2020[3] * r + SRGB_TO_BT2020[4] * g + SRGB_TO_BT2020[5] * b
+  out[2] = SRGB_TO_BT2020[6] * r + SRGB_TO_BT2020[7] * g + SRGB_TO_BT2020[8] * b
+}
+
+/** Run a LUT, which expects Rec.709 primaries, on linear BT.2020 in place. */
+function applyColorLutBt2020(settings: ColorLutSettings, rgb: RGBTuple): void {
+  const [r, g, b] = rgb
+  rgb[0] = BT2020_TO_SRGB[0] * r + BT2020_TO_SRGB[1] * g + BT2020_TO_SRGB[2] * b
+  rgb[1] = BT2020_TO_SRGB[3] * r + BT2020_TO_SRGB[4] * g + BT2020_TO_SRGB[5] * b
+  rgb[2] = BT2020_TO_SRGB[6] * r + BT2020_TO_SRGB[7] * g + BT2020_TO_SRGB[8] * b
+  applyColorLut(settings, rgb)
+  const [r709, g709, b709] = rgb
+  rgb[0] = SRGB_TO_BT2020[0] * r709 + SRGB_TO_BT2020[1] * g709 + SRGB_TO_BT2020[2] * b709
+  rgb[1] = SRGB_TO_BT2020[3] * r709 + SRGB_TO_BT2020[4] * g709 + SRGB_TO_BT2020[5] * b709
+  rgb[2] = SRGB_TO_BT2020[6] * r709 + SRGB_TO_BT2020[7] * g709 + SRGB_TO_BT2020[8] * b709
+}
 
-  const r2020 = (SRGB_TO_BT2020[0] * r + SRGB_TO_BT2020[1] * g + SRGB_TO_BT2020[2] * b) * gain
-  const g2020 = (SRGB_TO_BT2020[3] * r + SRGB_TO_BT2020[4] * g + SRGB_TO_BT2020[5] * b) * gain
-  const b2020 = (SRGB_TO_BT2020[6] * r + SRGB_TO_BT2020[7] * g + SRGB_TO_BT2020[8] * b) * gain
+/**
+ * Decode and grade one source pixel. `detailGain` is the pixel's local
+ * contrast gain from `computeLocalContrastGains`; it scales source
+ * luminance before the HDR expansion, so the specular mask and the
+ * standards curves see the sharpened value. An imported LUT and then the
+ * tone curve run next, still on SDR-relative values, so the expansion
+ * applies to their result.
+ */
+export function decodeAndGradeBt2020Pixel(
+  data: Uint8ClampedArray,
+  sourceIndex: number,
+  context: ProcessingContext,
+  out: RGBTuple,
+  detailGain = 1.0,
+): void {
+  decodeBt2020Pixel(data, sourceIndex, context, out)
+  out[0] *= detailGain
+  out[1] *= detailGain
+  out[2] *= detailGain
+  if (context.colorLut) applyColorLutBt2020(context.colorLut, out)
+  if (context.toneCurve) applyToneCurve(context.toneCurve, out)
+  const [r2020, g2020, b2020] = out
+
+  const sourceLuma = BT2020_LUMA[0] * r2020 + BT2020_LUMA[1] * g2020 + BT2020_LUMA[2] * b2020
+  let gain: number
+  if (context.upConvert) {
+    gain = sourceLuma > 0.0 ? context.upConvert(sourceLuma * context.runtime.exposureGain) / sourceLuma : 0.0
+  } else {
+    gain = specularExpansionGain(sourceLuma, context.gain, context.runtime) * context.runtime.exposureGain
+  }
 
-  gradeBt2020Pixel(r2020, g2020, b2020, context.runtime, out)
+  gradeBt2020Pixel(r2020 * gain, g2020 * gain, b2020 * gain, context.runtime, out)
 }
 
 export function previewToneMap(y: number): number {
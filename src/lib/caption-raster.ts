@@ -0,0 +1,107 @@
+/**
+ * Caption rasterization on an OffscreenCanvas, with the site's bundled
+ * fonts loaded into the worker's own font set. Kept apart from `caption.ts`
+ * so the strip workers, which only composite, don't pull in the font files.
+ */
+
+import spaceGroteskUrl from '@fontsource/space-grotesk/files/space-grotesk-latin-700-normal.woff2?url'
+import interUrl from '@fontsource/inter/files/inter-latin-700-normal.woff2?url'
+import { layoutCaption, type CaptionFont, type CaptionLayer, type CaptionSettings } from './caption'
+
+const FONT_FACES: Record<CaptionFont, { family: string; url: string }> = {
+  'space-grotesk': { family: 'Caption Space Grotesk', url: spaceGroteskUrl },
+  inter: { family: 'Caption Inter', url: interUrl },
+}
+
+const FONT_WEIGHT = 700
+
+const fontLoads = new Map<CaptionFont, Promise<void>>()
+
+/** Load a caption font into the worker's font set once; later calls share the load. */
+function loadCaptionFont(font: CaptionFont): Promise<void> {
+  let load = fontLoads.get(font)
+  if (load) return load
+
+  const { family, url } = FONT_FACES[font]
+  const fonts = (globalThis as { fonts?: FontFaceSet }).fonts
+  const face = new FontFace(family, `url(${url})`, { weight: String(FONT_WEIGHT) })
+  load = face.load().then((loaded) => {
+    fonts?.add(loaded)
+  })
+  // A failed load is retried on the next caption instead of staying cached.
+  load.catch(() => fontLoads.delete(font))
+  fontLoads.set(font, load)
+  return load
+}
+
+export function supportsCaptionRaster(): boolean {
+  return typeof OffscreenCanvas !== 'undefined' && typeof FontFace !== 'undefined'
+}
+
+function readCoverage(context: OffscreenCanvasRenderingContext2D, width: number, height: number): Uint8Array {
+  const { data } = context.getImageData(0, 0, width, height)
+  const coverage = new Uint8Array(width * height)
+  for (let i = 0; i < coverage.length; i++) coverage[i] = data[i * 4 + 3] ?? 0
+  return coverage
+}
+
+/**
+ * Rasterize the caption for a `width` × `height` image. Null when nothing
+ * of it lands inside the image.
+ */
+export async function rasterizeCaption(caption: CaptionSettings, width: number, height: number): Promise<CaptionLayer | null> {
+  await loadCaptionFont(caption.font)
+  const { family } = FONT_FACES[caption.font]
+  const fontFor = (size: number) => `${FONT_WEIGHT} ${size}px "${family}"`
+
+  const measureCanvas = new OffscreenCanvas(1, 1)
+  const measureContext = measureCanvas.getContext('2d')
+  if (!measureContext) throw new Error('Failed to acquire 2D context for the caption')
+  const layout = layoutCaption(caption, width, height, (line, fontSize) => {
+    measureContext.font = fontFor(fontSize)
+    return measureContext.measureText(line).width
+  })
+  if (layout.lines.length === 0) return null
+
+  measureContext.font = fontFor(layout.fontSize)
+  const widest = Math.max(...layout.lines.map((line) => measureContext.measureText(line).width))
+  const pad = Math.ceil(layout.strokeWidth / 2) + 2
+  const left = Math.max(0, Math.floor(layout.centerX - widest / 2 - pad))
+  const right = Math.min(width, Math.ceil(layout.centerX + widest / 2 + pad))
+  const top = Math.max(0, Math.floor(layout.firstLineY - layout.lineHeight / 2 - pad))
+  const bottom = Math.min(height, Math.ceil(layout.firstLineY + (layout.lines.length - 0.5) * layout.lineHeight + pad))
+  const boxWidth = right - left
+  const boxHeight = bottom - top
+  if (boxWidth <= 0 || boxHeight <= 0) return null
+
+  const canvas = new OffscreenCanvas(boxWidth, boxHeight)
+  const context = canvas.getContext('2d', { willReadFrequently: true })
+  if (!context) throw new Error('Failed to acquire 2D context for the caption')
+
+  const draw = (stroke: boolean) => {
+    context.clearRect(0, 0, boxWidth, boxHeight)
+    context.font = fontFor(layout.fontSize)
+    context.textAlign = 'center'
+    context.textBaseline = 'middle'
+    context.fillStyle = '#fff'
+    context.strokeStyle = '#fff'
+    context.lineJoin = 'round'
+    context.lineWidth = layout.strokeWidth
+    layout.lines.forEach((line, i) => {
+      const x = layout.centerX - left
+      const y = layout.firstLineY + i * layout.lineHeight - top
+      if (stroke) context.strokeText(line, x, y)
+      context.fillText(line, x, y)
+    })
+  }
+
+  let outline: Uint8Array | null = null
+  if (layout.strokeWidth > 0) {
+    draw(true)
+    outline = readCoverage(context, boxWidth, boxHeight)
+  }
+  draw(false)
+  const fill = readCoverage(context, boxWidth, boxHeight)
+
+  return { left, top, width: boxWidth, height: boxHeight, fill, outline, nits: caption.nits, rowOffset: 0 }
+}
@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest'
+import {
+  captionLevel,
+  compositeCaption,
+  DEFAULT_CAPTION,
+  isCaptionActive,
+  layoutCaption,
+  wrapCaptionLines,
+  type CaptionLayer,
+} from './caption'
+import type { RGBTuple } from './bt2020-grading'
+
+// Every character is 10 units wide at any size.
+const measureChars = (line: string) => line.length * 10
+
+function solidLayer(fill: number, outline: number | null): CaptionLayer {
+  return {
+    left: 2,
+    top: 4,
+    width: 3,
+    height: 2,
+    fill: new Uint8Array(6).fill(fill),
+    outline: outline === null ? null : new Uint8Array(6).fill(outline),
+    nits: 1000,
+    rowOffset: 0,
+  }
+}
+
+describe('wrapCaptionLines', () => {
+  it('wraps at word boundaries and keeps explicit line breaks', () => {
+    expect(wrapCaptionLines('one two three\nfour', 80, measureChars)).toEqual(['one two', 'three', 'four'])
+  })
+
+  it('gives an over-long word a line of its own', () => {
+    expect(wrapCaptionLines('a supercalifragilistic b', 50, measureChars)).toEqual(['a', 'supercalifragilistic', 'b'])
+  })
+
+  it('drops blank lines and extra whitespace', () => {
+    expect(wrapCaptionLines('  hello   world \n\n', 200, measureChars)).toEqual(['hello world'])
+  })
+})
+
+describe('layoutCaption', () => {
+  const caption = { ...DEFAULT_CAPTION, text: 'Supernova', size: 0.1 }
+
+  it('sizes the font from the image height and centres the text', () => {
+    const layout = layoutCaption(caption, 800, 400, measureChars)
+    expect(layout.fontSize).toBe(40)
+    expect(layout.centerX).toBe(400)
+    expect(layout.lines).toEqual(['Supernova'])
+  })
+
+  it('keeps the block inside the frame at each position', () => {
+    const top = layoutCaption({ ...caption, position: 'top' }, 800, 400, measureChars)
+    const middle = layoutCaption({ ...caption, position: 'middle' }, 800, 400, measureChars)
+    const bottom = layoutCaption({ ...caption, position: 'bottom' }, 800, 400, measureChars)
+    expect(top.firstLineY - top.lineHeight / 2).toBeCloseTo(20)
+    expect(middle.firstLineY).toBeCloseTo(200)
+    expect(bottom.firstLineY + bottom.lineHeight / 2).toBeCloseTo(380)
+  })
+
+  it('scales the stroke with the outline setting', () => {
+    expect(layoutCaption({ ...caption, outline: 0 }, 800, 400, measureChars).strokeWidth).toBe(0)
+    expect(layoutCaption({ ...caption, outline: 1 }, 800, 400, measureChars).strokeWidth).toBe(10)
+  })
+})
+
+describe('isCaptionActive', () => {
+  it('treats whitespace-only text as no caption', () => {
+    expect(isCaptionActive(DEFAULT_CAPTION)).toBe(false)
+    expect(isCaptionActive({ ...DEFAULT_CAPTION, text: ' \n ' })).toBe(false)
+    expect(isCaptionActive({ ...DEFAULT_CAPTION, text: 'Hi' })).toBe(true)
+  })
+})
+
+describe('captionLevel', () => {
+  it('places the caption at its own nits within the output range', () => {
+    expect(captionLevel(10_000, 10_000)).toBe(1)
+    expect(captionLevel(400, 10_000)).toBeCloseTo(0.04)
+  })
+
+  it('holds the caption to the display peak and the HLG range', () => {
+    expect(captionLevel(10_000, 10_000, 1000)).toBeCloseTo(0.1)
+    expect(captionLevel(4000, 1000)).toBe(1)
+  })
+})
+
+describe('compositeCaption', () => {
+  it('replaces the pixel under full coverage and leaves pixels outside the box alone', () => {
+    const layer = solidLayer(255, null)
+    const inside: RGBTuple = [0.02, 0.03, 0.04]
+    expect(compositeCaption(layer, 3, 5, 0.5, inside)).toBe(1)
+    expect(inside).toEqual([0.5, 0.5, 0.5])
+
+    const outside: RGBTuple = [0.02, 0.03, 0.04]
+    compositeCaption(layer, 5, 5, 0.5, outside)
+    expect(outside).toEqual([0.02, 0.03, 0.04])
+  })
+
+  it('blends partial coverage and darkens under the outline', () => {
+    const blended: RGBTuple = [0.2, 0.2, 0.2]
+    compositeCaption(solidLayer(128, null), 2, 4, 1, blended)
+    expect(blended[0]).toBeCloseTo(0.2 * (1 - 128 / 255) + 128 / 255)
+
+    const outlined: RGBTuple = [0.2, 0.2, 0.2]
+    compositeCaption(solidLayer(0, 255), 2, 4, 1, outlined)
+    expect(outlined).toEqual([0, 0, 0])
+  })
+
+  it('reads the box at image rows when processing a strip', () => {
+    const layer = { ...solidLayer(255, null), rowOffset: 4 }
+    const rgb: RGBTuple = [0, 0, 0]
+    compositeCaption(layer, 2, 0, 0.25, rgb)
+    expect(rgb).toEqual([0.25, 0.25, 0.25])
+  })
+
+  it('stays visible over transparent pixels', () => {
+    const rgb: RGBTuple = [0, 0, 0]
+    const alpha = compositeCaption(solidLayer(255, null), 2, 4, 0.3, rgb, 0)
+    expect(alpha).toBe(1)
+    expect(rgb[0]).toBeCloseTo(0.3)
+
+    const half: RGBTuple = [0, 0, 0]
+    expect(compositeCaption(solidLayer(128, null), 2, 4, 0.3, half, 0)).toBeCloseTo(128 / 255)
+    // Straight alpha: the fill keeps its full level where it only partly covers.
+    expect(half[0]).toBeCloseTo(0.3)
+  })
+})
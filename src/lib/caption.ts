@@ -0,0 +1,173 @@
+/**
+ * HDR caption overlay: a line or two of text with its own brightness.
+ *
+ * The text is rasterized once per request (`caption-raster.ts`, in the
+ * worker) into coverage masks over just its bounding box, then composited
+ * here in linear BT.2020 after grading, the EETF and the ABL limiter, right
+ * before the transfer encode. That keeps the caption at exactly the nits it
+ * asks for, whatever the photo under it does: a 10,000-nit caption over a
+ * 400-nit photo stays at 10,000 nits, up to the display peak the export is
+ * fit to. The outline is black and sits under the fill.
+ */
+
+import { PQ_MAX_NITS, SDR_DIFFUSE_WHITE_NITS } from './hdr-boost'
+import type { RGBTuple } from './bt2020-grading'
+
+export type CaptionFont = 'space-grotesk' | 'inter'
+
+export const CAPTION_FONTS: readonly CaptionFont[] = ['space-grotesk', 'inter']
+
+export const CAPTION_FONT_LABELS: Record<CaptionFont, string> = {
+  'space-grotesk': 'Space Grotesk',
+  inter: 'Inter',
+}
+
+export type CaptionPosition = 'top' | 'middle' | 'bottom'
+
+export const CAPTION_POSITIONS: readonly CaptionPosition[] = ['top', 'middle', 'bottom']
+
+export const CAPTION_POSITION_LABELS: Record<CaptionPosition, string> = {
+  top: 'Top',
+  middle: 'Middle',
+  bottom: 'Bottom',
+}
+
+export interface CaptionSettings {
+  text: string
+  font: CaptionFont
+  /** Brightness of the fill, in nits. */
+  nits: number
+  /** Font size as a fraction of the image height. */
+  size: number
+  /** Outline width, 0 (none) to 1 (a quarter of the font size). */
+  outline: number
+  position: CaptionPosition
+}
+
+export const CAPTION_NITS_MIN = SDR_DIFFUSE_WHITE_NITS
+export const CAPTION_NITS_MAX = PQ_MAX_NITS
+export const CAPTION_SIZE_MIN = 0.03
+export const CAPTION_SIZE_MAX = 0.25
+export const CAPTION_TEXT_MAX_LENGTH = 280
+
+export const DEFAULT_CAPTION: CaptionSettings = {
+  text: '',
+  font: 'space-grotesk',
+  nits: 1000,
+  size: 0.1,
+  outline: 0.5,
+  position: 'bottom',
+}
+
+/** True when the caption has something to draw. */
+export function isCaptionActive(caption: CaptionSettings): boolean {
+  return caption.text.trim() !== ''
+}
+
+/**
+ * Coverage masks for the caption's bounding box, clipped to the image. Masks
+ * are row-major over the box with 0–255 coverage.
+ */
+export interface CaptionLayer {
+  left: number
+  top: number
+  width: number
+  height: number
+  /** Coverage of the text itself. */
+  fill: Uint8Array
+  /** Coverage of text and outline together; null without an outline. */
+  outline: Uint8Array | null
+  nits: number
+  /** Image row of the first row being processed; non-zero for export strips. */
+  rowOffset: number
+}
+
+// Line height and margin from the frame edge, as multiples of the font size.
+const LINE_HEIGHT = 1.15
+const EDGE_MARGIN = 0.5
+// Text wraps at this fraction of the image width.
+const MAX_LINE_WIDTH = 0.9
+// Stroke width at outline 1, as a fraction of the font size; half of it lies outside the glyph.
+const MAX_OUTLINE_WIDTH = 0.25
+
+export interface CaptionLayout {
+  fontSize: number
+  lineHeight: number
+  strokeWidth: number
+  lines: string[]
+  /** Centre of each line's em box, in image coordinates. */
+  centerX: number
+  firstLineY: number
+}
+
+/**
+ * Break the text into lines no wider than `maxWidth`, keeping explicit line
+ * breaks. A single word wider than the limit gets a line of its own.
+ */
+export function wrapCaptionLines(text: string, maxWidth: number, measure: (line: string) => number): string[] {
+  const lines: string[] = []
+  for (const paragraph of text.split('\n')) {
+    let line = ''
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word
+      if (line && measure(candidate) > maxWidth) {
+        lines.push(line)
+        line = word
+      } else {
+        line = candidate
+      }
+    }
+    if (line) lines.push(line)
+  }
+  return lines
+}
+
+/** Where the caption's lines go in a `width` × `height` image; `measure` takes a line at `fontSize`. */
+export function layoutCaption(
+  caption: CaptionSettings,
+  width: number,
+  height: number,
+  measure: (line: string, fontSize: number) => number,
+): CaptionLayout {
+  const fontSize = Math.max(1, Math.round(caption.size * height))
+  const lineHeight = fontSize * LINE_HEIGHT
+  const strokeWidth = caption.outline * MAX_OUTLINE_WIDTH * fontSize
+  const lines = wrapCaptionLines(caption.text, width * MAX_LINE_WIDTH, (line) => measure(line, fontSize))
+  const blockHeight = lines.length * lineHeight
+  const margin = fontSize * EDGE_MARGIN
+  const top =
+    caption.position === 'top' ? margin : caption.position === 'middle' ? (height - blockHeight) / 2 : height - margin - blockHeight
+  return { fontSize, lineHeight, strokeWidth, lines, centerX: width / 2, firstLineY: top + lineHeight / 2 }
+}
+
+/** Caption level in the output's 0–1 range: its nits, held to the display peak when the export is fit to one. */
+export function captionLevel(nits: number, peakNits: number, targetPeakNits?: number): number {
+  const limit = Math.min(peakNits, targetPeakNits ?? peakNits)
+  return Math.min(nits, limit) / peakNits
+}
+
+/**
+ * Composite the caption over a linear pixel at (x, y), in place: the outline
+ * darkens toward black, then the fill covers it at `level`. `alpha` is the
+ * pixel's straight alpha, 0–1; returns the alpha after compositing, so a
+ * caption over a transparent area stays visible.
+ */
+export function compositeCaption(layer: CaptionLayer, x: number, y: number, level: number, rgb: RGBTuple, alpha = 1): number {
+  const column = x - layer.left
+  const row = y + layer.rowOffset - layer.top
+  if (column < 0 || row < 0 || column >= layer.width || row >= layer.height) return alpha
+
+  const index = row * layer.width + column
+  const fill = (layer.fill[index] ?? 0) / 255
+  const outline = layer.outline ? (layer.outline[index] ?? 0) / 255 : fill
+  if (outline === 0) return alpha
+
+  // Source-over with the caption premultiplied: the outline adds coverage but no light.
+  const under = alpha * (1 - outline)
+  const composited = outline + under
+  const cover = fill * level
+  rgb[0] = (rgb[0] * under + cover) / composited
+  rgb[1] = (rgb[1] * under + cover) / composited
+  rgb[2] = (rgb[2] * under + cover) / composited
+  return composited
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest'
+import { applyColorLut, parseCubeLut, type ColorLut, type LutSpace } from './color-lut'
+import type { RGBTuple } from './bt2020-grading'
+
+/** A 3D .cube whose entries are `map` of each grid point. */
+function cube3d(size: number, map: (r: number, g: number, b: number) => RGBTuple, header = ''): string {
+  const rows: string[] = []
+  for (let b = 0; b < size; b++) {
+    for (let g = 0; g < size; g++) {
+      for (let r = 0; r < size; r++) rows.push(map(r / (size - 1), g / (size - 1), b / (size - 1)).join(' '))
+    }
+  }
+  return `${header}LUT_3D_SIZE ${size}\n${rows.join('\n')}\n`
+}
+
+function apply(lut: ColorLut, rgb: RGBTuple, space: LutSpace = 'linear', strength = 1): RGBTuple {
+  const out: RGBTuple = [...rgb]
+  applyColorLut({ lut, space, strength }, out)
+  return out
+}
+
+describe('parseCubeLut', () => {
+  it('reads the title, size, domain and table, skipping comments', () => {
+    const lut = parseCubeLut(
+      cube3d(2, (r, g, b) => [r, g, b], '# Resolve export\nTITLE "Warm Film"\nDOMAIN_MIN 0 0 0\nDOMAIN_MAX 1 1 2\n\n'),
+    )
+    expect(lut).toMatchObject({ title: 'Warm Film', kind: '3d', size: 2, domainMin: [0, 0, 0], domainMax: [1, 1, 2] })
+    expect(lut.table).toHaveLength(2 * 2 * 2 * 3)
+    expect(Array.from(lut.table.slice(3, 6))).toEqual([1, 0, 0])
+  })
+
+  it('reads 1D tables and the older input-range keyword', () => {
+    const lut = parseCubeLut('LUT_1D_SIZE 3\nLUT_1D_INPUT_RANGE 0 4\n0 0 0\n0.5 0.5 0.5\n1 1 1\n')
+    expect(lut).toMatchObject({ kind: '1d', size: 3, domainMin: [0, 0, 0], domainMax: [4, 4, 4], title: '' })
+  })
+
+  it('rejects malformed files with a useful message', () => {
+    expect(() => parseCubeLut('0 0 0\n')).toThrow(/LUT_3D_SIZE/)
+    expect(() => parseCubeLut('LUT_3D_SIZE 2\n0 0 0\n')).toThrow(/Expected 8 table rows/)
+    expect(() => parseCubeLut('LUT_3D_SIZE 2\n0 0 zero\n')).toThrow(/Line 2/)
+    expect(() => parseCubeLut('LUT_3D_SIZE 1\n')).toThrow(/integer from 2/)
+    expect(() => parseCubeLut('LUT_1D_SIZE 2\nLUT_3D_SIZE 2\n')).toThrow(/both a 1D and a 3D/)
+  })
+})
+
+describe('applyColorLut', () => {
+  it('reproduces any linear mapping exactly with tetrahedral interpolation', () => {
+    const swap = parseCubeLut(cube3d(5, (r, g, b) => [b, r, 0.5 * g + 0.25]))
+    const out = apply(swap, [0.3, 0.62, 0.91])
+    expect(out[0]).toBeCloseTo(0.91, 6)
+    expect(out[1]).toBeCloseTo(0.3, 6)
+    expect(out[2]).toBeCloseTo(0.56, 6)
+  })
+
+  it('leaves colors alone with an identity LUT in every space', () => {
+    const identity = parseCubeLut(cube3d(33, (r, g, b) => [r, g, b]))
+    for (const space of ['srgb', 'linear', 'log'] as const) {
+      const out = apply(identity, [0.05, 0.2, 0.7], space)
+      expect(out[0]).toBeCloseTo(0.05, 3)
+      expect(out[1]).toBeCloseTo(0.2, 3)
+      expect(out[2]).toBeCloseTo(0.7, 3)
+    }
+  })
+
+  it('keeps grey on the grey axis', () => {
+    const contrast = parseCubeLut(cube3d(9, (r, g, b) => [r * r, g * g, b * b]))
+    const [r, g, b] = apply(contrast, [0.43, 0.43, 0.43], 'srgb')
+    expect(g).toBeCloseTo(r, 10)
+    expect(b).toBeCloseTo(r, 10)
+  })
+
+  it('maps the declared domain onto the table', () => {
+    const lut = parseCubeLut('LUT_1D_SIZE 2\nDOMAIN_MAX 2 2 2\n0 0 0\n1 1 1\n')
+    expect(apply(lut, [1, 0.5, 2])).toEqual([0.5, 0.25, 1])
+  })
+
+  it('mixes with the original by strength in linear light', () => {
+    const invert = parseCubeLut('LUT_1D_SIZE 2\n1 1 1\n0 0 0\n')
+    expect(apply(invert, [0.2, 0.2, 0.2], 'linear', 0.5)).toEqual([0.5, 0.5, 0.5])
+    expect(apply(invert, [0.2, 0.2, 0.2], 'linear', 0)).toEqual([0.2, 0.2, 0.2])
+  })
+})
@@ -0,0 +1,268 @@
+/**
+ * .cube LUT import (Adobe/Resolve "Cube LUT Specification 1.0").
+ *
+ * A LUT is applied to the source before the HDR expansion, so a creative
+ * look made for SDR lands where it was designed and the boost then expands
+ * its result. LUTs are authored against Rec.709 primaries; the grader hands
+ * linear Rec.709 values in and out, and the LUT space says which encoding
+ * the table expects:
+ *   - srgb:   sRGB display encoding (most Resolve and Photoshop looks)
+ *   - linear: linear light, as-is
+ *   - log:    ACEScct, the usual log space for grading LUTs
+ *
+ * 3D tables are sampled with tetrahedral interpolation, which keeps neutral
+ * greys on the table's grey axis; 1D tables interpolate each channel
+ * linearly. Strength mixes the result with the original in linear light.
+ */
+
+import { srgbEncode, srgbEOTF } from './pq-transfer'
+import type { RGBTuple } from './bt2020-grading'
+
+export type LutSpace = 'srgb' | 'linear' | 'log'
+
+export const LUT_SPACES: readonly LutSpace[] = ['srgb', 'linear', 'log']
+export const DEFAULT_LUT_SPACE: LutSpace = 'srgb'
+
+export const LUT_SPACE_LABELS: Record<LutSpace, string> = {
+  srgb: 'sRGB',
+  linear: 'Linear',
+  log: 'Log',
+}
+
+export interface ColorLut {
+  /** `TITLE` from the file, or empty. */
+  title: string
+  kind: '1d' | '3d'
+  /** Entries per axis. */
+  size: number
+  domainMin: [number, number, number]
+  domainMax: [number, number, number]
+  /** RGB triplets, red varying fastest (3D: size³ entries, 1D: size entries). */
+  table: Float32Array
+}
+
+/** A LUT as it travels in worker requests. Kept out of `LookControls`, which are plain numbers. */
+export interface ColorLutSettings {
+  lut: ColorLut
+  space: LutSpace
+  /** 0 leaves the image untouched, 1 applies the LUT fully. */
+  strength: number
+}
+
+export const LUT_1D_MAX_SIZE = 65536
+export const LUT_3D_MAX_SIZE = 256
+
+// ACEScct (S-2016-001): linear toe below X_BRK, pure log2 above.
+const ACESCCT_X_BRK = 0.0078125
+const ACESCCT_Y_BRK = 0.155251141552511
+const ACESCCT_A = 10.5402377416545
+const ACESCCT_B = 0.0729055341958355
+
+function acesCctEncode(linear: number): number {
+  if (linear <= ACESCCT_X_BRK) return ACESCCT_A * linear + ACESCCT_B
+  return (Math.log2(linear) + 9.72) / 17.52
+}
+
+function acesCctDecode(value: number): number {
+  if (value <= ACESCCT_Y_BRK) return (value - ACESCCT_B) / ACESCCT_A
+  return Math.pow(2, value * 17.52 - 9.72)
+}
+
+function encodeForLut(linear: number, space: LutSpace): number {
+  if (space === 'srgb') return srgbEncode(linear)
+  if (space === 'log') return acesCctEncode(Math.max(0, linear))
+  return linear
+}
+
+function decodeFromLut(value: number, space: LutSpace): number {
+  if (space === 'srgb') return srgbEOTF(Math.max(0, value))
+  if (space === 'log') return acesCctDecode(value)
+  return value
+}
+
+function parseNumbers(tokens: string[], count: number, lineNumber: number, keyword: string): number[] {
+  const values = tokens.slice(1).map(Number)
+  if (values.length !== count || values.some((value) => !Number.isFinite(value))) {
+    throw new Error(`Line ${lineNumber}: ${keyword} needs ${count} numbers`)
+  }
+  return values
+}
+
+function parseSize(tokens: string[], lineNumber: number, max: number): number {
+  const [size] = parseNumbers(tokens, 1, lineNumber, tokens[0] ?? '')
+  if (size === undefined || !Number.isInteger(size) || size < 2 || size > max) {
+    throw new Error(`Line ${lineNumber}: ${tokens[0]} must be an integer from 2 to ${max}`)
+  }
+  return size
+}
+
+/**
+ * Parse the text of a .cube file. Throws with the offending line on
+ * malformed input. Files that combine a 1D shaper with a 3D table are
+ * rejected rather than applied half-way.
+ */
+export function parseCubeLut(text: string): ColorLut {
+  let title = ''
+  let size1d: number | null = null
+  let size3d: number | null = null
+  let domainMin: [number, number, number] = [0, 0, 0]
+  let domainMax: [number, number, number] = [1, 1, 1]
+  const values: number[] = []
+
+  const lines = text.split(/\r?\n/)
+  for (let index = 0; index < lines.length; index++) {
+    const lineNumber = index + 1
+    const line = (lines[index] ?? '').trim()
+    if (line === '' || line.startsWith('#')) continue
+
+    if (/^TITLE\b/.test(line)) {
+      title = line
+        .slice(5)
+        .trim()
+        .replace(/^"(.*)"$/, '$1')
+      continue
+    }
+
+    const tokens = line.split(/\s+/)
+    const keyword = tokens[0] ?? ''
+    if (keyword === 'LUT_1D_SIZE') {
+      size1d = parseSize(tokens, lineNumber, LUT_1D_MAX_SIZE)
+    } else if (keyword === 'LUT_3D_SIZE') {
+      size3d = parseSize(tokens, lineNumber, LUT_3D_MAX_SIZE)
+    } else if (keyword === 'DOMAIN_MIN') {
+      domainMin = parseNumbers(tokens, 3, lineNumber, keyword) as [number, number, number]
+    } else if (keyword === 'DOMAIN_MAX') {
+      domainMax = parseNumbers(tokens, 3, lineNumber, keyword) as [number, number, number]
+    } else if (keyword === 'LUT_1D_INPUT_RANGE' || keyword === 'LUT_3D_INPUT_RANGE') {
+      // Resolve's older spelling of the domain: one min/max pair for all channels.
+      const [min = 0, max = 1] = parseNumbers(tokens, 2, lineNumber, keyword)
+      domainMin = [min, min, min]
+      domainMax = [max, max, max]
+    } else if (/^[A-Z_]+$/.test(keyword)) {
+      // Unknown keywords are allowed by the spec and ignored.
+      continue
+    } else {
+      const triplet = parseNumbers(['', ...tokens], 3, lineNumber, 'A table row')
+      values.push(...triplet)
+    }
+  }
+
+  if (size1d !== null && size3d !== null) throw new Error('Files with both a 1D and a 3D table are not supported')
+  const size = size3d ?? size1d
+  if (size === null) throw new Error('Missing LUT_3D_SIZE or LUT_1D_SIZE')
+  for (let c = 0; c < 3; c++) {
+    if ((domainMax[c] ?? 1) <= (domainMin[c] ?? 0)) throw new Error('DOMAIN_MAX must be above DOMAIN_MIN')
+  }
+
+  const kind = size3d !== null ? '3d' : '1d'
+  const entries = kind === '3d' ? size * size * size : size
+  if (values.length !== entries * 3) {
+    throw new Error(`Expected ${entries} table rows for a ${kind.toUpperCase()} LUT of size ${size}, found ${values.length / 3}`)
+  }
+
+  return { title, kind, size, domainMin, domainMax, table: Float32Array.from(values) }
+}
+
+/** Table lookup for 1D LUTs: each channel interpolated along its own column. */
+function sample1d(lut: ColorLut, input: RGBTuple, out: RGBTuple): void {
+  const last = lut.size - 1
+  for (let c = 0; c < 3; c++) {
+    const x = Math.min(Math.max(input[c] ?? 0, 0), 1) * last
+    const i0 = Math.min(Math.floor(x), last - 1)
+    const t = x - i0
+    const a = lut.table[i0 * 3 + c] ?? 0
+    const b = lut.table[(i0 + 1) * 3 + c] ?? 0
+    out[c] = a + (b - a) * t
+  }
+}
+
+/** Tetrahedral interpolation in the cube containing `input` (each channel 0–1). */
+function sample3d(lut: ColorLut, input: RGBTuple, out: RGBTuple): void {
+  const { size, table } = lut
+  const last = size - 1
+  const fr = Math.min(Math.max(input[0], 0), 1) * last
+  const fg = Math.min(Math.max(input[1], 0), 1) * last
+  const fb = Math.min(Math.max(input[2], 0), 1) * last
+  const r0 = Math.min(Math.floor(fr), last - 1)
+  const g0 = Math.min(Math.floor(fg), last - 1)
+  const b0 = Math.min(Math.floor(fb), last - 1)
+  const dr = fr - r0
+  const dg = fg - g0
+  const db = fb - b0
+
+  const index = (r: number, g: number, b: number) => ((b * size + g) * size + r) * 3
+  const c000 = index(r0, g0, b0)
+  const c111 = index(r0 + 1, g0 + 1, b0 + 1)
+  // The tetrahedron is picked by the order of the fractional offsets; its
+  // two middle corners step one axis, then two.
+  let c1: number
+  let c2: number
+  let w0: number
+  let w1: number
+  let w2: number
+  let w3: number
+  if (dr >= dg && dg >= db) {
+    c1 = index(r0 + 1, g0, b0)
+    c2 = index(r0 + 1, g0 + 1, b0)
+    w0 = 1 - dr
+    w1 = dr - dg
+    w2 = dg - db
+    w3 = db
+  } else if (dr >= db && db >= dg) {
+    c1 = index(r0 + 1, g0, b0)
+    c2 = index(r0 + 1, g0, b0 + 1)
+    w0 = 1 - dr
+    w1 = dr - db
+    w2 = db - dg
+    w3 = dg
+  } else if (db >= dr && dr >= dg) {
+    c1 = index(r0, g0, b0 + 1)
+    c2 = index(r0 + 1, g0, b0 + 1)
+    w0 = 1 - db
+    w1 = db - dr
+    w2 = dr - dg
+    w3 = dg
+  } else if (dg >= dr && dr >= db) {
+    c1 = index(r0, g0 + 1, b0)
+    c2 = index(r0 + 1, g0 + 1, b0)
+    w0 = 1 - dg
+    w1 = dg - dr
+    w2 = dr - db
+    w3 = db
+  } else if (dg >= db && db >= dr) {
+    c1 = index(r0, g0 + 1, b0)
+    c2 = index(r0, g0 + 1, b0 + 1)
+    w0 = 1 - dg
+    w1 = dg - db
+    w2 = db - dr
+    w3 = dr
+  } else {
+    c1 = index(r0, g0, b0 + 1)
+    c2 = index(r0, g0 + 1, b0 + 1)
+    w0 = 1 - db
+    w1 = db - dg
+    w2 = dg - dr
+    w3 = dr
+  }
+
+  for (let c = 0; c < 3; c++) {
+    out[c] = (table[c000 + c] ?? 0) * w0 + (table[c1 + c] ?? 0) * w1 + (table[c2 + c] ?? 0) * w2 + (table[c111 + c] ?? 0) * w3
+  }
+}
+
+/** Apply a LUT in place to linear Rec.709 RGB. */
+export function applyColorLut(settings: ColorLutSettings, rgb: RGBTuple): void {
+  const { lut, space, strength } = settings
+  const [r, g, b] = rgb
+  // `rgb` holds the LUT coordinates and then the sample; both samplers read their input before writing.
+  for (let c = 0; c < 3; c++) {
+    const min = lut.domainMin[c] ?? 0
+    const max = lut.domainMax[c] ?? 1
+    rgb[c] = (encodeForLut(rgb[c] ?? 0, space) - min) / (max - min)
+  }
+  if (lut.kind === '3d') sample3d(lut, rgb, rgb)
+  else sample1d(lut, rgb, rgb)
+  rgb[0] = r + (decodeFromLut(rgb[0], space) - r) * strength
+  rgb[1] = g + (decodeFromLut(rgb[1], space) - g) * strength
+  rgb[2] = b + (decodeFromLut(rgb[2], space) - b) * strength
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+import { applyBt2390Eetf, bt2390Signal, createBt2390Eetf } from './eetf'
+import { pqDecode, pqEncodeDebug } from './pq-transfer'
+import type { RGBTuple } from './bt2020-grading'
+
+const pq = (nits: number) => pqEncodeDebug(nits / 10000).exact
+
+describe('createBt2390Eetf', () => {
+  it('places the knee at 1.5 × maxLum − 0.5 in the PQ domain', () => {
+    const eetf = createBt2390Eetf(1000)
+    expect(eetf.maxLum).toBeCloseTo(pq(1000), 4)
+    expect(eetf.kneeStart).toBeCloseTo(1.5 * pq(1000) - 0.5, 4)
+    expect(eetf.kneeStartLinear * 10000).toBeCloseTo(pqDecode(eetf.kneeStart) * 10000, 6)
+  })
+})
+
+describe('bt2390Signal', () => {
+  const eetf = createBt2390Eetf(1000)
+
+  it('passes signal below the knee through unchanged', () => {
+    expect(bt2390Signal(0.3, eetf)).toBe(0.3)
+    expect(bt2390Signal(eetf.kneeStart - 1e-6, eetf)).toBe(eetf.kneeStart - 1e-6)
+  })
+
+  it('lands the 10000-nit source peak exactly on the target peak', () => {
+    expect(bt2390Signal(1, eetf)).toBeCloseTo(eetf.maxLum, 10)
+  })
+
+  it('is continuous with unit slope at the knee and monotonic above it', () => {
+    const h = 1e-6
+    expect(bt2390Signal(eetf.kneeStart, eetf)).toBeCloseTo(eetf.kneeStart, 10)
+    expect((bt2390Signal(eetf.kneeStart + h, eetf) - eetf.kneeStart) / h).toBeCloseTo(1, 3)
+
+    let previous = bt2390Signal(eetf.kneeStart, eetf)
+    for (let i = 1; i <= 32; i++) {
+      const next = bt2390Signal(eetf.kneeStart + ((1 - eetf.kneeStart) * i) / 32, eetf)
+      expect(next).toBeGreaterThan(previous)
+      previous = next
+    }
+  })
+})
+
+describe('applyBt2390Eetf', () => {
+  it('caps the brightest channel at the target peak and keeps channel ratios', () => {
+    const eetf = createBt2390Eetf(600)
+    const rgb: RGBTuple = [1, 0.5, 0.25]
+    applyBt2390Eetf(rgb, eetf)
+    expect(rgb[0] * 10000).toBeCloseTo(600, -1)
+    expect(rgb[1] / rgb[0]).toBeCloseTo(0.5, 10)
+    expect(rgb[2] / rgb[0]).toBeCloseTo(0.25, 10)
+  })
+
+  it('leaves pixels under the knee untouched', () => {
+    const eetf = createBt2390Eetf(1000)
+    const rgb: RGBTuple = [0.01, 0.008, 0.005]
+    applyBt2390Eetf(rgb, eetf)
+    expect(rgb).toEqual([0.01, 0.008, 0.005])
+  })
+})
@@ -0,0 +1,66 @@
+/**
+ * BT.2390 EETF: fits a PQ grade into a display with a lower peak.
+ *
+ * Below the knee start (KS) the signal passes through untouched; above it a
+ * Hermite spline rolls highlights off so the source peak lands exactly on the
+ * target peak instead of clipping. The curve works on PQ signal values, and it
+ * is applied to each pixel's max channel with RGB scaled by the same ratio, so
+ * hue and saturation survive the compression.
+ *
+ * The source range is the full PQ container (0–10000 nits) and the target
+ * black is 0, so BT.2390's black-level lift term drops out.
+ */
+
+import { PQ_MAX_NITS } from './hdr-boost'
+import { pqDecode, pqEncode } from './pq-transfer'
+import type { RGBTuple } from './bt2020-grading'
+
+export interface Bt2390Eetf {
+  targetPeakNits: number
+  /** Target peak as a PQ signal (BT.2390 `maxLum`). */
+  maxLum: number
+  /** Knee start as a PQ signal. */
+  kneeStart: number
+  /** Knee start in linear light, normalized to 10000 nits, for a cheap pass-through test. */
+  kneeStartLinear: number
+}
+
+export interface DisplayPeakPreset {
+  nits: number
+  label: string
+  description: string
+}
+
+export const DISPLAY_PEAK_PRESETS: readonly DisplayPeakPreset[] = [
+  { nits: 600, label: '600', description: 'HDR laptops and DisplayHDR 600 monitors' },
+  { nits: 1000, label: '1000', description: 'Most HDR phones and DisplayHDR 1000 monitors' },
+  { nits: 1600, label: '1600', description: 'Flagship phones at peak brightness' },
+  { nits: 4000, label: '4000', description: 'Mastering monitors' },
+]
+
+export function createBt2390Eetf(targetPeakNits: number): Bt2390Eetf {
+  const maxLum = pqEncode(Math.min(targetPeakNits, PQ_MAX_NITS) / PQ_MAX_NITS)
+  const kneeStart = Math.max(0, 1.5 * maxLum - 0.5)
+  return { targetPeakNits, maxLum, kneeStart, kneeStartLinear: pqDecode(kneeStart) }
+}
+
+/** The EETF on a normalized PQ signal (0–1). */
+export function bt2390Signal(signal: number, eetf: Bt2390Eetf): number {
+  const { kneeStart, maxLum } = eetf
+  if (signal < kneeStart || kneeStart >= 1) return signal
+  const t = (Math.min(signal, 1) - kneeStart) / (1 - kneeStart)
+  const t2 = t * t
+  const t3 = t2 * t
+  return (2 * t3 - 3 * t2 + 1) * kneeStart + (t3 - 2 * t2 + t) * (1 - kneeStart) + (-2 * t3 + 3 * t2) * maxLum
+}
+
+/** Compress one linear BT.2020 pixel (normalized to 10000 nits) in place. */
+export function applyBt2390Eetf(rgb: RGBTuple, eetf: Bt2390Eetf): void {
+  const peak = Math.max(rgb[0], rgb[1], rgb[2])
+  if (peak <= eetf.kneeStartLinear) return
+  const mapped = pqDecode(bt2390Signal(pqEncode(Math.min(peak, 1)), eetf))
+  const scale = mapped / peak
+  rgb[0] *= scale
+  rgb[1] *= scale
+  rgb[2] *= scale
+}
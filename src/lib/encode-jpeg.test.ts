@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+import { encodeJPEG, JPEG_MARKER_APP1, makeJPEGSegment, readJPEGSegments } from './encode-jpeg'
+
+const SOF0 = 0xc0
+const SOS = 0xda
+
+function scanData(jpeg: Uint8Array): Uint8Array {
+  const sos = readJPEGSegments(jpeg).find((segment) => segment.marker === SOS)
+  if (!sos) throw new Error('SOS missing')
+  return jpeg.subarray(sos.offset + 4 + sos.payload.length, jpeg.length - 2)
+}
+
+describe('encodeJPEG', () => {
+  it('writes SOI, JFIF, tables, frame, and scan headers in baseline order', () => {
+    const jpeg = encodeJPEG(20, 10, new Uint8ClampedArray(20 * 10 * 4).fill(200), 4)
+    expect([...jpeg.subarray(0, 2)]).toEqual([0xff, 0xd8])
+    expect([...jpeg.subarray(-2)]).toEqual([0xff, 0xd9])
+    expect(readJPEGSegments(jpeg).map((segment) => segment.marker)).toEqual([0xe0, 0xdb, SOF0, 0xc4, SOS])
+  })
+
+  it('describes 4:2:0 YCbCr for color and a single component for grayscale', () => {
+    const color = readJPEGSegments(encodeJPEG(33, 17, new Uint8ClampedArray(33 * 17 * 4), 4)).find((s) => s.marker === SOF0)
+    expect([...(color?.payload ?? [])]).toEqual([8, 0, 17, 0, 33, 3, 1, 0x22, 0, 2, 0x11, 1, 3, 0x11, 1])
+
+    const gray = readJPEGSegments(encodeJPEG(9, 9, new Uint8Array(81), 1)).find((s) => s.marker === SOF0)
+    expect([...(gray?.payload ?? [])]).toEqual([8, 0, 9, 0, 9, 1, 1, 0x11, 0])
+  })
+
+  it('codes a flat mid-gray block as a zero DC difference and end-of-block', () => {
+    // DC category 0 ("00") + EOB ("1010"), padded with 1-bits: 0b00101011.
+    expect([...scanData(encodeJPEG(8, 8, new Uint8Array(64).fill(128), 1))]).toEqual([0x2b])
+  })
+
+  it('byte-stuffs 0xFF inside entropy-coded data', () => {
+    const noise = new Uint8Array(64 * 64)
+    for (let i = 0; i < noise.length; i++) noise[i] = (i * 7919) % 251
+    const data = scanData(encodeJPEG(64, 64, noise, 1, { quality: 100 }))
+    for (let i = 0; i < data.length - 1; i++) {
+      if (data[i] === 0xff) expect(data[i + 1]).toBe(0)
+    }
+  })
+
+  it('shrinks output as quality drops', () => {
+    const gradient = new Uint8Array(64 * 64)
+    for (let i = 0; i < gradient.length; i++) gradient[i] = (i % 64) * 4 + ((i >> 6) % 3)
+    expect(encodeJPEG(64, 64, gradient, 1, { quality: 30 }).length).toBeLessThan(encodeJPEG(64, 64, gradient, 1, { quality: 95 }).length)
+  })
+
+  it('places caller APP segments right after the JFIF header', () => {
+    const app1 = makeJPEGSegment(JPEG_MARKER_APP1, new TextEncoder().encode('hello'))
+    const segments = readJPEGSegments(encodeJPEG(8, 8, new Uint8Array(64), 1, { appSegments: [app1] }))
+    expect(segments[1]?.marker).toBe(JPEG_MARKER_APP1)
+    expect(new TextDecoder().decode(segments[1]?.payload)).toBe('hello')
+  })
+
+  it('rejects APP payloads that overflow the segment length field', () => {
+    expect(() => makeJPEGSegment(JPEG_MARKER_APP1, new Uint8Array(70000))).toThrow('JPEG segment payload too large')
+  })
+})
@@ -0,0 +1,493 @@
+/**
+ * Manual baseline JPEG encoder
+ *
+ * The Ultra HDR export needs JPEGs with our own APP segments (XMP, ISO 21496-1,
+ * MPF) placed before the image data, and a single-channel gain map. Canvas
+ * `toBlob()` can do neither, so this writes baseline (SOF0) JPEG files directly:
+ *   - 8-bit YCbCr with 4:2:0 chroma subsampling for color images
+ *   - 8-bit grayscale (one component) for gain maps
+ *   - the Annex K quantization and Huffman tables, quality-scaled like libjpeg
+ *   - a JFIF APP0 header followed by any caller-supplied APPn segments
+ *
+ * JPEG spec: https://www.w3.org/Graphics/JPEG/itu-t81.pdf
+ */
+
+const DEFAULT_JPEG_QUALITY = 90
+const MAX_SEGMENT_PAYLOAD = 65533 // 16-bit length field minus its own two bytes
+
+// Natural (row-major) index of each coefficient in zigzag scan order.
+const ZIGZAG = new Uint8Array([
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5, 12, 19, 26, 33, 40, 48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28, 35, 42, 49, 56, 57,
+  50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51, 58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54, 47, 55, 62, 63,
+])
+
+// Annex K.1 example quantization tables, natural order.
+const BASE_LUMA_QUANT = [
+  16, 11, 10, 16, 24, 40, 51, 61, 12, 12, 14, 19, 26, 58, 60, 55, 14, 13, 16, 24, 40, 57, 69, 56, 14, 17, 22, 29, 51, 87, 80, 62, 18, 22,
+  37, 56, 68, 109, 103, 77, 24, 35, 55, 64, 81, 104, 113, 92, 49, 64, 78, 87, 103, 121, 120, 101, 72, 92, 95, 98, 112, 100, 103, 99,
+]
+const BASE_CHROMA_QUANT = [
+  17, 18, 24, 47, 99, 99, 99, 99, 18, 21, 26, 66, 99, 99, 99, 99, 24, 26, 56, 99, 99, 99, 99, 99, 47, 66, 99, 99, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99,
+]
+
+// Annex K.3 typical Huffman tables: code counts per length (1–16 bits), then symbols.
+interface HuffmanSpec {
+  counts: number[]
+  symbols: number[]
+}
+
+const DC_LUMA: HuffmanSpec = {
+  counts: [0, 1, 5, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0, 0, 0],
+  symbols: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+}
+const DC_CHROMA: HuffmanSpec = {
+  counts: [0, 3, 1, 1, 1, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0],
+  symbols: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+}
+const AC_LUMA: HuffmanSpec = {
+  counts: [0, 2, 1, 3, 3, 2, 4, 3, 5, 5, 4, 4, 0, 0, 1, 0x7d],
+  symbols: [
+    0x01, 0x02, 0x03, 0x00, 0x04, 0x11, 0x05, 0x12, 0x21, 0x31, 0x41, 0x06, 0x13, 0x51, 0x61, 0x07, 0x22, 0x71, 0x14, 0x32, 0x81, 0x91,
+    0xa1, 0x08, 0x23, 0x42, 0xb1, 0xc1, 0x15, 0x52, 0xd1, 0xf0, 0x24, 0x33, 0x62, 0x72, 0x82, 0x09, 0x0a, 0x16, 0x17, 0x18, 0x19, 0x1a,
+    0x25, 0x26, 0x27, 0x28, 0x29, 0x2a, 0x34, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3a, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48, 0x49, 0x4a, 0x53,
+    0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5a, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68, 0x69, 0x6a, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79,
+    0x7a, 0x83, 0x84, 0x85, 0x86, 0x87, 0x88, 0x89, 0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a, 0xa2, 0xa3, 0xa4, 0xa5,
+    0xa6, 0xa7, 0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4, 0xb5, 0xb6, 0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3, 0xc4, 0xc5, 0xc6, 0xc7, 0xc8, 0xc9,
+    0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda, 0xe1, 0xe2, 0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xf1, 0xf2,
+    0xf3, 0xf4, 0xf5, 0xf6, 0xf7, 0xf8, 0xf9, 0xfa,
+  ],
+}
+const AC_CHROMA: HuffmanSpec = {
+  counts: [0, 2, 1, 2, 4, 4, 3, 4, 7, 5, 4, 4, 0, 1, 2, 0x77],
+  symbols: [
+    0x00, 0x01, 0x02, 0x03, 0x11, 0x04, 0x05, 0x21, 0x31, 0x06, 0x12, 0x41, 0x51, 0x07, 0x61, 0x71, 0x13, 0x22, 0x32, 0x81, 0x08, 0x14,
+    0x42, 0x91, 0xa1, 0xb1, 0xc1, 0x09, 0x23, 0x33, 0x52, 0xf0, 0x15, 0x62, 0x72, 0xd1, 0x0a, 0x16, 0x24, 0x34, 0xe1, 0x25, 0xf1, 0x17,
+    0x18, 0x19, 0x1a, 0x26, 0x27, 0x28, 0x29, 0x2a, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3a, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48, 0x49, 0x4a,
+    0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5a, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68, 0x69, 0x6a, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78,
+    0x79, 0x7a, 0x82, 0x83, 0x84, 0x85, 0x86, 0x87, 0x88, 0x89, 0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a, 0xa2, 0xa3,
+    0xa4, 0xa5, 0xa6, 0xa7, 0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4, 0xb5, 0xb6, 0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3, 0xc4, 0xc5, 0xc6, 0xc7,
+    0xc8, 0xc9, 0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda, 0xe2, 0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xf2,
+    0xf3, 0xf4, 0xf5, 0xf6, 0xf7, 0xf8, 0xf9, 0xfa,
+  ],
+}
+
+// AAN DCT output scale factors; folded into the quantizer divisors.
+const AAN_SCALE = [1.0, 1.387039845, 1.306562965, 1.175875602, 1.0, 0.785694958, 0.5411961, 0.275899379]
+
+export const JPEG_MARKER_APP1 = 0xe1
+export const JPEG_MARKER_APP2 = 0xe2
+
+export interface EncodeJPEGOptions {
+  /** 1–100, libjpeg-style quality scaling of the Annex K tables. */
+  quality?: number
+  /** Complete APPn segments (from `makeJPEGSegment`) written right after the JFIF header. */
+  appSegments?: Uint8Array[]
+  /** Called with the fraction of MCU rows encoded so far. */
+  onProgress?: (fraction: number) => void
+}
+
+interface HuffmanTable {
+  codes: Uint16Array
+  lengths: Uint8Array
+}
+
+function buildHuffmanTable({ counts, symbols }: HuffmanSpec): HuffmanTable {
+  const codes = new Uint16Array(256)
+  const lengths = new Uint8Array(256)
+  let code = 0
+  let k = 0
+  for (let length = 1; length <= 16; length++) {
+    const count = counts[length - 1] ?? 0
+    for (let i = 0; i < count; i++) {
+      const symbol = symbols[k++] ?? 0
+      codes[symbol] = code++
+      lengths[symbol] = length
+    }
+    code <<= 1
+  }
+  return { codes, lengths }
+}
+
+const DC_LUMA_TABLE = buildHuffmanTable(DC_LUMA)
+const DC_CHROMA_TABLE = buildHuffmanTable(DC_CHROMA)
+const AC_LUMA_TABLE = buildHuffmanTable(AC_LUMA)
+const AC_CHROMA_TABLE = buildHuffmanTable(AC_CHROMA)
+
+function scaleQuantTable(base: number[], quality: number): Uint8Array {
+  const q = Math.min(100, Math.max(1, Math.round(quality)))
+  const scale = q < 50 ? 5000 / q : 200 - q * 2
+  const table = new Uint8Array(64)
+  for (let i = 0; i < 64; i++) {
+    table[i] = Math.min(255, Math.max(1, Math.floor(((base[i] ?? 1) * scale + 50) / 100)))
+  }
+  return table
+}
+
+/** Reciprocal divisors that quantize AAN DCT output straight into zigzag order. */
+function buildDivisors(quant: Uint8Array): Float32Array {
+  const divisors = new Float32Array(64)
+  for (let i = 0; i < 64; i++) {
+    const row = i >> 3
+    const col = i & 7
+    divisors[i] = 1 / ((quant[i] ?? 1) * (AAN_SCALE[row] ?? 1) * (AAN_SCALE[col] ?? 1) * 8)
+  }
+  return divisors
+}
+
+/**
+ * Build one marker segment: 0xFF, marker, 16-bit length, payload.
+ */
+export function makeJPEGSegment(marker: number, payload: Uint8Array): Uint8Array {
+  if (payload.length > MAX_SEGMENT_PAYLOAD) throw new Error(`JPEG segment payload too large (${payload.length} bytes)`)
+  const segment = new Uint8Array(4 + payload.length)
+  segment[0] = 0xff
+  segment[1] = marker
+  segment[2] = ((payload.length + 2) >> 8) & 0xff
+  segment[3] = (payload.length + 2) & 0xff
+  segment.set(payload, 4)
+  return segment
+}
+
+export interface JPEGSegment {
+  marker: number
+  /** Byte offset of the segment's 0xFF marker prefix within the file. */
+  offset: number
+  payload: Uint8Array
+}
+
+/**
+ * Walk the marker segments of a JPEG header, from SOI up to and including
+ * SOS (entropy-coded data after SOS is not parsed).
+ */
+export function readJPEGSegments(bytes: Uint8Array): JPEGSegment[] {
+  const segments: JPEGSegment[] = []
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return segments
+  let offset = 2
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1] ?? 0
+    const length = ((bytes[offset + 2] ?? 0) << 8) | (bytes[offset + 3] ?? 0)
+    if (length < 2 || offset + 2 + length > bytes.length) break
+    segments.push({ marker, offset, payload: bytes.subarray(offset + 4, offset + 2 + length) })
+    if (marker === 0xda) break
+    offset += 2 + length
+  }
+  return segments
+}
+
+function makeJFIF(): Uint8Array {
+  // "JFIF\0", version 1.01, aspect-ratio units, 1:1 density, no thumbnail
+  return makeJPEGSegment(0xe0, new Uint8Array([0x4a, 0x46, 0x49, 0x46, 0x00, 1, 1, 0, 0, 1, 0, 1, 0, 0]))
+}
+
+function makeDQT(tables: Uint8Array[]): Uint8Array {
+  const payload = new Uint8Array(tables.length * 65)
+  tables.forEach((table, id) => {
+    payload[id * 65] = id // 8-bit precision, table id
+    for (let k = 0; k < 64; k++) payload[id * 65 + 1 + k] = table[ZIGZAG[k] ?? 0] ?? 1
+  })
+  return makeJPEGSegment(0xdb, payload)
+}
+
+function makeSOF0(width: number, height: number, color: boolean): Uint8Array {
+  const components = color
+    ? [
+        [1, 0x22, 0], // Y: 2×2 sampling, luma table
+        [2, 0x11, 1], // Cb
+        [3, 0x11, 1], // Cr
+      ]
+    : [[1, 0x11, 0]]
+  const payload = new Uint8Array(6 + components.length * 3)
+  payload[0] = 8
+  payload[1] = (height >> 8) & 0xff
+  payload[2] = height & 0xff
+  payload[3] = (width >> 8) & 0xff
+  payload[4] = width & 0xff
+  payload[5] = components.length
+  components.forEach((component, i) => payload.set(component, 6 + i * 3))
+  return makeJPEGSegment(0xc0, payload)
+}
+
+function makeDHT(specs: [tableClassAndId: number, spec: HuffmanSpec][]): Uint8Array {
+  const parts: number[] = []
+  for (const [classAndId, spec] of specs) parts.push(classAndId, ...spec.counts, ...spec.symbols)
+  return makeJPEGSegment(0xc4, new Uint8Array(parts))
+}
+
+function makeSOS(color: boolean): Uint8Array {
+  const components = color
+    ? [
+        [1, 0x00],
+        [2, 0x11],
+        [3, 0x11],
+      ]
+    : [[1, 0x00]]
+  const payload = new Uint8Array(4 + components.length * 2)
+  payload[0] = components.length
+  components.forEach((component, i) => payload.set(component, 1 + i * 2))
+  payload[payload.length - 3] = 0 // spectral selection start
+  payload[payload.length - 2] = 63 // spectral selection end
+  payload[payload.length - 1] = 0 // successive approximation
+  return makeJPEGSegment(0xda, payload)
+}
+
+interface BitWriter {
+  write(code: number, length: number): void
+  finish(): Uint8Array
+}
+
+// Entropy-coded data writer: MSB-first bits with 0xFF byte stuffing.
+function createBitWriter(initialCapacity: number): BitWriter {
+  let bytes = new Uint8Array(Math.max(1024, initialCapacity))
+  let length = 0
+  let buffer = 0
+  let bufferBits = 0
+
+  const pushByte = (byte: number) => {
+    if (length + 2 > bytes.length) {
+      const grown = new Uint8Array(bytes.length * 2)
+      grown.set(bytes)
+      bytes = grown
+    }
+    bytes[length++] = byte
+    if (byte === 0xff) bytes[length++] = 0
+  }
+
+  return {
+    write(code, bits) {
+      buffer = (buffer << bits) | code
+      bufferBits += bits
+      while (bufferBits >= 8) {
+        bufferBits -= 8
+        pushByte((buffer >> bufferBits) & 0xff)
+      }
+      buffer &= (1 << bufferBits) - 1
+    },
+    finish() {
+      if (bufferBits > 0) {
+        // Pad the final byte with 1-bits, as the spec requires.
+        const pad = 8 - bufferBits
+        pushByte(((buffer << pad) | ((1 << pad) - 1)) & 0xff)
+        buffer = 0
+        bufferBits = 0
+      }
+      return bytes.subarray(0, length)
+    },
+  }
+}
+
+/** In-place AAN forward DCT of one 8×8 block (level-shifted samples). */
+function forwardDCT(block: Float32Array): void {
+  for (let pass = 0; pass < 2; pass++) {
+    const stride = pass === 0 ? 1 : 8
+    const step = pass === 0 ? 8 : 1
+    for (let line = 0; line < 8; line++) {
+      const o = line * step
+      const d0 = block[o] ?? 0
+      const d1 = block[o + stride] ?? 0
+      const d2 = block[o + 2 * stride] ?? 0
+      const d3 = block[o + 3 * stride] ?? 0
+      const d4 = block[o + 4 * stride] ?? 0
+      const d5 = block[o + 5 * stride] ?? 0
+      const d6 = block[o + 6 * stride] ?? 0
+      const d7 = block[o + 7 * stride] ?? 0
+
+      const tmp0 = d0 + d7
+      const tmp7 = d0 - d7
+      const tmp1 = d1 + d6
+      const tmp6 = d1 - d6
+      const tmp2 = d2 + d5
+      const tmp5 = d2 - d5
+      const tmp3 = d3 + d4
+      const tmp4 = d3 - d4
+
+      // Even part
+      const tmp10 = tmp0 + tmp3
+      const tmp13 = tmp0 - tmp3
+      const tmp11 = tmp1 + tmp2
+      const tmp12 = tmp1 - tmp2
+      block[o] = tmp10 + tmp11
+      block[o + 4 * stride] = tmp10 - tmp11
+      const z1 = (tmp12 + tmp13) * 0.707106781
+      block[o + 2 * stride] = tmp13 + z1
+      block[o + 6 * stride] = tmp13 - z1
+
+      // Odd part
+      const odd10 = tmp4 + tmp5
+      const odd11 = tmp5 + tmp6
+      const odd12 = tmp6 + tmp7
+      const z5 = (odd10 - odd12) * 0.382683433
+      const z2 = 0.5411961 * odd10 + z5
+      const z4 = 1.306562965 * odd12 + z5
+      const z3 = odd11 * 0.707106781
+      const z11 = tmp7 + z3
+      const z13 = tmp7 - z3
+      block[o + 5 * stride] = z13 + z2
+      block[o + 3 * stride] = z13 - z2
+      block[o + stride] = z11 + z4
+      block[o + 7 * stride] = z11 - z4
+    }
+  }
+}
+
+function bitLength(value: number): number {
+  let magnitude = value < 0 ? -value : value
+  let bits = 0
+  while (magnitude) {
+    bits++
+    magnitude >>= 1
+  }
+  return bits
+}
+
+function createBlockEncoder(writer: BitWriter) {
+  const coefficients = new Int16Array(64)
+
+  /** DCT, quantize, and entropy-code one block; returns the new DC predictor. */
+  return function encodeBlock(block: Float32Array, divisors: Float32Array, dc: HuffmanTable, ac: HuffmanTable, previousDC: number): number {
+    forwardDCT(block)
+    for (let k = 0; k < 64; k++) {
+      const natural = ZIGZAG[k] ?? 0
+      coefficients[k] = Math.round((block[natural] ?? 0) * (divisors[natural] ?? 0))
+    }
+
+    const dcValue = coefficients[0] ?? 0
+    const diff = dcValue - previousDC
+    const dcBits = bitLength(diff)
+    writer.write(dc.codes[dcBits] ?? 0, dc.lengths[dcBits] ?? 0)
+    if (dcBits) writer.write(diff < 0 ? diff + (1 << dcBits) - 1 : diff, dcBits)
+
+    let run = 0
+    for (let k = 1; k < 64; k++) {
+      const value = coefficients[k] ?? 0
+      if (value === 0) {
+        run++
+        continue
+      }
+      while (run > 15) {
+        writer.write(ac.codes[0xf0] ?? 0, ac.lengths[0xf0] ?? 0) // ZRL: sixteen zeros
+        run -= 16
+      }
+      const bits = bitLength(value)
+      const symbol = (run << 4) | bits
+      writer.write(ac.codes[symbol] ?? 0, ac.lengths[symbol] ?? 0)
+      writer.write(value < 0 ? value + (1 << bits) - 1 : value, bits)
+      run = 0
+    }
+    if (run > 0) writer.write(ac.codes[0x00] ?? 0, ac.lengths[0x00] ?? 0) // EOB
+
+    return dcValue
+  }
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  let total = 0
+  for (const part of parts) total += part.length
+  const out = new Uint8Array(total)
+  let offset = 0
+  for (const part of parts) {
+    out.set(part, offset)
+    offset += part.length
+  }
+  return out
+}
+
+/**
+ * Encode a baseline JPEG.
+ *
+ * `pixels` is RGBA8 (`channels = 4`, alpha ignored) for a YCbCr 4:2:0 image,
+ * or one byte per pixel (`channels = 1`) for a grayscale image. Edges are
+ * padded by repeating the last row/column so partial MCUs don't ring.
+ */
+export function encodeJPEG(
+  width: number,
+  height: number,
+  pixels: Uint8Array | Uint8ClampedArray,
+  channels: 1 | 4,
+  options: EncodeJPEGOptions = {},
+): Uint8Array {
+  const quality = options.quality ?? DEFAULT_JPEG_QUALITY
+  const color = channels === 4
+  const lumaQuant = scaleQuantTable(BASE_LUMA_QUANT, quality)
+  const chromaQuant = scaleQuantTable(BASE_CHROMA_QUANT, quality)
+  const lumaDivisors = buildDivisors(lumaQuant)
+  const chromaDivisors = buildDivisors(chromaQuant)
+
+  const writer = createBitWriter(Math.ceil((width * height * channels) / 4))
+  const encodeBlock = createBlockEncoder(writer)
+  const block = new Float32Array(64)
+  let dcY = 0
+  let dcCb = 0
+  let dcCr = 0
+
+  const sampleIndex = (x: number, y: number) => (Math.min(y, height - 1) * width + Math.min(x, width - 1)) * channels
+
+  if (!color) {
+    for (let by = 0; by < height; by += 8) {
+      for (let bx = 0; bx < width; bx += 8) {
+        for (let i = 0; i < 64; i++) block[i] = (pixels[sampleIndex(bx + (i & 7), by + (i >> 3))] ?? 0) - 128
+        dcY = encodeBlock(block, lumaDivisors, DC_LUMA_TABLE, AC_LUMA_TABLE, dcY)
+      }
+      options.onProgress?.(Math.min(1, (by + 8) / height))
+    }
+  } else {
+    // One MCU = 16×16 pixels: four luma blocks plus one 2×2-averaged block each of Cb and Cr.
+    const yPlane = new Float32Array(256)
+    const cbPlane = new Float32Array(256)
+    const crPlane = new Float32Array(256)
+    for (let my = 0; my < height; my += 16) {
+      for (let mx = 0; mx < width; mx += 16) {
+        for (let i = 0; i < 256; i++) {
+          const si = sampleIndex(mx + (i & 15), my + (i >> 4))
+          const r = pixels[si] ?? 0
+          const g = pixels[si + 1] ?? 0
+          const b = pixels[si + 2] ?? 0
+          yPlane[i] = 0.299 * r + 0.587 * g + 0.114 * b - 128
+          cbPlane[i] = -0.168736 * r - 0.331264 * g + 0.5 * b
+          crPlane[i] = 0.5 * r - 0.418688 * g - 0.081312 * b
+        }
+
+        for (let quadrant = 0; quadrant < 4; quadrant++) {
+          const ox = (quadrant & 1) * 8
+          const oy = (quadrant >> 1) * 8
+          for (let i = 0; i < 64; i++) block[i] = yPlane[(oy + (i >> 3)) * 16 + ox + (i & 7)] ?? 0
+          dcY = encodeBlock(block, lumaDivisors, DC_LUMA_TABLE, AC_LUMA_TABLE, dcY)
+        }
+
+        for (const plane of [cbPlane, crPlane]) {
+          for (let i = 0; i < 64; i++) {
+            const p = (i >> 3) * 32 + (i & 7) * 2
+            block[i] = ((plane[p] ?? 0) + (plane[p + 1] ?? 0) + (plane[p + 16] ?? 0) + (plane[p + 17] ?? 0)) / 4
+          }
+          if (plane === cbPlane) dcCb = encodeBlock(block, chromaDivisors, DC_CHROMA_TABLE, AC_CHROMA_TABLE, dcCb)
+          else dcCr = encodeBlock(block, chromaDivisors, DC_CHROMA_TABLE, AC_CHROMA_TABLE, dcCr)
+        }
+      }
+      options.onProgress?.(Math.min(1, (my + 16) / height))
+    }
+  }
+
+  return concat([
+    new Uint8Array([0xff, 0xd8]), // SOI
+    makeJFIF(),
+    ...(options.appSegments ?? []),
+    makeDQT(color ? [lumaQuant, chromaQuant] : [lumaQuant]),
+    makeSOF0(width, height, color),
+    makeDHT(
+      color
+        ? [
+            [0x00, DC_LUMA],
+            [0x10, AC_LUMA],
+            [0x01, DC_CHROMA],
+            [0x11, AC_CHROMA],
+          ]
+        : [
+            [0x00, DC_LUMA],
+            [0x10, AC_LUMA],
+          ],
+    ),
+    makeSOS(color),
+    writer.finish(),
+    new Uint8Array([0xff, 0xd9]), // EOI
+  ])
+}
@@ -8,7 +8,9 @@ vi.mock('./icc-profile', () => ({
   getICCProfileBytes: getICCProfileBytesMock,
 }))
 
+import { unzlibSync } from 'fflate'
 import { encodePNG, resetEncodeCachesForTesting } from './encode-png'
+import { unfilterScanline } from './png-filter'
 
 function parseChunkTypes(png: Uint8Array): string[] {
   const types: string[] = []
@@ -23,6 +25,79 @@ function parseChunkTypes(png: Uint8Array): string[] {
   return types
 }
 
+function readChunkData(png: Uint8Array, chunkType: string): DataView {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength)
+  let offset = 8
+  while (offset + 12 <= png.length) {
+    const length = view.getUint32(offset)
+    if (String.fromCharCode(...png.subarray(offset + 4, offset + 8)) === chunkType) {
+      return new DataView(png.buffer, png.byteOffset + offset + 8, length)
+    }
+    offset += 12 + length
+  }
+  throw new Error(`${chunkType} chunk missing`)
+}
+
+function readIDATScanlines(png: Uint8Array, width: number, height: number, channels = 3): { filterTypes: number[]; samples: number[] } {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength)
+  let offset = 8
+  while (offset + 12 <= png.length) {
+    const length = view.getUint32(offset)
+    const type = String.fromCharCode(...png.subarray(offset + 4, offset + 8))
+    if (type === 'IDAT') {
+      const raw = unzlibSync(png.subarray(offset + 8, offset + 8 + length))
+      const scanlineBytes = width * channels * 2
+      const filterTypes: number[] = []
+      const samples: number[] = []
+      let prev: Uint8Array | null = null
+      for (let y = 0; y < height; y++) {
+        const start = y * (scanlineBytes + 1)
+        filterTypes.push(raw[start] ?? 0)
+        const row = raw.slice(start + 1, start + 1 + scanlineBytes)
+        unfilterScanline(raw[start] ?? 0, row, prev, channels * 2)
+        for (let i = 0; i < row.length; i += 2) samples.push(((row[i] ?? 0) << 8) | (row[i + 1] ?? 0))
+        prev = row
+      }
+      return { filterTypes, samples }
+    }
+    offset += 12 + length
+  }
+  throw new Error('IDAT chunk missing')
+}
+
+function gradientPixels(width: number, height: number): Uint16Array {
+  const pixels = new Uint16Array(width * height * 3)
+  for (let i = 0; i < width * height; i++) {
+    const x = i % width
+    const y = Math.floor(i / width)
+    pixels[i * 3] = x * 1000 + y * 50
+    pixels[i * 3 + 1] = 20000 + y * 700
+    pixels[i * 3 + 2] = 40000 - x * 300
+  }
+  return pixels
+}
+
+// Noisy ramps running along rows in the top half and down columns in the
+// bottom half, so no single filter suits every scanline.
+function mixedDirectionPixels(width: number, height: number): Uint16Array {
+  const pixels = new Uint16Array(width * height * 3)
+  let seed = 1
+  const random = (range: number) => (seed = (seed * 1103515245 + 12345) & 0x7fffffff) % range
+  const columns = Array.from({ length: width * 3 }, () => 10000 + random(40000))
+  for (let y = 0; y < height; y++) {
+    const row = [10000 + random(40000), 10000 + random(40000), 10000 + random(40000)]
+    for (let x = 0; x < width; x++) {
+      for (let c = 0; c < 3; c++) {
+        const ramp = y < height / 2 ? row : columns
+        const index = y < height / 2 ? c : x * 3 + c
+        ramp[index] = (ramp[index] ?? 0) + random(64)
+        pixels[(y * width + x) * 3 + c] = ramp[index] ?? 0
+      }
+    }
+  }
+  return pixels
+}
+
 describe('encodePNG', () => {
   beforeEach(() => {
     getICCProfileBytesMock.mockClear()
@@ -35,6 +110,54 @@ describe('encodePNG', () => {
     expect(parseChunkTypes(png)).toEqual(['IHDR', 'cICP', 'cHRM', 'iCCP', 'IDAT', 'IEND'])
   })
 
+  it('writes mDCv and cLLi before IDAT when HDR metadata is provided', async () => {
+    const png = await encodePNG(1, 1, new Uint16Array([1, 2, 3]), {
+      masteringDisplay: {
+        red: [0.708, 0.292],
+        green: [0.17, 0.797],
+        blue: [0.131, 0.046],
+        whitePoint: [0.3127, 0.329],
+        maxLuminance: 1600,
+        minLuminance: 0.005,
+      },
+      contentLightLevel: { maxCLL: 1543.21, maxFALL: 402.5 },
+    })
+    expect(parseChunkTypes(png)).toEqual(['IHDR', 'cICP', 'cHRM', 'iCCP', 'mDCv', 'cLLi', 'IDAT', 'IEND'])
+
+    const mdcv = readChunkData(png, 'mDCv')
+    expect(mdcv.byteLength).toBe(24)
+    expect([0, 2, 4, 6, 8, 10, 12, 14].map((offset) => mdcv.getUint16(offset))).toEqual([
+      35400, 14600, 8500, 39850, 6550, 2300, 15635, 16450,
+    ])
+    expect(mdcv.getUint32(16)).toBe(16_000_000)
+    expect(mdcv.getUint32(20)).toBe(50)
+
+    const clli = readChunkData(png, 'cLLi')
+    expect(clli.byteLength).toBe(8)
+    expect(clli.getUint32(0)).toBe(15_432_100)
+    expect(clli.getUint32(4)).toBe(4_025_000)
+  })
+
+  it('writes RGBA16 as color type 6 when alpha is present', async () => {
+    const rgba = new Uint16Array([100, 200, 300, 0, 400, 500, 600, 32896, 700, 800, 900, 65535])
+    const png = await encodePNG(3, 1, rgba, { hasAlpha: true })
+    const ihdr = readChunkData(png, 'IHDR')
+    expect(ihdr.getUint8(8)).toBe(16)
+    expect(ihdr.getUint8(9)).toBe(6)
+    expect(readIDATScanlines(png, 3, 1, 4).samples).toEqual([...rgba])
+  })
+
+  it('signals HLG in cICP and embeds the HLG ICC profile', async () => {
+    const png = await encodePNG(1, 1, new Uint16Array([1, 2, 3]), { transferFunction: 'hlg' })
+    const cicp = readChunkData(png, 'cICP')
+    expect([0, 1, 2, 3].map((offset) => cicp.getUint8(offset))).toEqual([9, 18, 0, 1])
+
+    const iccp = readChunkData(png, 'iCCP')
+    const name = String.fromCharCode(...new Uint8Array(iccp.buffer, iccp.byteOffset, 11))
+    expect(name).toBe('Rec2020-HLG')
+    expect(getICCProfileBytesMock).toHaveBeenCalledWith('hlg')
+  })
+
   it('reuses cached iCCP chunk between conversions with same backend', async () => {
     const pqPixels = new Uint16Array([10, 20, 30])
 
@@ -53,4 +176,48 @@ describe('encodePNG', () => {
 
     expect(getICCProfileBytesMock).toHaveBeenCalledTimes(2)
   })
+
+  it('round-trips filtered IDAT scanlines back to the source samples', async () => {
+    const pqPixels = gradientPixels(12, 6)
+    for (const filterStrategy of ['none', 'sub', 'up', 'average', 'paeth', 'adaptive'] as const) {
+      const png = await encodePNG(12, 6, pqPixels, { filterStrategy })
+      expect(readIDATScanlines(png, 12, 6).samples).toEqual([...pqPixels])
+    }
+  })
+
+  it('selects predictive filters for smooth content by default', async () => {
+    const png = await encodePNG(12, 6, gradientPixels(12, 6))
+    const { filterTypes } = readIDATScanlines(png, 12, 6)
+    expect(filterTypes.some((filterType) => filterType !== 0)).toBe(true)
+  })
+
+  it('compresses gradients smaller than unfiltered scanlines', async () => {
+    const pqPixels = gradientPixels(64, 64)
+    const unfiltered = await encodePNG(64, 64, pqPixels, { filterStrategy: 'none' })
+    const adaptive = await encodePNG(64, 64, pqPixels, { filterStrategy: 'adaptive' })
+    expect(adaptive.byteLength).toBeLessThan(unfiltered.byteLength)
+  })
+
+  it('compresses mixed content smaller than any single fixed filter', async () => {
+    const pqPixels = mixedDirectionPixels(64, 64)
+    const adaptive = await encodePNG(64, 64, pqPixels, { filterStrategy: 'adaptive' })
+    for (const filterStrategy of ['none', 'sub', 'up', 'average', 'paeth'] as const) {
+      const fixed = await encodePNG(64, 64, pqPixels, { filterStrategy })
+      expect(adaptive.byteLength, filterStrategy).toBeLessThan(fixed.byteLength)
+    }
+  })
+
+  it('reports pack, deflate, and assemble progress without changing the pixels', async () => {
+    const pqPixels = gradientPixels(40, 64)
+    const reports: [string, number][] = []
+    const png = await encodePNG(40, 64, pqPixels, { onProgress: (stage, fraction) => reports.push([stage, fraction]) })
+
+    expect(readIDATScanlines(png, 40, 64).samples).toEqual([...pqPixels])
+    expect([...new Set(reports.map(([stage]) => stage))]).toEqual(['pack', 'deflate', 'assemble'])
+    for (const stage of ['pack', 'deflate', 'assemble']) {
+      const fractions = reports.filter(([s]) => s === stage).map(([, fraction]) => fraction)
+      expect(fractions).toEqual([...fractions].sort((a, b) => a - b))
+      expect(fractions.at(-1)).toBe(1)
+    }
+  })
 })
@@ -4,22 +4,37 @@
  * We construct PNG files byte-by-byte rather than using canvas.toBlob() because
  * browsers don't support writing HDR metadata chunks (cICP, cHRM, iCCP) into PNGs.
  * This module assembles a valid PNG with:
- *   - 16-bit RGB pixel data (for PQ's full dynamic range)
- *   - cICP chunk (signals BT.2020 primaries + PQ transfer to HDR-aware decoders)
+ *   - 16-bit RGB or RGBA pixel data (for PQ's full dynamic range)
+ *   - cICP chunk (signals BT.2020 primaries + PQ or HLG transfer to HDR-aware decoders)
  *   - cHRM chunk (BT.2020 chromaticity coordinates for legacy decoders)
  *   - iCCP chunk (embedded ICC profile as fallback for apps that don't read cICP)
+ *   - mDCv + cLLi chunks (mastering display volume and content light levels,
+ *     used by HDR viewers and OS tone mappers to decide how hard to tone-map)
+ *   - iTXt chunk (the Supernova recipe, so a dropped export can restore its settings)
  *
  * PNG spec: https://www.w3.org/TR/png/
  */
 
 import { getICCProfileBytes } from './icc-profile'
-import { zlibSync, type ZlibOptions } from 'fflate'
+import { Zlib, zlibSync, type ZlibOptions } from 'fflate'
 import type { EncodeStats } from './perf-types'
+import type { ExportProgressCallback } from './export-progress'
+import type { Chromaticity, ContentLightLevel, MasteringDisplayColorVolume } from './hdr-metadata'
+import { createScanlineFilterer, type PNGFilterStrategy } from './png-filter'
+import { crc32, PNG_SIGNATURE } from './png-chunks'
+import { CICP_TRANSFER_CODES, DEFAULT_TRANSFER_FUNCTION, type TransferFunction } from './pq-transfer'
+import { RECIPE_KEYWORD, serializeRecipe, type SupernovaRecipe } from './recipe'
 
 const textEncoder = new TextEncoder()
 
 const DEFAULT_IDAT_ZLIB_LEVEL = 6
+const DEFAULT_FILTER_STRATEGY: PNGFilterStrategy = 'adaptive'
 const ICC_ZLIB_LEVEL = 9
+const BYTES_PER_SAMPLE = 2 // 16-bit big-endian
+// Rows between pack progress reports, as a fraction of the image height.
+const PACK_PROGRESS_STEPS = 32
+// Input fed to the streaming deflater per push when reporting progress.
+const DEFLATE_PROGRESS_CHUNK_BYTES = 4 * 1024 * 1024
 
 export type CompressionBackend = 'fflate' | 'compression-stream'
 type ZlibLevel = Exclude<ZlibOptions['level'], undefined>
@@ -36,18 +51,23 @@ function deflateFflate(data: Uint8Array, level = DEFAULT_IDAT_ZLIB_LEVEL): Uint8
   return zlibSync(data, opts)
 }
 
-async function deflateCompressionStream(data: Uint8Array): Promise<Uint8Array> {
-  const cs = new CompressionStream('deflate')
-  const writer = cs.writable.getWriter()
-  await writer.write(new Uint8Array(data))
-  await writer.close()
+/**
+ * `deflateFflate` fed in chunks so progress can be reported. The deflater
+ * keeps its window across pushes, so the only size cost is a few extra
+ * block boundaries.
+ */
+function deflateFflateWithProgress(data: Uint8Array, level: number, onProgress: (fraction: number) => void): Uint8Array {
   const chunks: Uint8Array[] = []
-  const reader = cs.readable.getReader()
-  while (true) {
-    const { done, value } = await reader.read()
-    if (done) break
-    chunks.push(value)
+  const zlib = new Zlib({ level: normalizeZlibLevel(level), mem: 8 }, (chunk) => chunks.push(chunk))
+  for (let offset = 0; offset < data.length || offset === 0; offset += DEFLATE_PROGRESS_CHUNK_BYTES) {
+    const end = Math.min(data.length, offset + DEFLATE_PROGRESS_CHUNK_BYTES)
+    zlib.push(data.subarray(offset, end), end === data.length)
+    onProgress(data.length > 0 ? end / data.length : 1)
   }
+  return concatChunks(chunks)
+}
+
+function concatChunks(chunks: Uint8Array[]): Uint8Array {
   let len = 0
   for (const c of chunks) len += c.length
   const result = new Uint8Array(len)
@@ -59,31 +79,35 @@ async function deflateCompressionStream(data: Uint8Array): Promise<Uint8Array> {
   return result
 }
 
-async function deflate(data: Uint8Array, backend: CompressionBackend, level = DEFAULT_IDAT_ZLIB_LEVEL): Promise<Uint8Array> {
-  return backend === 'compression-stream' ? deflateCompressionStream(data) : deflateFflate(data, level)
-}
-
-// 8-byte PNG file signature — identifies the file as PNG and detects transmission errors
-const PNG_SIGNATURE = new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10])
-
-// CRC32 lookup table — precomputed per PNG spec (polynomial 0xEDB88320)
-const crcTable = new Uint32Array(256)
-for (let n = 0; n < 256; n++) {
-  let c = n
-  for (let k = 0; k < 8; k++) {
-    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+async function deflateCompressionStream(data: Uint8Array): Promise<Uint8Array> {
+  const cs = new CompressionStream('deflate')
+  const writer = cs.writable.getWriter()
+  await writer.write(new Uint8Array(data))
+  await writer.close()
+  const chunks: Uint8Array[] = []
+  const reader = cs.readable.getReader()
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    chunks.push(value)
   }
-  crcTable[n] = c
+  return concatChunks(chunks)
 }
 
-// Standard CRC32 used by PNG for chunk integrity verification
-function crc32(buf: Uint8Array): number {
-  let crc = 0xffffffff
-  for (let i = 0; i < buf.length; i++) {
-    const byte = buf[i] ?? 0
-    crc = (crcTable[(crc ^ byte) & 0xff] ?? 0) ^ (crc >>> 8)
+async function deflate(
+  data: Uint8Array,
+  backend: CompressionBackend,
+  level = DEFAULT_IDAT_ZLIB_LEVEL,
+  onProgress?: (fraction: number) => void,
+): Promise<Uint8Array> {
+  if (backend === 'compression-stream') {
+    // CompressionStream gives no intermediate signal; report only start and end.
+    onProgress?.(0)
+    const compressed = await deflateCompressionStream(data)
+    onProgress?.(1)
+    return compressed
   }
-  return (crc ^ 0xffffffff) >>> 0
+  return onProgress ? deflateFflateWithProgress(data, level, onProgress) : deflateFflate(data, level)
 }
 
 /**
@@ -110,16 +134,17 @@ function makeChunk(type: string, data: Uint8Array): Uint8Array {
 
 /**
  * IHDR — Image Header (must be the first chunk)
- * Declares 16-bit depth, RGB color (type 2, no alpha), no interlacing.
+ * Declares 16-bit depth, RGB color (type 2) or RGBA (type 6, straight alpha),
+ * no interlacing.
  * 16-bit depth is needed to preserve PQ's precision across the luminance range.
  */
-function makeIHDR(width: number, height: number): Uint8Array {
+function makeIHDR(width: number, height: number, hasAlpha: boolean): Uint8Array {
   const data = new Uint8Array(13)
   const view = new DataView(data.buffer)
   view.setUint32(0, width)
   view.setUint32(4, height)
   data[8] = 16 // bit depth
-  data[9] = 2 // color type: RGB
+  data[9] = hasAlpha ? 6 : 2 // color type: RGBA or RGB
   data[10] = 0 // compression
   data[11] = 0 // filter
   data[12] = 0 // interlace
@@ -130,12 +155,12 @@ function makeIHDR(width: number, height: number): Uint8Array {
  * cICP — Coding-Independent Code Points (the primary HDR signal)
  * Four bytes that tell the decoder exactly how to interpret the pixel data:
  *   Byte 0: Color primaries = 9 (BT.2020 wide gamut)
- *   Byte 1: Transfer function = 16 (PQ / ST 2084)
+ *   Byte 1: Transfer function = 16 (PQ / ST 2084) or 18 (HLG / ARIB STD-B67)
  *   Byte 2: Matrix coefficients = 0 (Identity — we're using RGB, not YCbCr)
  *   Byte 3: Full range = 1 (values use full 0–65535 range, not studio/limited)
  */
-function makeCICP(): Uint8Array {
-  return makeChunk('cICP', new Uint8Array([9, 16, 0, 1]))
+function makeCICP(transfer: TransferFunction): Uint8Array {
+  return makeChunk('cICP', new Uint8Array([9, CICP_TRANSFER_CODES[transfer], 0, 1]))
 }
 
 /**
@@ -161,22 +186,89 @@ function makeCHRM(): Uint8Array {
   return makeChunk('cHRM', data)
 }
 
+// mDCv/cLLi luminance fields are uint32 in 0.0001 cd/m² units.
+const LUMINANCE_UNITS_PER_NIT = 10000
+// mDCv chromaticity fields are uint16 in 0.00002 units.
+const MDCV_CHROMATICITY_SCALE = 50000
+
+function luminanceToUint32(nits: number): number {
+  return Math.max(0, Math.min(0xffffffff, Math.round(nits * LUMINANCE_UNITS_PER_NIT)))
+}
+
+/**
+ * mDCv — Mastering Display Color Volume (SMPTE ST 2086)
+ * Describes the display the image was graded for:
+ *   Bytes 0–11:  red, green, blue primaries as (x, y) uint16 pairs, units of 0.00002
+ *   Bytes 12–15: white point (x, y), same units
+ *   Bytes 16–19: max mastering luminance, uint32 in 0.0001 cd/m²
+ *   Bytes 20–23: min mastering luminance, uint32 in 0.0001 cd/m²
+ */
+function makeMDCV(display: MasteringDisplayColorVolume): Uint8Array {
+  const data = new Uint8Array(24)
+  const view = new DataView(data.buffer)
+  const chromaticities: Chromaticity[] = [display.red, display.green, display.blue, display.whitePoint]
+  chromaticities.forEach(([x, y], i) => {
+    view.setUint16(i * 4, Math.round(x * MDCV_CHROMATICITY_SCALE))
+    view.setUint16(i * 4 + 2, Math.round(y * MDCV_CHROMATICITY_SCALE))
+  })
+  view.setUint32(16, luminanceToUint32(display.maxLuminance))
+  view.setUint32(20, luminanceToUint32(display.minLuminance))
+  return makeChunk('mDCv', data)
+}
+
+/**
+ * cLLi — Content Light Level Information (CTA-861.3)
+ *   Bytes 0–3: MaxCLL  — brightest pixel, uint32 in 0.0001 cd/m²
+ *   Bytes 4–7: MaxFALL — brightest frame-average light level, same units
+ */
+function makeCLLI(contentLightLevel: ContentLightLevel): Uint8Array {
+  const data = new Uint8Array(8)
+  const view = new DataView(data.buffer)
+  view.setUint32(0, luminanceToUint32(contentLightLevel.maxCLL))
+  view.setUint32(4, luminanceToUint32(contentLightLevel.maxFALL))
+  return makeChunk('cLLi', data)
+}
+
+/**
+ * iTXt — International Textual Data
+ * Uncompressed UTF-8 text under a Latin-1 keyword:
+ *   [keyword][0][compression flag = 0][compression method = 0][language tag][0][translated keyword][0][text]
+ * Language tag and translated keyword are left empty.
+ */
+function makeITXT(keyword: string, text: string): Uint8Array {
+  const keywordBytes = textEncoder.encode(keyword)
+  const textBytes = textEncoder.encode(text)
+  const data = new Uint8Array(keywordBytes.length + 5 + textBytes.length)
+  data.set(keywordBytes, 0)
+  // The five bytes after the keyword are all zero: separator, flag, method, and
+  // the terminators of the empty language tag and translated keyword.
+  data.set(textBytes, keywordBytes.length + 5)
+  return makeChunk('iTXt', data)
+}
+
 /**
  * iCCP — Embedded ICC Color Profile
- * Contains Google's "Rec2020 Gamut with PQ Transfer" profile as a compatibility
- * fallback. Apps that understand cICP (Chrome, macOS) use that; apps that don't
- * (some image editors, older software) fall back to this ICC profile to still
- * render colors correctly. The profile is deflate-compressed per PNG spec.
+ * Contains Google's "Rec2020 Gamut with PQ Transfer" profile (or the generated
+ * HLG equivalent) as a compatibility fallback. Apps that understand cICP
+ * (Chrome, macOS) use that; apps that don't (some image editors, older
+ * software) fall back to this ICC profile to still render colors correctly.
+ * The profile is deflate-compressed per PNG spec.
  */
-const cachedICCPChunkPromises = new Map<CompressionBackend, Promise<Uint8Array>>()
+const ICC_PROFILE_NAMES: Record<TransferFunction, string> = {
+  pq: 'Rec2020-PQ',
+  hlg: 'Rec2020-HLG',
+}
 
-async function makeICCPWithBackend(backend: CompressionBackend): Promise<Uint8Array> {
-  let cached = cachedICCPChunkPromises.get(backend)
+const cachedICCPChunkPromises = new Map<string, Promise<Uint8Array>>()
+
+async function makeICCPWithBackend(backend: CompressionBackend, transfer: TransferFunction): Promise<Uint8Array> {
+  const cacheKey = `${backend}:${transfer}`
+  let cached = cachedICCPChunkPromises.get(cacheKey)
   if (!cached) {
     cached = (async () => {
-      const profileBytes = await getICCProfileBytes()
+      const profileBytes = await getICCProfileBytes(transfer)
       const compressed = await deflate(profileBytes, backend, ICC_ZLIB_LEVEL)
-      const name = textEncoder.encode('Rec2020-PQ')
+      const name = textEncoder.encode(ICC_PROFILE_NAMES[transfer])
       // iCCP data format: profile name + null terminator + compression method (0=deflate) + compressed profile
       const data = new Uint8Array(name.length + 2 + compressed.length)
       data.set(name, 0)
@@ -185,7 +277,7 @@ async function makeICCPWithBackend(backend: CompressionBackend): Promise<Uint8Ar
       data.set(compressed, name.length + 2)
       return makeChunk('iCCP', data)
     })()
-    cachedICCPChunkPromises.set(backend, cached)
+    cachedICCPChunkPromises.set(cacheKey, cached)
   }
   return cached
 }
@@ -197,45 +289,59 @@ export function resetEncodeCachesForTesting(): void {
 /**
  * IDAT — Image Data
  * Contains the actual pixel data, deflate-compressed.
- * Each scanline row is: [1 filter byte (0=None)] + [pixels as big-endian uint16 RGB]
- * So each pixel is 6 bytes (2 bytes × 3 channels), and each row has a leading
- * filter byte. The entire block is then deflate-compressed.
+ * Each scanline row is: [1 filter byte] + [filtered big-endian uint16 samples]
+ * So each pixel is 6 bytes for RGB (8 for RGBA), and each row has a leading
+ * filter byte chosen by the filter strategy (see `png-filter.ts`). The entire
+ * block is then deflate-compressed.
  */
 async function makeIDAT(
   width: number,
   height: number,
   pqPixels: Uint16Array,
+  channels: 3 | 4,
   compressionBackend: CompressionBackend,
   compressionLevel: number,
+  filterStrategy: PNGFilterStrategy,
   encodeStats?: EncodeStats,
+  onProgress?: ExportProgressCallback,
 ): Promise<Uint8Array> {
-  const rowBytes = 1 + width * 6 // 1 filter byte + 3 channels × 2 bytes per pixel
+  const bytesPerPixel = channels * BYTES_PER_SAMPLE
+  const scanlineBytes = width * bytesPerPixel
+  const rowBytes = 1 + scanlineBytes // + 1 filter byte
+  const samplesPerRow = width * channels
   const raw = new Uint8Array(height * rowBytes)
+  const filterer = createScanlineFilterer(filterStrategy, scanlineBytes, bytesPerPixel)
   const packStart = performance.now()
+  let currentRow = new Uint8Array(scanlineBytes)
+  let previousRow = new Uint8Array(scanlineBytes)
   let pi = 0
+  const progressRows = Math.max(1, Math.ceil(height / PACK_PROGRESS_STEPS))
 
   for (let y = 0; y < height; y++) {
-    const rowOffset = y * rowBytes
-    raw[rowOffset] = 0 // filter: None
-
-    let ri = rowOffset + 1
-    for (let x = 0; x < width; x++) {
+    if (onProgress && y % progressRows === 0) onProgress('pack', y / height)
+    let ri = 0
+    for (let s = 0; s < samplesPerRow; s++) {
       // Big-endian 16-bit per channel
-      const r = pqPixels[pi++] ?? 0
-      const g = pqPixels[pi++] ?? 0
-      const b = pqPixels[pi++] ?? 0
-      raw[ri++] = (r >> 8) & 0xff
-      raw[ri++] = r & 0xff
-      raw[ri++] = (g >> 8) & 0xff
-      raw[ri++] = g & 0xff
-      raw[ri++] = (b >> 8) & 0xff
-      raw[ri++] = b & 0xff
+      const v = pqPixels[pi++] ?? 0
+      currentRow[ri++] = (v >> 8) & 0xff
+      currentRow[ri++] = v & 0xff
     }
+
+    filterer.write(currentRow, y > 0 ? previousRow : null, raw, y * rowBytes)
+    const swap = previousRow
+    previousRow = currentRow
+    currentRow = swap
   }
 
+  onProgress?.('pack', 1)
   if (encodeStats) encodeStats.idatPackMs = performance.now() - packStart
   const compressStart = performance.now()
-  const compressed = await deflate(raw, compressionBackend, compressionLevel)
+  const compressed = await deflate(
+    raw,
+    compressionBackend,
+    compressionLevel,
+    onProgress ? (fraction) => onProgress('deflate', fraction) : undefined,
+  )
   if (encodeStats) encodeStats.idatCompressMs = performance.now() - compressStart
   return makeChunk('IDAT', compressed)
 }
@@ -248,25 +354,40 @@ function makeIEND(): Uint8Array {
 }
 
 /**
- * Encode a complete 16-bit HDR PNG with Rec.2100 PQ metadata.
+ * Encode a complete 16-bit HDR PNG with Rec.2100 PQ (or HLG) metadata.
  *
  * The chunk order matters:
  *   1. IHDR — must be first (image dimensions, bit depth, color type)
- *   2. cICP — HDR signal: BT.2020 primaries + PQ transfer function
+ *   2. cICP — HDR signal: BT.2020 primaries + PQ or HLG transfer function
  *   3. cHRM — BT.2020 chromaticity (fallback for decoders without cICP support)
  *   4. iCCP — embedded ICC profile (fallback for apps without cICP or cHRM)
- *   5. IDAT — compressed pixel data
- *   6. IEND — file terminator (must be last)
+ *   5. mDCv — mastering display color volume (when provided)
+ *   6. cLLi — content light level (when provided)
+ *   7. iTXt — Supernova recipe (when provided)
+ *   8. IDAT — compressed pixel data
+ *   9. IEND — file terminator (must be last)
  *
  * @param {number} width
  * @param {number} height
- * @param {Uint16Array} pqPixels - RGB16 pixel data (3 values per pixel)
+ * @param {Uint16Array} pqPixels - RGB16 pixel data (3 values per pixel), or RGBA16 (4) with `hasAlpha`
  * @returns {Uint8Array} Complete PNG file as a byte array
  */
 export interface EncodePNGOptions {
   idatCompressionLevel?: number
   compressionBackend?: CompressionBackend
+  /** Per-scanline filter selection. Defaults to `adaptive` (minimum sum of absolute differences). */
+  filterStrategy?: PNGFilterStrategy
+  /** Pixels are RGBA16 with straight alpha; written as PNG color type 6. */
+  hasAlpha?: boolean
+  /** Transfer the pixels were encoded with; selects the cICP code and ICC profile. Defaults to PQ. */
+  transferFunction?: TransferFunction
+  masteringDisplay?: MasteringDisplayColorVolume
+  contentLightLevel?: ContentLightLevel
+  /** Settings the pixels were graded with, embedded as an `iTXt` chunk. */
+  recipe?: SupernovaRecipe
   encodeStats?: EncodeStats
+  /** Receives pack, deflate, and assemble progress. */
+  onProgress?: ExportProgressCallback
 }
 
 function getDefaultCompressionBackend(): CompressionBackend {
@@ -278,18 +399,34 @@ function getDefaultCompressionBackend(): CompressionBackend {
 export async function encodePNG(width: number, height: number, pqPixels: Uint16Array, options: EncodePNGOptions = {}): Promise<Uint8Array> {
   const compressionLevel = options.idatCompressionLevel ?? DEFAULT_IDAT_ZLIB_LEVEL
   const compressionBackend = options.compressionBackend ?? getDefaultCompressionBackend()
-  const encodeStats = options.encodeStats
+  const filterStrategy = options.filterStrategy ?? DEFAULT_FILTER_STRATEGY
+  const hasAlpha = options.hasAlpha === true
+  const transferFunction = options.transferFunction ?? DEFAULT_TRANSFER_FUNCTION
+  const { encodeStats, onProgress } = options
 
   const iccpStart = performance.now()
-  const iccpChunk = await makeICCPWithBackend(compressionBackend)
+  const iccpChunk = await makeICCPWithBackend(compressionBackend, transferFunction)
   if (encodeStats) encodeStats.iccpMs = performance.now() - iccpStart
 
   const chunks = [
-    makeIHDR(width, height), // image header
-    makeCICP(), // HDR color info (primary signal)
+    makeIHDR(width, height, hasAlpha), // image header
+    makeCICP(transferFunction), // HDR color info (primary signal)
     makeCHRM(), // chromaticity (legacy fallback)
     iccpChunk, // ICC profile (compatibility fallback)
-    await makeIDAT(width, height, pqPixels, compressionBackend, compressionLevel, encodeStats), // pixel data
+    ...(options.masteringDisplay ? [makeMDCV(options.masteringDisplay)] : []), // mastering display volume
+    ...(options.contentLightLevel ? [makeCLLI(options.contentLightLevel)] : []), // content light level
+    ...(options.recipe ? [makeITXT(RECIPE_KEYWORD, serializeRecipe(options.recipe))] : []), // Supernova recipe
+    await makeIDAT(
+      width,
+      height,
+      pqPixels,
+      hasAlpha ? 4 : 3,
+      compressionBackend,
+      compressionLevel,
+      filterStrategy,
+      encodeStats,
+      onProgress,
+    ), // pixel data
     makeIEND(), // end marker
   ]
 
@@ -299,6 +436,7 @@ export async function encodePNG(width: number, height: number, pqPixels: Uint16A
 
   // Assemble the final PNG byte array
   const assembleStart = performance.now()
+  onProgress?.('assemble', 0)
   const png = new Uint8Array(totalSize)
   let offset = 0
   png.set(PNG_SIGNATURE, offset)
@@ -308,6 +446,7 @@ export async function encodePNG(width: number, height: number, pqPixels: Uint16A
     offset += chunk.length
   }
   if (encodeStats) encodeStats.assembleMs = performance.now() - assembleStart
+  onProgress?.('assemble', 1)
 
   return png
 }
@@ -0,0 +1,17 @@
+/**
+ * Download formats offered by the converter.
+ *   - png:  16-bit BT.2020 PNG with PQ/HLG signalling (the full-fidelity master)
+ *   - jpeg: Ultra HDR gain-map JPEG — an SDR JPEG plus a gain map that
+ *           HDR-aware viewers apply on top; much smaller, and survives apps
+ *           that only pass JPEGs through
+ */
+
+export type ExportFormat = 'png' | 'jpeg'
+
+export const EXPORT_FORMATS: readonly ExportFormat[] = ['png', 'jpeg']
+export const DEFAULT_EXPORT_FORMAT: ExportFormat = 'png'
+
+export const EXPORT_FORMAT_FILES: Record<ExportFormat, { mimeType: string; extension: string }> = {
+  png: { mimeType: 'image/png', extension: 'png' },
+  jpeg: { mimeType: 'image/jpeg', extension: 'jpg' },
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it, vi } from 'vitest'
+import { createProgressThrottle, EXPORT_STAGES, overallExportFraction } from './export-progress'
+
+describe('overallExportFraction', () => {
+  it('runs from 0 at the start of decode to 1 at the end of assemble', () => {
+    expect(overallExportFraction({ stage: 'decode', fraction: 0 })).toBe(0)
+    expect(overallExportFraction({ stage: 'assemble', fraction: 1 })).toBeCloseTo(1, 10)
+  })
+
+  it('never moves backwards across stage boundaries', () => {
+    let previous = 0
+    for (const stage of EXPORT_STAGES) {
+      for (const fraction of [0, 0.5, 1]) {
+        const overall = overallExportFraction({ stage, fraction })
+        expect(overall).toBeGreaterThanOrEqual(previous)
+        previous = overall
+      }
+    }
+  })
+
+  it('clamps out-of-range stage fractions', () => {
+    expect(overallExportFraction({ stage: 'grade', fraction: 4 })).toBe(overallExportFraction({ stage: 'grade', fraction: 1 }))
+    expect(overallExportFraction({ stage: 'grade', fraction: -1 })).toBe(overallExportFraction({ stage: 'grade', fraction: 0 }))
+  })
+})
+
+describe('createProgressThrottle', () => {
+  it('forwards stage changes and completions but drops sub-percent steps', () => {
+    const emit = vi.fn()
+    const report = createProgressThrottle(emit)
+    report('grade', 0)
+    report('grade', 0.004)
+    report('grade', 0.02)
+    report('grade', 1)
+    report('pack', 0)
+
+    expect(emit.mock.calls).toEqual([
+      ['grade', 0],
+      ['grade', 0.02],
+      ['grade', 1],
+      ['pack', 0],
+    ])
+  })
+})
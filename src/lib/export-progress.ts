@@ -0,0 +1,65 @@
+/**
+ * Export progress reporting
+ *
+ * The worker reports which stage an export is in and how far through that
+ * stage it is; the UI folds the stages into one overall fraction using rough
+ * relative costs of a typical PNG export. Ultra HDR exports grade both
+ * renditions under `grade`, skip pack/deflate and encode their JPEGs under
+ * `assemble`.
+ */
+
+export type ExportStage = 'decode' | 'grade' | 'pack' | 'deflate' | 'assemble'
+
+export const EXPORT_STAGES: readonly ExportStage[] = ['decode', 'grade', 'pack', 'deflate', 'assemble']
+
+export interface ExportProgress {
+  stage: ExportStage
+  /** Completion within the stage, 0–1. */
+  fraction: number
+}
+
+export type ExportProgressCallback = (stage: ExportStage, fraction: number) => void
+
+export const EXPORT_STAGE_LABELS: Record<ExportStage, string> = {
+  decode: 'Decoding',
+  grade: 'Grading',
+  pack: 'Packing',
+  deflate: 'Compressing',
+  assemble: 'Assembling',
+}
+
+const EXPORT_STAGE_WEIGHTS: Record<ExportStage, number> = {
+  decode: 0.1,
+  grade: 0.35,
+  pack: 0.15,
+  deflate: 0.35,
+  assemble: 0.05,
+}
+
+// Smallest fraction step worth a message; keeps postMessage traffic to ~100 per stage.
+const MIN_REPORTED_STEP = 0.01
+
+/** Overall completion across all stages, 0–1. */
+export function overallExportFraction({ stage, fraction }: ExportProgress): number {
+  let done = 0
+  for (const candidate of EXPORT_STAGES) {
+    if (candidate === stage) break
+    done += EXPORT_STAGE_WEIGHTS[candidate]
+  }
+  return Math.min(1, done + EXPORT_STAGE_WEIGHTS[stage] * Math.min(1, Math.max(0, fraction)))
+}
+
+/**
+ * Wrap `emit` so it only fires on stage changes, stage completion, or a
+ * fraction step of at least 1%.
+ */
+export function createProgressThrottle(emit: ExportProgressCallback): ExportProgressCallback {
+  let lastStage: ExportStage | null = null
+  let lastFraction = 0
+  return (stage, fraction) => {
+    if (stage === lastStage && fraction < 1 && fraction - lastFraction < MIN_REPORTED_STEP) return
+    lastStage = stage
+    lastFraction = fraction
+    emit(stage, fraction)
+  }
+}
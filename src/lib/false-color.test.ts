@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest'
+import { FALSE_COLOR_BANDS, falseColorBandIndex, writeFalseColorPixel } from './false-color'
+
+describe('falseColorBandIndex', () => {
+  it('places band edges in the band above them', () => {
+    expect(falseColorBandIndex(0)).toBe(0)
+    expect(falseColorBandIndex(99.9)).toBe(0)
+    expect(falseColorBandIndex(100)).toBe(1)
+    expect(falseColorBandIndex(400)).toBe(2)
+    expect(falseColorBandIndex(1000)).toBe(3)
+    expect(falseColorBandIndex(4000)).toBe(4)
+    expect(falseColorBandIndex(10_000)).toBe(4)
+  })
+
+  it('labels every band in text', () => {
+    expect(FALSE_COLOR_BANDS.map((band) => band.label)).toEqual([
+      '< 100 nits',
+      '100–400 nits',
+      '400–1,000 nits',
+      '1,000–4,000 nits',
+      '> 4,000 nits',
+    ])
+  })
+})
+
+describe('writeFalseColorPixel', () => {
+  it('paints HDR bands flat and keeps the given alpha', () => {
+    const out = new Uint8ClampedArray(8)
+    writeFalseColorPixel(out, 4, 500, 500, 500, 128)
+    expect(Array.from(out.slice(4))).toEqual([...FALSE_COLOR_BANDS[2]!.color!, 128])
+  })
+
+  it('bands by luminance, not the brightest channel', () => {
+    const out = new Uint8ClampedArray(4)
+    // Pure blue at 1000 nits is only about 59 nits of luminance.
+    writeFalseColorPixel(out, 0, 0, 0, 1000, 255)
+    expect(out[0]).toBe(out[2])
+    expect(out[0]!).toBeLessThan(150)
+  })
+
+  it('keeps the SDR band as a grey ramp', () => {
+    const dark = new Uint8ClampedArray(4)
+    const light = new Uint8ClampedArray(4)
+    writeFalseColorPixel(dark, 0, 5, 5, 5, 255)
+    writeFalseColorPixel(light, 0, 80, 80, 80, 255)
+    expect(dark[0]).toBe(dark[1])
+    expect(light[0]!).toBeGreaterThan(dark[0]!)
+  })
+})
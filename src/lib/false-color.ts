@@ -0,0 +1,62 @@
+/**
+ * False-color nits map for the preview: each pixel of the export grade is
+ * painted by the luminance band it lands in, so an SDR screen can still show
+ * which areas will glow. The SDR band stays greyscale to keep the picture
+ * readable; the HDR bands get flat colors that also step up in lightness, and
+ * the legend names every band, so hue is never the only cue.
+ */
+
+import { BT2020_LUMA } from './bt2020-grading'
+import { SDR_DIFFUSE_WHITE_NITS } from './hdr-boost'
+
+export interface FalseColorBand {
+  /** Upper bound in nits, exclusive; the last band is open-ended. */
+  maxNits: number
+  label: string
+  /** sRGB color; null for the greyscale SDR band. */
+  color: readonly [number, number, number] | null
+}
+
+export const FALSE_COLOR_BANDS: readonly FalseColorBand[] = [
+  { maxNits: SDR_DIFFUSE_WHITE_NITS, label: '< 100 nits', color: null },
+  { maxNits: 400, label: '100–400 nits', color: [40, 110, 230] },
+  { maxNits: 1000, label: '400–1,000 nits', color: [30, 180, 120] },
+  { maxNits: 4000, label: '1,000–4,000 nits', color: [250, 200, 40] },
+  { maxNits: Infinity, label: '> 4,000 nits', color: [255, 240, 230] },
+]
+
+// The SDR band's grey tops out below the brightest band so the two never meet.
+const SDR_GREY_MAX = 150
+
+/** Index into `FALSE_COLOR_BANDS` for a luminance in nits. */
+export function falseColorBandIndex(nits: number): number {
+  const index = FALSE_COLOR_BANDS.findIndex((band) => nits < band.maxNits)
+  return index === -1 ? FALSE_COLOR_BANDS.length - 1 : index
+}
+
+/** CSS color for a band's legend swatch; the SDR band shows its grey ramp. */
+export function falseColorSwatch(band: FalseColorBand): string {
+  if (!band.color) return `linear-gradient(90deg, rgb(0 0 0), rgb(${SDR_GREY_MAX} ${SDR_GREY_MAX} ${SDR_GREY_MAX}))`
+  return `rgb(${band.color.join(' ')})`
+}
+
+/**
+ * Write one RGBA false-color pixel at `offset` for linear BT.2020 `r`, `g`,
+ * `b` in nits. `alpha` is 0–255.
+ */
+export function writeFalseColorPixel(out: Uint8ClampedArray, offset: number, r: number, g: number, b: number, alpha: number): void {
+  const nits = BT2020_LUMA[0] * r + BT2020_LUMA[1] * g + BT2020_LUMA[2] * b
+  const band = FALSE_COLOR_BANDS[falseColorBandIndex(nits)]
+  if (band?.color) {
+    out[offset] = band.color[0]
+    out[offset + 1] = band.color[1]
+    out[offset + 2] = band.color[2]
+  } else {
+    // Perceptual-ish ramp, so shadows keep their shape.
+    const grey = Math.sqrt(Math.max(0, nits) / SDR_DIFFUSE_WHITE_NITS) * SDR_GREY_MAX
+    out[offset] = grey
+    out[offset + 1] = grey
+    out[offset + 2] = grey
+  }
+  out[offset + 3] = alpha
+}
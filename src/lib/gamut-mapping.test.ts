@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest'
+import { compressDistance, createGamutMapper, mapToGamut, type GamutMapping, type GamutVolume } from './gamut-mapping'
+import { bt2020ToOklab, type OklabTuple } from './oklab'
+import type { RGBTuple } from './bt2020-grading'
+
+const BT2020_TO_P3 = [
+  1.3435782526, -0.2821796705, -0.0613985821, -0.0652974528, 1.0757879158, -0.0104904631, 0.0028217873, -0.0195984945, 1.0167767073,
+]
+
+function map(mode: GamutMapping, rgb: RGBTuple, volume: GamutVolume = 'bt2020'): RGBTuple {
+  const out: RGBTuple = [...rgb]
+  const mapper = createGamutMapper(mode, volume)
+  if (mapper) mapToGamut(mapper, out)
+  return out
+}
+
+function luma(rgb: RGBTuple): number {
+  return 0.2627 * rgb[0] + 0.678 * rgb[1] + 0.0593 * rgb[2]
+}
+
+function hue(rgb: RGBTuple): number {
+  const lab: OklabTuple = [0, 0, 0]
+  bt2020ToOklab(rgb, lab)
+  return Math.atan2(lab[2], lab[1])
+}
+
+// Over-saturated magenta: negative green, as saturation pushes it out of BT.2020.
+const NEON: RGBTuple = [0.6, -0.05, 0.55]
+
+describe('compressDistance', () => {
+  it('passes the inside of the knee and approaches the edge without reaching it', () => {
+    expect(compressDistance(0.5)).toBe(0.5)
+    expect(compressDistance(1)).toBeLessThan(1)
+    expect(compressDistance(3)).toBeLessThan(1)
+    expect(compressDistance(3)).toBeGreaterThan(compressDistance(1.5))
+  })
+})
+
+describe('mapToGamut', () => {
+  it('leaves the plain BT.2020 clip to the caller', () => {
+    expect(createGamutMapper('clip', 'bt2020')).toBeNull()
+    expect(createGamutMapper('clip', 'p3')).not.toBeNull()
+  })
+
+  it('keeps luminance when compressing chroma, where clipping changes it', () => {
+    const compressed = map('compress', NEON)
+    expect(compressed.every((value) => value >= 0 && value <= 1)).toBe(true)
+    expect(luma(compressed)).toBeCloseTo(luma(NEON), 6)
+    const clipped = NEON.map((value) => Math.min(1, Math.max(0, value))) as RGBTuple
+    expect(Math.abs(luma(clipped) - luma(NEON))).toBeGreaterThan(0.02)
+  })
+
+  it('keeps gradients past the edge instead of flattening them', () => {
+    // Increasingly saturated versions of one color: clipping piles them onto the edge, compression keeps them apart.
+    const ramp = [1.1, 1.3, 1.5, 1.7].map((saturation): RGBTuple => {
+      const y = luma([0.6, 0.1, 0.55])
+      return [y + (0.6 - y) * saturation, y + (0.1 - y) * saturation, y + (0.55 - y) * saturation]
+    })
+    for (const mode of ['compress', 'perceptual'] as const) {
+      const greens = ramp.map((rgb) => map(mode, rgb)[1])
+      for (let i = 1; i < greens.length; i++) expect(greens[i]!).toBeLessThan(greens[i - 1]! - 1e-4)
+    }
+  })
+
+  it('holds Oklab hue in the perceptual mode', () => {
+    const mapped = map('perceptual', NEON)
+    expect(mapped.every((value) => value >= 0 && value <= 1)).toBe(true)
+    expect(hue(mapped)).toBeCloseTo(hue(NEON), 3)
+  })
+
+  it('lands inside P3 when the volume is constrained', () => {
+    const green: RGBTuple = [0.05, 0.5, 0.05]
+    for (const mode of ['clip', 'compress', 'perceptual'] as const) {
+      const [r, g, b] = map(mode, green, 'p3')
+      for (let row = 0; row < 3; row++) {
+        const value = BT2020_TO_P3[row * 3]! * r + BT2020_TO_P3[row * 3 + 1]! * g + BT2020_TO_P3[row * 3 + 2]! * b
+        expect(value).toBeGreaterThanOrEqual(-1e-6)
+        expect(value).toBeLessThanOrEqual(1 + 1e-6)
+      }
+    }
+  })
+
+  it('leaves colors well inside the volume untouched', () => {
+    const skin: RGBTuple = [0.3, 0.2, 0.15]
+    for (const mode of ['compress', 'perceptual'] as const) {
+      map(mode, skin).forEach((value, c) => expect(value).toBeCloseTo(skin[c]!, 6))
+    }
+  })
+})
@@ -0,0 +1,184 @@
+/**
+ * Gamut mapping for graded values that land outside the output volume.
+ *
+ * Saturation, vibrance and the HSL bands can push a color past the edge of
+ * BT.2020, and clamping each channel on its own then shifts its hue and
+ * flattens gradients in saturated neons into solid patches. The modes:
+ *   - clip:       per-channel clamp, the plain behavior.
+ *   - compress:   chroma pulled toward the grey of the same luminance, so
+ *                 brightness is kept; a soft knee starts compressing at 80%
+ *                 of the distance to the gamut edge, so gradients survive.
+ *   - perceptual: the same knee on Oklab chroma at constant Oklab lightness
+ *                 and hue, so a color keeps the hue it is seen as.
+ *
+ * The volume can be constrained to P3-D65 inside the BT.2020 container,
+ * since that is what current panels reproduce. Values are linear BT.2020 in
+ * the output transfer's 0–1 range, and come back inside it.
+ */
+
+import type { RGBTuple } from './bt2020-grading'
+import { bt2020ToOklab, oklabToBt2020, type OklabTuple } from './oklab'
+
+export type GamutMapping = 'clip' | 'compress' | 'perceptual'
+
+export const GAMUT_MAPPINGS: readonly GamutMapping[] = ['clip', 'compress', 'perceptual']
+export const DEFAULT_GAMUT_MAPPING: GamutMapping = 'clip'
+
+export const GAMUT_MAPPING_LABELS: Record<GamutMapping, string> = {
+  clip: 'Clip',
+  compress: 'Compress',
+  perceptual: 'Perceptual',
+}
+
+export type GamutVolume = 'bt2020' | 'p3'
+
+export const GAMUT_VOLUMES: readonly GamutVolume[] = ['bt2020', 'p3']
+export const DEFAULT_GAMUT_VOLUME: GamutVolume = 'bt2020'
+
+export const GAMUT_VOLUME_LABELS: Record<GamutVolume, string> = {
+  bt2020: 'Rec.2020',
+  p3: 'P3',
+}
+
+type Matrix3 = readonly [number, number, number, number, number, number, number, number, number]
+
+interface Primaries {
+  toTarget: Matrix3 | null
+  fromTarget: Matrix3 | null
+  luma: readonly [number, number, number]
+}
+
+// The SDR preview maps into sRGB; exports into BT.2020 or P3.
+const PRIMARIES: Record<GamutVolume | 'srgb', Primaries> = {
+  bt2020: { toTarget: null, fromTarget: null, luma: [0.2627, 0.678, 0.0593] },
+  p3: {
+    toTarget: [
+      1.3435782526, -0.2821796705, -0.0613985821, -0.0652974528, 1.0757879158, -0.0104904631, 0.0028217873, -0.0195984945, 1.0167767073,
+    ],
+    fromTarget: [
+      0.7538330344, 0.1985973691, 0.0475695966, 0.045743849, 0.9417772198, 0.0124789312, -0.0012103404, 0.0176017173, 0.9836086231,
+    ],
+    luma: [0.2289745641, 0.6917385218, 0.0792869141],
+  },
+  srgb: {
+    toTarget: [1.660491, -0.5876411, -0.0728499, -0.1245505, 1.1328999, -0.0083494, -0.0181508, -0.1005789, 1.1187297],
+    fromTarget: [0.6274039, 0.329283, 0.0433131, 0.0690973, 0.9195404, 0.0113623, 0.0163914, 0.0880133, 0.8955953],
+    luma: [0.2126, 0.7152, 0.0722],
+  },
+}
+
+export interface GamutMapper {
+  mode: GamutMapping
+  primaries: Primaries
+  /** Scratch for the perceptual edge search; every grading pass makes its own mapper. */
+  lab: OklabTuple
+  probe: RGBTuple
+}
+
+// Fraction of the way to the gamut edge where compression starts.
+const KNEE = 0.8
+const PERCEPTUAL_SEARCH_STEPS = 14
+// Slack for the in-gamut test, above float error from the matrix round trip.
+const GAMUT_EPSILON = 1e-6
+
+/**
+ * Mapper for `mode` into the `volume` primaries (`'srgb'` for the SDR
+ * preview). Null when a per-channel clamp of BT.2020 values already does it.
+ */
+export function createGamutMapper(mode: GamutMapping, volume: GamutVolume | 'srgb'): GamutMapper | null {
+  if (mode === 'clip' && volume === 'bt2020') return null
+  return { mode, primaries: PRIMARIES[volume], lab: [0, 0, 0], probe: [0, 0, 0] }
+}
+
+function transform(matrix: Matrix3 | null, rgb: RGBTuple): void {
+  if (!matrix) return
+  const [r, g, b] = rgb
+  rgb[0] = matrix[0] * r + matrix[1] * g + matrix[2] * b
+  rgb[1] = matrix[3] * r + matrix[4] * g + matrix[5] * b
+  rgb[2] = matrix[6] * r + matrix[7] * g + matrix[8] * b
+}
+
+function clampChannels(rgb: RGBTuple): void {
+  rgb[0] = Math.min(1, Math.max(0, rgb[0]))
+  rgb[1] = Math.min(1, Math.max(0, rgb[1]))
+  rgb[2] = Math.min(1, Math.max(0, rgb[2]))
+}
+
+/** Identity up to the knee, then a tanh shoulder that approaches the edge (1) without reaching it. */
+export function compressDistance(distance: number): number {
+  if (distance <= KNEE) return distance
+  return KNEE + (1 - KNEE) * Math.tanh((distance - KNEE) / (1 - KNEE))
+}
+
+/** Chroma toward the same-luminance grey, in target primaries. */
+function compressChroma(rgb: RGBTuple, luma: Primaries['luma']): void {
+  const y = luma[0] * rgb[0] + luma[1] * rgb[1] + luma[2] * rgb[2]
+  if (y >= 1 || y <= 0) {
+    rgb[0] = rgb[1] = rgb[2] = Math.min(1, Math.max(0, y))
+    return
+  }
+  // Largest t for which y + t·(rgb − y) stays inside the cube; its inverse is how far out the color is.
+  let reach = Infinity
+  for (let c = 0; c < 3; c++) {
+    const offset = (rgb[c] ?? 0) - y
+    if (offset > 0) reach = Math.min(reach, (1 - y) / offset)
+    else if (offset < 0) reach = Math.min(reach, y / -offset)
+  }
+  if (!Number.isFinite(reach)) return
+  const distance = 1 / reach
+  const scale = compressDistance(distance) / distance
+  rgb[0] = y + (rgb[0] - y) * scale
+  rgb[1] = y + (rgb[1] - y) * scale
+  rgb[2] = y + (rgb[2] - y) * scale
+}
+
+function insideAt(mapper: GamutMapper, lightness: number, a: number, b: number): boolean {
+  const { lab, probe } = mapper
+  lab[0] = lightness
+  lab[1] = a
+  lab[2] = b
+  oklabToBt2020(lab, probe)
+  transform(mapper.primaries.toTarget, probe)
+  return probe.every((value) => value >= -GAMUT_EPSILON && value <= 1 + GAMUT_EPSILON)
+}
+
+/** Oklab chroma toward the edge at constant lightness and hue; `rgb` stays in BT.2020. */
+function compressOklabChroma(rgb: RGBTuple, mapper: GamutMapper): void {
+  const { lab } = mapper
+  bt2020ToOklab(rgb, lab)
+  const [lightness, a, b] = lab
+  if (lightness >= 1 || lightness <= 0) {
+    rgb[0] = rgb[1] = rgb[2] = lightness >= 1 ? 1 : 0
+    return
+  }
+  const chroma = Math.hypot(a, b)
+  // Inside the knee when the color pushed out by 1/KNEE is still in gamut.
+  if (chroma === 0 || insideAt(mapper, lightness, a / KNEE, b / KNEE)) return
+
+  // The grey at this lightness is inside and chroma / KNEE is outside; bisect for the edge.
+  let inside = 0
+  let outside = 1 / KNEE
+  for (let step = 0; step < PERCEPTUAL_SEARCH_STEPS; step++) {
+    const mid = (inside + outside) / 2
+    if (insideAt(mapper, lightness, a * mid, b * mid)) inside = mid
+    else outside = mid
+  }
+  // `inside` is the edge as a multiple of the current chroma.
+  const scale = compressDistance(1 / inside) * inside
+  lab[0] = lightness
+  lab[1] = a * scale
+  lab[2] = b * scale
+  oklabToBt2020(lab, rgb)
+}
+
+/** Bring a linear BT.2020 pixel inside the mapper's volume, in place. */
+export function mapToGamut(mapper: GamutMapper, rgb: RGBTuple): void {
+  const { primaries } = mapper
+  if (mapper.mode === 'perceptual') compressOklabChroma(rgb, mapper)
+  transform(primaries.toTarget, rgb)
+  if (mapper.mode === 'compress') compressChroma(rgb, primaries.luma)
+  // The compressed modes land inside already; the clamp catches float error and does the clip mode.
+  clampChannels(rgb)
+  transform(primaries.fromTarget, rgb)
+  clampChannels(rgb)
+}
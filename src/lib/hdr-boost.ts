@@ -6,6 +6,10 @@
  */
 export const SDR_DIFFUSE_WHITE_NITS = 100
 export const PQ_MAX_NITS = 10000
+// BT.2100 reference display peak for HLG exports; brighter grades clip here.
+export const HLG_NOMINAL_PEAK_NITS = 1000
+// BT.2100 HLG system gamma (OOTF exponent) at that nominal peak.
+export const HLG_SYSTEM_GAMMA = 1.2
 export const SDR_TO_PQ_SCALE = SDR_DIFFUSE_WHITE_NITS / PQ_MAX_NITS
 
 export const BOOST_UI_MIN = 1
@@ -0,0 +1,74 @@
+/**
+ * HDR static metadata (SMPTE ST 2086 + CTA-861.3)
+ *
+ * Displays and OS tone mappers read these values to decide how hard to
+ * compress highlights:
+ *   - Content light level: MaxCLL (brightest pixel) and MaxFALL (frame-average
+ *     of each pixel's brightest channel), both in cd/m².
+ *   - Mastering display color volume: the primaries, white point, and
+ *     luminance range of the display the content was graded for.
+ *
+ * PNG carries them in the 3rd-edition `cLLi` and `mDCv` chunks.
+ */
+
+import { PQ_MAX_NITS, SDR_DIFFUSE_WHITE_NITS } from './hdr-boost'
+
+export type Chromaticity = readonly [x: number, y: number]
+
+export interface ContentLightLevel {
+  maxCLL: number
+  maxFALL: number
+}
+
+export interface MasteringDisplayColorVolume {
+  red: Chromaticity
+  green: Chromaticity
+  blue: Chromaticity
+  whitePoint: Chromaticity
+  maxLuminance: number
+  minLuminance: number
+}
+
+export const BT2020_PRIMARIES = {
+  red: [0.708, 0.292],
+  green: [0.17, 0.797],
+  blue: [0.131, 0.046],
+} as const satisfies Record<string, Chromaticity>
+
+export const P3_PRIMARIES = {
+  red: [0.68, 0.32],
+  green: [0.265, 0.69],
+  blue: [0.15, 0.06],
+} as const satisfies Record<string, Chromaticity>
+
+export type DisplayPrimaries = typeof BT2020_PRIMARIES | typeof P3_PRIMARIES
+
+export const D65_WHITE_POINT: Chromaticity = [0.3127, 0.329]
+
+// Lowest black level a PQ reference monitor is typically specified for.
+const MASTERING_MIN_LUMINANCE_NITS = 0.005
+
+export function createContentLightLevel(): ContentLightLevel {
+  return { maxCLL: 0, maxFALL: 0 }
+}
+
+/**
+ * Mastering volume for a graded export: BT.2020 primaries (or P3 when the
+ * grade was constrained to it) with a D65 white, peaking at the brightest
+ * value the image actually reaches (never below SDR diffuse white, so dim
+ * images aren't flagged as needing expansion). When the grade was fit to a
+ * target display, that display's peak is the mastering peak.
+ */
+export function masteringDisplayForContent(
+  contentLightLevel: ContentLightLevel,
+  targetPeakNits?: number,
+  primaries: DisplayPrimaries = BT2020_PRIMARIES,
+): MasteringDisplayColorVolume {
+  const contentPeak = targetPeakNits ?? Math.ceil(contentLightLevel.maxCLL)
+  return {
+    ...primaries,
+    whitePoint: D65_WHITE_POINT,
+    maxLuminance: Math.min(PQ_MAX_NITS, Math.max(SDR_DIFFUSE_WHITE_NITS, contentPeak)),
+    minLuminance: MASTERING_MIN_LUMINANCE_NITS,
+  }
+}
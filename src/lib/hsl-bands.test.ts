@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest'
+import { applyHslBands, createHslRuntime } from './hsl-bands'
+import { DEFAULT_LOOK_CONTROLS, type LookControls } from './look-controls'
+import type { RGBTuple } from './bt2020-grading'
+
+function apply(look: Partial<LookControls>, rgb: RGBTuple): RGBTuple {
+  const runtime = createHslRuntime({ ...DEFAULT_LOOK_CONTROLS, ...look })
+  const out: RGBTuple = [...rgb]
+  if (runtime) applyHslBands(runtime, out)
+  return out
+}
+
+function spread(rgb: RGBTuple): number {
+  return Math.max(...rgb) - Math.min(...rgb)
+}
+
+// Linear BT.2020 samples: a magenta neon and a skin tone (Oklab hue ≈ 330° and ≈ 50°).
+const NEON: RGBTuple = [0.55, 0.12, 0.6]
+const SKIN: RGBTuple = [0.5, 0.3, 0.2]
+
+describe('applyHslBands', () => {
+  it('is off when every band is neutral', () => {
+    expect(createHslRuntime(DEFAULT_LOOK_CONTROLS)).toBeNull()
+  })
+
+  it('saturates one band without touching other hues or greys', () => {
+    const look = { magentaSaturation: 1 }
+    expect(spread(apply(look, NEON))).toBeGreaterThan(spread(NEON) * 1.3)
+    apply(look, SKIN).forEach((value, c) => expect(value).toBeCloseTo(SKIN[c]!, 6))
+    apply(look, [0.4, 0.4, 0.4]).forEach((value) => expect(value).toBeCloseTo(0.4, 6))
+  })
+
+  it('shifts hue toward the next band and scales luminance in stops', () => {
+    const yellow: RGBTuple = [0.6, 0.55, 0.05]
+    const shifted = apply({ yellowHue: 1 }, yellow)
+    expect(shifted[1] / shifted[0]).toBeGreaterThan(yellow[1] / yellow[0])
+
+    const blue: RGBTuple = [0.02, 0.05, 0.7]
+    apply({ blueLuminance: -1 }, blue).forEach((value, c) => expect(value).toBeCloseTo(blue[c]! / 2, 2))
+  })
+
+  it('changes smoothly around the hue circle', () => {
+    // Sampling the ring 4× finer cuts the largest step between neighbours about 4×; a band edge that stepped would not shrink.
+    const look = { redSaturation: 1, greenHue: -1, blueLuminance: 1, purpleSaturation: -1 }
+    const largestStep = (samples: number) => {
+      const ring = (i: number): RGBTuple => {
+        const angle = (i / samples) * Math.PI * 2
+        return [
+          0.3 + 0.12 * Math.cos(angle),
+          0.3 + 0.12 * Math.cos(angle - (2 * Math.PI) / 3),
+          0.3 + 0.12 * Math.cos(angle + (2 * Math.PI) / 3),
+        ]
+      }
+      let largest = 0
+      let previous = apply(look, ring(0))
+      for (let i = 1; i <= samples; i++) {
+        const next = apply(look, ring(i))
+        for (let c = 0; c < 3; c++) largest = Math.max(largest, Math.abs(next[c]! - previous[c]!))
+        previous = next
+      }
+      return largest
+    }
+    expect(largestStep(5760)).toBeLessThan(largestStep(1440) / 3)
+  })
+})
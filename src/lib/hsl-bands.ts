@@ -0,0 +1,107 @@
+/**
+ * Per-hue HSL: hue shift, saturation and luminance for eight hue bands.
+ *
+ * Hue is measured in Oklab, where a hue angle stays the same perceived hue
+ * from dark to bright and from pale to vivid, so a band catches a neon sign
+ * and its dim reflection alike. Band centres sit on the Oklab hues of the
+ * familiar colors; a pixel between two centres takes a raised-cosine mix of
+ * both bands, so the weights always sum to one and change smoothly with hue.
+ * Adjustments fade in with relative chroma, which keeps greys — where hue is
+ * undefined — untouched and avoids any edge a PQ encode could reveal.
+ *
+ * Luminance scales linear light, so a band gets brighter or darker without
+ * shifting its hue.
+ */
+
+import { HSL_BANDS, type LookControls } from './look-controls'
+import { bt2020ToOklab, oklabToBt2020, type OklabTuple } from './oklab'
+import type { RGBTuple } from './bt2020-grading'
+
+export interface HslRuntime {
+  /** Hue shift per band, radians. */
+  hue: Float32Array
+  /** Chroma change per band; −1 removes all color, +1 doubles it. */
+  saturation: Float32Array
+  /** Exposure change per band, stops. */
+  luminance: Float32Array
+  /** Oklab scratch for `applyHslBands`. */
+  lab: OklabTuple
+}
+
+// Oklab hue of each band centre, degrees; red to magenta in `HSL_BANDS` order.
+const BAND_CENTERS_DEG = [20, 55, 100, 145, 195, 255, 295, 330]
+const BAND_CENTERS = BAND_CENTERS_DEG.map((degrees) => (degrees * Math.PI) / 180)
+const TWO_PI = Math.PI * 2
+
+// Full-scale slider values.
+const MAX_HUE_SHIFT = (30 * Math.PI) / 180
+const MAX_LUMINANCE_STOPS = 1
+
+// Chroma / lightness where a band reaches full effect; below it the adjustment fades to zero at grey.
+const FULL_EFFECT_CHROMA = 0.08
+
+/** Per-band values from the look, or null when every band is neutral. */
+export function createHslRuntime(look: LookControls): HslRuntime | null {
+  const count = HSL_BANDS.length
+  const runtime: HslRuntime = {
+    hue: new Float32Array(count),
+    saturation: new Float32Array(count),
+    luminance: new Float32Array(count),
+    lab: [0, 0, 0],
+  }
+  let active = false
+  HSL_BANDS.forEach((band, i) => {
+    const hue = look[`${band}Hue`]
+    const saturation = look[`${band}Saturation`]
+    const luminance = look[`${band}Luminance`]
+    if (hue !== 0 || saturation !== 0 || luminance !== 0) active = true
+    runtime.hue[i] = hue * MAX_HUE_SHIFT
+    runtime.saturation[i] = saturation
+    runtime.luminance[i] = luminance * MAX_LUMINANCE_STOPS
+  })
+  return active ? runtime : null
+}
+
+/**
+ * Index of the band at or below `hue` (radians, 0–2π) and the raised-cosine
+ * weight of the next band; the lower band takes the rest.
+ */
+function bandBlend(hue: number): { lower: number; upperWeight: number } {
+  const count = BAND_CENTERS.length
+  let lower = count - 1
+  for (let i = 0; i < count; i++) {
+    if (hue >= (BAND_CENTERS[i] ?? 0)) lower = i
+  }
+  const start = BAND_CENTERS[lower] ?? 0
+  const end = lower === count - 1 ? (BAND_CENTERS[0] ?? 0) + TWO_PI : (BAND_CENTERS[lower + 1] ?? 0)
+  // Hues below the first centre wrap around from the last band.
+  const offset = hue < start ? hue + TWO_PI - start : hue - start
+  const t = offset / (end - start)
+  return { lower, upperWeight: 0.5 - 0.5 * Math.cos(Math.PI * t) }
+}
+
+/** Apply per-hue HSL in place to linear BT.2020 RGB. */
+export function applyHslBands(runtime: HslRuntime, rgb: RGBTuple): void {
+  const { lab } = runtime
+  bt2020ToOklab(rgb, lab)
+  const [lightness, a, b] = lab
+  const chroma = Math.hypot(a, b)
+  if (lightness <= 1e-6 || chroma <= 1e-9) return
+
+  const relativeChroma = Math.min(1, chroma / lightness / FULL_EFFECT_CHROMA)
+  const strength = relativeChroma * relativeChroma * (3 - 2 * relativeChroma)
+  const hue = Math.atan2(b, a)
+  const { lower, upperWeight } = bandBlend(hue < 0 ? hue + TWO_PI : hue)
+  const upper = (lower + 1) % BAND_CENTERS.length
+  const mix = (values: Float32Array) => ((values[lower] ?? 0) * (1 - upperWeight) + (values[upper] ?? 0) * upperWeight) * strength
+
+  const shiftedHue = hue + mix(runtime.hue)
+  const shiftedChroma = chroma * Math.max(0, 1 + mix(runtime.saturation))
+  lab[1] = shiftedChroma * Math.cos(shiftedHue)
+  lab[2] = shiftedChroma * Math.sin(shiftedHue)
+  oklabToBt2020(lab, rgb)
+  const exposure = Math.pow(2, mix(runtime.luminance))
+  rgb[0] *= exposure
+  rgb[1] *= exposure
+  rgb[2] *= exposure
+}
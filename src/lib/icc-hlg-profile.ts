@@ -0,0 +1,226 @@
+/**
+ * Generated ICC v4.4 profile — "Rec2020 Gamut with HLG Transfer"
+ *
+ * The HLG counterpart to the bundled Rec2020-PQ profile, built in code rather
+ * than shipped as a binary. It describes a display-class RGB profile with:
+ *   - BT.2020 colorants, chromatically adapted D65 → D50 (Bradford) as ICC requires
+ *   - TRC curves sampling the HLG inverse OETF followed by the 1.2 system
+ *     gamma, normalized so signal 1.0 is media white (how SDR apps should show HLG)
+ *   - a `cicp` tag (9/18/0/1) so v4.4-aware CMMs can recognise the HLG signal
+ *
+ * ICC spec: https://www.color.org/specification/ICC.1-2022-05.pdf
+ */
+
+import { HLG_SYSTEM_GAMMA } from './hdr-boost'
+import { hlgDecode } from './pq-transfer'
+
+type Vec3 = [number, number, number]
+type Mat3 = [Vec3, Vec3, Vec3]
+
+const PROFILE_DESCRIPTION = 'Rec2020 Gamut with HLG Transfer'
+const PROFILE_COPYRIGHT = 'No copyright, use freely'
+const TRC_POINTS = 1024
+// Fixed creation date (year, month, day, h, m, s) so the profile bytes are deterministic.
+const CREATION_DATE = [2025, 1, 1, 0, 0, 0]
+
+const BT2020_PRIMARIES_XY: [Vec3, Vec3, Vec3] = [
+  [0.708, 0.292, 0],
+  [0.17, 0.797, 0],
+  [0.131, 0.046, 0],
+]
+const D65_XYZ: Vec3 = [0.95047, 1.0, 1.08883]
+// ICC PCS illuminant (D50) as stored in the header and wtpt tag.
+const D50_XYZ: Vec3 = [0.9642, 1.0, 0.8249]
+
+const BRADFORD: Mat3 = [
+  [0.8951, 0.2664, -0.1614],
+  [-0.7502, 1.7135, 0.0367],
+  [0.0389, -0.0685, 1.0296],
+]
+
+function mulMatVec(m: Mat3, v: Vec3): Vec3 {
+  return [
+    m[0][0] * v[0] + m[0][1] * v[1] + m[0][2] * v[2],
+    m[1][0] * v[0] + m[1][1] * v[1] + m[1][2] * v[2],
+    m[2][0] * v[0] + m[2][1] * v[1] + m[2][2] * v[2],
+  ]
+}
+
+function mulMat(a: Mat3, b: Mat3): Mat3 {
+  const column = (j: 0 | 1 | 2): Vec3 => mulMatVec(a, [b[0][j], b[1][j], b[2][j]])
+  const c0 = column(0)
+  const c1 = column(1)
+  const c2 = column(2)
+  return [
+    [c0[0], c1[0], c2[0]],
+    [c0[1], c1[1], c2[1]],
+    [c0[2], c1[2], c2[2]],
+  ]
+}
+
+function invertMat(m: Mat3): Mat3 {
+  const [[a, b, c], [d, e, f], [g, h, i]] = m
+  const A = e * i - f * h
+  const B = -(d * i - f * g)
+  const C = d * h - e * g
+  const det = a * A + b * B + c * C
+  return [
+    [A / det, -(b * i - c * h) / det, (b * f - c * e) / det],
+    [B / det, (a * i - c * g) / det, -(a * f - c * d) / det],
+    [C / det, -(a * h - b * g) / det, (a * e - b * d) / det],
+  ]
+}
+
+/** Columns are the XYZ (D65, Y_white = 1) of each BT.2020 primary. */
+function bt2020ToXYZD65(): Mat3 {
+  const toXYZ = ([x, y]: Vec3): Vec3 => [x / y, 1, (1 - x - y) / y]
+  const [red, green, blue] = BT2020_PRIMARIES_XY
+  const xyz: Mat3 = [toXYZ(red), toXYZ(green), toXYZ(blue)]
+  const primaries: Mat3 = [
+    [xyz[0][0], xyz[1][0], xyz[2][0]],
+    [xyz[0][1], xyz[1][1], xyz[2][1]],
+    [xyz[0][2], xyz[1][2], xyz[2][2]],
+  ]
+  const [sr, sg, sb] = mulMatVec(invertMat(primaries), D65_XYZ)
+  return primaries.map(([r, g, b]) => [r * sr, g * sg, b * sb]) as Mat3
+}
+
+function bradfordD65ToD50(): Mat3 {
+  const src = mulMatVec(BRADFORD, D65_XYZ)
+  const dst = mulMatVec(BRADFORD, D50_XYZ)
+  const scale: Mat3 = [
+    [dst[0] / src[0], 0, 0],
+    [0, dst[1] / src[1], 0],
+    [0, 0, dst[2] / src[2]],
+  ]
+  return mulMat(invertMat(BRADFORD), mulMat(scale, BRADFORD))
+}
+
+interface ByteWriter {
+  bytes: Uint8Array
+  ascii(offset: number, text: string): void
+  u16(offset: number, value: number): void
+  u32(offset: number, value: number): void
+  s15Fixed16(offset: number, value: number): void
+}
+
+// Big-endian writer over a fixed-size buffer; ICC is big-endian throughout.
+function createByteWriter(length: number): ByteWriter {
+  const bytes = new Uint8Array(length)
+  const view = new DataView(bytes.buffer)
+  return {
+    bytes,
+    ascii(offset, text) {
+      for (let i = 0; i < text.length; i++) bytes[offset + i] = text.charCodeAt(i)
+    },
+    u16(offset, value) {
+      view.setUint16(offset, value)
+    },
+    u32(offset, value) {
+      view.setUint32(offset, value)
+    },
+    s15Fixed16(offset, value) {
+      view.setInt32(offset, Math.round(value * 65536))
+    },
+  }
+}
+
+function xyzTag(xyz: Vec3): Uint8Array {
+  const w = createByteWriter(20)
+  w.ascii(0, 'XYZ ')
+  xyz.forEach((value, i) => w.s15Fixed16(8 + i * 4, value))
+  return w.bytes
+}
+
+function sf32Tag(m: Mat3): Uint8Array {
+  const w = createByteWriter(44)
+  w.ascii(0, 'sf32')
+  m.flat().forEach((value, i) => w.s15Fixed16(8 + i * 4, value))
+  return w.bytes
+}
+
+function mlucTag(text: string): Uint8Array {
+  const w = createByteWriter(28 + text.length * 2)
+  w.ascii(0, 'mluc')
+  w.u32(8, 1) // record count
+  w.u32(12, 12) // record size
+  w.ascii(16, 'enUS')
+  w.u32(20, text.length * 2)
+  w.u32(24, 28)
+  for (let i = 0; i < text.length; i++) w.u16(28 + i * 2, text.charCodeAt(i))
+  return w.bytes
+}
+
+function hlgCurveTag(): Uint8Array {
+  const w = createByteWriter(12 + TRC_POINTS * 2)
+  w.ascii(0, 'curv')
+  w.u32(8, TRC_POINTS)
+  for (let i = 0; i < TRC_POINTS; i++) {
+    const display = Math.pow(hlgDecode(i / (TRC_POINTS - 1)), HLG_SYSTEM_GAMMA)
+    w.u16(12 + i * 2, Math.round(Math.min(1, display) * 65535))
+  }
+  return w.bytes
+}
+
+function cicpTag(): Uint8Array {
+  const w = createByteWriter(12)
+  w.ascii(0, 'cicp')
+  w.bytes.set([9, 18, 0, 1], 8) // BT.2020, HLG, identity matrix, full range
+  return w.bytes
+}
+
+function align4(n: number): number {
+  return (n + 3) & ~3
+}
+
+export function buildRec2020HLGProfile(): Uint8Array {
+  const toD50 = bradfordD65ToD50()
+  const colorants = mulMat(toD50, bt2020ToXYZD65())
+  const column = (j: 0 | 1 | 2): Vec3 => [colorants[0][j], colorants[1][j], colorants[2][j]]
+  const trc = hlgCurveTag()
+
+  // Tags sharing a data block (the three TRCs) point at the same offset.
+  const tags: [signature: string, data: Uint8Array][] = [
+    ['desc', mlucTag(PROFILE_DESCRIPTION)],
+    ['cprt', mlucTag(PROFILE_COPYRIGHT)],
+    ['wtpt', xyzTag(D50_XYZ)],
+    ['chad', sf32Tag(toD50)],
+    ['rXYZ', xyzTag(column(0))],
+    ['gXYZ', xyzTag(column(1))],
+    ['bXYZ', xyzTag(column(2))],
+    ['rTRC', trc],
+    ['gTRC', trc],
+    ['bTRC', trc],
+    ['cicp', cicpTag()],
+  ]
+
+  const tagTableSize = 4 + tags.length * 12
+  const offsets = new Map<Uint8Array, number>()
+  let cursor = align4(128 + tagTableSize)
+  for (const [, data] of tags) {
+    if (offsets.has(data)) continue
+    offsets.set(data, cursor)
+    cursor = align4(cursor + data.length)
+  }
+
+  const w = createByteWriter(cursor)
+  w.u32(0, cursor) // profile size
+  w.u32(8, 0x04400000) // version 4.4
+  w.ascii(12, 'mntr')
+  w.ascii(16, 'RGB ')
+  w.ascii(20, 'XYZ ')
+  CREATION_DATE.forEach((value, i) => w.u16(24 + i * 2, value))
+  w.ascii(36, 'acsp')
+  D50_XYZ.forEach((value, i) => w.s15Fixed16(68 + i * 4, value))
+
+  w.u32(128, tags.length)
+  tags.forEach(([signature, data], i) => {
+    const entry = 132 + i * 12
+    w.ascii(entry, signature)
+    w.u32(entry + 4, offsets.get(data) ?? 0)
+    w.u32(entry + 8, data.length)
+  })
+  for (const [data, offset] of offsets) w.bytes.set(data, offset)
+
+  return w.bytes
+}
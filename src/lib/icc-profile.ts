@@ -1,5 +1,6 @@
 /**
- * Embedded ICC Color Profile — "Rec2020 Gamut with PQ Transfer"
+ * Embedded ICC Color Profiles — "Rec2020 Gamut with PQ Transfer" and its
+ * generated HLG counterpart (see `icc-hlg-profile.ts`)
  *
  * This is Google's ICC profile for Rec.2020 color primaries with the PQ
  * (ST 2084) transfer function. The raw binary is stored as `rec2020-pq.icc`
@@ -13,11 +14,15 @@
  */
 
 import iccUrl from './rec2020-pq.icc?url'
+import { buildRec2020HLGProfile } from './icc-hlg-profile'
+import type { TransferFunction } from './pq-transfer'
 
 /**
- * Fetch the raw ICC profile bytes from the static asset.
+ * Raw ICC profile bytes for a transfer function: the PQ profile is fetched
+ * from the static asset, the HLG profile is built in code.
  */
-export async function getICCProfileBytes(): Promise<Uint8Array> {
+export async function getICCProfileBytes(transfer: TransferFunction = 'pq'): Promise<Uint8Array> {
+  if (transfer === 'hlg') return buildRec2020HLGProfile()
   const response = await fetch(iccUrl)
   return new Uint8Array(await response.arrayBuffer())
 }
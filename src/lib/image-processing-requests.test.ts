@@ -1,6 +1,14 @@
 import { describe, expect, it, vi } from 'vitest'
 import { DEFAULT_LOOK_CONTROLS } from './look-controls'
-import { requestExportConversion, requestPreviewConversion, type ImageProcessingWorkerAdapter } from './image-processing-requests'
+import {
+  isCancelledRequestError,
+  requestExportConversion,
+  requestImageAnalysis,
+  requestPreviewConversion,
+  type ImageProcessingWorkerAdapter,
+} from './image-processing-requests'
+
+const alpha = { alphaMode: 'keep' as const, flattenColor: '#000000' }
 
 function makeWorker(overrides: Partial<ImageProcessingWorkerAdapter> = {}): ImageProcessingWorkerAdapter {
   return {
@@ -8,7 +16,8 @@ function makeWorker(overrides: Partial<ImageProcessingWorkerAdapter> = {}): Imag
       type: 'result',
       id: 1,
       ok: true,
-      pngData: new Uint8Array([9]),
+      format: 'png',
+      fileData: new Uint8Array([9]),
     })),
     runWorkerPreview: vi.fn(async () => ({
       type: 'preview-result',
@@ -18,6 +27,22 @@ function makeWorker(overrides: Partial<ImageProcessingWorkerAdapter> = {}): Imag
       height: 1,
       pixels: new Uint8ClampedArray([1, 2, 3, 255]),
     })),
+    runWorkerAnalyze: vi.fn(async () => ({
+      type: 'analyze-result',
+      id: 1,
+      ok: true,
+      analysis: {
+        histogram: new Uint32Array(256),
+        sampleCount: 0,
+        shadowClipping: 0,
+        highlightClipping: 0,
+        meanSaturation: 0,
+        warmth: 0,
+        greenness: 0,
+      },
+      suggestion: { exposure: 0, contrast: 1, blacks: 0, whites: 0, temperature: 0, tint: 0 },
+    })),
+    isImageCached: vi.fn(() => false),
     shouldTryWorkerDecode: vi.fn(() => true),
     markWorkerDecodeSupport: vi.fn(),
     ...overrides,
@@ -39,13 +64,17 @@ describe('requestPreviewConversion', () => {
       image,
       boost: 5,
       lookControls: DEFAULT_LOOK_CONTROLS,
+      alpha,
+      transferFunction: 'pq',
       hdrPreviewEnabled: false,
       worker,
       decodePixelsOnMainThread,
     })
 
     expect(response.hdrPreviewEnabled).toBe(false)
-    expect(worker.runWorkerPreview).toHaveBeenCalledWith(expect.objectContaining({ file: image.file, output: 'sdr-rgba' }))
+    expect(worker.runWorkerPreview).toHaveBeenCalledWith(
+      expect.objectContaining({ file: image.file, output: 'sdr-rgba', boost: 5, alphaMode: 'keep', flattenColor: '#000000' }),
+    )
     expect(worker.markWorkerDecodeSupport).toHaveBeenCalledWith(true)
     expect(decodePixelsOnMainThread).not.toHaveBeenCalled()
   })
@@ -70,6 +99,8 @@ describe('requestPreviewConversion', () => {
       image,
       boost: 5,
       lookControls: DEFAULT_LOOK_CONTROLS,
+      alpha,
+      transferFunction: 'pq',
       hdrPreviewEnabled: false,
       worker,
       decodePixelsOnMainThread: () => ({ pixels, width: 1, height: 1 }),
@@ -102,6 +133,8 @@ describe('requestPreviewConversion', () => {
       image,
       boost: 5,
       lookControls: DEFAULT_LOOK_CONTROLS,
+      alpha,
+      transferFunction: 'pq',
       hdrPreviewEnabled: true,
       worker,
       decodePixelsOnMainThread: () => ({ pixels, width: 1, height: 1 }),
@@ -110,6 +143,73 @@ describe('requestPreviewConversion', () => {
     expect(response.hdrPreviewEnabled).toBe(false)
     expect(worker.runWorkerPreview).toHaveBeenLastCalledWith(expect.objectContaining({ file: image.file, output: 'sdr-rgba' }))
   })
+
+  it('asks for the false-color map in place of the HDR preview', async () => {
+    const worker = makeWorker()
+
+    const response = await requestPreviewConversion({
+      image,
+      boost: 5,
+      lookControls: DEFAULT_LOOK_CONTROLS,
+      alpha,
+      transferFunction: 'pq',
+      hdrPreviewEnabled: true,
+      falseColor: true,
+      worker,
+      decodePixelsOnMainThread: vi.fn(),
+    })
+
+    expect(response.hdrPreviewEnabled).toBe(true)
+    expect(worker.runWorkerPreview).toHaveBeenCalledTimes(1)
+    expect(worker.runWorkerPreview).toHaveBeenCalledWith(expect.objectContaining({ output: 'false-color', boost: 5 }))
+  })
+
+  it('sends only the image id once the worker holds the decoded source', async () => {
+    const worker = makeWorker({ isImageCached: vi.fn((imageId: number) => imageId === 7) })
+    const decodePixelsOnMainThread = vi.fn()
+
+    await requestPreviewConversion({
+      image: { ...image, imageId: 7 },
+      boost: 5,
+      lookControls: DEFAULT_LOOK_CONTROLS,
+      alpha,
+      transferFunction: 'pq',
+      hdrPreviewEnabled: false,
+      worker,
+      decodePixelsOnMainThread,
+    })
+
+    const [payload] = vi.mocked(worker.runWorkerPreview).mock.calls[0]!
+    expect(payload).toMatchObject({ imageId: 7, output: 'sdr-rgba' })
+    expect(payload).not.toHaveProperty('file')
+    expect(payload).not.toHaveProperty('pixels')
+    expect(worker.shouldTryWorkerDecode).not.toHaveBeenCalled()
+    expect(decodePixelsOnMainThread).not.toHaveBeenCalled()
+  })
+
+  it('tags uncached file and pixel payloads with the image id', async () => {
+    const worker = makeWorker({
+      runWorkerPreview: vi
+        .fn()
+        .mockRejectedValueOnce(new Error('decode failed'))
+        .mockResolvedValueOnce({ type: 'preview-result', id: 5, ok: true, width: 1, height: 1, pixels: new Uint8ClampedArray(4) }),
+    })
+    const pixels = new Uint8ClampedArray([1, 1, 1, 255])
+
+    await requestPreviewConversion({
+      image: { ...image, imageId: 3 },
+      boost: 5,
+      lookControls: DEFAULT_LOOK_CONTROLS,
+      alpha,
+      transferFunction: 'pq',
+      hdrPreviewEnabled: false,
+      worker,
+      decodePixelsOnMainThread: () => ({ pixels, width: 1, height: 1 }),
+    })
+
+    expect(worker.runWorkerPreview).toHaveBeenNthCalledWith(1, expect.objectContaining({ imageId: 3, file: image.file }))
+    expect(worker.runWorkerPreview).toHaveBeenNthCalledWith(2, expect.objectContaining({ imageId: 3, pixels }), [pixels.buffer])
+  })
 })
 
 describe('requestExportConversion', () => {
@@ -122,22 +222,69 @@ describe('requestExportConversion', () => {
           type: 'result',
           id: 4,
           ok: true,
-          pngData: new Uint8Array([1, 2, 3]),
+          format: 'png',
+          fileData: new Uint8Array([1, 2, 3]),
         }),
     })
     const pixels = new Uint8ClampedArray([1, 2, 3, 255])
+    const onProgress = vi.fn()
 
     const response = await requestExportConversion({
       image,
       boost: 5,
       lookControls: DEFAULT_LOOK_CONTROLS,
+      alpha,
+      transferFunction: 'hlg',
+      outputFormat: 'jpeg',
       collectStats: false,
       worker,
       decodePixelsOnMainThread: () => ({ pixels, width: 1, height: 1 }),
+      onProgress,
     })
 
-    expect(response.pngData).toEqual(new Uint8Array([1, 2, 3]))
+    expect(response.fileData).toEqual(new Uint8Array([1, 2, 3]))
     expect(worker.markWorkerDecodeSupport).toHaveBeenCalledWith(false)
-    expect(worker.runWorkerConvert).toHaveBeenLastCalledWith(expect.objectContaining({ pixels, width: 1, height: 1 }), [pixels.buffer])
+    expect(worker.runWorkerConvert).toHaveBeenLastCalledWith(
+      expect.objectContaining({ pixels, width: 1, height: 1, transferFunction: 'hlg', outputFormat: 'jpeg' }),
+      [pixels.buffer],
+      onProgress,
+    )
+  })
+
+  it('rethrows a cancelled export without retrying from main-thread pixels', async () => {
+    const cancelled = Object.assign(new Error('Convert request cancelled'), { code: 'CANCELLED' })
+    const worker = makeWorker({ runWorkerConvert: vi.fn().mockRejectedValueOnce(cancelled) })
+    const decodePixelsOnMainThread = vi.fn()
+
+    await expect(
+      requestExportConversion({
+        image,
+        boost: 5,
+        lookControls: DEFAULT_LOOK_CONTROLS,
+        alpha,
+        transferFunction: 'pq',
+        outputFormat: 'png',
+        collectStats: false,
+        worker,
+        decodePixelsOnMainThread,
+      }),
+    ).rejects.toBe(cancelled)
+
+    expect(isCancelledRequestError(cancelled)).toBe(true)
+    expect(worker.runWorkerConvert).toHaveBeenCalledTimes(1)
+    expect(worker.markWorkerDecodeSupport).not.toHaveBeenCalled()
+    expect(decodePixelsOnMainThread).not.toHaveBeenCalled()
+  })
+})
+
+describe('requestImageAnalysis', () => {
+  it('analyzes the cached image without resending its source', async () => {
+    const worker = makeWorker({ isImageCached: vi.fn(() => true) })
+    const decodePixelsOnMainThread = vi.fn()
+
+    await requestImageAnalysis({ image: { ...image, imageId: 3 }, worker, decodePixelsOnMainThread })
+
+    expect(worker.runWorkerAnalyze).toHaveBeenCalledWith({ imageId: 3 })
+    expect(decodePixelsOnMainThread).not.toHaveBeenCalled()
   })
 })
@@ -1,11 +1,29 @@
-import { BOOST_UI_MIN } from './hdr-boost'
 import { PREVIEW_MAX_LONG_EDGE_DEFAULT, type LookControls } from './look-controls'
-import type { WorkerConvertRequest, WorkerPreviewRequest, WorkerPreviewSuccessResponse, WorkerSuccessResponse } from './worker-protocol'
+import type { AlphaMode } from './alpha-handling'
+import type { TransferFunction } from './pq-transfer'
+import type { UpConversionMethod } from './up-conversion'
+import type { ExportFormat } from './export-format'
+import type { ExportProgress } from './export-progress'
+import type { ColorLutSettings } from './color-lut'
+import type { ToneCurve } from './tone-curve'
+import type { GamutMapping, GamutVolume } from './gamut-mapping'
+import type { CaptionSettings } from './caption'
+import type {
+  PreviewOutput,
+  WorkerAnalyzeRequest,
+  WorkerAnalyzeSuccessResponse,
+  WorkerConvertRequest,
+  WorkerPreviewRequest,
+  WorkerPreviewSuccessResponse,
+  WorkerSuccessResponse,
+} from './worker-protocol'
 
 export interface RequestImage {
   file: File
   width: number
   height: number
+  /** Worker cache key from `useConverterWorker().allocateImageId()`. */
+  imageId?: number
 }
 
 export interface PixelDecodeResult {
@@ -15,17 +33,40 @@ export interface PixelDecodeResult {
 }
 
 export interface ImageProcessingWorkerAdapter {
-  runWorkerConvert: (payload: Omit<WorkerConvertRequest, 'type' | 'id'>, transfer?: Transferable[]) => Promise<WorkerSuccessResponse>
+  runWorkerConvert: (
+    payload: Omit<WorkerConvertRequest, 'type' | 'id'>,
+    transfer?: Transferable[],
+    onProgress?: (progress: ExportProgress) => void,
+  ) => Promise<WorkerSuccessResponse>
   runWorkerPreview: (payload: Omit<WorkerPreviewRequest, 'type' | 'id'>, transfer?: Transferable[]) => Promise<WorkerPreviewSuccessResponse>
+  runWorkerAnalyze: (payload: Omit<WorkerAnalyzeRequest, 'type' | 'id'>, transfer?: Transferable[]) => Promise<WorkerAnalyzeSuccessResponse>
+  isImageCached: (imageId: number) => boolean
   shouldTryWorkerDecode: (hasFile: boolean) => boolean
   markWorkerDecodeSupport: (isSupported: boolean) => void
 }
 
+export interface AlphaSettings {
+  alphaMode: AlphaMode
+  flattenColor: string
+}
+
 export interface RequestPreviewOptions {
   image: RequestImage
   boost: number
   lookControls: LookControls
+  alpha: AlphaSettings
+  transferFunction: TransferFunction
+  upConversion?: UpConversionMethod
+  targetPeakNits?: number | null
+  fallBudgetNits?: number | null
+  colorLut?: ColorLutSettings | null
+  toneCurve?: ToneCurve | null
+  gamutMapping?: GamutMapping
+  gamutVolume?: GamutVolume
+  caption?: CaptionSettings | null
   hdrPreviewEnabled: boolean
+  /** Ask for the false-color nits map instead of a picture. */
+  falseColor?: boolean
   worker: ImageProcessingWorkerAdapter
   decodePixelsOnMainThread: () => PixelDecodeResult
   previewMaxLongEdge?: number
@@ -40,82 +81,126 @@ export interface RequestExportOptions {
   image: RequestImage
   boost: number
   lookControls: LookControls
+  alpha: AlphaSettings
+  transferFunction: TransferFunction
+  upConversion?: UpConversionMethod
+  targetPeakNits?: number | null
+  fallBudgetNits?: number | null
+  colorLut?: ColorLutSettings | null
+  toneCurve?: ToneCurve | null
+  gamutMapping?: GamutMapping
+  gamutVolume?: GamutVolume
+  caption?: CaptionSettings | null
+  outputFormat: ExportFormat
   collectStats: boolean
   worker: ImageProcessingWorkerAdapter
   decodePixelsOnMainThread: () => PixelDecodeResult
+  onProgress?: (progress: ExportProgress) => void
+}
+
+export interface RequestAnalysisOptions {
+  image: RequestImage
+  worker: ImageProcessingWorkerAdapter
+  decodePixelsOnMainThread: () => PixelDecodeResult
 }
 
+/** True for rejections of a request that was superseded or cancelled by the caller. */
+export function isCancelledRequestError(error: unknown): boolean {
+  return (error as { code?: string } | null)?.code === 'CANCELLED'
+}
+
+type WorkerSourcePayload = Pick<WorkerConvertRequest, 'imageId' | 'file'>
+type PixelSourcePayload = Pick<WorkerConvertRequest, 'imageId' | 'pixels' | 'width' | 'height'>
+
 async function runWithDecodeFallback<TResponse>(
   image: RequestImage,
   worker: ImageProcessingWorkerAdapter,
   decodePixelsOnMainThread: () => PixelDecodeResult,
-  runFilePayload: () => Promise<TResponse>,
-  runPixelPayload: (pixels: PixelDecodeResult, transfer: Transferable[]) => Promise<TResponse>,
+  runWorkerSource: (source: WorkerSourcePayload) => Promise<TResponse>,
+  runPixelPayload: (source: PixelSourcePayload, transfer: Transferable[]) => Promise<TResponse>,
 ): Promise<TResponse> {
+  const imageId = image.imageId !== undefined ? { imageId: image.imageId } : {}
+  // The worker already holds this image decoded; send no source at all.
+  if (image.imageId !== undefined && worker.isImageCached(image.imageId)) {
+    return runWorkerSource(imageId)
+  }
+
   if (worker.shouldTryWorkerDecode(Boolean(image.file))) {
     try {
-      const response = await runFilePayload()
+      const response = await runWorkerSource({ ...imageId, file: image.file })
       worker.markWorkerDecodeSupport(true)
       return response
-    } catch {
+    } catch (error) {
+      // A cancelled request says nothing about decode support, and re-running
+      // it from pixels would undo the cancel.
+      if (isCancelledRequestError(error)) throw error
       // Worker-side decode can fail even when browser decode works (headless/driver quirks).
       // Always fall back to main-thread canvas decode before surfacing the error.
       worker.markWorkerDecodeSupport(false)
-      const pixels = decodePixelsOnMainThread()
-      return runPixelPayload(pixels, [pixels.pixels.buffer])
+      const { pixels, width, height } = decodePixelsOnMainThread()
+      return runPixelPayload({ ...imageId, pixels, width, height }, [pixels.buffer])
     }
   }
 
-  const pixels = decodePixelsOnMainThread()
-  return runPixelPayload(pixels, [pixels.pixels.buffer])
+  const { pixels, width, height } = decodePixelsOnMainThread()
+  return runPixelPayload({ ...imageId, pixels, width, height }, [pixels.buffer])
 }
 
 export async function requestPreviewConversion({
   image,
   boost,
   lookControls,
+  alpha,
+  transferFunction,
+  upConversion,
+  targetPeakNits,
+  fallBudgetNits,
+  colorLut,
+  toneCurve,
+  gamutMapping,
+  gamutVolume,
+  caption,
   hdrPreviewEnabled,
+  falseColor = false,
   worker,
   decodePixelsOnMainThread,
   previewMaxLongEdge = PREVIEW_MAX_LONG_EDGE_DEFAULT,
 }: RequestPreviewOptions): Promise<RequestPreviewResult> {
-  const requestWithOutput = (output: 'sdr-rgba' | 'hdr-png', previewBoost: number): Promise<WorkerPreviewSuccessResponse> =>
-    runWithDecodeFallback(
+  // The SDR preview image ignores boost, but its scopes and ABL report are of the export, so both outputs send it.
+  const requestWithOutput = (output: PreviewOutput): Promise<WorkerPreviewSuccessResponse> => {
+    const settings = {
+      boost,
+      lookControls,
+      ...alpha,
+      transferFunction,
+      ...(upConversion ? { upConversion } : {}),
+      ...(targetPeakNits ? { targetPeakNits } : {}),
+      ...(fallBudgetNits ? { fallBudgetNits } : {}),
+      ...(colorLut ? { colorLut } : {}),
+      ...(toneCurve ? { toneCurve } : {}),
+      ...(gamutMapping ? { gamutMapping } : {}),
+      ...(gamutVolume ? { gamutVolume } : {}),
+      ...(caption ? { caption } : {}),
+      output,
+      previewMaxLongEdge,
+    }
+    return runWithDecodeFallback(
       image,
       worker,
       decodePixelsOnMainThread,
-      () =>
-        worker.runWorkerPreview({
-          file: image.file,
-          boost: previewBoost,
-          lookControls,
-          output,
-          previewMaxLongEdge,
-        }),
-      ({ pixels, width, height }, transfer) =>
-        worker.runWorkerPreview(
-          {
-            pixels,
-            width,
-            height,
-            boost: previewBoost,
-            lookControls,
-            output,
-            previewMaxLongEdge,
-          },
-          transfer,
-        ),
+      (source) => worker.runWorkerPreview({ ...source, ...settings }),
+      (source, transfer) => worker.runWorkerPreview({ ...source, ...settings }, transfer),
     )
+  }
 
-  const preferredOutput = hdrPreviewEnabled ? 'hdr-png' : 'sdr-rgba'
-  const preferredBoost = hdrPreviewEnabled ? boost : BOOST_UI_MIN
+  const preferredOutput: PreviewOutput = falseColor ? 'false-color' : hdrPreviewEnabled ? 'hdr-png' : 'sdr-rgba'
 
   try {
-    const result = await requestWithOutput(preferredOutput, preferredBoost)
+    const result = await requestWithOutput(preferredOutput)
     return { result, hdrPreviewEnabled }
   } catch (error) {
-    if (preferredOutput !== 'hdr-png') throw error
-    const result = await requestWithOutput('sdr-rgba', BOOST_UI_MIN)
+    if (preferredOutput !== 'hdr-png' || isCancelledRequestError(error)) throw error
+    const result = await requestWithOutput('sdr-rgba')
     return { result, hdrPreviewEnabled: false }
   }
 }
@@ -124,16 +209,58 @@ export function requestExportConversion({
   image,
   boost,
   lookControls,
+  alpha,
+  transferFunction,
+  upConversion,
+  targetPeakNits,
+  fallBudgetNits,
+  colorLut,
+  toneCurve,
+  gamutMapping,
+  gamutVolume,
+  caption,
+  outputFormat,
   collectStats,
   worker,
   decodePixelsOnMainThread,
+  onProgress,
 }: RequestExportOptions): Promise<WorkerSuccessResponse> {
+  const settings = {
+    boost,
+    lookControls,
+    ...alpha,
+    transferFunction,
+    ...(upConversion ? { upConversion } : {}),
+    ...(targetPeakNits ? { targetPeakNits } : {}),
+    ...(fallBudgetNits ? { fallBudgetNits } : {}),
+    ...(colorLut ? { colorLut } : {}),
+    ...(toneCurve ? { toneCurve } : {}),
+    ...(gamutMapping ? { gamutMapping } : {}),
+    ...(gamutVolume ? { gamutVolume } : {}),
+    ...(caption ? { caption } : {}),
+    outputFormat,
+    collectStats,
+  }
+  return runWithDecodeFallback(
+    image,
+    worker,
+    decodePixelsOnMainThread,
+    (source) => worker.runWorkerConvert({ ...source, ...settings }, [], onProgress),
+    (source, transfer) => worker.runWorkerConvert({ ...source, ...settings }, transfer, onProgress),
+  )
+}
+
+/** Measure the source for the Auto look, through the same decode fallback as previews. */
+export function requestImageAnalysis({
+  image,
+  worker,
+  decodePixelsOnMainThread,
+}: RequestAnalysisOptions): Promise<WorkerAnalyzeSuccessResponse> {
   return runWithDecodeFallback(
     image,
     worker,
     decodePixelsOnMainThread,
-    () => worker.runWorkerConvert({ file: image.file, boost, lookControls, collectStats }),
-    ({ pixels, width, height }, transfer) =>
-      worker.runWorkerConvert({ pixels, width, height, boost, lookControls, collectStats }, transfer),
+    (source) => worker.runWorkerAnalyze(source),
+    (source, transfer) => worker.runWorkerAnalyze(source, transfer),
   )
 }
@@ -0,0 +1,14 @@
+import type { InspectWorkerRequest, InspectWorkerResponse } from './worker-protocol'
+import { inspectPNG } from './png-inspect'
+
+if (typeof self !== 'undefined') {
+  self.onmessage = async (event: MessageEvent<InspectWorkerRequest>) => {
+    let response: InspectWorkerResponse
+    try {
+      response = { ok: true, report: inspectPNG(new Uint8Array(await event.data.file.arrayBuffer())) }
+    } catch (error) {
+      response = { ok: false, error: error instanceof Error ? error.message : String(error) }
+    }
+    self.postMessage(response)
+  }
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest'
+import { computeLocalContrastGains, localContrastHaloRows, localContrastRadius } from './local-contrast'
+import { DEFAULT_LOOK_CONTROLS } from './look-controls'
+import { srgbEOTF } from './pq-transfer'
+
+function makeImage(width: number, height: number, value: (x: number, y: number) => number) {
+  const data = new Uint8ClampedArray(width * height * 4)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const v = value(x, y)
+      data.set([v, v, v, 255], (y * width + x) * 4)
+    }
+  }
+  return { data, width, height }
+}
+
+const clarity = (value: number) => ({ ...DEFAULT_LOOK_CONTROLS, clarity: value })
+
+describe('localContrastRadius', () => {
+  it('scales with the long edge so previews and exports filter the same structures', () => {
+    expect(localContrastRadius(6000, 4000)).toBe(60)
+    expect(localContrastRadius(1200, 800)).toBe(12)
+    expect(localContrastRadius(40, 20)).toBe(1)
+    expect(localContrastHaloRows(12)).toBe(24)
+  })
+})
+
+describe('computeLocalContrastGains', () => {
+  it('is off at zero clarity and neutral on flat images', () => {
+    expect(
+      computeLocalContrastGains(
+        makeImage(8, 8, () => 128),
+        DEFAULT_LOOK_CONTROLS,
+      ),
+    ).toBeNull()
+    const gains = computeLocalContrastGains(
+      makeImage(8, 8, () => 128),
+      clarity(0.5),
+    )!
+    for (const gain of gains) expect(gain).toBeCloseTo(1, 5)
+  })
+
+  it('amplifies fine texture and flattens it at negative clarity', () => {
+    // Low-amplitude stripes: well under the filter's edge threshold, so they are detail.
+    const image = makeImage(200, 40, (x) => (x % 4 < 2 ? 110 : 100))
+    const center = 20 * 200 + 100
+    const bright = center + (center % 4 < 2 ? 0 : 2)
+    const dark = bright + 2
+
+    const boosted = computeLocalContrastGains(image, clarity(0.5), undefined, 4)!
+    expect(boosted[bright]!).toBeGreaterThan(1.02)
+    expect(boosted[dark]!).toBeLessThan(0.98)
+
+    const flattened = computeLocalContrastGains(image, clarity(-0.5), undefined, 4)!
+    expect(flattened[bright]!).toBeLessThan(1)
+    expect(flattened[dark]!).toBeGreaterThan(1)
+  })
+
+  it('leaves strong edges alone instead of drawing halos', () => {
+    const image = makeImage(80, 20, (x) => (x < 40 ? 30 : 230))
+    const gains = computeLocalContrastGains(image, clarity(0.5), undefined, 4)!
+    // Within 1% of SDR white on either side of the step, in linear light.
+    for (const x of [36, 38, 39, 40, 41, 43]) {
+      const luma = srgbEOTF((x < 40 ? 30 : 230) / 255)
+      expect(Math.abs(luma * (gains[10 * 80 + x]! - 1))).toBeLessThan(0.01)
+    }
+  })
+
+  it('keeps amplified highlight detail below SDR white', () => {
+    const image = makeImage(120, 20, (x) => (x % 2 === 0 ? 255 : 235))
+    const gains = computeLocalContrastGains(image, clarity(0.5), undefined, 4)!
+    const white = srgbEOTF(1)
+    for (let x = 40; x < 80; x += 2) {
+      expect(gains[10 * 120 + x]!).toBeGreaterThanOrEqual(1)
+      expect(white * gains[10 * 120 + x]!).toBeLessThanOrEqual(1)
+    }
+  })
+})
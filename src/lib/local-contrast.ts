@@ -0,0 +1,154 @@
+/**
+ * Local contrast (Clarity)
+ *
+ * Source luminance is split into a base layer and a detail layer with a
+ * self-guided filter (He et al.), in linear light. Where the image is flat
+ * relative to the filter's epsilon the base is the local mean, so texture
+ * lands in the detail layer; across strong edges the base follows the edge,
+ * so amplifying detail never draws halos around them. Clarity raises (or,
+ * when negative, flattens) the detail layer as a power of the detail ratio.
+ *
+ * Amplified detail is soft-limited by the headroom left above the pixel
+ * before SDR white, which the grade maps to the output peak, so clarity
+ * sharpens highlight texture without pushing it into the shoulder.
+ *
+ * The filter radius is a fixed fraction of the image's long edge, so the
+ * downscaled preview and the full-size export see the same structures. The
+ * result is a per-pixel luminance gain applied before the HDR expansion.
+ */
+
+import type { ProcessAlpha } from './alpha-handling'
+import { BT2020_LUMA, createProcessingContext, decodeBt2020Pixel, type RGBTuple } from './bt2020-grading'
+import { SDR_TO_PQ_SCALE } from './hdr-boost'
+import type { LookControls } from './look-controls'
+import type { PixelBufferLike } from './pq'
+
+// Filter radius as a fraction of the long edge: 1% keeps texture and fine structure in the detail layer.
+const RADIUS_FRACTION = 0.01
+// Guided-filter epsilon in squared linear luma: local variation below ~0.05 counts as detail.
+const GUIDED_FILTER_EPSILON = 0.05 * 0.05
+// Detail exponent per unit of Clarity; the ±0.5 slider range spans flattened to doubled detail.
+const DETAIL_STRENGTH = 2.0
+const MIN_BASE_LUMA = 1e-4
+
+/** Filter radius in pixels for an image of the given size. */
+export function localContrastRadius(width: number, height: number): number {
+  return Math.max(1, Math.round(Math.max(width, height) * RADIUS_FRACTION))
+}
+
+/**
+ * Rows of context a band of the image needs above and below it for its
+ * gains to match a whole-image pass: the guided filter box-filters twice.
+ */
+export function localContrastHaloRows(radius: number): number {
+  return 2 * radius
+}
+
+/**
+ * Mean over the (2·radius+1)² window around each sample, in place. Windows
+ * are clipped at the borders. The vertical pass keeps only the last
+ * radius+1 original rows, so the extra memory is O(radius · width).
+ */
+function boxFilterInPlace(buffer: Float32Array, width: number, height: number, radius: number): void {
+  const row = new Float32Array(width)
+  for (let y = 0; y < height; y++) {
+    const offset = y * width
+    row.set(buffer.subarray(offset, offset + width))
+    let sum = 0
+    for (let x = 0; x <= Math.min(radius, width - 1); x++) sum += row[x] ?? 0
+    for (let x = 0; x < width; x++) {
+      const count = Math.min(width - 1, x + radius) - Math.max(0, x - radius) + 1
+      buffer[offset + x] = sum / count
+      if (x + radius + 1 < width) sum += row[x + radius + 1] ?? 0
+      if (x - radius >= 0) sum -= row[x - radius] ?? 0
+    }
+  }
+
+  const columnSums = new Float64Array(width)
+  const ringRows = radius + 1
+  const ring = new Float32Array(ringRows * width)
+  for (let y = 0; y <= Math.min(radius, height - 1); y++) {
+    for (let x = 0; x < width; x++) columnSums[x] = (columnSums[x] ?? 0) + (buffer[y * width + x] ?? 0)
+  }
+  for (let y = 0; y < height; y++) {
+    const offset = y * width
+    const count = Math.min(height - 1, y + radius) - Math.max(0, y - radius) + 1
+    ring.set(buffer.subarray(offset, offset + width), (y % ringRows) * width)
+    for (let x = 0; x < width; x++) buffer[offset + x] = (columnSums[x] ?? 0) / count
+
+    const entering = y + radius + 1
+    if (entering < height) {
+      for (let x = 0; x < width; x++) columnSums[x] = (columnSums[x] ?? 0) + (buffer[entering * width + x] ?? 0)
+    }
+    const leaving = y - radius
+    if (leaving >= 0) {
+      const ringOffset = (leaving % ringRows) * width
+      for (let x = 0; x < width; x++) columnSums[x] = (columnSums[x] ?? 0) - (ring[ringOffset + x] ?? 0)
+    }
+  }
+}
+
+/** Soft-limit a luma increase to the headroom below SDR white (1.0). */
+function limitToHeadroom(luma: number, target: number): number {
+  if (target <= luma) return target
+  const excess = target - luma
+  const room = Math.max(0, 1 - luma)
+  return luma + (room * excess) / (room + excess)
+}
+
+/**
+ * Per-pixel luminance gains implementing `clarity` over `imageData`, or
+ * null when clarity is off. `radius` defaults to this image's own scale;
+ * export strips pass the whole image's radius instead.
+ */
+export function computeLocalContrastGains(
+  imageData: PixelBufferLike,
+  look: LookControls,
+  alpha?: ProcessAlpha,
+  radius = localContrastRadius(imageData.width, imageData.height),
+): Float32Array | null {
+  if (look.clarity === 0) return null
+  const { data, width, height } = imageData
+  const pixelCount = width * height
+  // Decoding only needs the gamma LUT and flatten color, not the grade.
+  const context = createProcessingContext(look, SDR_TO_PQ_SCALE, alpha?.mode === 'flatten' ? alpha.background : undefined)
+  const rgb: RGBTuple = [0, 0, 0]
+  const sourceLuma = (i: number): number => {
+    decodeBt2020Pixel(data, i * 4, context, rgb)
+    return BT2020_LUMA[0] * rgb[0] + BT2020_LUMA[1] * rgb[1] + BT2020_LUMA[2] * rgb[2]
+  }
+
+  // meanA ← mean(I), meanB ← mean(I²); then per-pixel coefficients a, b; then their means.
+  const meanA = new Float32Array(pixelCount)
+  const meanB = new Float32Array(pixelCount)
+  for (let i = 0; i < pixelCount; i++) {
+    const luma = sourceLuma(i)
+    meanA[i] = luma
+    meanB[i] = luma * luma
+  }
+  boxFilterInPlace(meanA, width, height, radius)
+  boxFilterInPlace(meanB, width, height, radius)
+  for (let i = 0; i < pixelCount; i++) {
+    const mean = meanA[i] ?? 0
+    const variance = Math.max(0, (meanB[i] ?? 0) - mean * mean)
+    const a = variance / (variance + GUIDED_FILTER_EPSILON)
+    meanA[i] = a
+    meanB[i] = mean * (1 - a)
+  }
+  boxFilterInPlace(meanA, width, height, radius)
+  boxFilterInPlace(meanB, width, height, radius)
+
+  const exponent = Math.max(0, 1 + look.clarity * DETAIL_STRENGTH)
+  const gains = meanA
+  for (let i = 0; i < pixelCount; i++) {
+    const luma = sourceLuma(i)
+    if (luma <= MIN_BASE_LUMA) {
+      gains[i] = 1
+      continue
+    }
+    const base = Math.max((meanA[i] ?? 0) * luma + (meanB[i] ?? 0), MIN_BASE_LUMA)
+    const target = limitToHeadroom(luma, base * Math.pow(luma / base, exponent))
+    gains[i] = target / luma
+  }
+  return gains
+}
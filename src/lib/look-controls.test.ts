@@ -26,6 +26,9 @@ describe('normalizeLookControls', () => {
       clarity: -99,
       highlightSaturation: 99,
       highlightRollOff: -4,
+      specularFocus: 5,
+      specularThreshold: -1,
+      specularFeather: 9,
       shadowLift: 9,
       shadowGlow: 99,
       vibrance: -3,
@@ -42,6 +45,9 @@ describe('normalizeLookControls', () => {
     expect(normalized.clarity).toBe(LOOK_CONTROL_RANGES.clarity.min)
     expect(normalized.highlightSaturation).toBe(LOOK_CONTROL_RANGES.highlightSaturation.max)
     expect(normalized.highlightRollOff).toBe(LOOK_CONTROL_RANGES.highlightRollOff.min)
+    expect(normalized.specularFocus).toBe(LOOK_CONTROL_RANGES.specularFocus.max)
+    expect(normalized.specularThreshold).toBe(LOOK_CONTROL_RANGES.specularThreshold.min)
+    expect(normalized.specularFeather).toBe(LOOK_CONTROL_RANGES.specularFeather.max)
     expect(normalized.shadowLift).toBe(LOOK_CONTROL_RANGES.shadowLift.max)
     expect(normalized.shadowGlow).toBe(LOOK_CONTROL_RANGES.shadowGlow.max)
     expect(normalized.vibrance).toBe(LOOK_CONTROL_RANGES.vibrance.min)
@@ -62,7 +68,14 @@ describe('look control catalog', () => {
   })
 
   it('groups controls without duplicates and covers every key', () => {
-    const grouped = [...LOOK_CONTROL_GROUPS.primary, ...LOOK_CONTROL_GROUPS.specFineTune, ...LOOK_CONTROL_GROUPS.advanced]
+    const grouped = [
+      ...LOOK_CONTROL_GROUPS.primary,
+      ...LOOK_CONTROL_GROUPS.specFineTune,
+      ...LOOK_CONTROL_GROUPS.highlights,
+      ...LOOK_CONTROL_GROUPS.bloom,
+      ...LOOK_CONTROL_GROUPS.hsl,
+      ...LOOK_CONTROL_GROUPS.advanced,
+    ]
     expect(new Set(grouped).size).toBe(grouped.length)
     expect([...grouped].sort()).toEqual([...LOOK_CONTROL_KEYS].sort())
   })
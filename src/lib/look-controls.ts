@@ -17,9 +17,40 @@ export const LOOK_CONTROL_RANGES = {
   clarity: { min: -0.5, max: 0.5, step: 0.02, defaultValue: 0.0 },
   highlightSaturation: { min: 0.7, max: 1.3, step: 0.02, defaultValue: 1.0 },
   highlightRollOff: { min: 0.7, max: 1.4, step: 0.05, defaultValue: 1.0 },
+  specularFocus: { min: 0.0, max: 1.0, step: 0.05, defaultValue: 0.0 },
+  specularThreshold: { min: 0.3, max: 0.95, step: 0.05, defaultValue: 0.7 },
+  specularFeather: { min: 0.05, max: 0.5, step: 0.05, defaultValue: 0.2 },
   shadowLift: { min: 0.0, max: 1.0, step: 0.02, defaultValue: 0.0 },
   shadowGlow: { min: 0.0, max: 0.5, step: 0.02, defaultValue: 0.0 },
   vibrance: { min: 1.0, max: 1.5, step: 0.05, defaultValue: 1.0 },
+  bloomIntensity: { min: 0.0, max: 1.0, step: 0.02, defaultValue: 0.0 },
+  bloomRadius: { min: 0.0, max: 1.0, step: 0.05, defaultValue: 0.5 },
+  bloomThreshold: { min: 0.5, max: 1.0, step: 0.05, defaultValue: 0.85 },
+  // Per-hue HSL, one hue/saturation/luminance triple per band of `HSL_BANDS`.
+  redHue: { min: -1.0, max: 1.0, step: 0.05, defaultValue: 0.0 },
+  redSaturation: { min: -1.0, max: 1.0, step: 0.05, defaultValue: 0.0 },
+  redLuminance: { min: -1.0, max: 1.0, step: 0.05, defaultValue: 0.0 },
+  orangeHue: { min: -1.0, max: 1.0, step: 0.05, defaultValue: 0.0 },
+  orangeSaturation: { min: -1.0, max: 1.0, step: 0.05, defaultValue: 0.0 },
+  orangeLuminance: { min: -1.0, max: 1.0, step: 0.05, defaultValue: 0.0 },
+  yellowHue: { min: -1.0, max: 1.0, step: 0.05, defaultValue: 0.0 },
+  yellowSaturation: { min: -1.0, max: 1.0, step: 0.05, defaultValue: 0.0 },
+  yellowLuminance: { min: -1.0, max: 1.0, step: 0.05, defaultValue: 0.0 },
+  greenHue: { min: -1.0, max: 1.0, step: 0.05, defaultValue: 0.0 },
+  greenSaturation: { min: -1.0, max: 1.0, step: 0.05, defaultValue: 0.0 },
+  greenLuminance: { min: -1.0, max: 1.0, step: 0.05, defaultValue: 0.0 },
+  aquaHue: { min: -1.0, max: 1.0, step: 0.05, defaultValue: 0.0 },
+  aquaSaturation: { min: -1.0, max: 1.0, step: 0.05, defaultValue: 0.0 },
+  aquaLuminance: { min: -1.0, max: 1.0, step: 0.05, defaultValue: 0.0 },
+  blueHue: { min: -1.0, max: 1.0, step: 0.05, defaultValue: 0.0 },
+  blueSaturation: { min: -1.0, max: 1.0, step: 0.05, defaultValue: 0.0 },
+  blueLuminance: { min: -1.0, max: 1.0, step: 0.05, defaultValue: 0.0 },
+  purpleHue: { min: -1.0, max: 1.0, step: 0.05, defaultValue: 0.0 },
+  purpleSaturation: { min: -1.0, max: 1.0, step: 0.05, defaultValue: 0.0 },
+  purpleLuminance: { min: -1.0, max: 1.0, step: 0.05, defaultValue: 0.0 },
+  magentaHue: { min: -1.0, max: 1.0, step: 0.05, defaultValue: 0.0 },
+  magentaSaturation: { min: -1.0, max: 1.0, step: 0.05, defaultValue: 0.0 },
+  magentaLuminance: { min: -1.0, max: 1.0, step: 0.05, defaultValue: 0.0 },
 } as const satisfies Record<string, ControlRange>
 
 export type LookControls = Record<keyof typeof LOOK_CONTROL_RANGES, number>
@@ -31,6 +62,20 @@ export const DEFAULT_LOOK_CONTROLS: LookControls = LOOK_CONTROL_KEYS.reduce((def
   return defaults
 }, {} as LookControls)
 
+export const HSL_BANDS = ['red', 'orange', 'yellow', 'green', 'aqua', 'blue', 'purple', 'magenta'] as const
+export type HslBand = (typeof HSL_BANDS)[number]
+
+export const HSL_BAND_LABELS: Record<HslBand, string> = {
+  red: 'Red',
+  orange: 'Orange',
+  yellow: 'Yellow',
+  green: 'Green',
+  aqua: 'Aqua',
+  blue: 'Blue',
+  purple: 'Purple',
+  magenta: 'Magenta',
+}
+
 export const PREVIEW_MAX_LONG_EDGE_DEFAULT = 1280
 export const PREVIEW_DEBOUNCE_MS = 120
 
@@ -54,27 +99,37 @@ function kebabCase(key: string): string {
 }
 
 const PRIMARY_CONTROL_KEYS: LookControlKey[] = ['saturation']
-const SPEC_FINE_TUNE_KEYS: LookControlKey[] = [
-  'exposure',
-  'temperature',
-  'tint',
-  'gamma',
-  'contrast',
-  'highlightRollOff',
-  'shadowLift',
-  'vibrance',
-]
+const SPEC_FINE_TUNE_KEYS: LookControlKey[] = ['exposure', 'temperature', 'tint', 'gamma', 'contrast', 'shadowLift', 'vibrance']
+// Inverse tone mapping: how much of the boost goes to highlights only, and where they start.
+const HIGHLIGHT_EXPANSION_KEYS: LookControlKey[] = ['highlightRollOff', 'specularFocus', 'specularThreshold', 'specularFeather']
+// Glow around highlights; the threshold is relative to SDR white.
+const BLOOM_KEYS: LookControlKey[] = ['bloomIntensity', 'bloomRadius', 'bloomThreshold']
 const ADVANCED_FINE_TUNE_KEYS: LookControlKey[] = ['blacks', 'whites', 'clarity', 'highlightSaturation', 'shadowGlow']
-
-const KNOWN_CONTROL_KEY_SET = new Set<LookControlKey>([...PRIMARY_CONTROL_KEYS, ...SPEC_FINE_TUNE_KEYS, ...ADVANCED_FINE_TUNE_KEYS])
+// Hue, saturation and luminance sliders for each band of the HSL group.
+export const HSL_BAND_CONTROL_KEYS = Object.fromEntries(
+  HSL_BANDS.map((band) => [band, [`${band}Hue`, `${band}Saturation`, `${band}Luminance`] as const]),
+) as { [Band in HslBand]: readonly [`${Band}Hue`, `${Band}Saturation`, `${Band}Luminance`] }
+const HSL_KEYS: LookControlKey[] = HSL_BANDS.flatMap((band) => HSL_BAND_CONTROL_KEYS[band])
+
+const KNOWN_CONTROL_KEY_SET = new Set<LookControlKey>([
+  ...PRIMARY_CONTROL_KEYS,
+  ...SPEC_FINE_TUNE_KEYS,
+  ...HIGHLIGHT_EXPANSION_KEYS,
+  ...BLOOM_KEYS,
+  ...ADVANCED_FINE_TUNE_KEYS,
+  ...HSL_KEYS,
+])
 
 export const LOOK_CONTROL_GROUPS = {
   primary: PRIMARY_CONTROL_KEYS,
   specFineTune: SPEC_FINE_TUNE_KEYS,
+  highlights: HIGHLIGHT_EXPANSION_KEYS,
+  bloom: BLOOM_KEYS,
+  hsl: HSL_KEYS,
   advanced: [...ADVANCED_FINE_TUNE_KEYS, ...LOOK_CONTROL_KEYS.filter((key) => !KNOWN_CONTROL_KEY_SET.has(key))],
 } as const satisfies Record<string, readonly LookControlKey[]>
 
-const SIGNED_CONTROL_KEYS = new Set<LookControlKey>(['exposure', 'temperature', 'tint', 'blacks', 'whites', 'clarity'])
+const SIGNED_CONTROL_KEYS = new Set<LookControlKey>(['exposure', 'temperature', 'tint', 'blacks', 'whites', 'clarity', ...HSL_KEYS])
 
 const CONTROL_DECIMAL_OVERRIDES: Partial<Record<LookControlKey, number>> = {
   exposure: 1,
@@ -86,6 +141,12 @@ const CONTROL_LABEL_OVERRIDES: Partial<Record<LookControlKey, string>> = {
   highlightSaturation: 'Highlight Sat',
   shadowLift: 'Shadow Lift',
   shadowGlow: 'Shadow Glow',
+  specularFocus: 'Specular Focus',
+  specularThreshold: 'Threshold',
+  specularFeather: 'Feather',
+  bloomIntensity: 'Bloom',
+  bloomRadius: 'Radius',
+  bloomThreshold: 'Threshold',
 }
 
 const CONTROL_ID_OVERRIDES: Partial<Record<LookControlKey, string>> = {
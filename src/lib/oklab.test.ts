@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest'
+import { bt2020ToOklab, oklabToBt2020, type OklabTuple } from './oklab'
+import type { RGBTuple } from './bt2020-grading'
+
+describe('oklab', () => {
+  it('puts reference white at lightness 1 with no chroma', () => {
+    const lab: OklabTuple = [0, 0, 0]
+    bt2020ToOklab([1, 1, 1], lab)
+    expect(lab[0]).toBeCloseTo(1, 4)
+    // Oklab's published matrices hold D65 neutral to within a few 1e-4.
+    expect(Math.hypot(lab[1], lab[2])).toBeLessThan(5e-4)
+  })
+
+  it('round-trips BT.2020 colors, including HDR values', () => {
+    for (const rgb of [
+      [0.7, 0.2, 0.05],
+      [0.02, 0.4, 0.9],
+      [4, 3.5, 2],
+    ] as RGBTuple[]) {
+      const lab: OklabTuple = [0, 0, 0]
+      const back: RGBTuple = [0, 0, 0]
+      bt2020ToOklab(rgb, lab)
+      oklabToBt2020(lab, back)
+      back.forEach((value, c) => expect(value).toBeCloseTo(rgb[c]!, 5))
+    }
+  })
+})
@@ -0,0 +1,43 @@
+/**
+ * Oklab (Björn Ottosson, 2020) from and to linear BT.2020.
+ *
+ * The forward matrix is Oklab's M1 composed with BT.2020 → XYZ (D65), so
+ * grading values go straight to LMS without a trip through sRGB. Lightness
+ * is 1 at the grade's reference white of 1.0; the cube root keeps hue
+ * unchanged when a color is scaled, so HDR values above 1 work as well.
+ */
+
+import type { RGBTuple } from './bt2020-grading'
+
+export type OklabTuple = [lightness: number, a: number, b: number]
+
+const BT2020_TO_LMS = [
+  0.6166883255, 0.360159084, 0.0230434239, 0.2651399976, 0.6358564325, 0.0990304958, 0.1001505867, 0.2040045037, 0.696324717,
+] as const
+
+const LMS_TO_BT2020 = [
+  2.1401405251, -1.2463562245, 0.1064318237, -0.8848319217, 2.1631729127, -0.2783622701, -0.0485788187, -0.4544915636, 1.5023564748,
+] as const
+
+export function bt2020ToOklab(rgb: RGBTuple, out: OklabTuple): void {
+  const [r, g, b] = rgb
+  const l = Math.cbrt(BT2020_TO_LMS[0] * r + BT2020_TO_LMS[1] * g + BT2020_TO_LMS[2] * b)
+  const m = Math.cbrt(BT2020_TO_LMS[3] * r + BT2020_TO_LMS[4] * g + BT2020_TO_LMS[5] * b)
+  const s = Math.cbrt(BT2020_TO_LMS[6] * r + BT2020_TO_LMS[7] * g + BT2020_TO_LMS[8] * b)
+  out[0] = 0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s
+  out[1] = 1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s
+  out[2] = 0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s
+}
+
+export function oklabToBt2020(lab: OklabTuple, out: RGBTuple): void {
+  const [lightness, a, b] = lab
+  const l = lightness + 0.3963377922 * a + 0.2158037581 * b
+  const m = lightness - 0.1055613423 * a - 0.0638541748 * b
+  const s = lightness - 0.0894841821 * a - 1.2914855379 * b
+  const l3 = l * l * l
+  const m3 = m * m * m
+  const s3 = s * s * s
+  out[0] = LMS_TO_BT2020[0] * l3 + LMS_TO_BT2020[1] * m3 + LMS_TO_BT2020[2] * s3
+  out[1] = LMS_TO_BT2020[3] * l3 + LMS_TO_BT2020[4] * m3 + LMS_TO_BT2020[5] * s3
+  out[2] = LMS_TO_BT2020[6] * l3 + LMS_TO_BT2020[7] * m3 + LMS_TO_BT2020[8] * s3
+}
@@ -0,0 +1,84 @@
+/**
+ * PNG container primitives shared by the encoder and the readers (recipe
+ * restore, inspector): the file signature, chunk CRC32, and a chunk walker.
+ *
+ * Every chunk is [4 bytes: data length][4 bytes: type][N bytes: data][4 bytes: CRC32],
+ * with the CRC covering type + data.
+ */
+
+// 8-byte PNG file signature — identifies the file as PNG and detects transmission errors
+export const PNG_SIGNATURE = new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10])
+
+// CRC32 lookup table — precomputed per PNG spec (polynomial 0xEDB88320)
+const crcTable = new Uint32Array(256)
+for (let n = 0; n < 256; n++) {
+  let c = n
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  }
+  crcTable[n] = c
+}
+
+// Standard CRC32 used by PNG for chunk integrity verification
+export function crc32(buf: Uint8Array): number {
+  let crc = 0xffffffff
+  for (let i = 0; i < buf.length; i++) {
+    const byte = buf[i] ?? 0
+    crc = (crcTable[(crc ^ byte) & 0xff] ?? 0) ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+export interface PNGChunk {
+  type: string
+  /** Byte offset of the chunk's length field within the file. */
+  offset: number
+  data: Uint8Array
+  /** CRC stored in the file. */
+  crc: number
+  /** CRC recomputed over type + data; only with `checkCrc`. */
+  computedCrc?: number
+}
+
+export interface ReadPNGChunksOptions {
+  /** Recompute every chunk's CRC, which means hashing all of IDAT too. */
+  checkCrc?: boolean
+  /** End the walk before the first chunk of this type, e.g. `IDAT` to read only the header chunks. */
+  stopBefore?: string
+}
+
+export function hasPNGSignature(bytes: Uint8Array): boolean {
+  return bytes.length >= PNG_SIGNATURE.length && PNG_SIGNATURE.every((value, i) => bytes[i] === value)
+}
+
+/**
+ * Walk the chunks of a PNG file up to and including IEND. A chunk whose
+ * declared length runs past the end of the buffer ends the walk, so callers
+ * can spot truncation by the missing IEND, and so a walk over just the head
+ * of a file stops cleanly. `data` views the input buffer.
+ */
+export function readPNGChunks(bytes: Uint8Array, options: ReadPNGChunksOptions = {}): PNGChunk[] {
+  if (!hasPNGSignature(bytes)) return []
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const chunks: PNGChunk[] = []
+  let offset = PNG_SIGNATURE.length
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset)
+    const dataEnd = offset + 8 + length
+    if (dataEnd + 4 > bytes.length) break
+
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8))
+    if (type === options.stopBefore) break
+    chunks.push({
+      type,
+      offset,
+      data: bytes.subarray(offset + 8, dataEnd),
+      crc: view.getUint32(dataEnd),
+      ...(options.checkCrc ? { computedCrc: crc32(bytes.subarray(offset + 4, dataEnd)) } : {}),
+    })
+    if (type === 'IEND') break
+    offset = dataEnd + 4
+  }
+  return chunks
+}
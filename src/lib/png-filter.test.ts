@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest'
+import { createScanlineFilterer, filterScanline, PNG_FILTER_TYPES, unfilterScanline } from './png-filter'
+
+const BPP = 6
+
+function gradientRow(width: number, y: number): Uint8Array {
+  const row = new Uint8Array(width * BPP)
+  for (let x = 0; x < width; x++) {
+    for (let c = 0; c < 3; c++) {
+      const value = (x * 300 + y * 120 + c * 4000) & 0xffff
+      row[x * BPP + c * 2] = value >> 8
+      row[x * BPP + c * 2 + 1] = value & 0xff
+    }
+  }
+  return row
+}
+
+describe('filterScanline', () => {
+  it('round-trips every filter type through unfilterScanline', () => {
+    const prev = gradientRow(8, 0)
+    const row = gradientRow(8, 1)
+    for (const filterType of PNG_FILTER_TYPES) {
+      const filtered = new Uint8Array(row.length)
+      filterScanline(filterType, row, prev, BPP, filtered)
+      unfilterScanline(filterType, filtered, prev, BPP)
+      expect([...filtered]).toEqual([...row])
+    }
+  })
+
+  it('treats a missing previous row as zeros', () => {
+    const row = gradientRow(4, 3)
+    const up = new Uint8Array(row.length)
+    filterScanline(2, row, null, BPP, up)
+    expect([...up]).toEqual([...row])
+  })
+
+  it('scores filtered rows by sum of absolute signed differences', () => {
+    const row = new Uint8Array([10, 250, 0, 0, 0, 0])
+    const out = new Uint8Array(row.length)
+    expect(filterScanline(0, row, null, BPP, out)).toBe(10 + 6)
+  })
+
+  it('rejects unknown filter types when unfiltering', () => {
+    expect(() => unfilterScanline(7, new Uint8Array(6), null, BPP)).toThrow('Unknown PNG filter type 7')
+  })
+})
+
+describe('createScanlineFilterer', () => {
+  it('picks a predictive filter over None for smooth gradients', () => {
+    const prev = gradientRow(16, 0)
+    const row = gradientRow(16, 1)
+    const out = new Uint8Array(1 + row.length)
+    const chosen = createScanlineFilterer('adaptive', row.length, BPP).write(row, prev, out, 0)
+    expect(chosen).not.toBe(0)
+    expect(out[0]).toBe(chosen)
+  })
+
+  it('writes the fixed filter byte for non-adaptive strategies', () => {
+    const row = gradientRow(4, 0)
+    const out = new Uint8Array(1 + row.length)
+    expect(createScanlineFilterer('paeth', row.length, BPP).write(row, null, out, 0)).toBe(4)
+    expect(out[0]).toBe(4)
+  })
+})
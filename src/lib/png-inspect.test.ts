@@ -0,0 +1,108 @@
+import { readFileSync } from 'node:fs'
+import { describe, expect, it, vi } from 'vitest'
+
+vi.mock('./icc-profile', () => ({
+  getICCProfileBytes: vi.fn(async (transferFunction?: string) =>
+    transferFunction === 'hlg'
+      ? (await import('./icc-hlg-profile')).buildRec2020HLGProfile()
+      : new Uint8Array(readFileSync(new URL('./rec2020-pq.icc', import.meta.url))),
+  ),
+}))
+
+import { encodePNG } from './encode-png'
+import { createContentLightLevel, masteringDisplayForContent } from './hdr-metadata'
+import { DEFAULT_LOOK_CONTROLS } from './look-controls'
+import { HISTOGRAM_BIN_COUNT, inspectPNG } from './png-inspect'
+import { hlgEncodeDebug, pqEncodeDebug } from './pq-transfer'
+import { createRecipe } from './recipe'
+
+function pqCode(nits: number): number {
+  return Math.round(pqEncodeDebug(nits / 10000).exact * 65535)
+}
+
+async function encodeTwoPixelPNG(): Promise<Uint8Array> {
+  const bright = pqCode(1000)
+  const contentLightLevel = { ...createContentLightLevel(), maxCLL: 1000, maxFALL: 500 }
+  return encodePNG(2, 1, new Uint16Array([bright, bright, bright, 0, 0, 0]), {
+    contentLightLevel,
+    masteringDisplay: masteringDisplayForContent(contentLightLevel),
+    recipe: createRecipe(4, DEFAULT_LOOK_CONTROLS),
+  })
+}
+
+describe('inspectPNG', () => {
+  it('lists chunks with valid CRCs and decodes Supernova metadata', async () => {
+    const report = inspectPNG(await encodeTwoPixelPNG())
+
+    expect(report.chunks.map((chunk) => chunk.type)).toEqual(['IHDR', 'cICP', 'cHRM', 'iCCP', 'mDCv', 'cLLi', 'iTXt', 'IDAT', 'IEND'])
+    expect(report.chunks.every((chunk) => chunk.crcValid)).toBe(true)
+    expect(report.warnings).toEqual([])
+    expect(report.header).toMatchObject({ width: 2, height: 1, bitDepth: 16, colorTypeName: 'RGB', interlaced: false })
+    expect(report.cicp).toEqual({
+      primaries: { code: 9, name: 'BT.2020' },
+      transfer: { code: 16, name: 'PQ (SMPTE ST 2084)' },
+      matrix: { code: 0, name: 'Identity (RGB)' },
+      fullRange: true,
+    })
+    expect(report.chrm?.whitePoint).toEqual([0.3127, 0.329])
+    expect(report.chrm?.red).toEqual([0.708, 0.292])
+    expect(report.contentLightLevel).toEqual({ maxCLL: 1000, maxFALL: 500 })
+    expect(report.masteringDisplay?.maxLuminance).toBe(1000)
+    expect(report.recipe?.boost).toBe(4)
+  })
+
+  it('parses the embedded ICC profile header', async () => {
+    const report = inspectPNG(await encodeTwoPixelPNG())
+    expect(report.iccp).toMatchObject({ name: 'Rec2020-PQ', colorSpace: 'RGB', deviceClass: 'mntr' })
+    expect(report.iccp?.description).toBeTruthy()
+  })
+
+  it('builds a nits histogram by inverting PQ', async () => {
+    const { histogram, histogramError } = inspectPNG(await encodeTwoPixelPNG())
+
+    expect(histogramError).toBeNull()
+    expect(histogram?.decodedAs).toBe('pq')
+    expect(histogram?.bins).toHaveLength(HISTOGRAM_BIN_COUNT)
+    expect(histogram?.peakNits).toBeCloseTo(1000, 0)
+    expect(histogram?.meanNits).toBeCloseTo(500, 0)
+    expect(histogram?.bins[0]?.count).toBe(1)
+    const brightBin = histogram?.bins.find((bin) => bin.minNits <= 1000 && bin.maxNits > 1000)
+    expect(brightBin?.count).toBe(1)
+  })
+
+  it('reads HLG signalling, the generated ICC profile, and HLG light levels', async () => {
+    // Gray at BT.2408 reference white (203 nits) next to full-scale signal (1000 nits).
+    const referenceWhite = Math.round(hlgEncodeDebug(Math.pow(0.203, 1 / 1.2)).exact * 65535)
+    const png = await encodePNG(2, 1, new Uint16Array([referenceWhite, referenceWhite, referenceWhite, 65535, 65535, 65535]), {
+      transferFunction: 'hlg',
+    })
+    const report = inspectPNG(png)
+
+    expect(report.warnings).toEqual([])
+    expect(report.cicp?.transfer.code).toBe(18)
+    expect(report.iccp).toMatchObject({
+      name: 'Rec2020-HLG',
+      description: 'Rec2020 Gamut with HLG Transfer',
+      colorSpace: 'RGB',
+      deviceClass: 'mntr',
+    })
+    expect(report.histogram?.decodedAs).toBe('hlg')
+    expect(report.histogram?.peakNits).toBeCloseTo(1000, 0)
+    expect(report.histogram?.meanNits).toBeCloseTo((203 + 1000) / 2, 0)
+  })
+
+  it('flags CRC mismatches and truncated files without throwing', async () => {
+    const png = await encodeTwoPixelPNG()
+    const corrupted = png.slice()
+    corrupted[8 + 8 + 4] ^= 0xff // first byte of IHDR height
+
+    const report = inspectPNG(corrupted.subarray(0, corrupted.length - 12))
+    expect(report.chunks[0]?.crcValid).toBe(false)
+    expect(report.warnings).toContain('CRC mismatch in IHDR.')
+    expect(report.warnings).toContain('File is truncated: no IEND chunk was found.')
+  })
+
+  it('rejects files without a PNG signature', () => {
+    expect(() => inspectPNG(new Uint8Array([0xff, 0xd8, 0xff, 0xe0]))).toThrow('Not a PNG file')
+  })
+})
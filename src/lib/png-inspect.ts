@@ -0,0 +1,479 @@
+/**
+ * PNG inspector — a read-only breakdown of any PNG, used by the `/inspect`
+ * route to check what `encodePNG` produced and to debug files other tools
+ * claim are HDR.
+ *
+ * Reports:
+ *   - every chunk with its stored and recomputed CRC
+ *   - IHDR, cICP code points (H.273 names), cHRM chromaticities, iCCP header
+ *     and description, mDCv/cLLi light levels, and a Supernova recipe if present
+ *   - a luminance histogram in nits: IDAT is inflated, scanlines unfiltered,
+ *     and samples decoded with the PQ EOTF (or sRGB at SDR diffuse white when
+ *     the file doesn't signal PQ)
+ */
+
+import { unzlibSync } from 'fflate'
+import { HLG_NOMINAL_PEAK_NITS, HLG_SYSTEM_GAMMA, PQ_MAX_NITS, SDR_DIFFUSE_WHITE_NITS } from './hdr-boost'
+import type { Chromaticity, ContentLightLevel, MasteringDisplayColorVolume } from './hdr-metadata'
+import { hasPNGSignature, readPNGChunks, type PNGChunk } from './png-chunks'
+import { unfilterScanline } from './png-filter'
+import { hlgDecode, pqDecode, pqEncode, srgbEOTF } from './pq-transfer'
+import { readRecipeFromPNG, type SupernovaRecipe } from './recipe'
+
+export interface InspectedChunk {
+  type: string
+  offset: number
+  length: number
+  crc: number
+  crcValid: boolean
+  /** Uppercase first letter: decoders must understand the chunk to render the image. */
+  critical: boolean
+}
+
+export interface PNGHeader {
+  width: number
+  height: number
+  bitDepth: number
+  colorType: number
+  colorTypeName: string
+  interlaced: boolean
+}
+
+export interface CodePoint {
+  code: number
+  name: string
+}
+
+export interface CICPInfo {
+  primaries: CodePoint
+  transfer: CodePoint
+  matrix: CodePoint
+  fullRange: boolean
+}
+
+export interface CHRMInfo {
+  whitePoint: Chromaticity
+  red: Chromaticity
+  green: Chromaticity
+  blue: Chromaticity
+}
+
+export interface ICCPInfo {
+  name: string
+  /** Decompressed profile size in bytes. */
+  profileSize: number
+  version: string
+  deviceClass: string
+  colorSpace: string
+  connectionSpace: string
+  description: string | null
+}
+
+export interface NitsHistogramBin {
+  minNits: number
+  maxNits: number
+  count: number
+}
+
+export interface NitsHistogram {
+  /**
+   * How samples were turned into light: PQ EOTF, HLG on a 1000-nit reference
+   * display, or sRGB scaled to SDR diffuse white.
+   */
+  decodedAs: 'pq' | 'hlg' | 'srgb'
+  /** Bins are evenly spaced in PQ signal, so each covers a perceptually similar step. */
+  bins: NitsHistogramBin[]
+  peakNits: number
+  meanNits: number
+  pixelCount: number
+}
+
+export interface PNGInspection {
+  header: PNGHeader | null
+  chunks: InspectedChunk[]
+  cicp: CICPInfo | null
+  chrm: CHRMInfo | null
+  iccp: ICCPInfo | null
+  masteringDisplay: MasteringDisplayColorVolume | null
+  contentLightLevel: ContentLightLevel | null
+  recipe: SupernovaRecipe | null
+  histogram: NitsHistogram | null
+  histogramError: string | null
+  warnings: string[]
+}
+
+export const HISTOGRAM_BIN_COUNT = 32
+
+// ITU-T H.273 code point names for the values PNG encoders actually emit.
+const CICP_PRIMARIES: Record<number, string> = {
+  1: 'BT.709 / sRGB',
+  2: 'Unspecified',
+  4: 'BT.470 System M',
+  5: 'BT.601 625',
+  6: 'BT.601 525',
+  9: 'BT.2020',
+  11: 'DCI-P3 (SMPTE RP 431-2)',
+  12: 'Display P3 (SMPTE EG 432-1)',
+  22: 'EBU Tech 3213',
+}
+
+const CICP_TRANSFER: Record<number, string> = {
+  1: 'BT.709',
+  2: 'Unspecified',
+  4: 'Gamma 2.2',
+  5: 'Gamma 2.8',
+  6: 'BT.601',
+  8: 'Linear',
+  13: 'sRGB',
+  14: 'BT.2020 10-bit',
+  15: 'BT.2020 12-bit',
+  16: 'PQ (SMPTE ST 2084)',
+  17: 'SMPTE ST 428-1',
+  18: 'HLG (ARIB STD-B67)',
+}
+
+const CICP_MATRIX: Record<number, string> = {
+  0: 'Identity (RGB)',
+  1: 'BT.709',
+  2: 'Unspecified',
+  9: 'BT.2020 non-constant luminance',
+  10: 'BT.2020 constant luminance',
+}
+
+const CICP_TRANSFER_PQ = 16
+const CICP_TRANSFER_HLG = 18
+
+const COLOR_TYPE_NAMES: Record<number, string> = {
+  0: 'Grayscale',
+  2: 'RGB',
+  3: 'Indexed',
+  4: 'Grayscale + alpha',
+  6: 'RGBA',
+}
+
+const CHANNELS_BY_COLOR_TYPE: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 }
+
+// Relative luminance weights per primaries set; anything unrecognized uses BT.709.
+const BT709_LUMA: readonly [number, number, number] = [0.2126, 0.7152, 0.0722]
+const LUMA_BY_PRIMARIES: Record<number, readonly [number, number, number]> = {
+  9: [0.2627, 0.678, 0.0593],
+  12: [0.2289746, 0.6917385, 0.0792869],
+}
+
+const latin1Decoder = new TextDecoder('latin1')
+const utf16Decoder = new TextDecoder('utf-16be')
+
+function codePoint(table: Record<number, string>, code: number): CodePoint {
+  return { code, name: table[code] ?? `Reserved (${code})` }
+}
+
+function fourCC(bytes: Uint8Array, offset: number): string {
+  return latin1Decoder.decode(bytes.subarray(offset, offset + 4)).trim()
+}
+
+function dataView(data: Uint8Array): DataView {
+  return new DataView(data.buffer, data.byteOffset, data.byteLength)
+}
+
+function parseIHDR(data: Uint8Array): PNGHeader | null {
+  if (data.length !== 13) return null
+  const view = dataView(data)
+  const colorType = data[9] ?? 0
+  return {
+    width: view.getUint32(0),
+    height: view.getUint32(4),
+    bitDepth: data[8] ?? 0,
+    colorType,
+    colorTypeName: COLOR_TYPE_NAMES[colorType] ?? `Unknown (${colorType})`,
+    interlaced: data[12] === 1,
+  }
+}
+
+function parseCICP(data: Uint8Array): CICPInfo | null {
+  if (data.length !== 4) return null
+  return {
+    primaries: codePoint(CICP_PRIMARIES, data[0] ?? 0),
+    transfer: codePoint(CICP_TRANSFER, data[1] ?? 0),
+    matrix: codePoint(CICP_MATRIX, data[2] ?? 0),
+    fullRange: data[3] === 1,
+  }
+}
+
+function parseCHRM(data: Uint8Array): CHRMInfo | null {
+  if (data.length !== 32) return null
+  const view = dataView(data)
+  const pair = (i: number): Chromaticity => [view.getUint32(i * 8) / 100000, view.getUint32(i * 8 + 4) / 100000]
+  return { whitePoint: pair(0), red: pair(1), green: pair(2), blue: pair(3) }
+}
+
+function parseMDCV(data: Uint8Array): MasteringDisplayColorVolume | null {
+  if (data.length !== 24) return null
+  const view = dataView(data)
+  const pair = (i: number): Chromaticity => [view.getUint16(i * 4) / 50000, view.getUint16(i * 4 + 2) / 50000]
+  return {
+    red: pair(0),
+    green: pair(1),
+    blue: pair(2),
+    whitePoint: pair(3),
+    maxLuminance: view.getUint32(16) / 10000,
+    minLuminance: view.getUint32(20) / 10000,
+  }
+}
+
+function parseCLLI(data: Uint8Array): ContentLightLevel | null {
+  if (data.length !== 8) return null
+  const view = dataView(data)
+  return { maxCLL: view.getUint32(0) / 10000, maxFALL: view.getUint32(4) / 10000 }
+}
+
+/**
+ * ICC `desc` tag: v2 profiles use textDescriptionType (ASCII), v4 profiles use
+ * multiLocalizedUnicodeType (UTF-16BE; the first record is reported).
+ */
+function readICCDescription(profile: Uint8Array): string | null {
+  if (profile.length < 132) return null
+  const view = dataView(profile)
+  const tagCount = view.getUint32(128)
+  for (let i = 0; i < tagCount; i++) {
+    const entry = 132 + i * 12
+    if (entry + 12 > profile.length) return null
+    if (fourCC(profile, entry) !== 'desc') continue
+
+    const tagOffset = view.getUint32(entry + 4)
+    const tagSize = view.getUint32(entry + 8)
+    if (tagOffset + tagSize > profile.length || tagSize < 12) return null
+    const tagType = fourCC(profile, tagOffset)
+
+    if (tagType === 'desc') {
+      const length = view.getUint32(tagOffset + 8)
+      const text = latin1Decoder.decode(profile.subarray(tagOffset + 12, Math.min(tagOffset + 12 + length, tagOffset + tagSize)))
+      return text.replace(/\0+$/, '')
+    }
+    if (tagType === 'mluc' && tagSize >= 28) {
+      const recordLength = view.getUint32(tagOffset + 20)
+      const recordOffset = view.getUint32(tagOffset + 24)
+      const start = tagOffset + recordOffset
+      if (start + recordLength > profile.length) return null
+      return utf16Decoder.decode(profile.subarray(start, start + recordLength)).replace(/\0+$/, '')
+    }
+    return null
+  }
+  return null
+}
+
+function parseICCP(data: Uint8Array, warnings: string[]): ICCPInfo | null {
+  const nameEnd = data.indexOf(0)
+  if (nameEnd < 1 || nameEnd > 79) {
+    warnings.push('iCCP profile name is missing or longer than 79 bytes.')
+    return null
+  }
+  if (data[nameEnd + 1] !== 0) {
+    warnings.push(`iCCP uses unknown compression method ${data[nameEnd + 1] ?? '?'}.`)
+    return null
+  }
+
+  let profile: Uint8Array
+  try {
+    profile = unzlibSync(data.subarray(nameEnd + 2))
+  } catch {
+    warnings.push('iCCP profile data failed to inflate.')
+    return null
+  }
+  if (profile.length < 128) {
+    warnings.push('iCCP profile is shorter than the 128-byte ICC header.')
+    return null
+  }
+
+  const view = dataView(profile)
+  const declaredSize = view.getUint32(0)
+  if (declaredSize !== profile.length) {
+    warnings.push(`iCCP profile header declares ${declaredSize} bytes but ${profile.length} were stored.`)
+  }
+
+  return {
+    name: latin1Decoder.decode(data.subarray(0, nameEnd)),
+    profileSize: profile.length,
+    version: `${profile[8] ?? 0}.${(profile[9] ?? 0) >> 4}`,
+    deviceClass: fourCC(profile, 12),
+    colorSpace: fourCC(profile, 16),
+    connectionSpace: fourCC(profile, 20),
+    description: readICCDescription(profile),
+  }
+}
+
+function concatChunkData(chunks: PNGChunk[]): Uint8Array {
+  let length = 0
+  for (const chunk of chunks) length += chunk.data.length
+  const out = new Uint8Array(length)
+  let offset = 0
+  for (const chunk of chunks) {
+    out.set(chunk.data, offset)
+    offset += chunk.data.length
+  }
+  return out
+}
+
+function sampleCode(row: Uint8Array, i: number, wide: boolean): number {
+  return wide ? ((row[i] ?? 0) << 8) | (row[i + 1] ?? 0) : (row[i] ?? 0)
+}
+
+/**
+ * Lookup from sample code value to nits for one transfer function. Narrow
+ * (studio) range maps 16–235 (scaled to the bit depth) onto 0–1 first. HLG
+ * samples map to scene light scaled to the nominal peak; the OOTF is applied
+ * to luminance afterwards because it depends on all three channels.
+ */
+function buildSampleToNits(bitDepth: number, decodedAs: NitsHistogram['decodedAs'], fullRange: boolean): Float32Array {
+  const size = 1 << bitDepth
+  const maxCode = size - 1
+  const scale = 1 << (bitDepth - 8)
+  const lut = new Float32Array(size)
+  for (let code = 0; code < size; code++) {
+    const normalized = fullRange ? code / maxCode : Math.min(1, Math.max(0, (code - 16 * scale) / (219 * scale)))
+    if (decodedAs === 'pq') lut[code] = pqDecode(normalized) * PQ_MAX_NITS
+    else if (decodedAs === 'hlg') lut[code] = hlgDecode(normalized) * HLG_NOMINAL_PEAK_NITS
+    else lut[code] = srgbEOTF(normalized) * SDR_DIFFUSE_WHITE_NITS
+  }
+  return lut
+}
+
+function histogramDecodingForTransfer(code: number | undefined): NitsHistogram['decodedAs'] {
+  if (code === CICP_TRANSFER_PQ) return 'pq'
+  if (code === CICP_TRANSFER_HLG) return 'hlg'
+  return 'srgb'
+}
+
+function computeNitsHistogram(header: PNGHeader, idat: PNGChunk[], cicp: CICPInfo | null): NitsHistogram | string {
+  if (header.interlaced) return 'Interlaced (Adam7) PNGs are not supported by the histogram.'
+  if (header.colorType === 3) return 'Indexed-color PNGs are not supported by the histogram.'
+  if (header.bitDepth !== 8 && header.bitDepth !== 16) return `${header.bitDepth}-bit samples are not supported by the histogram.`
+  const channels = CHANNELS_BY_COLOR_TYPE[header.colorType]
+  if (!channels) return `Unknown color type ${header.colorType}.`
+  if (idat.length === 0) return 'No IDAT chunks found.'
+
+  let raw: Uint8Array
+  try {
+    raw = unzlibSync(concatChunkData(idat))
+  } catch {
+    return 'IDAT data failed to inflate.'
+  }
+
+  const bytesPerSample = header.bitDepth / 8
+  const bpp = channels * bytesPerSample
+  const scanlineBytes = header.width * bpp
+  if (raw.length < header.height * (scanlineBytes + 1)) return 'IDAT data ends before the last scanline.'
+
+  const decodedAs = histogramDecodingForTransfer(cicp?.transfer.code)
+  const sampleToNits = buildSampleToNits(header.bitDepth, decodedAs, cicp?.fullRange ?? true)
+  const [kr, kg, kb] = LUMA_BY_PRIMARIES[cicp?.primaries.code ?? 1] ?? BT709_LUMA
+  const isGray = channels <= 2
+  const applyHLGOOTF = decodedAs === 'hlg'
+  const wide = bytesPerSample === 2
+  const counts = new Float64Array(HISTOGRAM_BIN_COUNT)
+  let peakNits = 0
+  let sumNits = 0
+
+  let prevRow: Uint8Array | null = null
+  for (let y = 0; y < header.height; y++) {
+    const start = y * (scanlineBytes + 1)
+    const row = raw.subarray(start + 1, start + 1 + scanlineBytes)
+    unfilterScanline(raw[start] ?? 0, row, prevRow, bpp)
+
+    for (let x = 0; x < header.width; x++) {
+      const i = x * bpp
+      const signalNits = isGray
+        ? (sampleToNits[sampleCode(row, i, wide)] ?? 0)
+        : kr * (sampleToNits[sampleCode(row, i, wide)] ?? 0) +
+          kg * (sampleToNits[sampleCode(row, i + bytesPerSample, wide)] ?? 0) +
+          kb * (sampleToNits[sampleCode(row, i + 2 * bytesPerSample, wide)] ?? 0)
+      const nits = applyHLGOOTF ? HLG_NOMINAL_PEAK_NITS * Math.pow(signalNits / HLG_NOMINAL_PEAK_NITS, HLG_SYSTEM_GAMMA) : signalNits
+      const bin = Math.min(HISTOGRAM_BIN_COUNT - 1, Math.floor(pqEncode(nits / PQ_MAX_NITS) * HISTOGRAM_BIN_COUNT))
+      counts[bin] = (counts[bin] ?? 0) + 1
+      if (nits > peakNits) peakNits = nits
+      sumNits += nits
+    }
+    prevRow = row
+  }
+
+  const pixelCount = header.width * header.height
+  const bins: NitsHistogramBin[] = []
+  for (let i = 0; i < HISTOGRAM_BIN_COUNT; i++) {
+    bins.push({
+      minNits: pqDecode(i / HISTOGRAM_BIN_COUNT) * PQ_MAX_NITS,
+      maxNits: pqDecode((i + 1) / HISTOGRAM_BIN_COUNT) * PQ_MAX_NITS,
+      count: counts[i] ?? 0,
+    })
+  }
+
+  return { decodedAs, bins, peakNits, meanNits: pixelCount > 0 ? sumNits / pixelCount : 0, pixelCount }
+}
+
+/**
+ * Inspect PNG bytes. Throws only when the input isn't a PNG at all; everything
+ * else (bad CRCs, truncation, malformed metadata) is reported as warnings so a
+ * broken file still gets as much of a breakdown as possible.
+ */
+export function inspectPNG(bytes: Uint8Array): PNGInspection {
+  if (!hasPNGSignature(bytes)) throw new Error('Not a PNG file (signature mismatch)')
+
+  const rawChunks = readPNGChunks(bytes, { checkCrc: true })
+  const warnings: string[] = []
+  const chunks: InspectedChunk[] = rawChunks.map((chunk) => ({
+    type: chunk.type,
+    offset: chunk.offset,
+    length: chunk.data.length,
+    crc: chunk.crc,
+    crcValid: chunk.crc === chunk.computedCrc,
+    critical: /^[A-Z]/.test(chunk.type),
+  }))
+
+  const badCrcs = chunks.filter((chunk) => !chunk.crcValid)
+  if (badCrcs.length > 0) warnings.push(`CRC mismatch in ${badCrcs.map((chunk) => chunk.type).join(', ')}.`)
+  if (rawChunks[rawChunks.length - 1]?.type !== 'IEND') warnings.push('File is truncated: no IEND chunk was found.')
+  if (rawChunks[0]?.type !== 'IHDR') warnings.push('IHDR is not the first chunk.')
+
+  const first = (type: string): PNGChunk | undefined => rawChunks.find((chunk) => chunk.type === type)
+  const parseIf = <T>(type: string, parse: (data: Uint8Array) => T | null): T | null => {
+    const chunk = first(type)
+    if (!chunk) return null
+    const parsed = parse(chunk.data)
+    if (parsed === null) warnings.push(`${type} chunk is malformed (${chunk.data.length} bytes).`)
+    return parsed
+  }
+
+  const header = parseIf('IHDR', parseIHDR)
+  const cicp = parseIf('cICP', parseCICP)
+  const chrm = parseIf('cHRM', parseCHRM)
+  const iccpChunk = first('iCCP')
+  const iccp = iccpChunk ? parseICCP(iccpChunk.data, warnings) : null
+  const masteringDisplay = parseIf('mDCv', parseMDCV)
+  const contentLightLevel = parseIf('cLLi', parseCLLI)
+
+  let histogram: NitsHistogram | null = null
+  let histogramError: string | null = null
+  if (header) {
+    const result = computeNitsHistogram(
+      header,
+      rawChunks.filter((chunk) => chunk.type === 'IDAT'),
+      cicp,
+    )
+    if (typeof result === 'string') histogramError = result
+    else histogram = result
+  } else {
+    histogramError = 'No valid IHDR chunk, so pixel data cannot be decoded.'
+  }
+
+  return {
+    header,
+    chunks,
+    cicp,
+    chrm,
+    iccp,
+    masteringDisplay,
+    contentLightLevel,
+    recipe: readRecipeFromPNG(bytes),
+    histogram,
+    histogramError,
+    warnings,
+  }
+}
@@ -9,6 +9,15 @@ const PQ_LUT_SIZE = 32768
 const PQ_LUT_SCALE = PQ_LUT_SIZE
 const pqLUT = new Float32Array(PQ_LUT_SIZE + 1)
 
+// ARIB STD-B67 / BT.2100 HLG OETF constants.
+const hlgA = 0.17883277
+const hlgB = 1 - 4 * hlgA
+const hlgC = 0.5 - hlgA * Math.log(4 * hlgA)
+
+const HLG_LUT_SIZE = 32768
+const HLG_LUT_SCALE = HLG_LUT_SIZE
+const hlgLUT = new Float32Array(HLG_LUT_SIZE + 1)
+
 const SRGB_OETF_LUT_SIZE = 4096
 const SRGB_OETF_LUT_SCALE = SRGB_OETF_LUT_SIZE
 const srgbOETFLUT = new Float32Array(SRGB_OETF_LUT_SIZE + 1)
@@ -18,6 +27,16 @@ let pqEncodeMode: PQEncodeMode = 'lut'
 type SRGBEncodeMode = 'lut' | 'exact'
 let srgbEncodeMode: SRGBEncodeMode = 'lut'
 
+export type TransferFunction = 'pq' | 'hlg'
+export const TRANSFER_FUNCTIONS: readonly TransferFunction[] = ['pq', 'hlg']
+export const DEFAULT_TRANSFER_FUNCTION: TransferFunction = 'pq'
+
+// H.273 transfer characteristics code points, as written to cICP.
+export const CICP_TRANSFER_CODES: Record<TransferFunction, number> = {
+  pq: 16, // SMPTE ST 2084
+  hlg: 18, // ARIB STD-B67
+}
+
 function clamp(v: number, min: number, max: number): number {
   return Math.max(min, Math.min(max, v))
 }
@@ -42,6 +61,26 @@ function pqOETFFast(L: number): number {
   return a + (b - a) * t
 }
 
+function hlgOETF(E: number): number {
+  if (E <= 1 / 12) return Math.sqrt(3 * E)
+  return hlgA * Math.log(12 * E - hlgB) + hlgC
+}
+
+for (let i = 0; i <= HLG_LUT_SIZE; i++) {
+  hlgLUT[i] = hlgOETF(i / HLG_LUT_SCALE)
+}
+
+function hlgOETFFast(E: number): number {
+  if (E <= 0) return 0
+  if (E >= 1) return 1
+  const x = E * HLG_LUT_SCALE
+  const i = x | 0
+  const t = x - i
+  const a = hlgLUT[i] ?? 0
+  const b = hlgLUT[i + 1] ?? 1
+  return a + (b - a) * t
+}
+
 function srgbOETF(linear: number): number {
   if (linear <= 0.0031308) return linear * 12.92
   return 1.055 * Math.pow(linear, 1 / 2.4) - 0.055
@@ -66,6 +105,14 @@ export function pqEncode(L: number): number {
   return pqEncodeMode === 'exact' ? pqOETF(L) : pqOETFFast(L)
 }
 
+/**
+ * HLG OETF: scene-linear light (0–1) to HLG signal. Callers convert
+ * display-referred values to scene light with the inverse OOTF first.
+ */
+export function hlgEncode(E: number): number {
+  return hlgOETFFast(E)
+}
+
 export function srgbEncode(linear: number): number {
   return srgbEncodeMode === 'exact' ? srgbOETF(linear) : srgbOETFFast(linear)
 }
@@ -83,11 +130,33 @@ export function pqEncodeDebug(L: number): { exact: number; lut: number } {
   return { exact: pqOETF(clamped), lut: pqOETFFast(clamped) }
 }
 
+export function hlgEncodeDebug(E: number): { exact: number; lut: number } {
+  const clamped = clamp(E, 0.0, 1.0)
+  return { exact: hlgOETF(clamped), lut: hlgOETFFast(clamped) }
+}
+
+/**
+ * HLG inverse OETF: signal (0–1) back to scene-linear light (0–1).
+ */
+export function hlgDecode(signal: number): number {
+  const v = clamp(signal, 0.0, 1.0)
+  if (v <= 0.5) return (v * v) / 3
+  return (Math.exp((v - hlgC) / hlgA) + hlgB) / 12
+}
+
 export function srgbEncodeDebug(L: number): { exact: number; lut: number } {
   const clamped = clamp(L, 0.0, 1.0)
   return { exact: srgbOETF(clamped), lut: srgbOETFFast(clamped) }
 }
 
+/**
+ * ST 2084 EOTF: PQ signal (0–1) back to linear light normalized to 10,000 nits.
+ */
+export function pqDecode(signal: number): number {
+  const Em2 = Math.pow(clamp(signal, 0.0, 1.0), 1 / m2)
+  return Math.pow(Math.max(Em2 - c1, 0) / (c2 - c3 * Em2), 1 / m1)
+}
+
 export function srgbEOTF(v: number): number {
   return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4)
 }
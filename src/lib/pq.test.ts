@@ -1,5 +1,7 @@
 import { describe, expect, it } from 'vitest'
 import {
+  measureExportPixels,
+  planAblLimiter,
   pqEncodeDebug,
   processPreviewPixels,
   processPixels,
@@ -9,8 +11,14 @@ import {
   srgbEOTF,
   SRGB_TO_BT2020,
 } from './pq'
-import { boostToPQGain } from './hdr-boost'
+import { boostToPQGain, boostToTargetNits, HLG_NOMINAL_PEAK_NITS, HLG_SYSTEM_GAMMA } from './hdr-boost'
+import { hlgDecode, hlgEncodeDebug } from './pq-transfer'
+import { createContentLightLevel } from './hdr-metadata'
 import { DEFAULT_LOOK_CONTROLS } from './look-controls'
+import { parseCubeLut } from './color-lut'
+import { DEFAULT_TONE_CURVE } from './tone-curve'
+import type { CaptionLayer } from './caption'
+import { createScopeData } from './scopes'
 
 // Expected PQ code values for calibrated diffuse white levels.
 const WHITE_AT_100_NITS_PQ_U16 = 33297 // PQ(0.01) * 65535
@@ -166,6 +174,133 @@ describe('processPixels', () => {
     }
   })
 
+  it('specular focus keeps midtones near diffuse white while highlights take the boost', () => {
+    const specular = { ...DEFAULT_LOOK_CONTROLS, specularFocus: 1 }
+    const midtone = pixel(150, 130, 110)
+
+    const sdrMidtone = processPixels(midtone, 1.0)
+    const focusedMidtone = processPixels(midtone, 10.0, specular)
+    const globalMidtone = processPixels(midtone, 10.0)
+    expect([...focusedMidtone.slice(0, 3)]).toEqual([...sdrMidtone.slice(0, 3)])
+    expect(globalMidtone[1]).toBeGreaterThan(focusedMidtone[1]!)
+
+    const focusedWhite = processPixels(pixel(255, 255, 255), 4.0, specular)
+    expect(Math.abs(focusedWhite[0]! - WHITE_AT_1600_NITS_PQ_U16)).toBeLessThanOrEqual(2)
+  })
+
+  it('feathers the specular mask instead of stepping at the threshold', () => {
+    const look = { ...DEFAULT_LOOK_CONTROLS, specularFocus: 1, specularThreshold: 0.7, specularFeather: 0.4 }
+    const levels = [200, 215, 230, 245].map((v) => processPixels(pixel(v, v, v), 10.0, look)[1]!)
+    const steps = levels.slice(1).map((level, index) => level - levels[index]!)
+    for (const step of steps) expect(step).toBeGreaterThan(0)
+    // No single 15-code source step carries most of the expansion.
+    expect(Math.max(...steps)).toBeLessThan((levels[3]! - levels[0]!) * 0.6)
+  })
+
+  it('partial specular focus blends between global and highlight-only gain', () => {
+    const midtone = pixel(150, 130, 110)
+    const full = processPixels(midtone, 10.0, { ...DEFAULT_LOOK_CONTROLS, specularFocus: 1 })[1]!
+    const half = processPixels(midtone, 10.0, { ...DEFAULT_LOOK_CONTROLS, specularFocus: 0.5 })[1]!
+    const none = processPixels(midtone, 10.0)[1]!
+    expect(half).toBeGreaterThan(full)
+    expect(half).toBeLessThan(none)
+  })
+
+  it('reports MaxCLL and MaxFALL in nits for the graded image', () => {
+    const imageData = {
+      data: new Uint8ClampedArray([255, 255, 255, 255, 0, 0, 0, 255]),
+      width: 2,
+      height: 1,
+    }
+    const contentLightLevel = createContentLightLevel()
+    processPixels(imageData, 4.0, DEFAULT_LOOK_CONTROLS, undefined, { contentLightLevel })
+
+    expect(contentLightLevel.maxCLL).toBeCloseTo(boostToTargetNits(4.0), 3)
+    expect(contentLightLevel.maxFALL).toBeCloseTo(boostToTargetNits(4.0) / 2, 3)
+  })
+
+  it('counts kept-transparent pixels as black in MaxCLL and MaxFALL', () => {
+    const imageData = { data: new Uint8ClampedArray([255, 255, 255, 0, 128, 128, 128, 255]), width: 2, height: 1 }
+    const opaque = createContentLightLevel()
+    const kept = createContentLightLevel()
+    processPixels({ data: imageData.data.slice(4), width: 1, height: 1 }, 4.0, DEFAULT_LOOK_CONTROLS, undefined, {
+      contentLightLevel: opaque,
+    })
+    processPixels(imageData, 4.0, DEFAULT_LOOK_CONTROLS, undefined, { contentLightLevel: kept, alpha: { mode: 'keep' } })
+
+    expect(kept.maxCLL).toBeCloseTo(opaque.maxCLL, 3)
+    expect(kept.maxFALL).toBeCloseTo(opaque.maxFALL / 2, 3)
+  })
+
+  it('collects scopes from the encoded values, with MaxCLL as the peak', () => {
+    const image = { data: new Uint8ClampedArray([255, 255, 255, 255, 255, 0, 0, 255, 30, 30, 30, 255]), width: 3, height: 1 }
+    const contentLightLevel = createContentLightLevel()
+    const scopes = createScopeData()
+    processPixels(image, 4, DEFAULT_LOOK_CONTROLS, undefined, { contentLightLevel, scopes })
+    expect(scopes.peakNits).toBeCloseTo(contentLightLevel.maxCLL)
+    expect(scopes.histogram.reduce((sum, count) => sum + count, 0)).toBe(3)
+  })
+
+  it('measures the same light level and scopes without encoding', () => {
+    const image = { data: new Uint8ClampedArray(64 * 64 * 4).map((_, i) => (i % 4 === 3 ? 255 : (i * 7) % 256)), width: 64, height: 64 }
+    const encoded = { contentLightLevel: createContentLightLevel(), scopes: createScopeData() }
+    const measured = { contentLightLevel: createContentLightLevel(), scopes: createScopeData() }
+    processPixels(image, 4, DEFAULT_LOOK_CONTROLS, undefined, encoded)
+    measureExportPixels(image, 4, DEFAULT_LOOK_CONTROLS, measured)
+    expect(measured).toEqual(encoded)
+
+    const sampled = { contentLightLevel: createContentLightLevel(), scopes: createScopeData() }
+    measureExportPixels(image, 4, DEFAULT_LOOK_CONTROLS, sampled, 256)
+    expect(sampled.scopes.histogram.reduce((sum, count) => sum + count, 0)).toBe(256)
+    expect(sampled.contentLightLevel.maxFALL / encoded.contentLightLevel.maxFALL).toBeCloseTo(1, 0)
+  })
+
+  it('reports grading progress in increasing steps ending at 1', () => {
+    const imageData = { data: new Uint8ClampedArray(1000 * 4).fill(128), width: 1000, height: 1 }
+    const fractions: number[] = []
+    processPixels(imageData, 2.0, DEFAULT_LOOK_CONTROLS, undefined, { onProgress: (fraction) => fractions.push(fraction) })
+
+    expect(fractions.length).toBeGreaterThan(32)
+    expect(fractions).toEqual([...fractions].sort((a, b) => a - b))
+    expect(fractions.at(-1)).toBe(1)
+  })
+
+  it('keeps straight alpha as 16-bit samples without darkening color', () => {
+    const opaque = processPixels(pixel(200, 120, 40), 3.0)
+    const translucent = processPixels(
+      { data: new Uint8ClampedArray([200, 120, 40, 128]), width: 1, height: 1 },
+      3.0,
+      DEFAULT_LOOK_CONTROLS,
+      undefined,
+      { alpha: { mode: 'keep' } },
+    )
+    expect(translucent.length).toBe(4)
+    expect([...translucent.subarray(0, 3)]).toEqual([...opaque])
+    expect(translucent[3]).toBe(128 * 257)
+  })
+
+  it('flattens transparent pixels onto the background color in linear light', () => {
+    const transparent = { data: new Uint8ClampedArray([0, 0, 0, 0]), width: 1, height: 1 }
+    const flattened = processPixels(transparent, 1.0, DEFAULT_LOOK_CONTROLS, undefined, {
+      alpha: { mode: 'flatten', background: [255, 255, 255] },
+    })
+    const white = processPixels(pixel(255, 255, 255), 1.0)
+    expect(flattened.length).toBe(3)
+    expect([...flattened]).toEqual([...white])
+
+    const halfOverBlack = processPixels(
+      { data: new Uint8ClampedArray([255, 255, 255, 128]), width: 1, height: 1 },
+      1.0,
+      DEFAULT_LOOK_CONTROLS,
+      undefined,
+      {
+        alpha: { mode: 'flatten', background: [0, 0, 0] },
+      },
+    )
+    expect(halfOverBlack[0]).toBeLessThan(white[0])
+    expect(halfOverBlack[0]).toBeGreaterThan(0)
+  })
+
   it('handles multi-pixel images', () => {
     const imageData = {
       data: new Uint8ClampedArray([
@@ -230,6 +365,151 @@ describe('PQ LUT fast path', () => {
   })
 })
 
+describe('HLG transfer', () => {
+  it('keeps LUT interpolation within 2 uint16 code values', () => {
+    for (let i = 0; i <= 1000; i++) {
+      const { exact, lut } = hlgEncodeDebug(i / 1000)
+      expect(Math.abs(Math.round(lut * 65535) - Math.round(exact * 65535))).toBeLessThanOrEqual(2)
+    }
+  })
+
+  it('round-trips the OETF through its inverse', () => {
+    for (const E of [0, 0.01, 1 / 12, 0.25, 0.5, 1]) {
+      expect(hlgDecode(hlgEncodeDebug(E).exact)).toBeCloseTo(E, 6)
+    }
+  })
+
+  it('places 203-nit reference white at 75% signal (BT.2408)', () => {
+    const scene = Math.pow(203 / HLG_NOMINAL_PEAK_NITS, 1 / HLG_SYSTEM_GAMMA)
+    expect(hlgEncodeDebug(scene).exact).toBeCloseTo(0.75, 2)
+  })
+
+  it('encodes white at boost=1 as 100 nits on the 1000-nit reference display', () => {
+    const result = processPixels(pixel(255, 255, 255), 1.0, DEFAULT_LOOK_CONTROLS, undefined, { transferFunction: 'hlg' })
+    const scene = Math.pow(boostToTargetNits(1.0) / HLG_NOMINAL_PEAK_NITS, 1 / HLG_SYSTEM_GAMMA)
+    const expected = Math.round(hlgEncodeDebug(scene).exact * 65535)
+    expect(result[0]).toBe(result[1])
+    expect(result[1]).toBe(result[2])
+    expect(Math.abs(result[0] - expected)).toBeLessThanOrEqual(2)
+  })
+
+  it('clips grades brighter than the nominal peak and caps MaxCLL there', () => {
+    const contentLightLevel = createContentLightLevel()
+    const result = processPixels(pixel(255, 255, 255), 4.0, DEFAULT_LOOK_CONTROLS, undefined, {
+      contentLightLevel,
+      transferFunction: 'hlg',
+    })
+    expect(result[0]).toBe(65535)
+    expect(contentLightLevel.maxCLL).toBeCloseTo(HLG_NOMINAL_PEAK_NITS, 3)
+  })
+})
+
+describe('standards up-conversion', () => {
+  it('places SDR white at the 203-nit BT.2408 reference white regardless of boost', () => {
+    const expected = Math.round(pqEncodeDebug(203 / 10000).exact * 65535)
+    for (const boost of [1, 5, 10]) {
+      const result = processPixels(pixel(255, 255, 255), boost, DEFAULT_LOOK_CONTROLS, undefined, { upConversion: 'bt2408' })
+      expect(Math.abs(result[0]! - expected)).toBeLessThanOrEqual(2)
+    }
+    // BT.2408 puts HDR reference white at 58% PQ signal.
+    expect(expected / 65535).toBeCloseTo(0.58, 2)
+  })
+
+  it('expands SDR white to a 1000-nit peak with BT.2446 Method A', () => {
+    const contentLightLevel = createContentLightLevel()
+    processPixels(pixel(255, 255, 255), 1, DEFAULT_LOOK_CONTROLS, undefined, { upConversion: 'bt2446a', contentLightLevel })
+    expect(contentLightLevel.maxCLL).toBeCloseTo(1000, -1)
+  })
+
+  it('keeps hue while expanding luminance', () => {
+    const sdr = processPixels(pixel(200, 120, 60), 1)
+    const expanded = processPixels(pixel(200, 120, 60), 1, DEFAULT_LOOK_CONTROLS, undefined, { upConversion: 'bt2446c' })
+    expect(expanded[0]).toBeGreaterThan(sdr[0]!)
+    expect(expanded[0]).toBeGreaterThan(expanded[1]!)
+    expect(expanded[1]).toBeGreaterThan(expanded[2]!)
+  })
+})
+
+describe('ABL limiter', () => {
+  // Left half white, right half near-black with a 2×2 white specular well away from the bright half.
+  function brightHalfWithSpecular() {
+    const width = 480
+    const height = 240
+    const data = new Uint8ClampedArray(width * height * 4)
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const i = (y * width + x) * 4
+        const spot = x >= 400 && x < 402 && y >= 120 && y < 122
+        const value = x < width / 2 || spot ? 255 : 20
+        data.set([value, value, value, 255], i)
+      }
+    }
+    return { data, width, height }
+  }
+
+  it('meets the MaxFALL budget while keeping small speculars at full brightness', () => {
+    const image = brightHalfWithSpecular()
+    const boost = 4
+    const unlimited = createContentLightLevel()
+    const reference = processPixels(image, boost, DEFAULT_LOOK_CONTROLS, undefined, { contentLightLevel: unlimited })
+
+    const { limiter, report } = planAblLimiter(image, boost, DEFAULT_LOOK_CONTROLS, {}, 250)
+    expect(report.fallBeforeNits).toBeCloseTo(unlimited.maxFALL, -1)
+    expect(report.maxReduction).toBeGreaterThan(0.5)
+
+    const limited = createContentLightLevel()
+    const out = processPixels(image, boost, DEFAULT_LOOK_CONTROLS, undefined, { contentLightLevel: limited, ablLimiter: limiter! })
+    expect(limited.maxFALL).toBeGreaterThan(225)
+    expect(limited.maxFALL).toBeLessThan(275)
+
+    const specular = (120 * image.width + 400) * 3
+    const broadWhite = (120 * image.width + 60) * 3
+    expect(out[specular]).toBe(reference[specular])
+    expect(out[broadWhite]!).toBeLessThan(reference[broadWhite]!)
+  })
+
+  it('returns no limiter when the grade is already within budget', () => {
+    const { limiter, report } = planAblLimiter(brightHalfWithSpecular(), 1, DEFAULT_LOOK_CONTROLS, {}, 250)
+    expect(limiter).toBeNull()
+    expect(report.maxReduction).toBe(0)
+  })
+})
+
+describe('caption overlay', () => {
+  function captionOver(nits: number): CaptionLayer {
+    return { left: 0, top: 0, width: 1, height: 1, fill: new Uint8Array([255]), outline: null, nits, rowOffset: 0 }
+  }
+
+  it('encodes the caption at its own nits whatever the photo under it', () => {
+    const dim = pixel(40, 40, 40)
+    const out = processPixels(dim, 1, DEFAULT_LOOK_CONTROLS, undefined, { caption: captionOver(10_000) })
+    expect(Array.from(out)).toEqual([WHITE_AT_10000_NITS_PQ_U16, WHITE_AT_10000_NITS_PQ_U16, WHITE_AT_10000_NITS_PQ_U16])
+  })
+
+  it('caps the caption at the display peak the export is fit to', () => {
+    const out = processPixels(pixel(40, 40, 40), 1, DEFAULT_LOOK_CONTROLS, undefined, {
+      caption: captionOver(10_000),
+      targetPeakNits: 1000,
+    })
+    expect(out[0]).toBe(Math.round(pqEncodeDebug(0.1).exact * 65535))
+  })
+
+  it('skips the ABL limiter, which only dims the photo', () => {
+    const image = { data: new Uint8ClampedArray(64 * 4).fill(255), width: 64, height: 1 }
+    const { limiter } = planAblLimiter(image, 5, DEFAULT_LOOK_CONTROLS, {}, 150)
+    const out = processPixels(image, 5, DEFAULT_LOOK_CONTROLS, undefined, { ablLimiter: limiter!, caption: captionOver(1600) })
+    expect(out[0]).toBe(WHITE_AT_1600_NITS_PQ_U16)
+    expect(out[3]!).toBeLessThan(out[0]!)
+  })
+
+  it('shows the caption over the preview tone map', () => {
+    const plain = processPreviewPixels(pixel(40, 40, 40), 1, DEFAULT_LOOK_CONTROLS)
+    const captioned = processPreviewPixels(pixel(40, 40, 40), 1, DEFAULT_LOOK_CONTROLS, undefined, { caption: captionOver(1000) })
+    expect(captioned[0]!).toBeGreaterThan(plain[0]!)
+    expect(captioned[3]).toBe(255)
+  })
+})
+
 describe('sRGB OETF LUT fast path', () => {
   it('keeps LUT interpolation within 1 uint8 code value across the domain', () => {
     for (let i = 0; i <= 2000; i++) {
@@ -271,6 +551,12 @@ describe('preview processing path', () => {
     expect([...high]).toEqual([...low])
   })
 
+  it('copies source alpha into preview output only when keeping transparency', () => {
+    const sample = { data: new Uint8ClampedArray([180, 120, 80, 64]), width: 1, height: 1 }
+    expect(processPreviewPixels(sample, 1.0, DEFAULT_LOOK_CONTROLS)[3]).toBe(255)
+    expect(processPreviewPixels(sample, 1.0, DEFAULT_LOOK_CONTROLS, undefined, { alpha: { mode: 'keep' } })[3]).toBe(64)
+  })
+
   it('is deterministic with neutral look controls', () => {
     const sample = pixel(120, 80, 200)
     const a = processPreviewPixels(sample, 1.0, DEFAULT_LOOK_CONTROLS)
@@ -353,16 +639,115 @@ describe('preview processing path', () => {
     expect(brightWhites[1]).toBeGreaterThan(brightNeutral[1])
   })
 
-  it('clarity increases tonal separation between dark and bright midtones', () => {
-    const dark = pixel(90, 90, 90)
-    const bright = pixel(170, 170, 170)
-    const darkNeutral = processPixels(dark, 5, DEFAULT_LOOK_CONTROLS)
-    const brightNeutral = processPixels(bright, 5, DEFAULT_LOOK_CONTROLS)
-    const darkClarity = processPixels(dark, 5, { ...DEFAULT_LOOK_CONTROLS, clarity: 0.5 })
-    const brightClarity = processPixels(bright, 5, { ...DEFAULT_LOOK_CONTROLS, clarity: 0.5 })
-    const neutralSpread = brightNeutral[1] - darkNeutral[1]
-    const claritySpread = brightClarity[1] - darkClarity[1]
-    expect(claritySpread).toBeGreaterThanOrEqual(neutralSpread)
+  it('clarity adds local contrast to texture and leaves flat areas alone', () => {
+    const width = 64
+    const height = 8
+    const data = new Uint8ClampedArray(width * height * 4)
+    for (let i = 0; i < width * height; i++) {
+      const x = i % width
+      const v = x >= 32 ? 128 : x % 2 === 0 ? 120 : 100
+      data.set([v, v, v, 255], i * 4)
+    }
+    const image = { data, width, height }
+    const neutral = processPixels(image, 5, DEFAULT_LOOK_CONTROLS)
+    const sharpened = processPixels(image, 5, { ...DEFAULT_LOOK_CONTROLS, clarity: 0.5 })
+    const at = (x: number) => (4 * width + x) * 3 + 1
+
+    expect(sharpened[at(10)]! - sharpened[at(11)]!).toBeGreaterThan(neutral[at(10)]! - neutral[at(11)]!)
+    expect(sharpened[at(56)]).toBe(neutral[at(56)])
+
+    const previewNeutral = processPreviewPixels(image, 5, DEFAULT_LOOK_CONTROLS)
+    const previewSharpened = processPreviewPixels(image, 5, { ...DEFAULT_LOOK_CONTROLS, clarity: 0.5 })
+    const previewAt = (x: number) => (4 * width + x) * 4 + 1
+    expect(previewSharpened[previewAt(10)]! - previewSharpened[previewAt(11)]!).toBeGreaterThan(
+      previewNeutral[previewAt(10)]! - previewNeutral[previewAt(11)]!,
+    )
+  })
+
+  it('bloom glows around highlights in the encoded output and the preview', () => {
+    const width = 64
+    const height = 64
+    const data = new Uint8ClampedArray(width * height * 4)
+    for (let i = 0; i < width * height; i++) {
+      const x = i % width
+      const y = Math.floor(i / width)
+      const v = x >= 30 && x < 34 && y >= 30 && y < 34 ? 255 : 30
+      data.set([v, v, v, 255], i * 4)
+    }
+    const image = { data, width, height }
+    const look = { ...DEFAULT_LOOK_CONTROLS, bloomIntensity: 0.8 }
+    const neutral = processPixels(image, 5, DEFAULT_LOOK_CONTROLS)
+    const glowing = processPixels(image, 5, look)
+    const at = (x: number, y: number) => (y * width + x) * 3 + 1
+
+    expect(glowing[at(37, 32)]!).toBeGreaterThan(neutral[at(37, 32)]!)
+    expect(glowing[at(37, 32)]! - neutral[at(37, 32)]!).toBeGreaterThan(glowing[at(60, 60)]! - neutral[at(60, 60)]!)
+
+    const previewNeutral = processPreviewPixels(image, 5, DEFAULT_LOOK_CONTROLS)
+    const previewGlowing = processPreviewPixels(image, 5, look)
+    const previewAt = (x: number, y: number) => (y * width + x) * 4 + 1
+    expect(previewGlowing[previewAt(37, 32)]!).toBeGreaterThan(previewNeutral[previewAt(37, 32)]!)
+  })
+
+  it('applies an imported LUT to the source before the HDR expansion', () => {
+    // Halving linear light ahead of the boost is the same grade as one stop less exposure.
+    const halve = { lut: parseCubeLut('LUT_1D_SIZE 2\n0 0 0\n0.5 0.5 0.5\n'), space: 'linear' as const, strength: 1 }
+    const sample = pixel(200, 140, 90)
+    const withLut = processPixels(sample, 6, DEFAULT_LOOK_CONTROLS, undefined, { colorLut: halve })
+    const darker = processPixels(sample, 6, { ...DEFAULT_LOOK_CONTROLS, exposure: -1 })
+    for (let c = 0; c < 3; c++) expect(Math.abs(withLut[c]! - darker[c]!)).toBeLessThanOrEqual(2)
+
+    const off = processPixels(sample, 6, DEFAULT_LOOK_CONTROLS, undefined, { colorLut: { ...halve, strength: 0 } })
+    expect(Array.from(off)).toEqual(Array.from(processPixels(sample, 6)))
+
+    const preview = processPreviewPixels(sample, 6, DEFAULT_LOOK_CONTROLS, undefined, { colorLut: halve })
+    expect(preview[1]!).toBeLessThan(processPreviewPixels(sample, 6)[1]!)
+  })
+
+  it('applies the tone curve identically to the export and the preview', () => {
+    const lift = {
+      ...DEFAULT_TONE_CURVE,
+      luma: [
+        { x: 0, y: 0 },
+        { x: 0.5, y: 0.65 },
+        { x: 1, y: 1 },
+      ],
+    }
+    const sample = pixel(90, 110, 70)
+    const lifted = processPixels(sample, 6, DEFAULT_LOOK_CONTROLS, undefined, { toneCurve: lift })
+    const plain = processPixels(sample, 6)
+    for (let c = 0; c < 3; c++) expect(lifted[c]!).toBeGreaterThan(plain[c]!)
+    expect(Array.from(processPixels(sample, 6, DEFAULT_LOOK_CONTROLS, undefined, { toneCurve: DEFAULT_TONE_CURVE }))).toEqual(
+      Array.from(plain),
+    )
+
+    const preview = processPreviewPixels(sample, 6, DEFAULT_LOOK_CONTROLS, undefined, { toneCurve: lift })
+    expect(preview[1]!).toBeGreaterThan(processPreviewPixels(sample, 6)[1]!)
+  })
+
+  it('desaturates one hue band while leaving skin tones alone', () => {
+    const look = { ...DEFAULT_LOOK_CONTROLS, magentaSaturation: -1 }
+    const spread = (codes: ArrayLike<number>) => Math.max(codes[0]!, codes[1]!, codes[2]!) - Math.min(codes[0]!, codes[1]!, codes[2]!)
+    const neon = pixel(230, 40, 220)
+    expect(spread(processPixels(neon, 4, look))).toBeLessThan(spread(processPixels(neon, 4)) / 4)
+    expect(spread(processPreviewPixels(neon, 4, look))).toBeLessThan(spread(processPreviewPixels(neon, 4)) / 4)
+
+    const skin = pixel(224, 172, 140)
+    expect(Array.from(processPixels(skin, 4, look))).toEqual(Array.from(processPixels(skin, 4)))
+  })
+
+  it('keeps over-saturated gradients apart with gamut compression instead of clipping them flat', () => {
+    const look = { ...DEFAULT_LOOK_CONTROLS, saturation: 1.6, vibrance: 1.5 }
+    const image = { data: new Uint8ClampedArray([255, 20, 200, 255, 255, 30, 200, 255]), width: 2, height: 1 }
+    const clipped = processPixels(image, 4, look)
+    expect(clipped[1]).toBe(clipped[4])
+    const compressed = processPixels(image, 4, look, undefined, { gamutMapping: 'compress' })
+    expect(compressed[1]).not.toBe(compressed[4])
+    const perceptual = processPixels(image, 4, look, undefined, { gamutMapping: 'perceptual', gamutVolume: 'p3' })
+    expect(perceptual[1]).not.toBe(perceptual[4])
+
+    const preview = processPreviewPixels(image, 4, look, undefined, { gamutMapping: 'compress' })
+    expect(preview[1]).not.toBe(preview[5])
   })
 
   it('highlight saturation reduces bright chroma when lowered', () => {
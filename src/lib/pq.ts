@@ -6,7 +6,9 @@
  * modules.
  */
 
-import { boostToPQGain, SDR_TO_PQ_SCALE } from './hdr-boost'
+import { HLG_NOMINAL_PEAK_NITS, HLG_SYSTEM_GAMMA, PQ_MAX_NITS, SDR_TO_PQ_SCALE } from './hdr-boost'
+import type { ContentLightLevel } from './hdr-metadata'
+import type { ProcessAlpha } from './alpha-handling'
 import { DEFAULT_LOOK_CONTROLS, normalizeLookControls, type LookControls } from './look-controls'
 import {
   BT2020_LUMA,
@@ -16,9 +18,11 @@ import {
   decodeAndGradeBt2020Pixel,
   previewToneMap,
   SRGB_TO_BT2020,
+  type ProcessingContext,
   type RGBTuple,
 } from './bt2020-grading'
 import {
+  hlgEncode,
   pqEncode,
   pqEncodeDebug,
   setPQEncodeModeForTesting,
@@ -26,7 +30,30 @@ import {
   srgbEncode,
   srgbEncodeDebug,
   srgbEOTF,
+  type TransferFunction,
 } from './pq-transfer'
+import { ablGainAt, planAblGrid, solveAblLimiter, type AblLimiter, type AblReport } from './abl-limiter'
+import { computeLocalContrastGains } from './local-contrast'
+import { addBloom, buildBloomLayer, type BloomLayer } from './bloom'
+import type { ColorLutSettings } from './color-lut'
+import type { ToneCurve } from './tone-curve'
+import {
+  createGamutMapper,
+  DEFAULT_GAMUT_MAPPING,
+  DEFAULT_GAMUT_VOLUME,
+  mapToGamut,
+  type GamutMapper,
+  type GamutMapping,
+  type GamutVolume,
+} from './gamut-mapping'
+import { applyBt2390Eetf, createBt2390Eetf, type Bt2390Eetf } from './eetf'
+import { captionLevel, compositeCaption, type CaptionLayer } from './caption'
+import { addScopeSample, type ScopeData } from './scopes'
+import { writeFalseColorPixel } from './false-color'
+import { DEFAULT_UP_CONVERSION_METHOD, upConversionCurve, upConversionWhiteGain, type UpConversionMethod } from './up-conversion'
+
+const HLG_INVERSE_OOTF_EXPONENT = 1 / HLG_SYSTEM_GAMMA - 1
+const PROGRESS_STEPS = 64
 
 export interface PixelBufferLike {
   data: Uint8ClampedArray
@@ -34,56 +61,381 @@ export interface PixelBufferLike {
   height: number
 }
 
+export interface ProcessPixelsOptions {
+  /** Filled with the graded image's MaxCLL/MaxFALL in nits. */
+  contentLightLevel?: ContentLightLevel
+  /** Filled with the graded image's histogram, waveform and parade (see `scopes.ts`). */
+  scopes?: ScopeData
+  /** RGBA buffer of the image's size, filled with the false-color nits map (see `false-color.ts`). */
+  falseColor?: Uint8ClampedArray
+  /** Alpha handling; omitted means the source is treated as opaque. */
+  alpha?: ProcessAlpha
+  /** Output transfer function. Defaults to PQ. */
+  transferFunction?: TransferFunction
+  /** Called with the fraction of pixels graded so far, in PROGRESS_STEPS increments. */
+  onProgress?: (fraction: number) => void
+  /** SDR → HDR mapping. Defaults to the Boost curve; the standards methods ignore `boost`. */
+  upConversion?: UpConversionMethod
+  /** Fit the grade into a display of this peak (nits) with the BT.2390 EETF. Omitted means no roll-off. */
+  targetPeakNits?: number
+  /** Imported .cube LUT, applied to the source before the HDR expansion. */
+  colorLut?: ColorLutSettings
+  /** Control-point tone curve, applied after the LUT. */
+  toneCurve?: ToneCurve
+  /** How out-of-gamut values are brought inside the output volume. Defaults to a per-channel clip. */
+  gamutMapping?: GamutMapping
+  /** Output volume inside the BT.2020 container. Defaults to all of BT.2020. */
+  gamutVolume?: GamutVolume
+  /** Per-region gains from `planAblLimiter`, applied after the EETF. */
+  ablLimiter?: AblLimiter
+  /**
+   * Local contrast gains for these pixels, when they were computed with
+   * context beyond them (export strips). Otherwise Clarity computes its own.
+   */
+  localContrastGains?: Float32Array
+  /**
+   * Glow from `planBloomLayer`, added after grading. Export strips get the
+   * whole image's layer; otherwise Bloom builds its own.
+   */
+  bloomLayer?: BloomLayer
+  /**
+   * Caption from `rasterizeCaption`, composited at its own nits after the ABL
+   * limiter. Export strips get it with `rowOffset` set to their first row.
+   */
+  caption?: CaptionLayer
+}
+
+export interface ProcessPreviewPixelsOptions {
+  alpha?: ProcessAlpha
+  colorLut?: ColorLutSettings
+  toneCurve?: ToneCurve
+  /** Gamut mapping into the preview's sRGB volume. */
+  gamutMapping?: GamutMapping
+  /** Caption, shown as the brightest white the preview has. */
+  caption?: CaptionLayer
+  /** Clarity gains from `computeLocalContrastGains`, when the caller already has them. */
+  localContrastGains?: Float32Array
+  /** Called with the fraction of pixels drawn so far, in PROGRESS_STEPS increments. */
+  onProgress?: (fraction: number) => void
+}
+
+/** Channels per pixel in the `processPixels` output for the given alpha mode. */
+export function outputChannelsForAlpha(alpha?: ProcessAlpha): 3 | 4 {
+  return alpha?.mode === 'keep' ? 4 : 3
+}
+
 function resolveLookControls(lookControlsOrGamma?: number | Partial<LookControls>): LookControls {
   return normalizeLookControls(typeof lookControlsOrGamma === 'number' ? { gamma: lookControlsOrGamma } : lookControlsOrGamma)
 }
 
 /**
- * HDR export path: outputs PQ-encoded BT.2020 RGB16.
+ * Write one HLG pixel from display light relative to the nominal peak. The
+ * inverse OOTF (BT.2100 Table 5) turns display light into scene light using
+ * the display luminance, so hue is kept while the system gamma is undone.
+ */
+function writeHLGPixel(r: number, g: number, b: number, out: Uint16Array, di: number): void {
+  const yd = BT2020_LUMA[0] * r + BT2020_LUMA[1] * g + BT2020_LUMA[2] * b
+  const sceneScale = yd > 0 ? Math.pow(yd, HLG_INVERSE_OOTF_EXPONENT) : 0
+  out[di] = Math.round(hlgEncode(r * sceneScale) * 65535)
+  out[di + 1] = Math.round(hlgEncode(g * sceneScale) * 65535)
+  out[di + 2] = Math.round(hlgEncode(b * sceneScale) * 65535)
+}
+
+interface ExportGrading {
+  context: ProcessingContext
+  eetf: Bt2390Eetf | null
+  hlg: boolean
+  /** Multiplier from PQ-normalized grading units to the output transfer's 0–1 range. */
+  displayScale: number
+  /** Null when a per-channel clamp does the mapping. */
+  gamutMapper: GamutMapper | null
+  /** Nits at output value 1.0. */
+  peakNits: number
+}
+
+function createExportGrading(boost: number, look: LookControls, options: ProcessPixelsOptions): ExportGrading {
+  const {
+    alpha,
+    upConversion = DEFAULT_UP_CONVERSION_METHOD,
+    targetPeakNits,
+    colorLut,
+    toneCurve,
+    gamutMapping = DEFAULT_GAMUT_MAPPING,
+    gamutVolume = DEFAULT_GAMUT_VOLUME,
+  } = options
+  const hlg = options.transferFunction === 'hlg'
+  return {
+    context: createProcessingContext(
+      look,
+      upConversionWhiteGain(upConversion, boost),
+      alpha?.mode === 'flatten' ? alpha.background : undefined,
+      upConversionCurve(upConversion),
+      colorLut ?? null,
+      toneCurve ?? null,
+    ),
+    eetf: targetPeakNits !== undefined && targetPeakNits < PQ_MAX_NITS ? createBt2390Eetf(targetPeakNits) : null,
+    hlg,
+    // Graded values are normalized to the PQ range; HLG wants them relative to its nominal peak.
+    displayScale: hlg ? PQ_MAX_NITS / HLG_NOMINAL_PEAK_NITS : 1.0,
+    gamutMapper: createGamutMapper(gamutMapping, gamutVolume),
+    peakNits: hlg ? HLG_NOMINAL_PEAK_NITS : PQ_MAX_NITS,
+  }
+}
+
+/** Scale a graded pixel into the output transfer's 0–1 range and bring it inside the output gamut, in place. */
+function toOutputRange(graded: RGBTuple, grading: ExportGrading): void {
+  graded[0] *= grading.displayScale
+  graded[1] *= grading.displayScale
+  graded[2] *= grading.displayScale
+  if (grading.gamutMapper) {
+    mapToGamut(grading.gamutMapper, graded)
+  } else {
+    graded[0] = clamp(graded[0], 0.0, 1.0)
+    graded[1] = clamp(graded[1], 0.0, 1.0)
+    graded[2] = clamp(graded[2], 0.0, 1.0)
+  }
+}
+
+/**
+ * Highlights are extracted from the grade without Clarity's detail layer,
+ * which is far finer than the glow, so strips and single passes agree.
+ */
+function buildExportBloomLayer(imageData: PixelBufferLike, look: LookControls, context: ProcessingContext): BloomLayer | null {
+  const { data, width, height } = imageData
+  return buildBloomLayer(width, height, look, context.gain, (i, out) => decodeAndGradeBt2020Pixel(data, i * 4, context, out))
+}
+
+/**
+ * Build the Bloom layer for an export with the same options `processPixels`
+ * will get. The export worker builds it once and hands it to every strip,
+ * since the glow reaches far beyond a strip's rows. Null when Bloom is off.
+ */
+export function planBloomLayer(
+  imageData: PixelBufferLike,
+  boost: number,
+  lookControlsOrGamma: number | Partial<LookControls>,
+  options: ProcessPixelsOptions,
+): BloomLayer | null {
+  const look = resolveLookControls(lookControlsOrGamma)
+  return buildExportBloomLayer(imageData, look, createExportGrading(boost, look, options).context)
+}
+
+/**
+ * HDR export path: outputs BT.2020 RGB16 encoded with PQ (default) or HLG,
+ * or RGBA16 when `options.alpha` keeps transparency (alpha widened from 8 to
+ * 16 bit). HLG output is relative to a 1000-nit nominal peak, so anything the
+ * boost pushes beyond that clips.
  *
  * Compatibility: the third argument accepts either a gamma number (legacy) or
  * a look-controls object.
+ *
+ * With `options.targetPeakNits` the BT.2390 EETF rolls highlights off so
+ * nothing exceeds that peak; it runs before HLG scaling, so it composes with
+ * the 1000-nit HLG clip. `options.ablLimiter` then scales each pixel by its
+ * region's gain, on the same clamped values the light level is measured on.
+ * Out-of-gamut values are clipped per channel unless `options.gamutMapping`
+ * compresses them, optionally into the P3 volume (`options.gamutVolume`).
+ * `options.caption` goes on last, so neither the roll-off nor the limiter
+ * touches it; only the display peak caps its nits.
+ *
+ * When `options.contentLightLevel` is provided it is filled with the graded
+ * image's MaxCLL/MaxFALL in nits, measured on the same clamped linear values
+ * that get encoded; `options.scopes` collects from the same values, and
+ * `options.falseColor` maps them to luminance bands. Fully transparent pixels
+ * that are kept transparent count as black in the light level and are left
+ * out of the scopes.
  */
 export function processPixels(
   imageData: PixelBufferLike,
   boost: number,
   lookControlsOrGamma: number | Partial<LookControls> = DEFAULT_LOOK_CONTROLS,
   outBuffer?: Uint16Array,
+  options: ProcessPixelsOptions = {},
 ): Uint16Array {
-  const look = resolveLookControls(lookControlsOrGamma)
+  const { width, height } = imageData
+  const outLen = width * height * outputChannelsForAlpha(options.alpha)
+  const out = outBuffer && outBuffer.length === outLen ? outBuffer : new Uint16Array(outLen)
+  gradeExportPixels(imageData, resolveLookControls(lookControlsOrGamma), boost, options, out, 1)
+  return out
+}
+
+/**
+ * Grade the export without encoding it, filling only the measurements
+ * `processPixels` would: the light level, scopes and false-color map. With
+ * `maxSamples` just a regular grid of about that many pixels is graded, which
+ * is plenty for the light level and scopes of a preview; the false-color map
+ * needs every pixel, so don't combine the two.
+ */
+export function measureExportPixels(
+  imageData: PixelBufferLike,
+  boost: number,
+  lookControlsOrGamma: number | Partial<LookControls>,
+  options: ProcessPixelsOptions,
+  maxSamples = Infinity,
+): void {
+  const stride = Math.max(1, Math.ceil(Math.sqrt((imageData.width * imageData.height) / maxSamples)))
+  gradeExportPixels(imageData, resolveLookControls(lookControlsOrGamma), boost, options, null, stride)
+}
+
+/**
+ * The export grade behind `processPixels` and `measureExportPixels`: grades
+ * every `stride`-th pixel of every `stride`-th row and encodes into `out`
+ * when there is one.
+ */
+function gradeExportPixels(
+  imageData: PixelBufferLike,
+  look: LookControls,
+  boost: number,
+  options: ProcessPixelsOptions,
+  out: Uint16Array | null,
+  stride: number,
+): void {
   const { data, width, height } = imageData
+  const { alpha, contentLightLevel, scopes, falseColor, onProgress, ablLimiter, caption } = options
+  const grading = createExportGrading(boost, look, options)
+  const { context, eetf, hlg, peakNits } = grading
+  const captionValue = caption ? captionLevel(caption.nits, peakNits, options.targetPeakNits) : 0
+  const detailGains = options.localContrastGains ?? computeLocalContrastGains(imageData, look, alpha)
+  const bloomLayer = options.bloomLayer ?? buildExportBloomLayer(imageData, look, context)
+  const channels = outputChannelsForAlpha(alpha)
+  const keepAlpha = channels === 4
   const pixelCount = width * height
-  const outLen = pixelCount * 3
-  const out = outBuffer && outBuffer.length === outLen ? outBuffer : new Uint16Array(outLen)
 
-  const context = createProcessingContext(look, boostToPQGain(boost))
   const graded: RGBTuple = [0, 0, 0]
+  let maxChannel = 0
+  let maxChannelSum = 0
+  let sampleCount = 0
+  const progressInterval = Math.max(1, Math.ceil(pixelCount / PROGRESS_STEPS))
+  let nextProgress = onProgress ? progressInterval : Infinity
 
-  for (let i = 0; i < pixelCount; i++) {
-    const si = i * 4
-    const di = i * 3
+  for (let y = 0; y < height; y += stride) {
+    for (let x = 0; x < width; x += stride) {
+      const i = y * width + x
+      if (i >= nextProgress) {
+        onProgress?.(i / pixelCount)
+        nextProgress = i + progressInterval
+      }
+      const si = i * 4
 
-    decodeAndGradeBt2020Pixel(data, si, context, graded)
-    const r2020 = clamp(graded[0], 0.0, 1.0)
-    const g2020 = clamp(graded[1], 0.0, 1.0)
-    const b2020 = clamp(graded[2], 0.0, 1.0)
+      decodeAndGradeBt2020Pixel(data, si, context, graded, detailGains ? detailGains[i] : 1.0)
+      if (bloomLayer) addBloom(bloomLayer, x, y, graded)
+      if (eetf) applyBt2390Eetf(graded, eetf)
+      toOutputRange(graded, grading)
+      if (ablLimiter) {
+        const gain = ablGainAt(ablLimiter, x, y)
+        graded[0] *= gain
+        graded[1] *= gain
+        graded[2] *= gain
+      }
+      let sourceAlpha = data[si + 3] ?? 255
+      if (caption) {
+        const alphaIn = keepAlpha ? sourceAlpha / 255 : 1
+        sourceAlpha = Math.round(compositeCaption(caption, x, y, captionValue, graded, alphaIn) * 255)
+      }
+      const [r2020, g2020, b2020] = graded
 
-    out[di] = Math.round(pqEncode(r2020) * 65535)
-    out[di + 1] = Math.round(pqEncode(g2020) * 65535)
-    out[di + 2] = Math.round(pqEncode(b2020) * 65535)
+      sampleCount++
+      // Fully transparent pixels that stay transparent emit no light.
+      if (!keepAlpha || sourceAlpha > 0) {
+        const pixelMax = Math.max(r2020, g2020, b2020)
+        if (pixelMax > maxChannel) maxChannel = pixelMax
+        maxChannelSum += pixelMax
+        if (scopes) addScopeSample(scopes, x / width, r2020 * peakNits, g2020 * peakNits, b2020 * peakNits)
+      }
+      if (falseColor) {
+        writeFalseColorPixel(falseColor, si, r2020 * peakNits, g2020 * peakNits, b2020 * peakNits, keepAlpha ? sourceAlpha : 255)
+      }
+
+      if (!out) continue
+      const di = i * channels
+      if (hlg) {
+        writeHLGPixel(r2020, g2020, b2020, out, di)
+      } else {
+        out[di] = Math.round(pqEncode(r2020) * 65535)
+        out[di + 1] = Math.round(pqEncode(g2020) * 65535)
+        out[di + 2] = Math.round(pqEncode(b2020) * 65535)
+      }
+      if (keepAlpha) out[di + 3] = sourceAlpha * 257
+    }
   }
 
-  return out
+  onProgress?.(1)
+
+  if (contentLightLevel) {
+    contentLightLevel.maxCLL = maxChannel * peakNits
+    contentLightLevel.maxFALL = sampleCount > 0 ? (maxChannelSum / sampleCount) * peakNits : 0
+  }
+}
+
+/**
+ * Measure the graded export's light level per region and solve the ABL
+ * limiter that brings its frame average down to `budgetNits`. Grades a
+ * sparse sample grid with the same options `processPixels` will get, so the
+ * measurement matches the export. The limiter is null when the image is
+ * already within budget; the report is filled either way.
+ */
+export function planAblLimiter(
+  imageData: PixelBufferLike,
+  boost: number,
+  lookControlsOrGamma: number | Partial<LookControls>,
+  options: ProcessPixelsOptions,
+  budgetNits: number,
+): { limiter: AblLimiter | null; report: AblReport } {
+  const look = resolveLookControls(lookControlsOrGamma)
+  const { data, width, height } = imageData
+  const grading = createExportGrading(boost, look, options)
+  const { context, eetf, peakNits } = grading
+  const { blockWidth, blockHeight, stride } = planAblGrid(width, height)
+  const gridWidth = Math.max(1, Math.ceil(width / blockWidth))
+  const gridHeight = Math.max(1, Math.ceil(height / blockHeight))
+  const sums = new Float64Array(gridWidth * gridHeight)
+  const samples = new Float64Array(gridWidth * gridHeight)
+  const weights = new Float64Array(gridWidth * gridHeight)
+  const graded: RGBTuple = [0, 0, 0]
+  const keepAlpha = options.alpha?.mode === 'keep'
+
+  for (let y = 0; y < height; y += stride) {
+    const row = Math.floor(y / blockHeight) * gridWidth
+    for (let x = 0; x < width; x += stride) {
+      const block = row + Math.floor(x / blockWidth)
+      samples[block] = (samples[block] ?? 0) + 1
+      const si = (y * width + x) * 4
+      // Transparent pixels count as black, as in the export's MaxFALL.
+      if (keepAlpha && data[si + 3] === 0) continue
+      decodeAndGradeBt2020Pixel(data, si, context, graded)
+      if (options.bloomLayer) addBloom(options.bloomLayer, x, y, graded)
+      if (eetf) applyBt2390Eetf(graded, eetf)
+      toOutputRange(graded, grading)
+      const pixelMax = Math.max(graded[0], graded[1], graded[2])
+      sums[block] = (sums[block] ?? 0) + pixelMax * peakNits
+    }
+  }
+
+  const means = new Float64Array(gridWidth * gridHeight)
+  for (let by = 0; by < gridHeight; by++) {
+    const rows = Math.min(blockHeight, height - by * blockHeight)
+    for (let bx = 0; bx < gridWidth; bx++) {
+      const block = by * gridWidth + bx
+      const count = samples[block] ?? 0
+      means[block] = count > 0 ? (sums[block] ?? 0) / count : 0
+      weights[block] = count > 0 ? rows * Math.min(blockWidth, width - bx * blockWidth) : 0
+    }
+  }
+
+  return solveAblLimiter({ gridWidth, gridHeight, blockWidth, blockHeight, means, weights }, budgetNits)
 }
 
 /**
  * Fast preview path: outputs SDR RGBA8 approximation for responsive UI.
+ * Alpha is copied from the source when `options.alpha` keeps transparency;
+ * otherwise the output is opaque.
  */
 export function processPreviewPixels(
   imageData: PixelBufferLike,
   boost: number,
   lookControlsInput: Partial<LookControls> = DEFAULT_LOOK_CONTROLS,
   outBuffer?: Uint8ClampedArray,
+  options: ProcessPreviewPixelsOptions = {},
 ): Uint8ClampedArray {
   // Preview is an SDR approximation only; HDR luminance boost is export-only.
   void boost
@@ -94,14 +446,34 @@ export function processPreviewPixels(
   const out = outBuffer && outBuffer.length === outLen ? outBuffer : new Uint8ClampedArray(outLen)
 
   const inv = BT2020_TO_SRGB
-  const context = createProcessingContext(look, SDR_TO_PQ_SCALE)
+  const { alpha, colorLut, toneCurve, gamutMapping, caption, onProgress } = options
+  const gamutMapper = gamutMapping && gamutMapping !== 'clip' ? createGamutMapper(gamutMapping, 'srgb') : null
+  const keepAlpha = alpha?.mode === 'keep'
+  const context = createProcessingContext(
+    look,
+    SDR_TO_PQ_SCALE,
+    alpha?.mode === 'flatten' ? alpha.background : undefined,
+    null,
+    colorLut ?? null,
+    toneCurve ?? null,
+  )
+  const detailGains = options.localContrastGains ?? computeLocalContrastGains(imageData, look, alpha)
+  const bloomLayer = buildBloomLayer(width, height, look, SDR_TO_PQ_SCALE, (i, out) => decodeAndGradeBt2020Pixel(data, i * 4, context, out))
+  const captionValue = caption ? previewToneMap(caption.nits / PQ_MAX_NITS) : 0
   const graded: RGBTuple = [0, 0, 0]
+  const progressInterval = Math.max(1, Math.ceil(pixelCount / PROGRESS_STEPS))
+  let nextProgress = onProgress ? progressInterval : Infinity
 
   for (let i = 0; i < pixelCount; i++) {
+    if (i === nextProgress) {
+      onProgress?.(i / pixelCount)
+      nextProgress += progressInterval
+    }
     const si = i * 4
     const di = i * 4
 
-    decodeAndGradeBt2020Pixel(data, si, context, graded)
+    decodeAndGradeBt2020Pixel(data, si, context, graded, detailGains ? detailGains[i] : 1.0)
+    if (bloomLayer) addBloom(bloomLayer, i % width, Math.floor(i / width), graded)
     let r2020 = Math.max(0.0, graded[0])
     let g2020 = Math.max(0.0, graded[1])
     let b2020 = Math.max(0.0, graded[2])
@@ -114,6 +486,25 @@ export function processPreviewPixels(
       g2020 *= scale
       b2020 *= scale
     }
+    if (gamutMapper) {
+      graded[0] = r2020
+      graded[1] = g2020
+      graded[2] = b2020
+      mapToGamut(gamutMapper, graded)
+      r2020 = graded[0]
+      g2020 = graded[1]
+      b2020 = graded[2]
+    }
+    let alphaOut = keepAlpha ? (data[si + 3] ?? 255) : 255
+    if (caption) {
+      graded[0] = r2020
+      graded[1] = g2020
+      graded[2] = b2020
+      alphaOut = Math.round(compositeCaption(caption, i % width, Math.floor(i / width), captionValue, graded, alphaOut / 255) * 255)
+      r2020 = graded[0]
+      g2020 = graded[1]
+      b2020 = graded[2]
+    }
 
     let rs = inv[0] * r2020 + inv[1] * g2020 + inv[2] * b2020
     let gs = inv[3] * r2020 + inv[4] * g2020 + inv[5] * b2020
@@ -126,9 +517,11 @@ export function processPreviewPixels(
     out[di] = Math.round(srgbEncode(rs) * 255)
     out[di + 1] = Math.round(srgbEncode(gs) * 255)
     out[di + 2] = Math.round(srgbEncode(bs) * 255)
-    out[di + 3] = 255
+    out[di + 3] = alphaOut
   }
 
+  onProgress?.(1)
+
   return out
 }
 
@@ -0,0 +1,62 @@
+import { describe, expect, it, vi } from 'vitest'
+
+vi.mock('./icc-profile', () => ({
+  getICCProfileBytes: vi.fn(async () => new Uint8Array([0, 1, 2, 3])),
+}))
+
+import { encodePNG } from './encode-png'
+import { readPNGChunks } from './png-chunks'
+import { DEFAULT_LOOK_CONTROLS, normalizeLookControls } from './look-controls'
+import { DEFAULT_TONE_CURVE, normalizeCurvePoints } from './tone-curve'
+import { createRecipe, parseRecipe, readRecipeFromFile, readRecipeFromPNG, serializeRecipe } from './recipe'
+
+describe('parseRecipe', () => {
+  it('round-trips a serialized recipe', () => {
+    const recipe = createRecipe(6.5, normalizeLookControls({ saturation: 1.3, highlightRollOff: 0.9 }))
+    expect(parseRecipe(serializeRecipe(recipe))).toEqual(recipe)
+  })
+
+  it('round-trips a tone curve and leaves the identity out', () => {
+    const toneCurve = { ...DEFAULT_TONE_CURVE, luma: normalizeCurvePoints([{ x: 0.3, y: 0.2 }]) }
+    const recipe = createRecipe(4, DEFAULT_LOOK_CONTROLS, toneCurve)
+    expect(parseRecipe(serializeRecipe(recipe))?.toneCurve).toEqual(toneCurve)
+    expect(createRecipe(4, DEFAULT_LOOK_CONTROLS, DEFAULT_TONE_CURVE)).not.toHaveProperty('toneCurve')
+  })
+
+  it('clamps values and fills missing look controls with defaults', () => {
+    const recipe = parseRecipe(JSON.stringify({ version: 1, appVersion: '0.1.0', boost: 42, lookControls: { saturation: 99, bogus: 1 } }))
+    expect(recipe?.boost).toBe(10)
+    expect(recipe?.lookControls).toEqual(normalizeLookControls({ saturation: 99 }))
+    expect(recipe?.lookControls).not.toHaveProperty('bogus')
+  })
+
+  it('ignores malformed JSON, missing boost, and newer format versions', () => {
+    expect(parseRecipe('{not json')).toBeNull()
+    expect(parseRecipe(JSON.stringify({ version: 1, lookControls: {} }))).toBeNull()
+    expect(parseRecipe(JSON.stringify({ version: 2, boost: 4, lookControls: {} }))).toBeNull()
+  })
+})
+
+describe('readRecipeFromPNG', () => {
+  it('reads the recipe back from an encoded PNG', async () => {
+    const recipe = createRecipe(4, DEFAULT_LOOK_CONTROLS)
+    const png = await encodePNG(1, 1, new Uint16Array([1, 2, 3]), { recipe })
+    expect(readRecipeFromPNG(png)).toEqual(recipe)
+  })
+
+  it('returns null for PNGs without a recipe and non-PNG bytes', async () => {
+    const png = await encodePNG(1, 1, new Uint16Array([1, 2, 3]))
+    expect(readRecipeFromPNG(png)).toBeNull()
+    expect(readRecipeFromPNG(new Uint8Array([0xff, 0xd8, 0xff, 0xe0]))).toBeNull()
+  })
+
+  it('reads a dropped file from its head, ahead of the image data', async () => {
+    const recipe = createRecipe(4, DEFAULT_LOOK_CONTROLS)
+    const png = await encodePNG(1, 1, new Uint16Array([1, 2, 3]), { recipe })
+    const idat = readPNGChunks(png).find((chunk) => chunk.type === 'IDAT')!
+    // Cut inside IDAT: everything the recipe needs comes before it.
+    const head = png.slice(0, idat.offset + 10)
+    expect(await readRecipeFromFile(new Blob([head], { type: 'image/png' }))).toEqual(recipe)
+    expect(await readRecipeFromFile(new Blob([png], { type: 'image/jpeg' }))).toBeNull()
+  })
+})
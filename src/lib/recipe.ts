@@ -0,0 +1,126 @@
+/**
+ * Supernova recipe — the settings an export was made with.
+ *
+ * Exports carry a versioned JSON recipe in an uncompressed `iTXt` chunk so a
+ * dropped Supernova PNG can offer to restore its boost and look controls:
+ *
+ *   { "version": 1, "appVersion": "0.2.0", "boost": 5, "lookControls": { ... } }
+ *
+ * A tone curve other than the identity is stored as its control points under
+ * `toneCurve`; recipes without one restore the linear curve.
+ *
+ * Parsing is forgiving in the same way the worker is with requests: unknown
+ * look keys are ignored, missing ones fall back to defaults, and every value is
+ * clamped to its UI range. Recipes from a newer format version are ignored.
+ */
+
+import { version as APP_VERSION } from '../../package.json'
+import { BOOST_UI_MAX, BOOST_UI_MIN } from './hdr-boost'
+import { LOOK_CONTROL_KEYS, normalizeLookControls, type LookControls } from './look-controls'
+import { readPNGChunks } from './png-chunks'
+import { isDefaultToneCurve, normalizeToneCurve, type ToneCurve } from './tone-curve'
+
+export const RECIPE_KEYWORD = 'supernova-recipe'
+export const RECIPE_VERSION = 1
+// The header chunks of an export (ICC profile included) and its recipe fit well inside this.
+const RECIPE_SCAN_BYTES = 256 * 1024
+
+export interface SupernovaRecipe {
+  version: typeof RECIPE_VERSION
+  appVersion: string
+  boost: number
+  lookControls: LookControls
+  toneCurve?: ToneCurve
+}
+
+const textDecoder = new TextDecoder()
+const latin1Decoder = new TextDecoder('latin1')
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function clampBoost(boost: number): number {
+  return Math.max(BOOST_UI_MIN, Math.min(BOOST_UI_MAX, boost))
+}
+
+export function createRecipe(boost: number, lookControls: LookControls, toneCurve?: ToneCurve): SupernovaRecipe {
+  const curve = toneCurve ? normalizeToneCurve(toneCurve) : null
+  return {
+    version: RECIPE_VERSION,
+    appVersion: APP_VERSION,
+    boost: clampBoost(boost),
+    lookControls: normalizeLookControls(lookControls),
+    ...(curve && !isDefaultToneCurve(curve) ? { toneCurve: curve } : {}),
+  }
+}
+
+export function serializeRecipe(recipe: SupernovaRecipe): string {
+  return JSON.stringify(recipe)
+}
+
+export function parseRecipe(text: string): SupernovaRecipe | null {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch {
+    return null
+  }
+
+  if (!isRecord(parsed) || parsed.version !== RECIPE_VERSION) return null
+  if (typeof parsed.boost !== 'number' || !Number.isFinite(parsed.boost)) return null
+
+  const rawLook = isRecord(parsed.lookControls) ? parsed.lookControls : {}
+  const lookControls: Partial<LookControls> = {}
+  for (const key of LOOK_CONTROL_KEYS) {
+    const value = rawLook[key]
+    if (typeof value === 'number' && Number.isFinite(value)) lookControls[key] = value
+  }
+
+  return {
+    version: RECIPE_VERSION,
+    appVersion: typeof parsed.appVersion === 'string' ? parsed.appVersion : 'unknown',
+    boost: clampBoost(parsed.boost),
+    lookControls: normalizeLookControls(lookControls),
+    ...(isRecord(parsed.toneCurve) ? { toneCurve: normalizeToneCurve(parsed.toneCurve) } : {}),
+  }
+}
+
+/**
+ * Pull the recipe text out of an `iTXt` data block:
+ *   keyword \0 compression-flag compression-method language \0 translated-keyword \0 text
+ * Compressed text is never written by Supernova, so it's treated as absent.
+ */
+function readRecipeText(data: Uint8Array): string | null {
+  const keywordEnd = data.indexOf(0)
+  if (keywordEnd < 0 || latin1Decoder.decode(data.subarray(0, keywordEnd)) !== RECIPE_KEYWORD) return null
+  if (data[keywordEnd + 1] !== 0) return null
+
+  const languageEnd = data.indexOf(0, keywordEnd + 3)
+  if (languageEnd < 0) return null
+  const translatedEnd = data.indexOf(0, languageEnd + 1)
+  if (translatedEnd < 0) return null
+
+  return textDecoder.decode(data.subarray(translatedEnd + 1))
+}
+
+/**
+ * Find and parse the Supernova recipe in PNG bytes. Returns null for non-PNG
+ * input, PNGs without a recipe, and recipes this version can't read. The walk
+ * stops at the image data, which the recipe is always written ahead of, and
+ * chunk CRCs aren't checked: a corrupt recipe fails JSON parsing instead.
+ */
+export function readRecipeFromPNG(bytes: Uint8Array): SupernovaRecipe | null {
+  for (const chunk of readPNGChunks(bytes, { stopBefore: 'IDAT' })) {
+    if (chunk.type !== 'iTXt') continue
+    const text = readRecipeText(chunk.data)
+    if (text !== null) return parseRecipe(text)
+  }
+  return null
+}
+
+/** Read the recipe from the head of a dropped file, without loading its image data. */
+export async function readRecipeFromFile(file: Blob): Promise<SupernovaRecipe | null> {
+  if (file.type !== 'image/png') return null
+  return readRecipeFromPNG(new Uint8Array(await file.slice(0, RECIPE_SCAN_BYTES).arrayBuffer()))
+}
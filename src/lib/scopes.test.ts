@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import {
+  addScopeSample,
+  createScopeData,
+  histogramPosition,
+  SCOPE_COLUMNS,
+  SCOPE_HISTOGRAM_BINS,
+  SCOPE_LEVELS,
+  waveformPosition,
+} from './scopes'
+
+const sum = (counts: Uint32Array) => counts.reduce((total, count) => total + count, 0)
+
+describe('scope axes', () => {
+  it('spans the histogram from 0.1 to 10,000 nits on a log scale', () => {
+    expect(histogramPosition(0)).toBe(0)
+    expect(histogramPosition(0.1)).toBe(0)
+    expect(histogramPosition(100)).toBeCloseTo(0.6)
+    expect(histogramPosition(10_000)).toBe(1)
+    expect(histogramPosition(20_000)).toBe(1)
+  })
+
+  it('puts the waveform on the PQ curve', () => {
+    expect(waveformPosition(0)).toBe(0)
+    expect(waveformPosition(100)).toBeCloseTo(0.508, 2)
+    expect(waveformPosition(10_000)).toBeCloseTo(1, 5)
+  })
+})
+
+describe('addScopeSample', () => {
+  it('tracks the brightest channel as the peak', () => {
+    const scopes = createScopeData()
+    addScopeSample(scopes, 0, 120, 80, 40)
+    addScopeSample(scopes, 0.5, 10, 900, 10)
+    expect(scopes.peakNits).toBe(900)
+  })
+
+  it('bins luminance and places each sample in its image column', () => {
+    const scopes = createScopeData()
+    addScopeSample(scopes, 0, 100, 100, 100)
+    addScopeSample(scopes, 0.999, 10_000, 10_000, 10_000)
+
+    expect(sum(scopes.histogram)).toBe(2)
+    expect(scopes.histogram[Math.floor(0.6 * SCOPE_HISTOGRAM_BINS)]).toBe(1)
+    expect(scopes.histogram[SCOPE_HISTOGRAM_BINS - 1]).toBe(1)
+
+    const level100 = Math.floor(waveformPosition(100) * SCOPE_LEVELS)
+    expect(scopes.waveform[level100]).toBe(1)
+    expect(scopes.waveform[(SCOPE_COLUMNS - 1) * SCOPE_LEVELS + SCOPE_LEVELS - 1]).toBe(1)
+  })
+
+  it('splits the parade into red, green and blue panels', () => {
+    const scopes = createScopeData()
+    addScopeSample(scopes, 0, 1000, 0, 0)
+    const panel = SCOPE_COLUMNS * SCOPE_LEVELS
+    const level1000 = Math.floor(waveformPosition(1000) * SCOPE_LEVELS)
+    expect(scopes.parade[level1000]).toBe(1)
+    expect(scopes.parade[panel]).toBe(1)
+    expect(scopes.parade[2 * panel]).toBe(1)
+    expect(sum(scopes.parade)).toBe(3)
+  })
+})
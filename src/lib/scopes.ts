@@ -0,0 +1,87 @@
+/**
+ * Scopes measured from the graded export signal: a luminance histogram on a
+ * log nits axis, a luma waveform and an RGB parade. Samples are in absolute
+ * nits after every grading step, so the scopes show what the file will hold
+ * rather than the SDR preview the browser draws.
+ *
+ * The waveform and parade put level on a PQ axis, the usual scale for HDR
+ * scopes: equal heights are roughly equal visible steps from 0 to 10,000 nits.
+ */
+
+import { PQ_MAX_NITS } from './hdr-boost'
+import { pqEncode } from './pq-transfer'
+
+// Histogram bins per decade of nits, from SCOPE_HISTOGRAM_MIN_NITS up to the PQ peak.
+const BINS_PER_DECADE = 12
+export const SCOPE_HISTOGRAM_MIN_NITS = 0.1
+export const SCOPE_HISTOGRAM_BINS = Math.round(Math.log10(PQ_MAX_NITS / SCOPE_HISTOGRAM_MIN_NITS) * BINS_PER_DECADE)
+
+// Waveform resolution: image columns across, PQ levels up.
+export const SCOPE_COLUMNS = 128
+export const SCOPE_LEVELS = 64
+
+// BT.2020 luminance weights.
+const LUMA_R = 0.2627
+const LUMA_G = 0.678
+const LUMA_B = 0.0593
+
+export interface ScopeData {
+  /** Brightest channel anywhere in the image, in nits (the MaxCLL of the export). */
+  peakNits: number
+  /** Luminance counts per log-nits bin; the first bin also holds everything darker. */
+  histogram: Uint32Array
+  /** Luma counts, `column * SCOPE_LEVELS + level`. */
+  waveform: Uint32Array
+  /** Per-channel counts, `(channel * SCOPE_COLUMNS + column) * SCOPE_LEVELS + level`, red, green, blue. */
+  parade: Uint32Array
+}
+
+export function createScopeData(): ScopeData {
+  return {
+    peakNits: 0,
+    histogram: new Uint32Array(SCOPE_HISTOGRAM_BINS),
+    waveform: new Uint32Array(SCOPE_COLUMNS * SCOPE_LEVELS),
+    parade: new Uint32Array(3 * SCOPE_COLUMNS * SCOPE_LEVELS),
+  }
+}
+
+/** Position of `nits` along the histogram axis, 0–1. */
+export function histogramPosition(nits: number): number {
+  if (nits <= SCOPE_HISTOGRAM_MIN_NITS) return 0
+  return Math.min(1, Math.log10(nits / SCOPE_HISTOGRAM_MIN_NITS) / Math.log10(PQ_MAX_NITS / SCOPE_HISTOGRAM_MIN_NITS))
+}
+
+/** Height of `nits` on the waveform's PQ axis, 0–1. */
+export function waveformPosition(nits: number): number {
+  return pqEncode(Math.min(1, Math.max(0, nits / PQ_MAX_NITS)))
+}
+
+function waveformLevel(nits: number): number {
+  return Math.min(SCOPE_LEVELS - 1, Math.floor(waveformPosition(nits) * SCOPE_LEVELS))
+}
+
+/**
+ * Add one pixel to the scopes. `x` is the pixel's horizontal position as a
+ * fraction of the image width; `r`, `g`, `b` are linear BT.2020 in nits.
+ */
+export function addScopeSample(scopes: ScopeData, x: number, r: number, g: number, b: number): void {
+  const column = Math.min(SCOPE_COLUMNS - 1, Math.floor(x * SCOPE_COLUMNS))
+  const luma = LUMA_R * r + LUMA_G * g + LUMA_B * b
+  const peak = Math.max(r, g, b)
+  if (peak > scopes.peakNits) scopes.peakNits = peak
+
+  const bin = Math.min(SCOPE_HISTOGRAM_BINS - 1, Math.floor(histogramPosition(luma) * SCOPE_HISTOGRAM_BINS))
+  scopes.histogram[bin] = (scopes.histogram[bin] ?? 0) + 1
+
+  const base = column * SCOPE_LEVELS
+  const lumaIndex = base + waveformLevel(luma)
+  scopes.waveform[lumaIndex] = (scopes.waveform[lumaIndex] ?? 0) + 1
+
+  const channelStride = SCOPE_COLUMNS * SCOPE_LEVELS
+  const red = base + waveformLevel(r)
+  const green = channelStride + base + waveformLevel(g)
+  const blue = 2 * channelStride + base + waveformLevel(b)
+  scopes.parade[red] = (scopes.parade[red] ?? 0) + 1
+  scopes.parade[green] = (scopes.parade[green] ?? 0) + 1
+  scopes.parade[blue] = (scopes.parade[blue] ?? 0) + 1
+}
@@ -2,7 +2,7 @@ import seoRoutesConfig from './seo-routes.json'
 import siteConfig from './site-config.json'
 
 export type SeoSchemaProfile = 'webapp' | 'faq' | 'none'
-export type SeoRouteTemplate = 'home' | 'how-it-works' | 'intent-guide' | 'compatibility' | 'not-found'
+export type SeoRouteTemplate = 'home' | 'how-it-works' | 'intent-guide' | 'compatibility' | 'inspector' | 'not-found'
 
 interface RawSeoRouteMeta {
   id: string
@@ -82,6 +82,7 @@ function assertSingleRouteForTemplate(template: SeoRouteTemplate): void {
 
 assertSingleRouteForTemplate('home')
 assertSingleRouteForTemplate('how-it-works')
+assertSingleRouteForTemplate('inspector')
 assertSingleRouteForTemplate('not-found')
 
 const duplicateIds = collectDuplicateValues(config.routes.map((route) => route.id))
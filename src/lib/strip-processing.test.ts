@@ -0,0 +1,242 @@
+import { describe, expect, it, vi } from 'vitest'
+import { createContentLightLevel } from './hdr-metadata'
+import { DEFAULT_LOOK_CONTROLS } from './look-controls'
+import { localContrastRadius } from './local-contrast'
+import { processPixels } from './pq'
+import {
+  assembleStrips,
+  createStripPool,
+  isStripWorkerStartError,
+  planStrips,
+  processStripRequest,
+  sliceStrip,
+  stripWorkerCount,
+  type StripWorkerPort,
+} from './strip-processing'
+import type { StripWorkerRequest, StripWorkerResponse } from './worker-protocol'
+
+function makeImage(width: number, height: number) {
+  const data = new Uint8ClampedArray(width * height * 4)
+  for (let i = 0; i < width * height; i++) {
+    data[i * 4] = (i * 7) % 256
+    data[i * 4 + 1] = (i * 13) % 256
+    data[i * 4 + 2] = (i * 29) % 256
+    data[i * 4 + 3] = i % 5 === 0 ? 128 : 255
+  }
+  return { data, width, height }
+}
+
+// In-thread stand-in for a strip worker: answers each message on a later tick.
+function createFakePort(posted: StripWorkerRequest[]): StripWorkerPort {
+  const port: StripWorkerPort = {
+    onmessage: null,
+    onerror: null,
+    postMessage(message) {
+      posted.push(message)
+      setTimeout(() => port.onmessage?.({ data: processStripRequest(message) } as MessageEvent<StripWorkerResponse>), 0)
+    },
+    terminate: vi.fn(),
+  }
+  return port
+}
+
+describe('stripWorkerCount', () => {
+  it('leaves a core for the page and skips pools that would not help', () => {
+    expect(stripWorkerCount(undefined)).toBe(0)
+    expect(stripWorkerCount(2)).toBe(0)
+    expect(stripWorkerCount(4)).toBe(3)
+    expect(stripWorkerCount(64)).toBe(8)
+  })
+})
+
+describe('planStrips', () => {
+  it('covers every row with contiguous near-equal strips', () => {
+    const strips = planStrips(1000, 7)
+    expect(strips).toHaveLength(7)
+    expect(strips[0]?.y).toBe(0)
+    strips.slice(1).forEach((strip, i) => expect(strip.y).toBe(strips[i]!.y + strips[i]!.rows))
+    expect(strips.reduce((rows, strip) => rows + strip.rows, 0)).toBe(1000)
+    expect(Math.max(...strips.map((s) => s.rows)) - Math.min(...strips.map((s) => s.rows))).toBeLessThanOrEqual(1)
+  })
+
+  it('keeps strips at least minRows tall', () => {
+    expect(planStrips(100, 8, 64)).toEqual([{ y: 0, rows: 100 }])
+    expect(planStrips(200, 8, 64)).toHaveLength(3)
+  })
+})
+
+describe('strip-parallel processing', () => {
+  it('reassembles pixels and light levels identical to a single pass', async () => {
+    const image = makeImage(5, 300)
+    const alpha = { mode: 'keep' } as const
+    const expectedLevel = createContentLightLevel()
+    const expected = processPixels(image, 6, DEFAULT_LOOK_CONTROLS, undefined, { contentLightLevel: expectedLevel, alpha })
+
+    const posted: StripWorkerRequest[] = []
+    const pool = createStripPool(3, () => createFakePort(posted))
+    const strips = planStrips(image.height, 6, 32)
+    const tasks = strips.map((strip) => ({
+      ...sliceStrip(image, strip),
+      boost: 6,
+      lookControls: DEFAULT_LOOK_CONTROLS,
+      transferFunction: 'pq' as const,
+      alpha,
+    }))
+    const results = await pool.run(1, tasks)
+
+    const level = createContentLightLevel()
+    const out = assembleStrips(results!, strips, image.width, 4, new Uint16Array(expected.length), level)
+    expect(posted).toHaveLength(6)
+    expect(out).toEqual(expected)
+    expect(level.maxCLL).toBeCloseTo(expectedLevel.maxCLL, 6)
+    expect(level.maxFALL).toBeCloseTo(expectedLevel.maxFALL, 6)
+  })
+
+  it('filters local contrast across strip boundaries with halo rows', async () => {
+    const image = makeImage(5, 300)
+    const lookControls = { ...DEFAULT_LOOK_CONTROLS, clarity: 0.4 }
+    const expected = processPixels(image, 4, lookControls)
+
+    const posted: StripWorkerRequest[] = []
+    const pool = createStripPool(2, () => createFakePort(posted))
+    const strips = planStrips(image.height, 4, 32)
+    const radius = localContrastRadius(image.width, image.height)
+    const tasks = strips.map((strip) => ({
+      ...sliceStrip(image, strip, radius),
+      boost: 4,
+      lookControls,
+      transferFunction: 'pq' as const,
+    }))
+    const results = await pool.run(1, tasks)
+
+    expect(posted[0]?.halo).toEqual({ top: 0, bottom: 2 * radius, localContrastRadius: radius })
+    expect(assembleStrips(results!, strips, image.width, 3, new Uint16Array(expected.length))).toEqual(expected)
+  })
+
+  it('reports the fraction of strips finished', async () => {
+    const pool = createStripPool(2, () => createFakePort([]))
+    const image = makeImage(2, 64)
+    const tasks = planStrips(64, 4, 8).map((strip) => ({
+      ...sliceStrip(image, strip),
+      boost: 1,
+      lookControls: DEFAULT_LOOK_CONTROLS,
+      transferFunction: 'pq' as const,
+    }))
+    const onProgress = vi.fn()
+    await pool.run(1, tasks, onProgress)
+
+    expect(onProgress.mock.calls.map(([fraction]) => fraction)).toEqual([0.25, 0.5, 0.75, 1])
+  })
+
+  it('drops queued strips and resolves null when cancelled', async () => {
+    const posted: StripWorkerRequest[] = []
+    const pool = createStripPool(2, () => createFakePort(posted))
+    const image = makeImage(2, 64)
+    const tasks = planStrips(64, 8, 8).map((strip) => ({
+      ...sliceStrip(image, strip),
+      boost: 1,
+      lookControls: DEFAULT_LOOK_CONTROLS,
+      transferFunction: 'pq' as const,
+    }))
+
+    const pending = pool.run(9, tasks)
+    pool.cancel(9)
+
+    await expect(pending).resolves.toBeNull()
+    await new Promise((resolve) => setTimeout(resolve, 5))
+    expect(posted).toHaveLength(2)
+  })
+
+  it('rejects pending runs when a strip worker crashes', async () => {
+    const ports: StripWorkerPort[] = []
+    const pool = createStripPool(1, () => {
+      const port = createFakePort([])
+      const answer = port.postMessage.bind(port)
+      // Answers its first strip, then swallows the rest.
+      port.postMessage = (message) => {
+        port.postMessage = () => {}
+        answer(message)
+      }
+      ports.push(port)
+      return port
+    })
+    const image = makeImage(2, 4)
+    const pending = pool.run(
+      3,
+      planStrips(4, 2, 2).map((strip) => ({
+        ...sliceStrip(image, strip),
+        boost: 1,
+        lookControls: DEFAULT_LOOK_CONTROLS,
+        transferFunction: 'pq' as const,
+      })),
+    )
+
+    await new Promise((resolve) => setTimeout(resolve, 5))
+    ports[0]?.onerror?.({ preventDefault: () => {} } as ErrorEvent)
+    const error = await pending.catch((caught: unknown) => caught)
+    expect(error).toEqual(new Error('Strip worker crashed'))
+    expect(isStripWorkerStartError(error)).toBe(false)
+  })
+
+  it('reports a worker that errors before answering as a start failure', async () => {
+    const ports: StripWorkerPort[] = []
+    const pool = createStripPool(2, () => {
+      const port = createFakePort([])
+      port.postMessage = () => {}
+      ports.push(port)
+      return port
+    })
+    const image = makeImage(2, 4)
+    const pending = pool.run(3, [
+      { ...sliceStrip(image, { y: 0, rows: 2 }), boost: 1, lookControls: DEFAULT_LOOK_CONTROLS, transferFunction: 'pq' },
+    ])
+
+    ports[0]?.onerror?.({ preventDefault: () => {} } as ErrorEvent)
+    const error = await pending.catch((caught: unknown) => caught)
+    expect(isStripWorkerStartError(error)).toBe(true)
+  })
+
+  it('reports a worker that cannot be constructed as a start failure', async () => {
+    const pool = createStripPool(2, () => {
+      throw new Error('Nested workers are not supported')
+    })
+    const image = makeImage(2, 4)
+    const error = await pool
+      .run(3, [{ ...sliceStrip(image, { y: 0, rows: 2 }), boost: 1, lookControls: DEFAULT_LOOK_CONTROLS, transferFunction: 'pq' }])
+      .catch((caught: unknown) => caught)
+
+    expect(isStripWorkerStartError(error)).toBe(true)
+  })
+
+  it('replaces a crashed worker so later runs still finish', async () => {
+    const ports: StripWorkerPort[] = []
+    const pool = createStripPool(1, () => {
+      const port = createFakePort([])
+      // The first worker answers one strip, swallows the next and then dies.
+      if (ports.length === 0) {
+        const answer = port.postMessage.bind(port)
+        port.postMessage = (message) => {
+          port.postMessage = () => {}
+          answer(message)
+        }
+      }
+      ports.push(port)
+      return port
+    })
+    const image = makeImage(2, 4)
+    const task = () => ({
+      ...sliceStrip(image, { y: 0, rows: 2 }),
+      boost: 1,
+      lookControls: DEFAULT_LOOK_CONTROLS,
+      transferFunction: 'pq' as const,
+    })
+    await expect(pool.run(2, [task()])).resolves.toHaveLength(1)
+    const crashed = pool.run(3, [task()])
+    ports[0]?.onerror?.({ preventDefault: () => {} } as ErrorEvent)
+    await expect(crashed).rejects.toThrow('Strip worker crashed')
+
+    await expect(pool.run(4, [task()])).resolves.toHaveLength(1)
+    expect(ports).toHaveLength(2)
+    expect(ports[0]?.terminate).toHaveBeenCalled()
+  })
+})
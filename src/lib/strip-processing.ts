@@ -0,0 +1,323 @@
+/**
+ * Strip-parallel export processing
+ *
+ * `processPixels` is per-pixel, so an image can be cut into horizontal strips,
+ * graded on several workers at once, and stitched back together with output
+ * identical to a single pass. Only the content light level needs merging:
+ * MaxCLL is the largest strip value, MaxFALL the pixel-weighted mean. Local
+ * contrast is the one spatial step; strips carry halo rows of neighbouring
+ * source for it, and drop them again after filtering.
+ *
+ * The pool hands out strips as workers free up, so cancelling a request drops
+ * every strip still queued for it; strips already in flight finish and are
+ * discarded.
+ */
+
+import { createContentLightLevel, type ContentLightLevel } from './hdr-metadata'
+import { computeLocalContrastGains, localContrastHaloRows } from './local-contrast'
+import { processPixels, type PixelBufferLike, type ProcessPixelsOptions } from './pq'
+import type { StripHalo, StripWorkerRequest, StripWorkerResponse, StripWorkerSuccessResponse } from './worker-protocol'
+
+// Cap on strip workers regardless of core count; past this, PNG encoding dominates.
+const MAX_STRIP_WORKERS = 8
+// More strips than workers keeps cores busy when strips finish unevenly.
+export const STRIPS_PER_WORKER = 4
+// Below this many rows per strip, messaging overhead outweighs the parallelism.
+export const MIN_STRIP_ROWS = 64
+const STRIP_WORKER_START_FAILED = 'STRIP_WORKER_START_FAILED'
+
+export interface StripBounds {
+  y: number
+  rows: number
+}
+
+export type StripTask = Omit<StripWorkerRequest, 'taskId'>
+
+export type StripResult = Omit<StripWorkerSuccessResponse, 'taskId' | 'ok'>
+
+/** Minimal worker surface the pool needs; a real `Worker` satisfies it. */
+export interface StripWorkerPort {
+  postMessage(message: StripWorkerRequest, transfer: Transferable[]): void
+  onmessage: ((event: MessageEvent<StripWorkerResponse>) => void) | null
+  onerror: ((event: ErrorEvent) => void) | null
+  terminate(): void
+}
+
+export interface StripPool {
+  readonly size: number
+  /**
+   * Resolves with results in strip order, or null if the request was
+   * cancelled. `onProgress` receives the fraction of strips finished.
+   * Rejects with an error `isStripWorkerStartError` recognizes when a strip
+   * worker could not start at all.
+   */
+  run(requestId: number, tasks: StripTask[], onProgress?: (fraction: number) => void): Promise<StripResult[] | null>
+  cancel(requestId: number): void
+  terminate(): void
+}
+
+function stripWorkerStartError(): Error {
+  const error = new Error('Strip worker failed to start') as Error & { code?: string }
+  error.code = STRIP_WORKER_START_FAILED
+  return error
+}
+
+/**
+ * True for a pool rejection caused by a strip worker that never started
+ * (nested workers unsupported, blocked by CSP), rather than a failing strip.
+ */
+export function isStripWorkerStartError(error: unknown): boolean {
+  return (error as { code?: string } | null)?.code === STRIP_WORKER_START_FAILED
+}
+
+/**
+ * Strip workers to use alongside the export worker, leaving one core for the
+ * page. Returns 0 when a pool would not help.
+ */
+export function stripWorkerCount(hardwareConcurrency: number | undefined): number {
+  const cores = Number.isInteger(hardwareConcurrency) ? Number(hardwareConcurrency) : 1
+  const count = Math.min(MAX_STRIP_WORKERS, cores - 1)
+  return count >= 2 ? count : 0
+}
+
+/** Split `height` rows into at most `count` contiguous strips of near-equal size. */
+export function planStrips(height: number, count: number, minRows = MIN_STRIP_ROWS): StripBounds[] {
+  const stripCount = Math.max(1, Math.min(count, Math.floor(height / minRows)))
+  const strips: StripBounds[] = []
+  for (let i = 0; i < stripCount; i++) {
+    const y = Math.round((i * height) / stripCount)
+    const end = Math.round(((i + 1) * height) / stripCount)
+    strips.push({ y, rows: end - y })
+  }
+  return strips
+}
+
+/**
+ * Copy one strip of RGBA8 source rows (the cached source must not be
+ * transferred away). With `localContrastRadius`, the copy also takes the
+ * halo rows the local contrast filter needs, clipped at the image edges.
+ */
+export function sliceStrip(
+  imageData: PixelBufferLike,
+  strip: StripBounds,
+  localContrastRadius?: number,
+): PixelBufferLike & { halo?: StripHalo } {
+  const rowBytes = imageData.width * 4
+  const haloRows = localContrastRadius !== undefined ? localContrastHaloRows(localContrastRadius) : 0
+  const top = Math.min(haloRows, strip.y)
+  const bottom = Math.min(haloRows, imageData.height - strip.y - strip.rows)
+  return {
+    data: imageData.data.slice((strip.y - top) * rowBytes, (strip.y + strip.rows + bottom) * rowBytes),
+    width: imageData.width,
+    height: strip.rows + top + bottom,
+    ...(localContrastRadius !== undefined ? { halo: { top, bottom, localContrastRadius } } : {}),
+  }
+}
+
+/**
+ * Copy strip outputs into `out` in order and merge their light levels into
+ * `contentLightLevel`.
+ */
+export function assembleStrips(
+  results: StripResult[],
+  strips: StripBounds[],
+  width: number,
+  channels: 3 | 4,
+  out: Uint16Array,
+  contentLightLevel?: ContentLightLevel,
+): Uint16Array {
+  let maxCLL = 0
+  let fallSum = 0
+  let pixelCount = 0
+  strips.forEach((strip, i) => {
+    const result = results[i]
+    if (!result) return
+    out.set(result.pixels, strip.y * width * channels)
+    const stripPixels = strip.rows * width
+    maxCLL = Math.max(maxCLL, result.contentLightLevel.maxCLL)
+    fallSum += result.contentLightLevel.maxFALL * stripPixels
+    pixelCount += stripPixels
+  })
+
+  if (contentLightLevel) {
+    contentLightLevel.maxCLL = maxCLL
+    contentLightLevel.maxFALL = pixelCount > 0 ? fallSum / pixelCount : 0
+  }
+  return out
+}
+
+/** Filter local contrast over the strip and its halo, then keep only the strip's own rows. */
+function trimStripHalo(request: StripWorkerRequest): { image: PixelBufferLike; options: Pick<ProcessPixelsOptions, 'localContrastGains'> } {
+  const { halo, width } = request
+  if (!halo) return { image: request, options: {} }
+  const rows = request.height - halo.top - halo.bottom
+  const gains = computeLocalContrastGains(request, request.lookControls, request.alpha, halo.localContrastRadius)
+  return {
+    image: { data: request.data.subarray(halo.top * width * 4, (halo.top + rows) * width * 4), width, height: rows },
+    options: gains ? { localContrastGains: gains.subarray(halo.top * width, (halo.top + rows) * width) } : {},
+  }
+}
+
+/** Strip worker body: grade one strip and report its light level. */
+export function processStripRequest(request: StripWorkerRequest): StripWorkerResponse {
+  try {
+    const contentLightLevel = createContentLightLevel()
+    const { image, options } = trimStripHalo(request)
+    const pixels = processPixels(image, request.boost, request.lookControls, undefined, {
+      ...options,
+      contentLightLevel,
+      transferFunction: request.transferFunction,
+      ...(request.alpha ? { alpha: request.alpha } : {}),
+      ...(request.upConversion ? { upConversion: request.upConversion } : {}),
+      ...(request.targetPeakNits !== undefined ? { targetPeakNits: request.targetPeakNits } : {}),
+      ...(request.colorLut ? { colorLut: request.colorLut } : {}),
+      ...(request.toneCurve ? { toneCurve: request.toneCurve } : {}),
+      ...(request.gamutMapping ? { gamutMapping: request.gamutMapping } : {}),
+      ...(request.gamutVolume ? { gamutVolume: request.gamutVolume } : {}),
+      ...(request.ablLimiter ? { ablLimiter: request.ablLimiter } : {}),
+      ...(request.bloomLayer ? { bloomLayer: request.bloomLayer } : {}),
+      ...(request.caption ? { caption: request.caption } : {}),
+    })
+    return { taskId: request.taskId, ok: true, pixels, contentLightLevel }
+  } catch (error) {
+    return { taskId: request.taskId, ok: false, error: error instanceof Error ? error.message : String(error) }
+  }
+}
+
+interface StripJob {
+  requestId: number
+  results: StripResult[]
+  remaining: number
+  onProgress: ((fraction: number) => void) | undefined
+  resolve: (results: StripResult[] | null) => void
+  reject: (error: Error) => void
+}
+
+interface QueuedStrip {
+  job: StripJob
+  index: number
+  task: StripTask
+}
+
+export function createStripPool(size: number, spawn: () => StripWorkerPort): StripPool {
+  const ports: StripWorkerPort[] = []
+  const idlePorts: StripWorkerPort[] = []
+  const queue: QueuedStrip[] = []
+  const jobs = new Map<number, StripJob>()
+  const inFlight = new Map<number, { job: StripJob; index: number }>()
+  let nextTaskId = 1
+
+  const isActive = (job: StripJob) => jobs.get(job.requestId) === job
+
+  const finishJob = (job: StripJob) => {
+    if (isActive(job)) jobs.delete(job.requestId)
+    for (let i = queue.length - 1; i >= 0; i--) {
+      if (queue[i]?.job === job) queue.splice(i, 1)
+    }
+  }
+
+  const failAll = (error: Error) => {
+    const failed = new Set(jobs.values())
+    jobs.clear()
+    queue.length = 0
+    inFlight.clear()
+    for (const job of failed) job.reject(error)
+  }
+
+  // Ports that have answered at least once; an error before that means the worker never started.
+  const startedPorts = new WeakSet<StripWorkerPort>()
+
+  const spawnPort = (): StripWorkerPort => {
+    const port = spawn()
+    port.onmessage = (event) => {
+      startedPorts.add(port)
+      const message = event.data
+      const flight = inFlight.get(message.taskId)
+      inFlight.delete(message.taskId)
+      idlePorts.push(port)
+
+      if (flight && isActive(flight.job)) {
+        const { job, index } = flight
+        if (message.ok) {
+          job.results[index] = { pixels: message.pixels, contentLightLevel: message.contentLightLevel }
+          job.remaining--
+          job.onProgress?.(1 - job.remaining / job.results.length)
+          if (job.remaining === 0) {
+            finishJob(job)
+            job.resolve(job.results)
+          }
+        } else {
+          finishJob(job)
+          job.reject(new Error(message.error || 'Strip processing failed'))
+        }
+      }
+      pump()
+    }
+    port.onerror = (event) => {
+      event.preventDefault()
+      // Drop the dead worker so the next task spawns a replacement.
+      port.terminate()
+      ports.splice(ports.indexOf(port), 1)
+      const idleIndex = idlePorts.indexOf(port)
+      if (idleIndex !== -1) idlePorts.splice(idleIndex, 1)
+      failAll(startedPorts.has(port) ? new Error('Strip worker crashed') : stripWorkerStartError())
+    }
+    ports.push(port)
+    return port
+  }
+
+  const acquirePort = (): StripWorkerPort | undefined => {
+    const idle = idlePorts.pop()
+    if (idle || ports.length >= size) return idle
+    try {
+      return spawnPort()
+    } catch {
+      failAll(stripWorkerStartError())
+      return undefined
+    }
+  }
+
+  const pump = () => {
+    for (let next = queue[0]; next; next = queue[0]) {
+      const port = acquirePort()
+      if (!port) return
+      queue.shift()
+      const { job, index, task } = next
+      const taskId = nextTaskId++
+      inFlight.set(taskId, { job, index })
+      port.postMessage({ ...task, taskId }, [task.data.buffer])
+    }
+  }
+
+  return {
+    size,
+    run(requestId, tasks, onProgress) {
+      if (tasks.length === 0) return Promise.resolve([])
+      return new Promise((resolve, reject) => {
+        const job: StripJob = {
+          requestId,
+          results: new Array<StripResult>(tasks.length),
+          remaining: tasks.length,
+          onProgress,
+          resolve,
+          reject,
+        }
+        jobs.set(requestId, job)
+        tasks.forEach((task, index) => queue.push({ job, index, task }))
+        pump()
+      })
+    },
+    cancel(requestId) {
+      const job = jobs.get(requestId)
+      if (!job) return
+      finishJob(job)
+      job.resolve(null)
+    },
+    terminate() {
+      failAll(new Error('Strip pool terminated'))
+      for (const port of ports) port.terminate()
+      ports.length = 0
+      idlePorts.length = 0
+    },
+  }
+}
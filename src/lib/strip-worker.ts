@@ -0,0 +1,13 @@
+import type { StripWorkerRequest } from './worker-protocol'
+import { processStripRequest } from './strip-processing'
+
+if (typeof self !== 'undefined') {
+  self.onmessage = (event: MessageEvent<StripWorkerRequest>) => {
+    const response = processStripRequest(event.data)
+    if (response.ok) {
+      self.postMessage(response, { transfer: [response.pixels.buffer] })
+      return
+    }
+    self.postMessage(response)
+  }
+}
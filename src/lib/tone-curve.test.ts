@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest'
+import {
+  applyToneCurve,
+  bakeToneCurve,
+  DEFAULT_TONE_CURVE,
+  normalizeCurvePoints,
+  normalizeToneCurve,
+  sampleCurve,
+  TONE_CURVE_MAX_POINTS,
+  type ToneCurve,
+} from './tone-curve'
+import type { RGBTuple } from './bt2020-grading'
+
+function apply(curve: ToneCurve, rgb: RGBTuple): RGBTuple {
+  const tables = bakeToneCurve(curve)
+  const out: RGBTuple = [...rgb]
+  if (tables) applyToneCurve(tables, out)
+  return out
+}
+
+describe('normalizeCurvePoints', () => {
+  it('clamps, sorts, merges close points and adds missing end points', () => {
+    const points = normalizeCurvePoints([{ x: 0.7, y: 1.4 }, { x: 0.3, y: 0.2 }, { x: 0.31, y: 0.9 }, { x: Number.NaN, y: 0.5 }, 'bogus'])
+    expect(points).toEqual([
+      { x: 0, y: 0 },
+      { x: 0.3, y: 0.2 },
+      { x: 0.7, y: 1 },
+      { x: 1, y: 1 },
+    ])
+  })
+
+  it('keeps at most the maximum number of points, end points included', () => {
+    const many = Array.from({ length: 30 }, (_, i) => ({ x: i / 29, y: i / 29 }))
+    const points = normalizeCurvePoints(many)
+    expect(points).toHaveLength(TONE_CURVE_MAX_POINTS)
+    expect(points[0]).toEqual({ x: 0, y: 0 })
+    expect(points[points.length - 1]).toEqual({ x: 1, y: 1 })
+  })
+
+  it('fills missing channels with the identity', () => {
+    expect(normalizeToneCurve({ luma: [{ x: 0.5, y: 0.6 }] }).red).toEqual(DEFAULT_TONE_CURVE.red)
+    expect(normalizeToneCurve(null)).toEqual(DEFAULT_TONE_CURVE)
+  })
+})
+
+describe('sampleCurve', () => {
+  it('passes through every control point without overshooting between them', () => {
+    const points = normalizeCurvePoints([
+      { x: 0.1, y: 0 },
+      { x: 0.5, y: 0.5 },
+      { x: 0.6, y: 1 },
+    ])
+    const xs = Array.from({ length: 101 }, (_, i) => i / 100)
+    const ys = sampleCurve(points, xs)
+    for (const point of points) expect(sampleCurve(points, [point.x])[0]).toBeCloseTo(point.y, 6)
+    // A pinned toe stays at black instead of dipping and clipping.
+    for (let i = 0; i <= 10; i++) expect(ys[i]).toBe(0)
+    for (let i = 1; i < ys.length; i++) expect(ys[i]!).toBeGreaterThanOrEqual(ys[i - 1]!)
+  })
+})
+
+describe('applyToneCurve', () => {
+  it('bakes the identity to nothing', () => {
+    expect(bakeToneCurve(DEFAULT_TONE_CURVE)).toBeNull()
+  })
+
+  it('darkens shadows and brightens highlights with an S-curve, keeping hue', () => {
+    const curve = {
+      ...DEFAULT_TONE_CURVE,
+      luma: normalizeCurvePoints([
+        { x: 0.25, y: 0.18 },
+        { x: 0.75, y: 0.82 },
+      ]),
+    }
+    const shadow = apply(curve, [0.04, 0.03, 0.02])
+    const highlight = apply(curve, [0.6, 0.5, 0.4])
+    expect(shadow[1]).toBeLessThan(0.03)
+    expect(highlight[1]).toBeGreaterThan(0.5)
+    expect(shadow[0] / shadow[2]).toBeCloseTo(2, 6)
+    expect(highlight[0] / highlight[2]).toBeCloseTo(1.5, 6)
+  })
+
+  it('tints with a single channel curve and continues above SDR white', () => {
+    const curve = { ...DEFAULT_TONE_CURVE, blue: normalizeCurvePoints([{ x: 0.5, y: 0.6 }]) }
+    const grey = apply(curve, [0.2, 0.2, 0.2])
+    expect(grey[0]).toBe(0.2)
+    expect(grey[1]).toBe(0.2)
+    expect(grey[2]).toBeGreaterThan(0.2)
+    expect(apply(curve, [1.5, 1.5, 1.5])[2]).toBeCloseTo(1.5, 5)
+  })
+})
@@ -0,0 +1,229 @@
+/**
+ * Tone curve: a luma curve plus per-channel red, green and blue curves,
+ * each defined by control points on the SDR source range.
+ *
+ * Both axes are sRGB-encoded, so the editor's grid is perceptually even and
+ * a toe point near black acts on shadows the way it looks. Points are joined
+ * by a monotone cubic (Fritsch–Carlson): the curve never overshoots between
+ * points, so pinning the toe keeps blacks from lifting or clipping. Each
+ * curve is baked into a table once per grade; the luma curve scales RGB
+ * together so hue is kept, the channel curves then act on their own channel.
+ *
+ * Curves apply to the source before the HDR expansion, like the imported
+ * LUT, so the preview and export see the same shape. Values above SDR white
+ * keep the slope-1 continuation of the curve's end point.
+ */
+
+import { srgbEncode, srgbEOTF } from './pq-transfer'
+import type { RGBTuple } from './bt2020-grading'
+
+export interface CurvePoint {
+  x: number
+  y: number
+}
+
+export type CurveChannel = 'luma' | 'red' | 'green' | 'blue'
+
+export const CURVE_CHANNELS: readonly CurveChannel[] = ['luma', 'red', 'green', 'blue']
+
+export const CURVE_CHANNEL_LABELS: Record<CurveChannel, string> = {
+  luma: 'Luma',
+  red: 'Red',
+  green: 'Green',
+  blue: 'Blue',
+}
+
+export type ToneCurve = Record<CurveChannel, CurvePoint[]>
+
+export const IDENTITY_CURVE: readonly CurvePoint[] = [
+  { x: 0, y: 0 },
+  { x: 1, y: 1 },
+]
+
+export const DEFAULT_TONE_CURVE: ToneCurve = {
+  luma: [...IDENTITY_CURVE],
+  red: [...IDENTITY_CURVE],
+  green: [...IDENTITY_CURVE],
+  blue: [...IDENTITY_CURVE],
+}
+
+export const TONE_CURVE_MAX_POINTS = 12
+// Control points closer than this along x are merged into one.
+export const CURVE_MIN_POINT_GAP = 0.02
+
+const TABLE_SIZE = 1024
+
+/** Baked curves in linear light; null tables are identity and skipped. */
+export interface ToneCurveTables {
+  luma: Float32Array | null
+  red: Float32Array | null
+  green: Float32Array | null
+  blue: Float32Array | null
+}
+
+// BT.2020 luma weights; repeated here because bt2020-grading imports this module.
+const LUMA = [0.2627, 0.678, 0.0593] as const
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value))
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+export function isIdentityCurve(points: readonly CurvePoint[]): boolean {
+  return points.every((point) => point.x === point.y)
+}
+
+export function isDefaultToneCurve(curve: ToneCurve): boolean {
+  return CURVE_CHANNELS.every((channel) => isIdentityCurve(curve[channel]))
+}
+
+/**
+ * Sanitize control points: finite values clamped to 0–1, sorted by x,
+ * points closer than the minimum gap merged, end points at x = 0 and 1
+ * added when missing, and at most `TONE_CURVE_MAX_POINTS` kept.
+ */
+export function normalizeCurvePoints(input: unknown): CurvePoint[] {
+  const points = (Array.isArray(input) ? input : [])
+    .filter((point): point is CurvePoint => isRecord(point) && Number.isFinite(point.x) && Number.isFinite(point.y))
+    .map((point) => ({ x: clamp01(point.x), y: clamp01(point.y) }))
+    .sort((a, b) => a.x - b.x)
+
+  const merged: CurvePoint[] = []
+  for (const point of points) {
+    const previous = merged[merged.length - 1]
+    if (previous && point.x - previous.x < CURVE_MIN_POINT_GAP) {
+      // Keep an end point over an interior one at the same place.
+      if (point.x === 1) merged[merged.length - 1] = point
+      continue
+    }
+    merged.push(point)
+  }
+
+  if (merged[0]?.x !== 0) merged.unshift({ x: 0, y: 0 })
+  if (merged[merged.length - 1]?.x !== 1) merged.push({ x: 1, y: 1 })
+  if (merged.length > TONE_CURVE_MAX_POINTS) merged.splice(TONE_CURVE_MAX_POINTS - 1, merged.length - TONE_CURVE_MAX_POINTS)
+  return merged
+}
+
+export function normalizeToneCurve(input: unknown): ToneCurve {
+  const raw = isRecord(input) ? input : {}
+  return {
+    luma: normalizeCurvePoints(raw.luma ?? IDENTITY_CURVE),
+    red: normalizeCurvePoints(raw.red ?? IDENTITY_CURVE),
+    green: normalizeCurvePoints(raw.green ?? IDENTITY_CURVE),
+    blue: normalizeCurvePoints(raw.blue ?? IDENTITY_CURVE),
+  }
+}
+
+/** Fritsch–Carlson tangents: secant averages, zeroed at extrema and limited so no segment overshoots. */
+function monotoneTangents(points: readonly CurvePoint[]): number[] {
+  const count = points.length
+  const secants: number[] = []
+  let previous: CurvePoint | undefined
+  for (const point of points) {
+    if (previous) secants.push((point.y - previous.y) / (point.x - previous.x))
+    previous = point
+  }
+
+  const tangents: number[] = []
+  for (let i = 0; i < count; i++) {
+    const before = secants[i - 1]
+    const after = secants[i]
+    if (before === undefined) tangents.push(after ?? 0)
+    else if (after === undefined) tangents.push(before)
+    else tangents.push(before * after <= 0 ? 0 : (before + after) / 2)
+  }
+
+  for (let i = 0; i < count - 1; i++) {
+    const secant = secants[i] ?? 0
+    if (secant === 0) {
+      tangents[i] = 0
+      tangents[i + 1] = 0
+      continue
+    }
+    const alpha = (tangents[i] ?? 0) / secant
+    const beta = (tangents[i + 1] ?? 0) / secant
+    const magnitude = alpha * alpha + beta * beta
+    if (magnitude > 9) {
+      const scale = 3 / Math.sqrt(magnitude)
+      tangents[i] = scale * alpha * secant
+      tangents[i + 1] = scale * beta * secant
+    }
+  }
+  return tangents
+}
+
+/** Sample a normalized curve at each x in `xs` (both in encoded 0–1 units). */
+export function sampleCurve(points: readonly CurvePoint[], xs: readonly number[]): number[] {
+  const tangents = monotoneTangents(points)
+  let segment = 0
+  return xs.map((rawX) => {
+    const x = clamp01(rawX)
+    while (segment > 0 && x < (points[segment]?.x ?? 0)) segment--
+    while (segment < points.length - 2 && x > (points[segment + 1]?.x ?? 1)) segment++
+    const a = points[segment]
+    if (!a) return x
+    const b = points[segment + 1] ?? a
+    const h = b.x - a.x
+    if (h <= 0) return a.y
+    const t = (x - a.x) / h
+    const t2 = t * t
+    const t3 = t2 * t
+    const y =
+      (2 * t3 - 3 * t2 + 1) * a.y +
+      (t3 - 2 * t2 + t) * h * (tangents[segment] ?? 0) +
+      (-2 * t3 + 3 * t2) * b.y +
+      (t3 - t2) * h * (tangents[segment + 1] ?? 0)
+    return clamp01(y)
+  })
+}
+
+/** Encoded-in → linear-out table for one curve, or null when it is the identity. */
+function bakeCurve(points: readonly CurvePoint[]): Float32Array | null {
+  if (isIdentityCurve(points)) return null
+  const xs = Array.from({ length: TABLE_SIZE }, (_, i) => i / (TABLE_SIZE - 1))
+  return Float32Array.from(sampleCurve(points, xs), srgbEOTF)
+}
+
+/** Bake every curve of `curve` for grading. Null when all four are the identity. */
+export function bakeToneCurve(curve: ToneCurve): ToneCurveTables | null {
+  if (isDefaultToneCurve(curve)) return null
+  return {
+    luma: bakeCurve(curve.luma),
+    red: bakeCurve(curve.red),
+    green: bakeCurve(curve.green),
+    blue: bakeCurve(curve.blue),
+  }
+}
+
+function lookup(table: Float32Array, linear: number): number {
+  if (linear <= 0) return linear
+  const last = TABLE_SIZE - 1
+  // Above SDR white the curve continues from its end point with slope 1.
+  if (linear >= 1) return (table[last] ?? 1) + (linear - 1)
+  const x = srgbEncode(linear) * last
+  const i = Math.min(Math.floor(x), last - 1)
+  const t = x - i
+  const a = table[i] ?? 0
+  const b = table[i + 1] ?? 0
+  return a + (b - a) * t
+}
+
+/** Apply baked curves in place to SDR-relative linear RGB. */
+export function applyToneCurve(tables: ToneCurveTables, rgb: RGBTuple): void {
+  if (tables.luma) {
+    const y = LUMA[0] * rgb[0] + LUMA[1] * rgb[1] + LUMA[2] * rgb[2]
+    if (y > 0) {
+      const scale = lookup(tables.luma, y) / y
+      rgb[0] *= scale
+      rgb[1] *= scale
+      rgb[2] *= scale
+    }
+  }
+  if (tables.red) rgb[0] = lookup(tables.red, rgb[0])
+  if (tables.green) rgb[1] = lookup(tables.green, rgb[1])
+  if (tables.blue) rgb[2] = lookup(tables.blue, rgb[2])
+}
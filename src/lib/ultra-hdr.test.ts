@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest'
+import { JPEG_MARKER_APP1, JPEG_MARKER_APP2, readJPEGSegments } from './encode-jpeg'
+import { PQ_MAX_NITS, SDR_DIFFUSE_WHITE_NITS } from './hdr-boost'
+import { pqEncode } from './pq-transfer'
+import { computeGainMap, encodeUltraHDR } from './ultra-hdr'
+
+const OFFSET = 1 / 64
+const textDecoder = new TextDecoder()
+
+// Neutral pixels: SDR white everywhere, HDR at `relative` × SDR white.
+function renditions(width: number, height: number, relativeAt: (x: number, y: number) => number) {
+  const sdr = new Uint8ClampedArray(width * height * 4).fill(255)
+  const hdr = new Uint16Array(width * height * 3)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const code = Math.round(pqEncode((relativeAt(x, y) * SDR_DIFFUSE_WHITE_NITS) / PQ_MAX_NITS) * 65535)
+      hdr.fill(code, (y * width + x) * 3, (y * width + x) * 3 + 3)
+    }
+  }
+  return { sdr, hdr }
+}
+
+function xmpOf(jpeg: Uint8Array): string {
+  const segment = readJPEGSegments(jpeg).find((s) => s.marker === JPEG_MARKER_APP1)
+  return textDecoder.decode(segment?.payload)
+}
+
+function hasISOSegment(jpeg: Uint8Array): boolean {
+  return readJPEGSegments(jpeg).some(
+    (s) => s.marker === JPEG_MARKER_APP2 && textDecoder.decode(s.payload).startsWith('urn:iso:std:iso:ts:21496:-1'),
+  )
+}
+
+describe('computeGainMap', () => {
+  it('stores block-averaged log2 HDR/SDR ratios normalized to the measured range', () => {
+    const { sdr, hdr } = renditions(10, 4, (x) => (x < 4 ? 1 : 4))
+    const map = computeGainMap(10, 4, sdr, hdr, 4)
+
+    expect(map.width).toBe(3)
+    expect(map.height).toBe(1)
+    expect(map.metadata.gainMapMin).toBeCloseTo(0, 2)
+    expect(map.metadata.gainMapMax).toBeCloseTo(Math.log2((4 + OFFSET) / (1 + OFFSET)), 2)
+    expect([...map.pixels]).toEqual([0, 255, 255])
+  })
+
+  it('keeps a non-empty range for images without any HDR headroom', () => {
+    const { sdr, hdr } = renditions(4, 4, () => 1)
+    const { metadata } = computeGainMap(4, 4, sdr, hdr, 4)
+    expect(metadata.gainMapMax).toBeGreaterThan(metadata.gainMapMin)
+  })
+})
+
+describe('encodeUltraHDR', () => {
+  const width = 24
+  const height = 16
+  const { sdr, hdr } = renditions(width, height, (x, y) => 1 + ((x + y) % 8))
+  const file = encodeUltraHDR(width, height, sdr, hdr)
+
+  function mpfEntries() {
+    const mpf = readJPEGSegments(file).find(
+      (s) => s.marker === JPEG_MARKER_APP2 && textDecoder.decode(s.payload.subarray(0, 4)) === 'MPF\0',
+    )
+    if (!mpf) throw new Error('MPF segment missing')
+    const tiffHeader = mpf.offset + 8
+    const view = new DataView(mpf.payload.buffer, mpf.payload.byteOffset + 4)
+    const count = view.getUint32(10 + 2 * 12 + 4)
+    const entriesOffset = view.getUint32(10 + 2 * 12 + 8)
+    expect(count).toBe(32)
+    return [0, 1].map((i) => ({
+      size: view.getUint32(entriesOffset + i * 16 + 4),
+      offset: view.getUint32(entriesOffset + i * 16 + 8),
+      tiffHeader,
+    }))
+  }
+
+  it('appends a gain map JPEG that the MPF index and XMP directory both locate', () => {
+    const [primary, gainMap] = mpfEntries()
+    expect(primary?.offset).toBe(0)
+    const gainMapStart = primary!.size
+    expect(gainMap!.tiffHeader + gainMap!.offset).toBe(gainMapStart)
+    expect(gainMapStart + gainMap!.size).toBe(file.length)
+    expect([...file.subarray(gainMapStart, gainMapStart + 2)]).toEqual([0xff, 0xd8])
+    expect(xmpOf(file)).toContain(`Item:Semantic="GainMap" Item:Mime="image/jpeg" Item:Length="${gainMap!.size}"`)
+  })
+
+  it('signals hdrgm and ISO 21496-1 metadata on both images', () => {
+    const gainMapJPEG = file.subarray(mpfEntries()[0]!.size)
+    expect(xmpOf(file)).toContain('hdrgm:Version="1.0"')
+    expect(xmpOf(gainMapJPEG)).toMatch(/hdrgm:GainMapMax="[12]\.\d+"/)
+    expect(hasISOSegment(file)).toBe(true)
+    expect(hasISOSegment(gainMapJPEG)).toBe(true)
+  })
+
+  it('writes the gain map at a quarter of the primary resolution', () => {
+    const gainMapJPEG = file.subarray(mpfEntries()[0]!.size)
+    const sof = readJPEGSegments(gainMapJPEG).find((s) => s.marker === 0xc0)
+    const view = new DataView(sof!.payload.buffer, sof!.payload.byteOffset)
+    expect([view.getUint16(3), view.getUint16(1), sof!.payload[5]]).toEqual([width / 4, height / 4, 1])
+  })
+})
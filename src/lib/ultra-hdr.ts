@@ -0,0 +1,334 @@
+/**
+ * Ultra HDR (gain-map) JPEG assembly
+ *
+ * An Ultra HDR file is two JPEGs back to back:
+ *   1. the primary image — an ordinary SDR JPEG every viewer can show
+ *   2. a grayscale gain map — per-pixel log2(HDR / SDR) luminance ratios
+ *
+ * HDR-aware viewers scale the SDR rendition by the gain map (as far as the
+ * display has headroom); everything else just shows the primary image.
+ * Three containers tie the pair together:
+ *   - XMP (`hdrgm` + Google Container) — the original Android/Adobe signalling
+ *   - ISO 21496-1 APP2 — the standardized binary form of the same metadata
+ *   - MPF APP2 (CIPA DC-007) — byte offsets of both images in the file
+ *
+ * Ultra HDR spec: https://developer.android.com/media/platform/hdr-image-format
+ */
+
+import { BT2020_LUMA } from './bt2020-grading'
+import { encodeJPEG, JPEG_MARKER_APP1, JPEG_MARKER_APP2, makeJPEGSegment, readJPEGSegments } from './encode-jpeg'
+import { PQ_MAX_NITS, SDR_DIFFUSE_WHITE_NITS } from './hdr-boost'
+import { pqDecode, srgbEOTF } from './pq-transfer'
+
+const textEncoder = new TextEncoder()
+
+const DEFAULT_PRIMARY_QUALITY = 90
+const DEFAULT_GAIN_MAP_QUALITY = 85
+// Gain maps are smooth, so a quarter-resolution map is the usual trade-off.
+const DEFAULT_GAIN_MAP_SCALE = 4
+// Offsets keep the ratio finite in black areas (Ultra HDR's recommended 1/64).
+const GAIN_MAP_OFFSET = 1 / 64
+// Smallest log2 range we signal, so a flat gain map still decodes to a valid curve.
+const MIN_GAIN_RANGE = 1 / 256
+const ISO_DENOMINATOR = 1_000_000
+// Rough share of the work done before the primary JPEG: the gain map and its small JPEG.
+const GAIN_MAP_PROGRESS_SHARE = 0.25
+
+const XMP_NAMESPACE = 'http://ns.adobe.com/xap/1.0/\0'
+const ISO_21496_NAMESPACE = 'urn:iso:std:iso:ts:21496:-1\0'
+const MPF_IDENTIFIER = 'MPF\0'
+
+const BT709_LUMA = [0.2126, 0.7152, 0.0722] as const
+
+/** Gain-map parameters, log2 values as in the `hdrgm` XMP namespace. */
+export interface GainMapMetadata {
+  gainMapMin: number
+  gainMapMax: number
+  gamma: number
+  offsetSdr: number
+  offsetHdr: number
+  hdrCapacityMin: number
+  hdrCapacityMax: number
+}
+
+export interface GainMap {
+  width: number
+  height: number
+  pixels: Uint8Array
+  metadata: GainMapMetadata
+}
+
+export interface EncodeUltraHDROptions {
+  quality?: number
+  gainMapQuality?: number
+  /** Gain map downscale factor per axis. */
+  gainMapScale?: number
+  /** Called with the overall fraction done as the gain map and primary image are encoded. */
+  onProgress?: (fraction: number) => void
+}
+
+let pqNitsLUT: Float32Array | null = null
+let srgbLinearLUT: Float32Array | null = null
+
+// PQ code value → linear light relative to SDR diffuse white.
+function getPQRelativeLUT(): Float32Array {
+  if (!pqNitsLUT) {
+    pqNitsLUT = new Float32Array(65536)
+    for (let code = 0; code < 65536; code++) pqNitsLUT[code] = (pqDecode(code / 65535) * PQ_MAX_NITS) / SDR_DIFFUSE_WHITE_NITS
+  }
+  return pqNitsLUT
+}
+
+function getSRGBLinearLUT(): Float32Array {
+  if (!srgbLinearLUT) {
+    srgbLinearLUT = new Float32Array(256)
+    for (let code = 0; code < 256; code++) srgbLinearLUT[code] = srgbEOTF(code / 255)
+  }
+  return srgbLinearLUT
+}
+
+/**
+ * Derive a single-channel gain map from the two renditions of one image.
+ *
+ * `sdrRGBA` is the sRGB preview output (RGBA8); `hdrPQ` is the PQ-encoded
+ * BT.2020 RGB16 export. Both are reduced to luminance in linear light (SDR
+ * white = 1.0), and each gain-map pixel stores the mean log2 ratio over its
+ * block, normalized to the measured min/max range.
+ */
+export function computeGainMap(
+  width: number,
+  height: number,
+  sdrRGBA: Uint8ClampedArray,
+  hdrPQ: Uint16Array,
+  scale = DEFAULT_GAIN_MAP_SCALE,
+): GainMap {
+  const pqRelative = getPQRelativeLUT()
+  const srgbLinear = getSRGBLinearLUT()
+  const mapWidth = Math.max(1, Math.ceil(width / scale))
+  const mapHeight = Math.max(1, Math.ceil(height / scale))
+  const logSums = new Float64Array(mapWidth * mapHeight)
+  const counts = new Uint32Array(mapWidth * mapHeight)
+
+  for (let y = 0; y < height; y++) {
+    const rowCell = Math.floor(y / scale) * mapWidth
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x
+      const hi = i * 3
+      const si = i * 4
+      const yHdr =
+        BT2020_LUMA[0] * (pqRelative[hdrPQ[hi] ?? 0] ?? 0) +
+        BT2020_LUMA[1] * (pqRelative[hdrPQ[hi + 1] ?? 0] ?? 0) +
+        BT2020_LUMA[2] * (pqRelative[hdrPQ[hi + 2] ?? 0] ?? 0)
+      const ySdr =
+        BT709_LUMA[0] * (srgbLinear[sdrRGBA[si] ?? 0] ?? 0) +
+        BT709_LUMA[1] * (srgbLinear[sdrRGBA[si + 1] ?? 0] ?? 0) +
+        BT709_LUMA[2] * (srgbLinear[sdrRGBA[si + 2] ?? 0] ?? 0)
+      const cell = rowCell + Math.floor(x / scale)
+      logSums[cell] = (logSums[cell] ?? 0) + Math.log2((yHdr + GAIN_MAP_OFFSET) / (ySdr + GAIN_MAP_OFFSET))
+      counts[cell] = (counts[cell] ?? 0) + 1
+    }
+  }
+
+  let minLog = Infinity
+  let maxLog = -Infinity
+  for (let cell = 0; cell < logSums.length; cell++) {
+    const mean = (logSums[cell] ?? 0) / Math.max(1, counts[cell] ?? 0)
+    logSums[cell] = mean
+    if (mean < minLog) minLog = mean
+    if (mean > maxLog) maxLog = mean
+  }
+
+  const gainMapMin = minLog
+  const gainMapMax = Math.max(maxLog, gainMapMin + MIN_GAIN_RANGE)
+  const range = gainMapMax - gainMapMin
+
+  const pixels = new Uint8Array(mapWidth * mapHeight)
+  for (let cell = 0; cell < pixels.length; cell++) {
+    pixels[cell] = Math.round((((logSums[cell] ?? 0) - gainMapMin) / range) * 255)
+  }
+
+  return {
+    width: mapWidth,
+    height: mapHeight,
+    pixels,
+    metadata: {
+      gainMapMin,
+      gainMapMax,
+      gamma: 1,
+      offsetSdr: GAIN_MAP_OFFSET,
+      offsetHdr: GAIN_MAP_OFFSET,
+      hdrCapacityMin: 0,
+      hdrCapacityMax: Math.max(gainMapMax, MIN_GAIN_RANGE),
+    },
+  }
+}
+
+function formatXMPNumber(value: number): string {
+  return Number(value.toFixed(6)).toString()
+}
+
+function makeXMPSegment(xmp: string): Uint8Array {
+  return makeJPEGSegment(JPEG_MARKER_APP1, textEncoder.encode(XMP_NAMESPACE + xmp))
+}
+
+function wrapXMP(description: string): string {
+  return [
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    description,
+    '</rdf:RDF>',
+    '</x:xmpmeta>',
+  ].join('\n')
+}
+
+function primaryXMP(gainMapLength: number): string {
+  return wrapXMP(
+    [
+      '<rdf:Description rdf:about=""',
+      ' xmlns:Container="http://ns.google.com/photos/1.0/container/"',
+      ' xmlns:Item="http://ns.google.com/photos/1.0/container/item/"',
+      ' xmlns:hdrgm="http://ns.adobe.com/hdr-gain-map/1.0/"',
+      ' hdrgm:Version="1.0">',
+      '<Container:Directory><rdf:Seq>',
+      '<rdf:li rdf:parseType="Resource"><Container:Item Item:Semantic="Primary" Item:Mime="image/jpeg"/></rdf:li>',
+      `<rdf:li rdf:parseType="Resource"><Container:Item Item:Semantic="GainMap" Item:Mime="image/jpeg" Item:Length="${gainMapLength}"/></rdf:li>`,
+      '</rdf:Seq></Container:Directory>',
+      '</rdf:Description>',
+    ].join('\n'),
+  )
+}
+
+function gainMapXMP(metadata: GainMapMetadata): string {
+  return wrapXMP(
+    [
+      '<rdf:Description rdf:about=""',
+      ' xmlns:hdrgm="http://ns.adobe.com/hdr-gain-map/1.0/"',
+      ' hdrgm:Version="1.0"',
+      ` hdrgm:GainMapMin="${formatXMPNumber(metadata.gainMapMin)}"`,
+      ` hdrgm:GainMapMax="${formatXMPNumber(metadata.gainMapMax)}"`,
+      ` hdrgm:Gamma="${formatXMPNumber(metadata.gamma)}"`,
+      ` hdrgm:OffsetSDR="${formatXMPNumber(metadata.offsetSdr)}"`,
+      ` hdrgm:OffsetHDR="${formatXMPNumber(metadata.offsetHdr)}"`,
+      ` hdrgm:HDRCapacityMin="${formatXMPNumber(metadata.hdrCapacityMin)}"`,
+      ` hdrgm:HDRCapacityMax="${formatXMPNumber(metadata.hdrCapacityMax)}"`,
+      ' hdrgm:BaseRenditionIsHDR="False"/>',
+    ].join('\n'),
+  )
+}
+
+/**
+ * ISO 21496-1 APP2 payload. The primary image carries only the version
+ * fields; the gain map carries the full metadata with a common denominator.
+ */
+function makeISOSegment(metadata?: GainMapMetadata): Uint8Array {
+  const namespace = textEncoder.encode(ISO_21496_NAMESPACE)
+  const bodyLength = metadata ? 4 + 1 + 12 + 20 : 4
+  const payload = new Uint8Array(namespace.length + bodyLength)
+  payload.set(namespace)
+  const view = new DataView(payload.buffer, namespace.length)
+  view.setUint16(0, 0) // minimum version
+  view.setUint16(2, 0) // writer version
+  if (metadata) {
+    const n = (value: number) => Math.round(value * ISO_DENOMINATOR)
+    // Flags: use base color space (0x40), common denominator (0x08); single channel, forward direction.
+    view.setUint8(4, 0x40 | 0x08)
+    view.setUint32(5, ISO_DENOMINATOR)
+    view.setUint32(9, n(metadata.hdrCapacityMin)) // base HDR headroom
+    view.setUint32(13, n(metadata.hdrCapacityMax)) // alternate HDR headroom
+    view.setInt32(17, n(metadata.gainMapMin))
+    view.setInt32(21, n(metadata.gainMapMax))
+    view.setUint32(25, n(metadata.gamma))
+    view.setInt32(29, n(metadata.offsetSdr))
+    view.setInt32(33, n(metadata.offsetHdr))
+  }
+  return makeJPEGSegment(JPEG_MARKER_APP2, payload)
+}
+
+const MPF_ENTRY_PRIMARY = 0x030000 // baseline MP primary image
+const MPF_PAYLOAD_LENGTH = 4 + 8 + 2 + 3 * 12 + 4 + 2 * 16
+// From the TIFF header: 8-byte header, then the IFD (count + three entries + next-IFD offset).
+const MPF_ENTRIES_OFFSET = 8 + 2 + 3 * 12 + 4
+
+/**
+ * MPF APP2 segment (big-endian TIFF layout). Offsets are relative to the
+ * TIFF header that follows the "MPF\0" identifier; the primary's offset is 0
+ * by definition.
+ */
+function makeMPFSegment(primaryLength: number, gainMapLength: number, gainMapOffset: number): Uint8Array {
+  const payload = new Uint8Array(MPF_PAYLOAD_LENGTH)
+  payload.set(textEncoder.encode(MPF_IDENTIFIER))
+  const view = new DataView(payload.buffer, 4)
+  view.setUint16(0, 0x4d4d) // "MM": big-endian
+  view.setUint16(2, 0x002a)
+  view.setUint32(4, 8) // first IFD offset
+
+  view.setUint16(8, 3) // entry count
+  const entry = (index: number, tag: number, type: number, count: number, value: number) => {
+    const o = 10 + index * 12
+    view.setUint16(o, tag)
+    view.setUint16(o + 2, type)
+    view.setUint32(o + 4, count)
+    view.setUint32(o + 8, value)
+  }
+  entry(0, 0xb000, 7, 4, 0x30313030) // MPFVersion "0100"
+  entry(1, 0xb001, 4, 1, 2) // NumberOfImages
+  entry(2, 0xb002, 7, 2 * 16, MPF_ENTRIES_OFFSET) // MPEntry
+  view.setUint32(46, 0) // no next IFD
+
+  const images: [attribute: number, size: number, offset: number][] = [
+    [MPF_ENTRY_PRIMARY, primaryLength, 0],
+    [0, gainMapLength, gainMapOffset],
+  ]
+  images.forEach(([attribute, size, offset], i) => {
+    const o = MPF_ENTRIES_OFFSET + i * 16
+    view.setUint32(o, attribute)
+    view.setUint32(o + 4, size)
+    view.setUint32(o + 8, offset)
+    view.setUint16(o + 12, 0) // dependent image 1
+    view.setUint16(o + 14, 0) // dependent image 2
+  })
+
+  return makeJPEGSegment(JPEG_MARKER_APP2, payload)
+}
+
+function isMPFSegment(payload: Uint8Array): boolean {
+  return payload[0] === 0x4d && payload[1] === 0x50 && payload[2] === 0x46 && payload[3] === 0
+}
+
+/**
+ * Encode an Ultra HDR JPEG from the SDR and HDR renditions of one image.
+ */
+export function encodeUltraHDR(
+  width: number,
+  height: number,
+  sdrRGBA: Uint8ClampedArray,
+  hdrPQ: Uint16Array,
+  options: EncodeUltraHDROptions = {},
+): Uint8Array {
+  const { onProgress } = options
+  const gainMap = computeGainMap(width, height, sdrRGBA, hdrPQ, options.gainMapScale)
+  const gainMapJPEG = encodeJPEG(gainMap.width, gainMap.height, gainMap.pixels, 1, {
+    quality: options.gainMapQuality ?? DEFAULT_GAIN_MAP_QUALITY,
+    appSegments: [makeXMPSegment(gainMapXMP(gainMap.metadata)), makeISOSegment(gainMap.metadata)],
+  })
+  onProgress?.(GAIN_MAP_PROGRESS_SHARE)
+
+  // Encode with a zeroed MPF segment first: its size is fixed, so the final
+  // offsets are known once the primary's length is.
+  const primary = encodeJPEG(width, height, sdrRGBA, 4, {
+    quality: options.quality ?? DEFAULT_PRIMARY_QUALITY,
+    appSegments: [makeXMPSegment(primaryXMP(gainMapJPEG.length)), makeISOSegment(), makeMPFSegment(0, 0, 0)],
+    ...(onProgress
+      ? { onProgress: (fraction: number) => onProgress(GAIN_MAP_PROGRESS_SHARE + (1 - GAIN_MAP_PROGRESS_SHARE) * fraction) }
+      : {}),
+  })
+  const mpf = readJPEGSegments(primary).find((segment) => segment.marker === JPEG_MARKER_APP2 && isMPFSegment(segment.payload))
+  if (!mpf) throw new Error('MPF segment missing from primary image')
+  const tiffHeaderOffset = mpf.offset + 4 + MPF_IDENTIFIER.length
+  primary.set(makeMPFSegment(primary.length, gainMapJPEG.length, primary.length - tiffHeaderOffset), mpf.offset)
+
+  const out = new Uint8Array(primary.length + gainMapJPEG.length)
+  out.set(primary)
+  out.set(gainMapJPEG, primary.length)
+  return out
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest'
+import {
+  BT2408_REFERENCE_WHITE_NITS,
+  bt2408ReferenceWhite,
+  bt2446MethodAInverse,
+  bt2446MethodCInverse,
+  upConversionCurve,
+  upConversionWhiteNits,
+  UP_CONVERSION_METHODS,
+} from './up-conversion'
+import { boostToTargetNits } from './hdr-boost'
+
+describe('BT.2408 reference white', () => {
+  it('maps SDR white to 203 nits and scales linearly below it', () => {
+    expect(bt2408ReferenceWhite(1)).toBe(BT2408_REFERENCE_WHITE_NITS)
+    expect(bt2408ReferenceWhite(0.5)).toBeCloseTo(101.5, 6)
+    expect(bt2408ReferenceWhite(0)).toBe(0)
+  })
+})
+
+describe('BT.2446 Method A inverse', () => {
+  it('maps full-scale SDR signal to the 1000-nit peak', () => {
+    expect(bt2446MethodAInverse(1)).toBeCloseTo(1000, 0)
+  })
+
+  it('joins the two exponent branches at Y″ = 70', () => {
+    const lumaAtThreshold = Math.pow(70 / 255, 2.4)
+    const below = bt2446MethodAInverse(lumaAtThreshold * (1 - 1e-9))
+    const at = bt2446MethodAInverse(lumaAtThreshold)
+    expect(Math.abs(below - at)).toBeLessThan(0.5)
+    // Published exponent at the threshold is ≈1.2145, putting it near 174 nits.
+    expect(at).toBeCloseTo(174, -1)
+  })
+
+  it('is monotonic and clips super-whites at the peak', () => {
+    let previous = 0
+    for (let i = 1; i <= 64; i++) {
+      const nits = bt2446MethodAInverse(i / 64)
+      expect(nits).toBeGreaterThan(previous)
+      previous = nits
+    }
+    expect(bt2446MethodAInverse(1.5)).toBeCloseTo(bt2446MethodAInverse(1), 9)
+  })
+})
+
+describe('BT.2446 Method C inverse', () => {
+  it('is linear with slope 1/k1 below the inflection point', () => {
+    expect(bt2446MethodCInverse(0.3)).toBeCloseTo(30 / 0.83802, 6)
+  })
+
+  it('is continuous at the published inflection point (58.535 → 69.85 cd/m²)', () => {
+    const inflection = 0.58535046646
+    expect(bt2446MethodCInverse(inflection)).toBeCloseTo(69.85, 2)
+    expect(bt2446MethodCInverse(inflection - 1e-9)).toBeCloseTo(bt2446MethodCInverse(inflection), 4)
+  })
+
+  it('expands SDR white above the BT.2408 reference white', () => {
+    const white = bt2446MethodCInverse(1)
+    expect(white).toBeGreaterThan(BT2408_REFERENCE_WHITE_NITS)
+    expect(white).toBeLessThan(1000)
+  })
+})
+
+describe('upConversionCurve', () => {
+  it('has no curve for the Boost method', () => {
+    expect(upConversionCurve('boost')).toBeNull()
+  })
+
+  it('returns PQ-normalized curves that agree with the white level', () => {
+    for (const method of UP_CONVERSION_METHODS) {
+      const curve = upConversionCurve(method)
+      const white = upConversionWhiteNits(method, 5)
+      if (!curve) {
+        expect(white).toBe(boostToTargetNits(5))
+        continue
+      }
+      expect(curve(1) * 10000).toBeCloseTo(white, 6)
+    }
+  })
+})
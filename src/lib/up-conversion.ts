@@ -0,0 +1,99 @@
+/**
+ * SDR → HDR up-conversion methods.
+ *   - boost:   the converter's own curve; SDR white lands wherever the Boost
+ *              slider puts it (100–10000 nits)
+ *   - bt2408:  ITU-R BT.2408 display-light mapping; SDR white sits at the
+ *              203-nit HDR reference white and nothing is expanded
+ *   - bt2446a: ITU-R BT.2446 Method A inverse tone mapping; SDR white expands
+ *              to a 1000-nit peak through the published polynomial exponent
+ *   - bt2446c: ITU-R BT.2446 Method C inverse tone mapping; linear below the
+ *              inflection point, exponential above it
+ *
+ * The standards methods ignore Boost and the specular controls: their output
+ * is fixed by the recommendation. Both BT.2446 inverses are applied to
+ * luminance only and scale RGB by the luminance ratio, so hue is preserved;
+ * Method C's optional chroma crosstalk matrix is not applied.
+ */
+
+import { boostToTargetNits, PQ_MAX_NITS } from './hdr-boost'
+
+export type UpConversionMethod = 'boost' | 'bt2408' | 'bt2446a' | 'bt2446c'
+
+export const UP_CONVERSION_METHODS: readonly UpConversionMethod[] = ['boost', 'bt2408', 'bt2446a', 'bt2446c']
+export const DEFAULT_UP_CONVERSION_METHOD: UpConversionMethod = 'boost'
+
+export const UP_CONVERSION_LABELS: Record<UpConversionMethod, string> = {
+  boost: 'Boost',
+  bt2408: 'BT.2408',
+  bt2446a: 'BT.2446 A',
+  bt2446c: 'BT.2446 C',
+}
+
+/** Maps SDR-relative linear luminance (1.0 = SDR white) to absolute luminance in nits. */
+export type UpConversionCurve = (sdrLuma: number) => number
+
+export const BT2408_REFERENCE_WHITE_NITS = 203
+
+// BT.1886 display gamma used to recover the SDR signal the BT.2446 curves expect.
+const SDR_DISPLAY_GAMMA = 2.4
+
+// BT.2446 Method A inverse: exponent polynomial over the 8-bit-scaled luma signal.
+const METHOD_A_SIGNAL_SCALE = 255
+const METHOD_A_BRANCH_THRESHOLD = 70
+const METHOD_A_LOW = [1.8712e-5, -2.7334e-3, 1.3141] as const
+const METHOD_A_HIGH = [2.8305e-6, -7.4622e-4, 1.2528] as const
+
+// BT.2446 Method C: SDR luminance in cd/m² with 100 = SDR white.
+const METHOD_C_SDR_WHITE_NITS = 100
+const METHOD_C_K1 = 0.83802
+const METHOD_C_K2 = 15.09968
+const METHOD_C_K3 = 0.74204
+const METHOD_C_K4 = 78.99439
+const METHOD_C_SDR_INFLECTION = 58.535046646
+const METHOD_C_HDR_INFLECTION = METHOD_C_SDR_INFLECTION / METHOD_C_K1
+
+export function bt2408ReferenceWhite(sdrLuma: number): number {
+  return Math.max(0, sdrLuma) * BT2408_REFERENCE_WHITE_NITS
+}
+
+export function bt2446MethodAInverse(sdrLuma: number): number {
+  if (sdrLuma <= 0) return 0
+  // The polynomial is only published up to full-scale signal; super-whites clip there.
+  const signal = Math.min(Math.pow(sdrLuma, 1 / SDR_DISPLAY_GAMMA), 1) * METHOD_A_SIGNAL_SCALE
+  const [a, b, c] = signal <= METHOD_A_BRANCH_THRESHOLD ? METHOD_A_LOW : METHOD_A_HIGH
+  const exponent = a * signal * signal + b * signal + c
+  return Math.pow(signal, exponent)
+}
+
+export function bt2446MethodCInverse(sdrLuma: number): number {
+  const ySdr = Math.max(0, sdrLuma) * METHOD_C_SDR_WHITE_NITS
+  if (ySdr < METHOD_C_SDR_INFLECTION) return ySdr / METHOD_C_K1
+  return METHOD_C_HDR_INFLECTION * (Math.exp((ySdr - METHOD_C_K4) / METHOD_C_K2) + METHOD_C_K3)
+}
+
+const UP_CONVERSION_CURVES: Record<Exclude<UpConversionMethod, 'boost'>, UpConversionCurve> = {
+  bt2408: bt2408ReferenceWhite,
+  bt2446a: bt2446MethodAInverse,
+  bt2446c: bt2446MethodCInverse,
+}
+
+/**
+ * Grading curve for `method` in the pipeline's PQ-normalized units
+ * (1.0 = 10000 nits), or null for the Boost method, which uses a flat gain.
+ */
+export function upConversionCurve(method: UpConversionMethod): UpConversionCurve | null {
+  if (method === 'boost') return null
+  const curve = UP_CONVERSION_CURVES[method]
+  return (sdrLuma) => curve(sdrLuma) / PQ_MAX_NITS
+}
+
+/** Where SDR white lands, in nits. */
+export function upConversionWhiteNits(method: UpConversionMethod, boost: number): number {
+  if (method === 'boost') return boostToTargetNits(boost)
+  return UP_CONVERSION_CURVES[method](1)
+}
+
+/** SDR white in PQ-normalized units; the tone controls use it as their reference peak. */
+export function upConversionWhiteGain(method: UpConversionMethod, boost: number): number {
+  return upConversionWhiteNits(method, boost) / PQ_MAX_NITS
+}
@@ -1,6 +1,24 @@
 import type { ConversionStats } from './perf-types'
 import type { CompressionBackend } from './encode-png'
 import type { LookControls } from './look-controls'
+import type { AlphaMode } from './alpha-handling'
+import type { TransferFunction } from './pq-transfer'
+import type { ExportFormat } from './export-format'
+import type { ProcessAlpha } from './alpha-handling'
+import type { ContentLightLevel } from './hdr-metadata'
+import type { ExportStage } from './export-progress'
+import type { UpConversionMethod } from './up-conversion'
+import type { AblLimiter, AblReport } from './abl-limiter'
+import type { BloomLayer } from './bloom'
+import type { ColorLutSettings } from './color-lut'
+import type { ToneCurve } from './tone-curve'
+import type { GamutMapping, GamutVolume } from './gamut-mapping'
+import type { AutoLook, ImageAnalysis } from './auto-look'
+import type { CaptionLayer, CaptionSettings } from './caption'
+import type { ScopeData } from './scopes'
+import type { PNGInspection } from './png-inspect'
+
+export type PreviewOutput = 'sdr-rgba' | 'hdr-png' | 'false-color'
 
 export interface WorkerConvertRequest {
   type: 'convert'
@@ -8,7 +26,27 @@ export interface WorkerConvertRequest {
   boost: number
   gamma?: number
   lookControls?: Partial<LookControls>
+  alphaMode?: AlphaMode
+  flattenColor?: string
+  transferFunction?: TransferFunction
+  upConversion?: UpConversionMethod
+  /** Peak of the display to fit the grade into, in nits (BT.2390 EETF). Omitted means no roll-off. */
+  targetPeakNits?: number
+  /** OLED frame-average light budget in nits (ABL limiter). Omitted means no limiting. */
+  fallBudgetNits?: number
+  /** Imported .cube LUT applied before the HDR expansion. Omitted means none. */
+  colorLut?: ColorLutSettings
+  /** Control-point tone curve applied after the LUT. Omitted means linear. */
+  toneCurve?: ToneCurve
+  /** Out-of-gamut handling. Omitted means a per-channel clip. */
+  gamutMapping?: GamutMapping
+  /** Output volume inside the BT.2020 container; `p3` also sets P3 mastering primaries. Omitted means BT.2020. */
+  gamutVolume?: GamutVolume
+  /** Text overlay at its own nits level, rasterized in the worker. Omitted means none. */
+  caption?: CaptionSettings
+  outputFormat?: ExportFormat
   collectStats?: boolean
+  imageId?: number
   idatCompressionLevel?: number
   compressionBackend?: CompressionBackend
   file?: Blob
@@ -22,8 +60,32 @@ export interface WorkerPreviewRequest {
   id: number
   boost: number
   lookControls?: Partial<LookControls>
-  output?: 'sdr-rgba' | 'hdr-png'
+  alphaMode?: AlphaMode
+  flattenColor?: string
+  transferFunction?: TransferFunction
+  upConversion?: UpConversionMethod
+  targetPeakNits?: number
+  fallBudgetNits?: number
+  colorLut?: ColorLutSettings
+  toneCurve?: ToneCurve
+  gamutMapping?: GamutMapping
+  gamutVolume?: GamutVolume
+  caption?: CaptionSettings
+  /** `false-color` returns RGBA pixels painted by the export grade's luminance bands. */
+  output?: PreviewOutput
   previewMaxLongEdge?: number
+  imageId?: number
+  file?: Blob
+  pixels?: Uint8ClampedArray
+  width?: number
+  height?: number
+}
+
+/** Measures the decoded source for the Auto look; shares the image cache with previews. */
+export interface WorkerAnalyzeRequest {
+  type: 'analyze'
+  id: number
+  imageId?: number
   file?: Blob
   pixels?: Uint8ClampedArray
   width?: number
@@ -35,14 +97,28 @@ export interface WorkerCancelRequest {
   id: number
 }
 
-export type WorkerRequestMessage = WorkerConvertRequest | WorkerPreviewRequest | WorkerCancelRequest
+/** Drops the decoded source (and its preview copy) cached under `imageId`. */
+export interface WorkerReleaseImageRequest {
+  type: 'release'
+  imageId: number
+}
+
+export type WorkerRequestMessage =
+  | WorkerConvertRequest
+  | WorkerPreviewRequest
+  | WorkerAnalyzeRequest
+  | WorkerCancelRequest
+  | WorkerReleaseImageRequest
 
 export interface WorkerSuccessResponse {
   type: 'result'
   id: number
   ok: true
-  pngData: Uint8Array
+  format: ExportFormat
+  fileData: Uint8Array
   stats?: ConversionStats
+  /** Present when `fallBudgetNits` was requested. */
+  abl?: AblReport
 }
 
 export interface WorkerErrorResponse {
@@ -60,6 +136,9 @@ export interface WorkerPreviewPixelsSuccessResponse {
   width: number
   height: number
   pixels: Uint8ClampedArray
+  abl?: AblReport
+  /** Scopes of the export grade at preview size, whichever output the preview uses. */
+  scopes: ScopeData
 }
 
 export interface WorkerPreviewPngSuccessResponse {
@@ -69,6 +148,8 @@ export interface WorkerPreviewPngSuccessResponse {
   width: number
   height: number
   pngData: Uint8Array
+  abl?: AblReport
+  scopes: ScopeData
 }
 
 export type WorkerPreviewSuccessResponse = WorkerPreviewPixelsSuccessResponse | WorkerPreviewPngSuccessResponse
@@ -81,4 +162,96 @@ export interface WorkerPreviewErrorResponse {
   code?: 'DECODE_UNSUPPORTED' | 'BAD_INPUT' | 'INTERNAL'
 }
 
-export type WorkerResponseMessage = WorkerSuccessResponse | WorkerErrorResponse | WorkerPreviewSuccessResponse | WorkerPreviewErrorResponse
+export interface WorkerAnalyzeSuccessResponse {
+  type: 'analyze-result'
+  id: number
+  ok: true
+  analysis: ImageAnalysis
+  suggestion: AutoLook
+}
+
+export interface WorkerAnalyzeErrorResponse {
+  type: 'analyze-result'
+  id: number
+  ok: false
+  error: string
+  code?: 'DECODE_UNSUPPORTED' | 'BAD_INPUT' | 'INTERNAL'
+}
+
+/** Non-terminal update for a convert request; any number may precede its `result`. */
+export interface WorkerProgressResponse {
+  type: 'progress'
+  id: number
+  stage: ExportStage
+  fraction: number
+}
+
+export type WorkerResponseMessage =
+  | WorkerSuccessResponse
+  | WorkerErrorResponse
+  | WorkerPreviewSuccessResponse
+  | WorkerPreviewErrorResponse
+  | WorkerAnalyzeSuccessResponse
+  | WorkerAnalyzeErrorResponse
+  | WorkerProgressResponse
+
+/**
+ * Export worker → strip worker messages. Each task grades and encodes one
+ * horizontal band of the image; `taskId` is unique per strip, not per request.
+ */
+export interface StripWorkerRequest {
+  taskId: number
+  data: Uint8ClampedArray
+  width: number
+  height: number
+  boost: number
+  lookControls: LookControls
+  alpha?: ProcessAlpha
+  transferFunction: TransferFunction
+  upConversion?: UpConversionMethod
+  targetPeakNits?: number
+  colorLut?: ColorLutSettings
+  toneCurve?: ToneCurve
+  gamutMapping?: GamutMapping
+  gamutVolume?: GamutVolume
+  /** The whole image's limiter, with `rowOffset` set to this strip's first row. */
+  ablLimiter?: AblLimiter
+  /** The whole image's Bloom layer, with `rowOffset` set to this strip's first row. */
+  bloomLayer?: BloomLayer
+  /** The whole image's caption, with `rowOffset` set to this strip's first row. */
+  caption?: CaptionLayer
+  /**
+   * Rows of neighbouring source included above and below the strip so its
+   * local contrast matches a whole-image pass; they are not output.
+   */
+  halo?: StripHalo
+}
+
+export interface StripHalo {
+  top: number
+  bottom: number
+  /** The whole image's local contrast radius. */
+  localContrastRadius: number
+}
+
+export interface StripWorkerSuccessResponse {
+  taskId: number
+  ok: true
+  pixels: Uint16Array
+  contentLightLevel: ContentLightLevel
+}
+
+export interface StripWorkerErrorResponse {
+  taskId: number
+  ok: false
+  error: string
+}
+
+export type StripWorkerResponse = StripWorkerSuccessResponse | StripWorkerErrorResponse
+
+/** Inspector page → inspect worker: one file per worker, read and inspected off the main thread. */
+export interface InspectWorkerRequest {
+  file: Blob
+}
+
+export type InspectWorkerResponse = { ok: true; report: PNGInspection } | { ok: false; error: string }
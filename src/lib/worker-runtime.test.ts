@@ -1,14 +1,31 @@
 import { describe, expect, it, vi } from 'vitest'
 
-const { encodePNGMock } = vi.hoisted(() => ({
+const { encodePNGMock, rasterizeCaptionMock } = vi.hoisted(() => ({
   encodePNGMock: vi.fn(async () => new Uint8Array([1, 2, 3, 4])),
+  rasterizeCaptionMock: vi.fn(),
 }))
 
 vi.mock('./encode-png', () => ({
   encodePNG: encodePNGMock,
 }))
 
+// Node has no OffscreenCanvas; stand in a solid box for the rasterized text.
+vi.mock('./caption-raster', () => ({
+  supportsCaptionRaster: () => true,
+  rasterizeCaption: rasterizeCaptionMock,
+}))
+
 import { WorkerRuntime, validateWorkerRequest } from './worker-runtime'
+import { normalizeLookControls } from './look-controls'
+import { parseCubeLut } from './color-lut'
+import { DEFAULT_TONE_CURVE } from './tone-curve'
+import type { SupernovaRecipe } from './recipe'
+import { processPixels } from './pq'
+import { createStripPool, processStripRequest, type StripPool } from './strip-processing'
+import type { StripWorkerRequest } from './worker-protocol'
+import { DEFAULT_CAPTION, type CaptionLayer } from './caption'
+import type { ScopeData } from './scopes'
+import { FALSE_COLOR_BANDS } from './false-color'
 
 describe('validateWorkerRequest', () => {
   it('rejects unknown request types', () => {
@@ -19,6 +36,16 @@ describe('validateWorkerRequest', () => {
     expect(() => validateWorkerRequest({ type: 'cancel', id: 0 })).toThrow('Cancel request id must be a positive integer')
   })
 
+  it('rejects invalid image ids on release and processing requests', () => {
+    expect(() => validateWorkerRequest({ type: 'release', imageId: -1 })).toThrow('Release request imageId must be a positive integer')
+    expect(() => validateWorkerRequest({ type: 'preview', id: 1, boost: 1, imageId: 1.5 })).toThrow('imageId must be a positive integer')
+  })
+
+  it('accepts source-less requests that name a cached image', () => {
+    expect(() => validateWorkerRequest({ type: 'convert', id: 1, boost: 1, imageId: 4 })).not.toThrow()
+    expect(() => validateWorkerRequest({ type: 'convert', id: 1, boost: 1 })).toThrow('Missing pixel buffer fallback payload')
+  })
+
   it('rejects malformed convert payloads', () => {
     expect(() =>
       validateWorkerRequest({
@@ -57,7 +84,7 @@ describe('validateWorkerRequest', () => {
         width: 1,
         height: 1,
       }),
-    ).toThrow('preview output must be either sdr-rgba or hdr-png')
+    ).toThrow('preview output must be one of sdr-rgba, hdr-png, false-color')
   })
 
   it('rejects convert requests with invalid gamma', () => {
@@ -74,6 +101,39 @@ describe('validateWorkerRequest', () => {
     ).toThrow('Gamma must be a finite positive number')
   })
 
+  it('rejects unknown alpha modes and malformed flatten colors', () => {
+    const payload = { id: 9, boost: 1, pixels: new Uint8ClampedArray([255, 255, 255, 255]), width: 1, height: 1 }
+    expect(() => validateWorkerRequest({ type: 'convert', ...payload, alphaMode: 'premultiply' as never })).toThrow(
+      'alphaMode must be either keep or flatten',
+    )
+    expect(() => validateWorkerRequest({ type: 'preview', ...payload, alphaMode: 'flatten', flattenColor: 'white' })).toThrow(
+      'flattenColor must be a #rrggbb hex color',
+    )
+  })
+
+  it('rejects unknown output formats', () => {
+    const payload = { id: 11, boost: 1, pixels: new Uint8ClampedArray([255, 255, 255, 255]), width: 1, height: 1 }
+    expect(() => validateWorkerRequest({ type: 'convert', ...payload, outputFormat: 'webp' as never })).toThrow(
+      'outputFormat must be either png or jpeg',
+    )
+  })
+
+  it('rejects unknown transfer functions', () => {
+    const payload = { id: 10, boost: 1, pixels: new Uint8ClampedArray([255, 255, 255, 255]), width: 1, height: 1 }
+    expect(() => validateWorkerRequest({ type: 'convert', ...payload, transferFunction: 'gamma22' as never })).toThrow(
+      'transferFunction must be either pq or hlg',
+    )
+    expect(() => validateWorkerRequest({ type: 'preview', ...payload, transferFunction: 'hlg' })).not.toThrow()
+  })
+
+  it('rejects unknown up-conversion methods', () => {
+    const payload = { id: 12, boost: 1, pixels: new Uint8ClampedArray([255, 255, 255, 255]), width: 1, height: 1 }
+    expect(() => validateWorkerRequest({ type: 'convert', ...payload, upConversion: 'bt2446b' as never })).toThrow(
+      'upConversion must be one of boost, bt2408, bt2446a, bt2446c',
+    )
+    expect(() => validateWorkerRequest({ type: 'preview', ...payload, upConversion: 'bt2446c' })).not.toThrow()
+  })
+
   it('rejects convert requests with invalid compression level/backend', () => {
     expect(() =>
       validateWorkerRequest({
@@ -118,11 +178,288 @@ describe('WorkerRuntime', () => {
     expect(response?.type).toBe('result')
     expect(response && response.ok).toBe(true)
     if (response?.type === 'result' && response.ok) {
-      expect(response.pngData).toEqual(new Uint8Array([1, 2, 3, 4]))
+      expect(response.format).toBe('png')
+      expect(response.fileData).toEqual(new Uint8Array([1, 2, 3, 4]))
       expect(response.stats).toBeDefined()
     }
   })
 
+  it('passes measured light levels and mastering metadata to the encoder', async () => {
+    encodePNGMock.mockClear()
+    const runtime = new WorkerRuntime()
+    await runtime.handle({
+      type: 'convert',
+      id: 12,
+      boost: 4,
+      pixels: new Uint8ClampedArray([255, 255, 255, 255]),
+      width: 1,
+      height: 1,
+    })
+
+    const options = (encodePNGMock.mock.calls[0] as unknown[] | undefined)?.[3] as {
+      contentLightLevel: { maxCLL: number; maxFALL: number }
+      masteringDisplay: { maxLuminance: number; whitePoint: readonly number[] }
+    }
+    expect(options.contentLightLevel.maxCLL).toBeCloseTo(1600, 0)
+    expect(options.contentLightLevel.maxFALL).toBeCloseTo(1600, 0)
+    expect(options.masteringDisplay.maxLuminance).toBe(1600)
+    expect(options.masteringDisplay.whitePoint).toEqual([0.3127, 0.329])
+  })
+
+  it('fits exports to the target display peak and records it as the mastering peak', async () => {
+    encodePNGMock.mockClear()
+    const runtime = new WorkerRuntime()
+    await runtime.handle({
+      type: 'convert',
+      id: 17,
+      boost: 10,
+      targetPeakNits: 1000,
+      pixels: new Uint8ClampedArray([255, 255, 255, 255]),
+      width: 1,
+      height: 1,
+    })
+
+    const options = (encodePNGMock.mock.calls[0] as unknown[] | undefined)?.[3] as {
+      contentLightLevel: { maxCLL: number }
+      masteringDisplay: { maxLuminance: number }
+    }
+    expect(options.contentLightLevel.maxCLL).toBeLessThanOrEqual(1001)
+    expect(options.contentLightLevel.maxCLL).toBeGreaterThan(900)
+    expect(options.masteringDisplay.maxLuminance).toBe(1000)
+  })
+
+  it('rejects target peaks outside the PQ range', () => {
+    const payload = { id: 18, boost: 1, pixels: new Uint8ClampedArray([255, 255, 255, 255]), width: 1, height: 1 }
+    expect(() => validateWorkerRequest({ type: 'convert', ...payload, targetPeakNits: 50 })).toThrow(
+      'targetPeakNits must be between 100 and 10000',
+    )
+    expect(() => validateWorkerRequest({ type: 'preview', ...payload, targetPeakNits: 1600 })).not.toThrow()
+  })
+
+  it('rejects MaxFALL budgets outside the supported range', () => {
+    const payload = { id: 19, boost: 1, pixels: new Uint8ClampedArray([255, 255, 255, 255]), width: 1, height: 1 }
+    expect(() => validateWorkerRequest({ type: 'convert', ...payload, fallBudgetNits: 10 })).toThrow(
+      'fallBudgetNits must be between 50 and 10000',
+    )
+    expect(() => validateWorkerRequest({ type: 'preview', ...payload, fallBudgetNits: 250 })).not.toThrow()
+  })
+
+  it('rejects malformed LUTs and accepts parsed ones', () => {
+    const payload = { id: 20, boost: 1, pixels: new Uint8ClampedArray([255, 255, 255, 255]), width: 1, height: 1 }
+    const lut = parseCubeLut('LUT_1D_SIZE 2\n0 0 0\n1 1 1\n')
+    expect(() => validateWorkerRequest({ type: 'preview', ...payload, colorLut: { lut, space: 'log', strength: 0.5 } })).not.toThrow()
+    expect(() => validateWorkerRequest({ type: 'convert', ...payload, colorLut: { lut, space: 'rec709' as 'log', strength: 1 } })).toThrow(
+      'colorLut.space must be one of srgb, linear, log',
+    )
+    expect(() => validateWorkerRequest({ type: 'convert', ...payload, colorLut: { lut, space: 'srgb', strength: 2 } })).toThrow(
+      'colorLut.strength must be between 0 and 1',
+    )
+    expect(() =>
+      validateWorkerRequest({
+        type: 'convert',
+        ...payload,
+        colorLut: { lut: { ...lut, table: lut.table.slice(3) }, space: 'srgb', strength: 1 },
+      }),
+    ).toThrow('colorLut.lut.table must be a Float32Array of size entries × 3')
+  })
+
+  it('rejects tone curves with too many or non-finite points', () => {
+    const payload = { id: 21, boost: 1, pixels: new Uint8ClampedArray([255, 255, 255, 255]), width: 1, height: 1 }
+    const toneCurve = {
+      ...DEFAULT_TONE_CURVE,
+      red: [
+        { x: 0, y: 0 },
+        { x: 0.5, y: 0.6 },
+        { x: 1, y: 1 },
+      ],
+    }
+    expect(() => validateWorkerRequest({ type: 'preview', ...payload, toneCurve })).not.toThrow()
+    expect(() =>
+      validateWorkerRequest({ type: 'convert', ...payload, toneCurve: { ...toneCurve, luma: [{ x: 0.5, y: Number.NaN }] } }),
+    ).toThrow('toneCurve.luma must be up to 12 points with finite x and y')
+    const tooMany = Array.from({ length: 13 }, (_, i) => ({ x: i / 12, y: i / 12 }))
+    expect(() => validateWorkerRequest({ type: 'convert', ...payload, toneCurve: { ...toneCurve, blue: tooMany } })).toThrow(
+      'toneCurve.blue must be up to 12 points with finite x and y',
+    )
+  })
+
+  it('rejects captions with out-of-range settings', () => {
+    const payload = { id: 23, boost: 1, pixels: new Uint8ClampedArray([255, 255, 255, 255]), width: 1, height: 1 }
+    const caption = { ...DEFAULT_CAPTION, text: 'Supernova' }
+    expect(() => validateWorkerRequest({ type: 'preview', ...payload, caption })).not.toThrow()
+    expect(() => validateWorkerRequest({ type: 'convert', ...payload, caption: { ...caption, nits: 20_000 } })).toThrow(
+      'caption.nits must be between 100 and 10000',
+    )
+    expect(() => validateWorkerRequest({ type: 'convert', ...payload, caption: { ...caption, font: 'comic-sans' as 'inter' } })).toThrow(
+      'caption.font must be one of space-grotesk, inter',
+    )
+    expect(() => validateWorkerRequest({ type: 'convert', ...payload, caption: { ...caption, text: 'x'.repeat(281) } })).toThrow(
+      'caption.text must be a string of up to 280 characters',
+    )
+  })
+
+  it('validates gamut options and tags P3-constrained exports with P3 mastering primaries', async () => {
+    const payload = { id: 22, boost: 1, pixels: new Uint8ClampedArray([255, 0, 0, 255]), width: 1, height: 1 }
+    expect(() => validateWorkerRequest({ type: 'convert', ...payload, gamutMapping: 'soft' as 'clip' })).toThrow(
+      'gamutMapping must be one of clip, compress, perceptual',
+    )
+    expect(() => validateWorkerRequest({ type: 'convert', ...payload, gamutVolume: 'srgb' as 'p3' })).toThrow(
+      'gamutVolume must be one of bt2020, p3',
+    )
+
+    encodePNGMock.mockClear()
+    const runtime = new WorkerRuntime()
+    await runtime.handle({ type: 'convert', ...payload, gamutMapping: 'perceptual', gamutVolume: 'p3' })
+    const options = (encodePNGMock.mock.calls[0] as unknown[] | undefined)?.[3] as { masteringDisplay: { red: readonly number[] } }
+    expect(options.masteringDisplay.red).toEqual([0.68, 0.32])
+  })
+
+  it('limits the frame average on export and reports the intervention', async () => {
+    encodePNGMock.mockClear()
+    const runtime = new WorkerRuntime()
+    const response = await runtime.handle({
+      type: 'convert',
+      id: 20,
+      boost: 5,
+      fallBudgetNits: 150,
+      pixels: new Uint8ClampedArray(64 * 4).fill(255),
+      width: 8,
+      height: 8,
+    })
+
+    const options = (encodePNGMock.mock.calls[0] as unknown[] | undefined)?.[3] as { contentLightLevel: { maxFALL: number } }
+    expect(options.contentLightLevel.maxFALL).toBeCloseTo(150, 0)
+    expect(response).toMatchObject({ ok: true, abl: { budgetNits: 150, limitedFraction: 1 } })
+    const abl = (response as { abl: { fallBeforeNits: number; fallAfterNits: number } }).abl
+    expect(abl.fallBeforeNits).toBeGreaterThan(150)
+    expect(abl.fallAfterNits).toBeCloseTo(150, 0)
+  })
+
+  it('reports the limiter on SDR previews without an export', async () => {
+    const runtime = new WorkerRuntime()
+    const response = await runtime.handle({
+      type: 'preview',
+      id: 21,
+      boost: 5,
+      fallBudgetNits: 150,
+      pixels: new Uint8ClampedArray(16).fill(255),
+      width: 2,
+      height: 2,
+    })
+    expect(response).toMatchObject({ ok: true, abl: { budgetNits: 150 } })
+    expect((response as { abl: { maxReduction: number } }).abl.maxReduction).toBeGreaterThan(0)
+  })
+
+  it('returns scopes of the export grade with both preview outputs', async () => {
+    const runtime = new WorkerRuntime()
+    const request = { type: 'preview', boost: 4, pixels: new Uint8ClampedArray(16).fill(255), width: 2, height: 2 } as const
+    const sdr = await runtime.handle({ ...request, id: 24, output: 'sdr-rgba' })
+    const hdr = await runtime.handle({ ...request, id: 25, output: 'hdr-png', pixels: request.pixels.slice() })
+
+    const sdrScopes = (sdr as { scopes: ScopeData }).scopes
+    const hdrScopes = (hdr as { scopes: ScopeData }).scopes
+    expect(sdrScopes.peakNits).toBeCloseTo(1600, -1)
+    expect(hdrScopes.peakNits).toBeCloseTo(sdrScopes.peakNits)
+    expect(sdrScopes.histogram.reduce((sum, count) => sum + count, 0)).toBe(4)
+  })
+
+  it('paints false-color previews by the luminance band of the export grade', async () => {
+    const runtime = new WorkerRuntime()
+    const pixels = new Uint8ClampedArray([255, 255, 255, 255, 0, 0, 0, 255])
+    const response = await runtime.handle({ type: 'preview', id: 26, boost: 10, output: 'false-color', pixels, width: 2, height: 1 })
+
+    expect(response).toMatchObject({ ok: true, width: 2, height: 1 })
+    const out = Array.from((response as { pixels: Uint8ClampedArray }).pixels)
+    expect(out.slice(0, 4)).toEqual([...FALSE_COLOR_BANDS[4]!.color!, 255])
+    expect(out.slice(4, 8)).toEqual([0, 0, 0, 255])
+  })
+
+  it('encodes HLG exports against the 1000-nit nominal peak', async () => {
+    encodePNGMock.mockClear()
+    const runtime = new WorkerRuntime()
+    await runtime.handle({
+      type: 'convert',
+      id: 16,
+      boost: 4,
+      transferFunction: 'hlg',
+      pixels: new Uint8ClampedArray([255, 255, 255, 255]),
+      width: 1,
+      height: 1,
+    })
+
+    const call = encodePNGMock.mock.calls[0] as unknown[] | undefined
+    expect((call?.[2] as Uint16Array)[0]).toBe(65535)
+    expect(call?.[3]).toMatchObject({ transferFunction: 'hlg', contentLightLevel: { maxCLL: 1000, maxFALL: 1000 } })
+  })
+
+  it('exports Ultra HDR JPEGs without going through the PNG encoder', async () => {
+    encodePNGMock.mockClear()
+    const runtime = new WorkerRuntime()
+    const response = await runtime.handle({
+      type: 'convert',
+      id: 17,
+      boost: 4,
+      outputFormat: 'jpeg',
+      alphaMode: 'keep',
+      pixels: new Uint8ClampedArray([255, 255, 255, 255, 255, 0, 0, 128]),
+      width: 2,
+      height: 1,
+    })
+
+    expect(encodePNGMock).not.toHaveBeenCalled()
+    expect(response?.type === 'result' && response.ok && response.format).toBe('jpeg')
+    if (response?.type === 'result' && response.ok) {
+      expect([...response.fileData.subarray(0, 2)]).toEqual([0xff, 0xd8])
+      expect([...response.fileData.subarray(-2)]).toEqual([0xff, 0xd9])
+    }
+  })
+
+  it('embeds the normalized recipe in converted PNGs', async () => {
+    const runtime = new WorkerRuntime()
+    encodePNGMock.mockClear()
+
+    await runtime.handle({
+      type: 'convert',
+      id: 15,
+      boost: 3,
+      lookControls: { saturation: 1.4, contrast: 99 },
+      pixels: new Uint8ClampedArray([255, 255, 255, 255]),
+      width: 1,
+      height: 1,
+    })
+
+    const options = (encodePNGMock.mock.calls[0] as unknown[] | undefined)?.[3] as { recipe: SupernovaRecipe }
+    expect(options.recipe.version).toBe(1)
+    expect(options.recipe.boost).toBe(3)
+    expect(options.recipe.lookControls).toEqual(normalizeLookControls({ saturation: 1.4, contrast: 99 }))
+  })
+
+  it('exports RGBA16 for transparent sources and RGB16 when flattening', async () => {
+    const runtime = new WorkerRuntime()
+    const transparentPixels = () => new Uint8ClampedArray([255, 0, 0, 128])
+
+    encodePNGMock.mockClear()
+    await runtime.handle({ type: 'convert', id: 13, boost: 1, pixels: transparentPixels(), width: 1, height: 1 })
+    let call = encodePNGMock.mock.calls[0] as unknown[] | undefined
+    expect((call?.[2] as Uint16Array).length).toBe(4)
+    expect(call?.[3]).toMatchObject({ hasAlpha: true })
+
+    encodePNGMock.mockClear()
+    await runtime.handle({
+      type: 'convert',
+      id: 14,
+      boost: 1,
+      alphaMode: 'flatten',
+      flattenColor: '#ffffff',
+      pixels: transparentPixels(),
+      width: 1,
+      height: 1,
+    })
+    call = encodePNGMock.mock.calls[0] as unknown[] | undefined
+    expect((call?.[2] as Uint16Array).length).toBe(3)
+    expect(call?.[3]).toMatchObject({ hasAlpha: false })
+  })
+
   it('returns preview success for pixel payloads', async () => {
     const runtime = new WorkerRuntime()
     const response = await runtime.handle({
@@ -174,6 +511,292 @@ describe('WorkerRuntime', () => {
     }
   })
 
+  it('gives each preview its own pixel buffer, since the worker transfers it', async () => {
+    const runtime = new WorkerRuntime()
+    const pixels = new Uint8ClampedArray([120, 80, 40, 255, 10, 20, 30, 255])
+    const first = await runtime.handle({ type: 'preview', id: 1, boost: 1, imageId: 8, pixels, width: 2, height: 1 })
+    const second = await runtime.handle({ type: 'preview', id: 2, boost: 1, imageId: 8 })
+    const falseColor = await runtime.handle({ type: 'preview', id: 3, boost: 1, imageId: 8, output: 'false-color' })
+
+    const buffers = [first, second, falseColor].map((response) => (response && 'pixels' in response ? response.pixels.buffer : null))
+    expect(buffers.every(Boolean)).toBe(true)
+    expect(new Set(buffers).size).toBe(3)
+  })
+
+  it('reuses the cached source for requests that only carry an image id', async () => {
+    const runtime = new WorkerRuntime()
+    const pixels = new Uint8ClampedArray([120, 80, 40, 255, 10, 20, 30, 255])
+    const first = await runtime.handle({ type: 'preview', id: 1, boost: 1, imageId: 5, pixels, width: 2, height: 1 })
+    const second = await runtime.handle({ type: 'preview', id: 2, boost: 1, imageId: 5 })
+    const exported = await runtime.handle({ type: 'convert', id: 3, boost: 1, imageId: 5 })
+
+    expect(second).toEqual({ ...first, id: 2 })
+    expect(exported).toMatchObject({ type: 'result', ok: true, format: 'png' })
+  })
+
+  it('analyzes the cached source and suggests an Auto look', async () => {
+    const runtime = new WorkerRuntime()
+    // A dim frame: every pixel well below mid-grey.
+    const pixels = new Uint8ClampedArray(64 * 4).map((_, i) => (i % 4 === 3 ? 255 : 20 + (i >> 2)))
+    await runtime.handle({ type: 'preview', id: 1, boost: 1, imageId: 7, pixels, width: 8, height: 8 })
+
+    const response = await runtime.handle({ type: 'analyze', id: 2, imageId: 7 })
+    expect(response).toMatchObject({ type: 'analyze-result', id: 2, ok: true })
+    if (response?.type === 'analyze-result' && response.ok) {
+      expect(response.analysis.sampleCount).toBe(64)
+      expect(response.suggestion.exposure).toBeGreaterThan(0)
+    }
+
+    expect(await runtime.handle({ type: 'analyze', id: 3, imageId: 8 })).toMatchObject({
+      type: 'analyze-result',
+      ok: false,
+      code: 'BAD_INPUT',
+    })
+    expect(await runtime.handle({ type: 'analyze', id: 0, imageId: 7 })).toMatchObject({ type: 'analyze-result', ok: false })
+  })
+
+  it('reports released images as no longer cached', async () => {
+    const runtime = new WorkerRuntime()
+    await runtime.handle({
+      type: 'preview',
+      id: 1,
+      boost: 1,
+      imageId: 6,
+      pixels: new Uint8ClampedArray([1, 2, 3, 255]),
+      width: 1,
+      height: 1,
+    })
+
+    expect(await runtime.handle({ type: 'release', imageId: 6 })).toBeNull()
+    expect(await runtime.handle({ type: 'preview', id: 2, boost: 1, imageId: 6 })).toMatchObject({
+      ok: false,
+      code: 'BAD_INPUT',
+      error: 'Image 6 is not cached in the worker',
+    })
+  })
+
+  it('grades tall exports on the strip pool with output identical to a single pass', async () => {
+    encodePNGMock.mockClear()
+    const stripCounts: number[] = []
+    const stripPool: StripPool = {
+      size: 2,
+      run: vi.fn(async (_requestId, tasks) => {
+        stripCounts.push(tasks.length)
+        return tasks.map((task, i) => {
+          const response = processStripRequest({ ...task, taskId: i + 1 })
+          if (!response.ok) throw new Error(response.error)
+          return response
+        })
+      }),
+      cancel: vi.fn(),
+      terminate: vi.fn(),
+    }
+    const pixels = new Uint8ClampedArray(3 * 200 * 4).map((_, i) => (i % 4 === 3 ? 255 : (i * 11) % 256))
+    const response = await new WorkerRuntime({ stripPool }).handle({ type: 'convert', id: 1, boost: 3, pixels, width: 3, height: 200 })
+
+    expect(response).toMatchObject({ ok: true })
+    expect(stripCounts).toEqual([3])
+    const encoded = (encodePNGMock.mock.calls[0] as unknown[] | undefined)?.[2]
+    expect(encoded).toEqual(processPixels({ data: pixels, width: 3, height: 200 }, 3))
+  })
+
+  it('gives each strip the whole-image limiter and bloom offset to its first row', async () => {
+    encodePNGMock.mockClear()
+    const stripPool: StripPool = {
+      size: 2,
+      run: vi.fn(async (_requestId, tasks) =>
+        tasks.map((task, i) => {
+          const response = processStripRequest({ ...task, taskId: i + 1 })
+          if (!response.ok) throw new Error(response.error)
+          return response
+        }),
+      ),
+      cancel: vi.fn(),
+      terminate: vi.fn(),
+    }
+    const pixels = new Uint8ClampedArray(4 * 240 * 4).map((_, i) => (i % 4 === 3 ? 255 : i < 4 * 120 * 4 ? 255 : 30))
+    const request = {
+      type: 'convert',
+      id: 4,
+      boost: 5,
+      fallBudgetNits: 150,
+      lookControls: { bloomIntensity: 0.6 },
+      pixels,
+      width: 4,
+      height: 240,
+    } as const
+    await new WorkerRuntime({ stripPool }).handle(request)
+    const stripped = (encodePNGMock.mock.calls[0] as unknown[] | undefined)?.[2] as Uint16Array
+    await new WorkerRuntime().handle({ ...request, pixels: pixels.slice() })
+    const single = (encodePNGMock.mock.calls[1] as unknown[] | undefined)?.[2] as Uint16Array
+
+    const tasks = (stripPool.run as ReturnType<typeof vi.fn>).mock.calls[0]?.[1] as StripWorkerRequest[]
+    expect(tasks.map((task) => task.ablLimiter?.rowOffset)).toEqual([0, 80, 160])
+    expect(tasks.map((task) => task.bloomLayer?.rowOffset)).toEqual([0, 80, 160])
+    expect(Array.from(stripped)).toEqual(Array.from(single))
+  })
+
+  it('composites the caption on each strip at its own rows', async () => {
+    encodePNGMock.mockClear()
+    const layer: CaptionLayer = {
+      left: 1,
+      top: 70,
+      width: 2,
+      height: 100,
+      fill: new Uint8Array(200).fill(255),
+      outline: null,
+      nits: 4000,
+      rowOffset: 0,
+    }
+    rasterizeCaptionMock.mockResolvedValue(layer)
+    const stripPool: StripPool = {
+      size: 2,
+      run: vi.fn(async (_requestId, tasks) =>
+        tasks.map((task, i) => {
+          const response = processStripRequest({ ...task, taskId: i + 1 })
+          if (!response.ok) throw new Error(response.error)
+          return response
+        }),
+      ),
+      cancel: vi.fn(),
+      terminate: vi.fn(),
+    }
+    const request = {
+      type: 'convert',
+      id: 5,
+      boost: 2,
+      caption: { ...DEFAULT_CAPTION, text: 'Supernova', nits: 4000 },
+      pixels: new Uint8ClampedArray(4 * 240 * 4).map((_, i) => (i % 4 === 3 ? 255 : 60)),
+      width: 4,
+      height: 240,
+    } as const
+    await new WorkerRuntime({ stripPool }).handle(request)
+    const stripped = (encodePNGMock.mock.calls[0] as unknown[] | undefined)?.[2] as Uint16Array
+    await new WorkerRuntime().handle({ ...request, pixels: request.pixels.slice() })
+    const single = (encodePNGMock.mock.calls[1] as unknown[] | undefined)?.[2] as Uint16Array
+
+    expect(rasterizeCaptionMock).toHaveBeenCalledWith(request.caption, 4, 240)
+    const tasks = (stripPool.run as ReturnType<typeof vi.fn>).mock.calls[0]?.[1] as StripWorkerRequest[]
+    expect(tasks.map((task) => task.caption?.rowOffset)).toEqual([0, 80, 160])
+    expect(Array.from(stripped)).toEqual(Array.from(single))
+    // Inside the box the caption replaces the photo; outside it the photo is untouched.
+    expect(stripped[(100 * 4 + 1) * 3]!).toBeGreaterThan(stripped[(100 * 4 + 0) * 3]!)
+    expect(stripped[(100 * 4 + 0) * 3]).toBe(stripped[(10 * 4 + 0) * 3])
+  })
+
+  it('drops the strip pool and grades in-thread when its workers cannot start', async () => {
+    const unavailable = createStripPool(2, () => {
+      throw new Error('Nested workers are not supported')
+    })
+    const stripPool: StripPool = {
+      size: 2,
+      run: vi.fn(unavailable.run),
+      cancel: vi.fn(),
+      terminate: vi.fn(),
+    }
+    const runtime = new WorkerRuntime({ stripPool })
+    const request = { type: 'convert', id: 2, boost: 1, pixels: new Uint8ClampedArray(256 * 4).fill(200), width: 1, height: 256 } as const
+
+    expect(await runtime.handle(request)).toMatchObject({ ok: true })
+    expect(await runtime.handle({ ...request, id: 3 })).toMatchObject({ ok: true })
+    expect(stripPool.terminate).toHaveBeenCalledTimes(1)
+    expect(stripPool.run).toHaveBeenCalledTimes(1)
+  })
+
+  it('reports a failing strip as an export error and keeps the pool', async () => {
+    const stripPool: StripPool = {
+      size: 2,
+      run: vi.fn(async () => {
+        throw new Error('Strip worker crashed')
+      }),
+      cancel: vi.fn(),
+      terminate: vi.fn(),
+    }
+    const runtime = new WorkerRuntime({ stripPool })
+    const request = { type: 'convert', id: 2, boost: 1, pixels: new Uint8ClampedArray(256 * 4).fill(200), width: 1, height: 256 } as const
+
+    expect(await runtime.handle(request)).toEqual({ type: 'result', id: 2, ok: false, code: 'INTERNAL', error: 'Strip worker crashed' })
+    await runtime.handle({ ...request, id: 3 })
+    expect(stripPool.terminate).not.toHaveBeenCalled()
+    expect(stripPool.run).toHaveBeenCalledTimes(2)
+  })
+
+  it('forwards cancellation to strips in flight', async () => {
+    let finishRun: (value: null) => void = () => {}
+    const stripPool: StripPool = {
+      size: 2,
+      run: vi.fn(() => new Promise<null>((resolve) => (finishRun = resolve))),
+      cancel: vi.fn(() => finishRun(null)),
+      terminate: vi.fn(),
+    }
+    const runtime = new WorkerRuntime({ stripPool })
+    const pending = runtime.handle({ type: 'convert', id: 4, boost: 1, pixels: new Uint8ClampedArray(256 * 4), width: 1, height: 256 })
+    await vi.waitFor(() => expect(stripPool.run).toHaveBeenCalled())
+    await runtime.handle({ type: 'cancel', id: 4 })
+
+    expect(stripPool.cancel).toHaveBeenCalledWith(4)
+    expect(await pending).toBeNull()
+  })
+
+  it('stops an in-thread export between bands once cancelled', async () => {
+    const fractions: number[] = []
+    const runtime: WorkerRuntime = new WorkerRuntime({
+      onProgress: (message) => {
+        if (message.stage !== 'grade') return
+        fractions.push(message.fraction)
+        runtime.cancel(8)
+      },
+    })
+    const response = await runtime.handle({
+      type: 'convert',
+      id: 8,
+      boost: 2,
+      pixels: new Uint8ClampedArray(512 * 1024 * 4),
+      width: 512,
+      height: 1024,
+    })
+
+    expect(response).toBeNull()
+    expect(Math.max(...fractions)).toBeLessThanOrEqual(0.5)
+  })
+
+  it('emits progress messages for convert requests only', async () => {
+    const onProgress = vi.fn()
+    const runtime = new WorkerRuntime({ onProgress })
+    const source = { boost: 2, pixels: new Uint8ClampedArray(64 * 4).fill(90), width: 8, height: 8 }
+    await runtime.handle({ type: 'preview', id: 5, ...source })
+    expect(onProgress).not.toHaveBeenCalled()
+
+    await runtime.handle({ type: 'convert', id: 6, outputFormat: 'jpeg', ...source })
+    const messages = onProgress.mock.calls.map(([message]) => message)
+    expect(messages.every((message) => message.type === 'progress' && message.id === 6)).toBe(true)
+    expect(messages[0]).toMatchObject({ stage: 'decode', fraction: 0 })
+    expect(messages).toContainEqual(expect.objectContaining({ stage: 'grade', fraction: 1 }))
+    expect(messages.at(-1)).toMatchObject({ stage: 'assemble', fraction: 1 })
+  })
+
+  it('reports Ultra HDR exports through the SDR rendition and the JPEG encode', async () => {
+    const onProgress = vi.fn()
+    const runtime = new WorkerRuntime({ onProgress })
+    await runtime.handle({
+      type: 'convert',
+      id: 7,
+      outputFormat: 'jpeg',
+      boost: 2,
+      pixels: new Uint8ClampedArray(8 * 64 * 4).fill(90),
+      width: 8,
+      height: 64,
+    })
+
+    const messages = onProgress.mock.calls.map(([message]) => message as { stage: string; fraction: number })
+    const grade = messages.filter((message) => message.stage === 'grade').map((message) => message.fraction)
+    const assemble = messages.filter((message) => message.stage === 'assemble').map((message) => message.fraction)
+    expect(grade.some((fraction) => fraction > 0.5 && fraction < 1)).toBe(true)
+    expect(grade.at(-1)).toBe(1)
+    expect(assemble.some((fraction) => fraction > 0.25 && fraction < 1)).toBe(true)
+    expect(assemble).toEqual([...assemble].sort((a, b) => a - b))
+  })
+
   it('drops cancelled convert requests', async () => {
     const runtime = new WorkerRuntime()
     runtime.cancel(42)
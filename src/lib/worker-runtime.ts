@@ -1,16 +1,73 @@
-import { processPixels, processPreviewPixels, type PixelBufferLike } from './pq'
+import {
+  measureExportPixels,
+  outputChannelsForAlpha,
+  planAblLimiter,
+  planBloomLayer,
+  processPixels,
+  processPreviewPixels,
+  type PixelBufferLike,
+  type ProcessPixelsOptions,
+  type ProcessPreviewPixelsOptions,
+} from './pq'
 import { encodePNG } from './encode-png'
+import { BT2020_PRIMARIES, createContentLightLevel, masteringDisplayForContent, P3_PRIMARIES, type DisplayPrimaries } from './hdr-metadata'
+import {
+  ALPHA_MODES,
+  DEFAULT_ALPHA_MODE,
+  DEFAULT_FLATTEN_COLOR,
+  isHexColor,
+  resolveProcessAlpha,
+  type ProcessAlpha,
+} from './alpha-handling'
+import { DEFAULT_TRANSFER_FUNCTION, TRANSFER_FUNCTIONS } from './pq-transfer'
+import { UP_CONVERSION_METHODS } from './up-conversion'
+import { PQ_MAX_NITS, SDR_DIFFUSE_WHITE_NITS } from './hdr-boost'
+import { computeLocalContrastGains, localContrastRadius } from './local-contrast'
+import { FALL_BUDGET_MAX_NITS, FALL_BUDGET_MIN_NITS, type AblReport } from './abl-limiter'
+import { LUT_1D_MAX_SIZE, LUT_3D_MAX_SIZE, LUT_SPACES, type ColorLutSettings } from './color-lut'
+import { CURVE_CHANNELS, normalizeToneCurve, TONE_CURVE_MAX_POINTS, type ToneCurve } from './tone-curve'
+import { GAMUT_MAPPINGS, GAMUT_VOLUMES, type GamutVolume } from './gamut-mapping'
+import { createRecipe } from './recipe'
+import { analyzeImage, suggestAutoLook } from './auto-look'
+import {
+  CAPTION_FONTS,
+  CAPTION_NITS_MAX,
+  CAPTION_NITS_MIN,
+  CAPTION_POSITIONS,
+  CAPTION_SIZE_MAX,
+  CAPTION_SIZE_MIN,
+  CAPTION_TEXT_MAX_LENGTH,
+  isCaptionActive,
+  type CaptionSettings,
+} from './caption'
+import { rasterizeCaption, supportsCaptionRaster } from './caption-raster'
+import { createScopeData } from './scopes'
+import { DEFAULT_EXPORT_FORMAT, EXPORT_FORMATS } from './export-format'
+import { encodeUltraHDR } from './ultra-hdr'
+import { createProgressThrottle, type ExportProgressCallback } from './export-progress'
+import { assembleStrips, isStripWorkerStartError, planStrips, sliceStrip, STRIPS_PER_WORKER, type StripPool } from './strip-processing'
 import { normalizeLookControls, PREVIEW_MAX_LONG_EDGE_DEFAULT, type LookControls } from './look-controls'
 import type { EncodeStats, ConversionStats } from './perf-types'
 import type {
+  WorkerAnalyzeRequest,
   WorkerConvertRequest,
   WorkerPreviewRequest,
   WorkerRequestMessage,
   WorkerResponseMessage,
   WorkerPreviewSuccessResponse,
+  WorkerProgressResponse,
+  PreviewOutput,
 } from './worker-protocol'
 
 const VALID_COMPRESSION_BACKENDS = new Set(['fflate', 'compression-stream'])
+const PREVIEW_OUTPUTS: readonly PreviewOutput[] = ['sdr-rgba', 'hdr-png', 'false-color']
+// Pixels graded for the scopes of an SDR preview.
+const PREVIEW_SCOPE_SAMPLES = 1 << 16
+// Pixels graded between checks for a cancel when exporting without strip workers.
+const IN_THREAD_BAND_PIXELS = 1 << 18
+
+/** Requests that carry an image source, or name a cached one. */
+type ImageSourceRequest = WorkerConvertRequest | WorkerPreviewRequest | WorkerAnalyzeRequest
 
 type RuntimeErrorCode = 'DECODE_UNSUPPORTED' | 'BAD_INPUT' | 'INTERNAL'
 
@@ -32,8 +89,10 @@ function supportsWorkerDecode(): boolean {
   return typeof createImageBitmap === 'function' && typeof OffscreenCanvas !== 'undefined'
 }
 
-function validatePixelPayload(request: WorkerConvertRequest | WorkerPreviewRequest): void {
+function validatePixelPayload(request: ImageSourceRequest): void {
   if (request.file) return
+  // Requests for an already-cached image may omit the source entirely.
+  if (request.imageId !== undefined && request.pixels === undefined) return
 
   if (!request.pixels || !isPositiveInt(request.width) || !isPositiveInt(request.height)) {
     throw runtimeError('Missing pixel buffer fallback payload', 'BAD_INPUT')
@@ -45,6 +104,67 @@ function validatePixelPayload(request: WorkerConvertRequest | WorkerPreviewReque
   }
 }
 
+function isFiniteTriplet(value: unknown): boolean {
+  return Array.isArray(value) && value.length === 3 && value.every(isFiniteNumber)
+}
+
+function validateColorLut(settings: ColorLutSettings): void {
+  if (!LUT_SPACES.includes(settings.space)) {
+    throw runtimeError(`colorLut.space must be one of ${LUT_SPACES.join(', ')}`, 'BAD_INPUT')
+  }
+  if (!isFiniteNumber(settings.strength) || settings.strength < 0 || settings.strength > 1) {
+    throw runtimeError('colorLut.strength must be between 0 and 1', 'BAD_INPUT')
+  }
+
+  const lut = settings.lut as Partial<ColorLutSettings['lut']> | undefined
+  const maxSize = lut?.kind === '3d' ? LUT_3D_MAX_SIZE : LUT_1D_MAX_SIZE
+  if (!lut || (lut.kind !== '1d' && lut.kind !== '3d') || !isPositiveInt(lut.size) || lut.size < 2 || lut.size > maxSize) {
+    throw runtimeError('colorLut.lut must be a 1d or 3d table of a supported size', 'BAD_INPUT')
+  }
+  const entries = lut.kind === '3d' ? lut.size ** 3 : lut.size
+  if (!(lut.table instanceof Float32Array) || lut.table.length !== entries * 3) {
+    throw runtimeError('colorLut.lut.table must be a Float32Array of size entries × 3', 'BAD_INPUT')
+  }
+  if (!isFiniteTriplet(lut.domainMin) || !isFiniteTriplet(lut.domainMax)) {
+    throw runtimeError('colorLut.lut domain must be three finite numbers', 'BAD_INPUT')
+  }
+}
+
+function validateToneCurve(curve: ToneCurve): void {
+  for (const channel of CURVE_CHANNELS) {
+    const points: unknown = curve[channel]
+    if (points === undefined) continue
+    if (
+      !Array.isArray(points) ||
+      points.length > TONE_CURVE_MAX_POINTS ||
+      !points.every((point) => isFiniteNumber(point?.x) && isFiniteNumber(point?.y))
+    ) {
+      throw runtimeError(`toneCurve.${channel} must be up to ${TONE_CURVE_MAX_POINTS} points with finite x and y`, 'BAD_INPUT')
+    }
+  }
+}
+
+function validateCaption(caption: CaptionSettings): void {
+  if (typeof caption.text !== 'string' || caption.text.length > CAPTION_TEXT_MAX_LENGTH) {
+    throw runtimeError(`caption.text must be a string of up to ${CAPTION_TEXT_MAX_LENGTH} characters`, 'BAD_INPUT')
+  }
+  if (!CAPTION_FONTS.includes(caption.font)) {
+    throw runtimeError(`caption.font must be one of ${CAPTION_FONTS.join(', ')}`, 'BAD_INPUT')
+  }
+  if (!CAPTION_POSITIONS.includes(caption.position)) {
+    throw runtimeError(`caption.position must be one of ${CAPTION_POSITIONS.join(', ')}`, 'BAD_INPUT')
+  }
+  if (!isFiniteNumber(caption.nits) || caption.nits < CAPTION_NITS_MIN || caption.nits > CAPTION_NITS_MAX) {
+    throw runtimeError(`caption.nits must be between ${CAPTION_NITS_MIN} and ${CAPTION_NITS_MAX}`, 'BAD_INPUT')
+  }
+  if (!isFiniteNumber(caption.size) || caption.size < CAPTION_SIZE_MIN || caption.size > CAPTION_SIZE_MAX) {
+    throw runtimeError(`caption.size must be between ${CAPTION_SIZE_MIN} and ${CAPTION_SIZE_MAX}`, 'BAD_INPUT')
+  }
+  if (!isFiniteNumber(caption.outline) || caption.outline < 0 || caption.outline > 1) {
+    throw runtimeError('caption.outline must be between 0 and 1', 'BAD_INPUT')
+  }
+}
+
 function validateSharedRequestFields(request: WorkerConvertRequest | WorkerPreviewRequest): void {
   if (!isPositiveInt(request.id)) {
     throw runtimeError('Request id must be a positive integer', 'BAD_INPUT')
@@ -54,10 +174,56 @@ function validateSharedRequestFields(request: WorkerConvertRequest | WorkerPrevi
     throw runtimeError('Boost must be a finite non-negative number', 'BAD_INPUT')
   }
 
+  if (request.imageId !== undefined && !isPositiveInt(request.imageId)) {
+    throw runtimeError('imageId must be a positive integer', 'BAD_INPUT')
+  }
+
   if (request.file && !(request.file instanceof Blob)) {
     throw runtimeError('file payload must be a Blob', 'BAD_INPUT')
   }
 
+  if (request.alphaMode !== undefined && !ALPHA_MODES.includes(request.alphaMode)) {
+    throw runtimeError('alphaMode must be either keep or flatten', 'BAD_INPUT')
+  }
+
+  if (request.flattenColor !== undefined && !isHexColor(request.flattenColor)) {
+    throw runtimeError('flattenColor must be a #rrggbb hex color', 'BAD_INPUT')
+  }
+
+  if (request.transferFunction !== undefined && !TRANSFER_FUNCTIONS.includes(request.transferFunction)) {
+    throw runtimeError('transferFunction must be either pq or hlg', 'BAD_INPUT')
+  }
+
+  if (request.upConversion !== undefined && !UP_CONVERSION_METHODS.includes(request.upConversion)) {
+    throw runtimeError(`upConversion must be one of ${UP_CONVERSION_METHODS.join(', ')}`, 'BAD_INPUT')
+  }
+
+  if (request.targetPeakNits !== undefined) {
+    const peak = request.targetPeakNits
+    if (!isFiniteNumber(peak) || peak < SDR_DIFFUSE_WHITE_NITS || peak > PQ_MAX_NITS) {
+      throw runtimeError(`targetPeakNits must be between ${SDR_DIFFUSE_WHITE_NITS} and ${PQ_MAX_NITS}`, 'BAD_INPUT')
+    }
+  }
+
+  if (request.gamutMapping !== undefined && !GAMUT_MAPPINGS.includes(request.gamutMapping)) {
+    throw runtimeError(`gamutMapping must be one of ${GAMUT_MAPPINGS.join(', ')}`, 'BAD_INPUT')
+  }
+
+  if (request.gamutVolume !== undefined && !GAMUT_VOLUMES.includes(request.gamutVolume)) {
+    throw runtimeError(`gamutVolume must be one of ${GAMUT_VOLUMES.join(', ')}`, 'BAD_INPUT')
+  }
+
+  if (request.fallBudgetNits !== undefined) {
+    const budget = request.fallBudgetNits
+    if (!isFiniteNumber(budget) || budget < FALL_BUDGET_MIN_NITS || budget > FALL_BUDGET_MAX_NITS) {
+      throw runtimeError(`fallBudgetNits must be between ${FALL_BUDGET_MIN_NITS} and ${FALL_BUDGET_MAX_NITS}`, 'BAD_INPUT')
+    }
+  }
+
+  if (request.colorLut !== undefined) validateColorLut(request.colorLut)
+  if (request.toneCurve !== undefined) validateToneCurve(request.toneCurve)
+  if (request.caption !== undefined) validateCaption(request.caption)
+
   validatePixelPayload(request)
 }
 
@@ -77,13 +243,33 @@ function validateConvertRequest(request: WorkerConvertRequest): void {
   if (request.compressionBackend !== undefined && !VALID_COMPRESSION_BACKENDS.has(request.compressionBackend)) {
     throw runtimeError('Unknown compression backend', 'BAD_INPUT')
   }
+
+  if (request.outputFormat !== undefined && !EXPORT_FORMATS.includes(request.outputFormat)) {
+    throw runtimeError('outputFormat must be either png or jpeg', 'BAD_INPUT')
+  }
+}
+
+function validateAnalyzeRequest(request: WorkerAnalyzeRequest): void {
+  if (!isPositiveInt(request.id)) {
+    throw runtimeError('Request id must be a positive integer', 'BAD_INPUT')
+  }
+
+  if (request.imageId !== undefined && !isPositiveInt(request.imageId)) {
+    throw runtimeError('imageId must be a positive integer', 'BAD_INPUT')
+  }
+
+  if (request.file && !(request.file instanceof Blob)) {
+    throw runtimeError('file payload must be a Blob', 'BAD_INPUT')
+  }
+
+  validatePixelPayload(request)
 }
 
 function validatePreviewRequest(request: WorkerPreviewRequest): void {
   validateSharedRequestFields(request)
 
-  if (request.output !== undefined && request.output !== 'sdr-rgba' && request.output !== 'hdr-png') {
-    throw runtimeError('preview output must be either sdr-rgba or hdr-png', 'BAD_INPUT')
+  if (request.output !== undefined && !PREVIEW_OUTPUTS.includes(request.output)) {
+    throw runtimeError(`preview output must be one of ${PREVIEW_OUTPUTS.join(', ')}`, 'BAD_INPUT')
   }
 
   if (request.previewMaxLongEdge !== undefined) {
@@ -101,6 +287,13 @@ export function validateWorkerRequest(request: WorkerRequestMessage): void {
     return
   }
 
+  if (request.type === 'release') {
+    if (!isPositiveInt(request.imageId)) {
+      throw runtimeError('Release request imageId must be a positive integer', 'BAD_INPUT')
+    }
+    return
+  }
+
   if (request.type === 'convert') {
     validateConvertRequest(request)
     return
@@ -111,6 +304,11 @@ export function validateWorkerRequest(request: WorkerRequestMessage): void {
     return
   }
 
+  if (request.type === 'analyze') {
+    validateAnalyzeRequest(request)
+    return
+  }
+
   throw runtimeError('Unknown request type', 'BAD_INPUT')
 }
 
@@ -137,6 +335,81 @@ function resolveLookControls(request: { lookControls?: Partial<LookControls>; ga
   })
 }
 
+/** Source looks (imported LUT and tone curve), applied by both the export and either preview. */
+function resolveSourceLookOptions(
+  request: WorkerConvertRequest | WorkerPreviewRequest,
+): Pick<ProcessPixelsOptions, 'colorLut' | 'toneCurve'> {
+  return {
+    ...(request.colorLut ? { colorLut: request.colorLut } : {}),
+    ...(request.toneCurve ? { toneCurve: normalizeToneCurve(request.toneCurve) } : {}),
+  }
+}
+
+/** SDR → HDR mapping and display-fit options shared by the export and HDR preview grades. */
+function resolveMappingOptions(
+  request: WorkerConvertRequest | WorkerPreviewRequest,
+): Pick<ProcessPixelsOptions, 'upConversion' | 'targetPeakNits' | 'gamutMapping' | 'gamutVolume'> {
+  return {
+    ...(request.upConversion ? { upConversion: request.upConversion } : {}),
+    ...(request.targetPeakNits !== undefined ? { targetPeakNits: request.targetPeakNits } : {}),
+    ...(request.gamutMapping ? { gamutMapping: request.gamutMapping } : {}),
+    ...(request.gamutVolume ? { gamutVolume: request.gamutVolume } : {}),
+  }
+}
+
+/** SDR renditions map into sRGB, which P3 and BT.2020 both contain, so only the mode carries over. */
+function resolveSdrGamutOptions(request: WorkerConvertRequest | WorkerPreviewRequest): Pick<ProcessPreviewPixelsOptions, 'gamutMapping'> {
+  return request.gamutMapping ? { gamutMapping: request.gamutMapping } : {}
+}
+
+function masteringPrimaries(volume: GamutVolume | undefined): DisplayPrimaries {
+  return volume === 'p3' ? P3_PRIMARIES : BT2020_PRIMARIES
+}
+
+/**
+ * Plan the ABL limiter for `imageData` when the request sets a MaxFALL
+ * budget. Returns the processing option to apply it and the report for the
+ * response; both empty when no budget was requested.
+ */
+function resolveAblLimiting(
+  request: WorkerConvertRequest | WorkerPreviewRequest,
+  imageData: PixelBufferLike,
+  lookControls: LookControls,
+  gradingOptions: ProcessPixelsOptions,
+): { ablOptions: Pick<ProcessPixelsOptions, 'ablLimiter'>; abl?: AblReport } {
+  if (request.fallBudgetNits === undefined) return { ablOptions: {} }
+  const { limiter, report } = planAblLimiter(imageData, request.boost, lookControls, gradingOptions, request.fallBudgetNits)
+  return { ablOptions: limiter ? { ablLimiter: limiter } : {}, abl: report }
+}
+
+/** Bloom reaches far beyond a strip, so the layer is built once per image and shared. */
+function resolveBloomOptions(
+  request: WorkerConvertRequest | WorkerPreviewRequest,
+  imageData: PixelBufferLike,
+  lookControls: LookControls,
+  gradingOptions: ProcessPixelsOptions,
+): Pick<ProcessPixelsOptions, 'bloomLayer'> {
+  const bloomLayer = planBloomLayer(imageData, request.boost, lookControls, gradingOptions)
+  return bloomLayer ? { bloomLayer } : {}
+}
+
+/** Rasterize the request's caption at this image's size; empty when it has none. */
+async function resolveCaptionOptions(
+  request: WorkerConvertRequest | WorkerPreviewRequest,
+  imageData: PixelBufferLike,
+): Promise<Pick<ProcessPixelsOptions, 'caption'>> {
+  if (!request.caption || !isCaptionActive(request.caption)) return {}
+  if (!supportsCaptionRaster()) {
+    throw runtimeError('Captions need OffscreenCanvas and FontFace in the worker', 'INTERNAL')
+  }
+  const caption = await rasterizeCaption(request.caption, imageData.width, imageData.height)
+  return caption ? { caption } : {}
+}
+
+function resolveRequestAlpha(request: WorkerConvertRequest | WorkerPreviewRequest, imageData: PixelBufferLike): ProcessAlpha | undefined {
+  return resolveProcessAlpha(imageData.data, request.alphaMode ?? DEFAULT_ALPHA_MODE, request.flattenColor ?? DEFAULT_FLATTEN_COLOR)
+}
+
 async function decodeInWorker(file: Blob): Promise<PixelBufferLike> {
   if (!supportsWorkerDecode()) {
     throw runtimeError('Worker decode path unavailable', 'DECODE_UNSUPPORTED')
@@ -154,7 +427,7 @@ async function decodeInWorker(file: Blob): Promise<PixelBufferLike> {
   }
 }
 
-function imageDataFromPixels(request: WorkerConvertRequest | WorkerPreviewRequest): PixelBufferLike {
+function imageDataFromPixels(request: ImageSourceRequest): PixelBufferLike {
   return {
     data: request.pixels!,
     width: request.width!,
@@ -162,10 +435,15 @@ function imageDataFromPixels(request: WorkerConvertRequest | WorkerPreviewReques
   }
 }
 
-async function decodeRequestImageData(request: WorkerConvertRequest | WorkerPreviewRequest): Promise<PixelBufferLike> {
+async function decodeRequestImageData(request: ImageSourceRequest): Promise<PixelBufferLike> {
   return request.file ? decodeInWorker(request.file) : imageDataFromPixels(request)
 }
 
+/** Let queued messages, such as a cancel, run before carrying on. */
+function yieldToMessages(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0))
+}
+
 function downscaleImageData(imageData: PixelBufferLike, maxLongEdge: number): PixelBufferLike {
   const longEdge = Math.max(imageData.width, imageData.height)
   if (longEdge <= maxLongEdge || typeof OffscreenCanvas === 'undefined') {
@@ -194,8 +472,8 @@ function downscaleImageData(imageData: PixelBufferLike, maxLongEdge: number): Pi
 }
 
 function toWorkerErrorResponse(
-  request: WorkerConvertRequest | WorkerPreviewRequest,
-  type: 'result' | 'preview-result',
+  request: ImageSourceRequest,
+  type: 'result' | 'preview-result' | 'analyze-result',
   error: unknown,
 ): WorkerResponseMessage {
   const typedError = error as Error & { code?: RuntimeErrorCode }
@@ -208,15 +486,58 @@ function toWorkerErrorResponse(
   }
 }
 
+const RESPONSE_TYPES = {
+  convert: 'result',
+  preview: 'preview-result',
+  analyze: 'analyze-result',
+} as const satisfies Record<ImageSourceRequest['type'], WorkerResponseMessage['type']>
+
+export interface WorkerRuntimeOptions {
+  /** Helper workers for strip-parallel export grading; exports run in-thread without one. */
+  stripPool?: StripPool
+  /** Receives throttled `progress` messages for convert requests. */
+  onProgress?: (message: WorkerProgressResponse) => void
+}
+
+interface CachedImage {
+  source: Promise<PixelBufferLike>
+  preview?: { maxLongEdge: number; imageData: PixelBufferLike }
+}
+
 export class WorkerRuntime {
   private cancelledRequestIds = new Set<number>()
 
+  // Decoded sources keyed by the client-allocated image id, so slider-driven
+  // previews skip createImageBitmap/getImageData until the image is released.
+  private cachedImages = new Map<number, CachedImage>()
+
   private reusablePqBuffer: Uint16Array | undefined
 
-  private reusablePreviewBuffer: Uint8ClampedArray | undefined
+  // SDR rendition of an Ultra HDR export; preview pixels are transferred out, so never reused.
+  private reusableSdrBuffer: Uint8ClampedArray | undefined
+
+  private stripPool: StripPool | undefined
+
+  private readonly onProgress: ((message: WorkerProgressResponse) => void) | undefined
+
+  constructor(options: WorkerRuntimeOptions = {}) {
+    this.stripPool = options.stripPool
+    this.onProgress = options.onProgress
+  }
+
+  private createProgressReporter(id: number): ExportProgressCallback | undefined {
+    const { onProgress } = this
+    if (!onProgress) return undefined
+    return createProgressThrottle((stage, fraction) => onProgress({ type: 'progress', id, stage, fraction }))
+  }
 
   cancel(id: number): void {
     this.cancelledRequestIds.add(id)
+    this.stripPool?.cancel(id)
+  }
+
+  release(imageId: number): void {
+    this.cachedImages.delete(imageId)
   }
 
   private isCancelled(id: number): boolean {
@@ -225,29 +546,174 @@ export class WorkerRuntime {
     return true
   }
 
-  private getOrCreatePqBuffer(width: number, height: number): Uint16Array {
-    const needed = width * height * 3
+  private resolveImageData(request: ImageSourceRequest): Promise<PixelBufferLike> {
+    const { imageId } = request
+    if (imageId === undefined) return decodeRequestImageData(request)
+
+    const cached = this.cachedImages.get(imageId)
+    if (cached) return cached.source
+
+    if (!request.file && !request.pixels) {
+      return Promise.reject(runtimeError(`Image ${imageId} is not cached in the worker`, 'BAD_INPUT'))
+    }
+
+    // Registered before the decode settles so requests queued behind this one share it.
+    const entry: CachedImage = { source: decodeRequestImageData(request) }
+    this.cachedImages.set(imageId, entry)
+    entry.source.catch(() => {
+      if (this.cachedImages.get(imageId) === entry) this.cachedImages.delete(imageId)
+    })
+    return entry.source
+  }
+
+  private resolvePreviewImageData(request: WorkerPreviewRequest, imageData: PixelBufferLike, maxLongEdge: number): PixelBufferLike {
+    const entry = request.imageId === undefined ? undefined : this.cachedImages.get(request.imageId)
+    if (entry?.preview?.maxLongEdge === maxLongEdge) return entry.preview.imageData
+
+    const previewImageData = downscaleImageData(imageData, maxLongEdge)
+    if (entry) entry.preview = { maxLongEdge, imageData: previewImageData }
+    return previewImageData
+  }
+
+  /**
+   * Grade the full-resolution export, split across the strip pool when the
+   * image is tall enough. Resolves null if the request is cancelled mid-way.
+   */
+  private async processExportPixels(
+    id: number,
+    imageData: PixelBufferLike,
+    boost: number,
+    lookControls: LookControls,
+    out: Uint16Array,
+    options: ProcessPixelsOptions,
+  ): Promise<Uint16Array | null> {
+    const pool = this.stripPool
+    const strips = pool ? planStrips(imageData.height, pool.size * STRIPS_PER_WORKER) : []
+    if (!pool || strips.length < 2) return this.processPixelsInBands(id, imageData, boost, lookControls, out, options)
+
+    const {
+      alpha,
+      transferFunction = DEFAULT_TRANSFER_FUNCTION,
+      colorLut,
+      toneCurve,
+      upConversion,
+      targetPeakNits,
+      gamutMapping,
+      gamutVolume,
+      ablLimiter,
+      bloomLayer,
+      caption,
+    } = options
+    // Clarity filters across strip boundaries, at the whole image's scale.
+    const radius = lookControls.clarity !== 0 ? localContrastRadius(imageData.width, imageData.height) : undefined
+    const tasks = strips.map((strip) => ({
+      ...sliceStrip(imageData, strip, radius),
+      boost,
+      lookControls,
+      transferFunction,
+      ...(alpha ? { alpha } : {}),
+      ...(colorLut ? { colorLut } : {}),
+      ...(toneCurve ? { toneCurve } : {}),
+      ...(upConversion ? { upConversion } : {}),
+      ...(targetPeakNits !== undefined ? { targetPeakNits } : {}),
+      ...(gamutMapping ? { gamutMapping } : {}),
+      ...(gamutVolume ? { gamutVolume } : {}),
+      ...(ablLimiter ? { ablLimiter: { ...ablLimiter, rowOffset: strip.y } } : {}),
+      ...(bloomLayer ? { bloomLayer: { ...bloomLayer, rowOffset: strip.y } } : {}),
+      ...(caption ? { caption: { ...caption, rowOffset: strip.y } } : {}),
+    }))
+
+    try {
+      const results = await pool.run(id, tasks, options.onProgress)
+      if (!results) return null
+      return assembleStrips(results, strips, imageData.width, outputChannelsForAlpha(alpha), out, options.contentLightLevel)
+    } catch (error) {
+      // A failing strip is an export error; the pool replaces crashed workers for the next run.
+      if (!isStripWorkerStartError(error)) throw runtimeError((error as Error).message || 'Strip processing failed', 'INTERNAL')
+      // Nested workers may fail to start (older browsers, strict CSP); stay single-threaded from here on.
+      pool.terminate()
+      this.stripPool = undefined
+      return this.processPixelsInBands(id, imageData, boost, lookControls, out, options)
+    }
+  }
+
+  /**
+   * Grade on this thread in bands of rows, yielding between bands so a cancel
+   * message can land; a single pass would keep the worker deaf until it ends.
+   * Resolves null once the request is cancelled.
+   */
+  private async processPixelsInBands(
+    id: number,
+    imageData: PixelBufferLike,
+    boost: number,
+    lookControls: LookControls,
+    out: Uint16Array,
+    options: ProcessPixelsOptions,
+  ): Promise<Uint16Array | null> {
+    const { data, width, height } = imageData
+    const { alpha, ablLimiter, bloomLayer, caption, contentLightLevel, onProgress } = options
+    const channels = outputChannelsForAlpha(alpha)
+    // Clarity filters across band edges, so it is computed for the whole image up front.
+    const localContrastGains = options.localContrastGains ?? computeLocalContrastGains(imageData, lookControls, alpha)
+    const bandRows = Math.max(1, Math.floor(IN_THREAD_BAND_PIXELS / width))
+    const bandLevel = createContentLightLevel()
+    let maxCLL = 0
+    let fallSum = 0
+
+    for (let y = 0; y < height; y += bandRows) {
+      await yieldToMessages()
+      if (this.cancelledRequestIds.has(id)) return null
+      const rows = Math.min(bandRows, height - y)
+      const start = y * width
+      const end = (y + rows) * width
+      processPixels(
+        { data: data.subarray(start * 4, end * 4), width, height: rows },
+        boost,
+        lookControls,
+        out.subarray(start * channels, end * channels),
+        {
+          ...options,
+          contentLightLevel: bandLevel,
+          ...(localContrastGains ? { localContrastGains: localContrastGains.subarray(start, end) } : {}),
+          ...(ablLimiter ? { ablLimiter: { ...ablLimiter, rowOffset: y } } : {}),
+          ...(bloomLayer ? { bloomLayer: { ...bloomLayer, rowOffset: y } } : {}),
+          ...(caption ? { caption: { ...caption, rowOffset: y } } : {}),
+          ...(onProgress ? { onProgress: (fraction: number) => onProgress((y + fraction * rows) / height) } : {}),
+        },
+      )
+      maxCLL = Math.max(maxCLL, bandLevel.maxCLL)
+      fallSum += bandLevel.maxFALL * rows * width
+    }
+
+    if (contentLightLevel) {
+      contentLightLevel.maxCLL = maxCLL
+      contentLightLevel.maxFALL = width * height > 0 ? fallSum / (width * height) : 0
+    }
+    return out
+  }
+
+  private getOrCreatePqBuffer(width: number, height: number, channels: 3 | 4): Uint16Array {
+    const needed = width * height * channels
     if (!this.reusablePqBuffer || this.reusablePqBuffer.length !== needed) {
       this.reusablePqBuffer = new Uint16Array(needed)
     }
     return this.reusablePqBuffer
   }
 
-  private getOrCreatePreviewBuffer(width: number, height: number): Uint8ClampedArray {
+  private getOrCreateSdrBuffer(width: number, height: number): Uint8ClampedArray {
     const needed = width * height * 4
-    if (!this.reusablePreviewBuffer || this.reusablePreviewBuffer.length !== needed) {
-      this.reusablePreviewBuffer = new Uint8ClampedArray(needed)
+    if (!this.reusableSdrBuffer || this.reusableSdrBuffer.length !== needed) {
+      this.reusableSdrBuffer = new Uint8ClampedArray(needed)
     }
-    return this.reusablePreviewBuffer
+    return this.reusableSdrBuffer
   }
 
   async handle(request: WorkerRequestMessage): Promise<WorkerResponseMessage | null> {
     try {
       validateWorkerRequest(request)
     } catch (error) {
-      if (request.type === 'cancel') return null
-      const responseType = request.type === 'preview' ? 'preview-result' : 'result'
-      return toWorkerErrorResponse(request, responseType, error)
+      if (request.type === 'cancel' || request.type === 'release') return null
+      return toWorkerErrorResponse(request, RESPONSE_TYPES[request.type], error)
     }
 
     if (request.type === 'cancel') {
@@ -255,40 +721,126 @@ export class WorkerRuntime {
       return null
     }
 
+    if (request.type === 'release') {
+      this.release(request.imageId)
+      return null
+    }
+
     if (request.type === 'preview') {
       return this.handlePreview(request)
     }
 
+    if (request.type === 'analyze') {
+      return this.handleAnalyze(request)
+    }
+
     return this.handleConvert(request)
   }
 
+  private async handleAnalyze(request: WorkerAnalyzeRequest): Promise<WorkerResponseMessage | null> {
+    try {
+      const imageData = await this.resolveImageData(request)
+      if (this.isCancelled(request.id)) return null
+
+      // The full-resolution source, not the preview copy: small clipped highlights matter here.
+      const analysis = analyzeImage(imageData)
+      return { type: 'analyze-result', id: request.id, ok: true, analysis, suggestion: suggestAutoLook(analysis) }
+    } catch (error) {
+      return toWorkerErrorResponse(request, 'analyze-result', error)
+    }
+  }
+
   private async handleConvert(request: WorkerConvertRequest): Promise<WorkerResponseMessage | null> {
     const totalStart = performance.now()
     const encodeStats = makeEncodeStats()
     const shouldCollectStats = request.collectStats === true
+    const reportProgress = this.createProgressReporter(request.id)
 
     try {
       const decodeStart = performance.now()
-      const imageData = await decodeRequestImageData(request)
+      reportProgress?.('decode', 0)
+      const imageData = await this.resolveImageData(request)
+      reportProgress?.('decode', 1)
       const decodeMs = performance.now() - decodeStart
 
       if (this.isCancelled(request.id)) return null
 
       const lookControls = resolveLookControls(request)
+      const outputFormat = request.outputFormat ?? DEFAULT_EXPORT_FORMAT
+      const ultraHDR = outputFormat === 'jpeg'
+      // JPEG has no alpha channel, and the gain map is computed from the PQ rendition.
+      const alpha = ultraHDR
+        ? resolveProcessAlpha(imageData.data, 'flatten', request.flattenColor ?? DEFAULT_FLATTEN_COLOR)
+        : resolveRequestAlpha(request, imageData)
+      const alphaOptions = alpha ? { alpha } : {}
+      const sourceLookOptions = resolveSourceLookOptions(request)
+      const mappingOptions = resolveMappingOptions(request)
+      const channels = outputChannelsForAlpha(alpha)
+      const transferFunction = ultraHDR ? 'pq' : (request.transferFunction ?? DEFAULT_TRANSFER_FUNCTION)
 
       const processStart = performance.now()
-      const pqPixels = processPixels(imageData, request.boost, lookControls, this.getOrCreatePqBuffer(imageData.width, imageData.height))
+      const captionOptions = await resolveCaptionOptions(request, imageData)
+      if (this.isCancelled(request.id)) return null
+      const baseGradingOptions = { transferFunction, ...alphaOptions, ...sourceLookOptions, ...mappingOptions, ...captionOptions }
+      const gradingOptions = { ...baseGradingOptions, ...resolveBloomOptions(request, imageData, lookControls, baseGradingOptions) }
+      const { ablOptions, abl } = resolveAblLimiting(request, imageData, lookControls, gradingOptions)
+      const contentLightLevel = createContentLightLevel()
+      const pqPixels = await this.processExportPixels(
+        request.id,
+        imageData,
+        request.boost,
+        lookControls,
+        this.getOrCreatePqBuffer(imageData.width, imageData.height, channels),
+        {
+          contentLightLevel,
+          ...gradingOptions,
+          ...ablOptions,
+          // Ultra HDR grades its SDR rendition as well, in the second half of the stage.
+          ...(reportProgress ? { onProgress: (fraction: number) => reportProgress('grade', ultraHDR ? fraction / 2 : fraction) } : {}),
+        },
+      )
+      if (this.isCancelled(request.id) || !pqPixels) return null
+      // The plan's figure is estimated from samples; the export measured every pixel.
+      if (abl) abl.fallAfterNits = contentLightLevel.maxFALL
+
+      const sdrPixels = ultraHDR
+        ? processPreviewPixels(imageData, request.boost, lookControls, this.getOrCreateSdrBuffer(imageData.width, imageData.height), {
+            ...alphaOptions,
+            ...sourceLookOptions,
+            ...resolveSdrGamutOptions(request),
+            ...captionOptions,
+            ...(reportProgress ? { onProgress: (fraction: number) => reportProgress('grade', 0.5 + fraction / 2) } : {}),
+          })
+        : null
       const processMs = performance.now() - processStart
 
       if (this.isCancelled(request.id)) return null
 
       const encodeStart = performance.now()
-      const encodeOptions = {
-        ...(request.idatCompressionLevel !== undefined ? { idatCompressionLevel: request.idatCompressionLevel } : {}),
-        ...(request.compressionBackend !== undefined ? { compressionBackend: request.compressionBackend } : {}),
-        ...(shouldCollectStats ? { encodeStats } : {}),
+      let fileData: Uint8Array
+      if (sdrPixels) {
+        reportProgress?.('assemble', 0)
+        fileData = encodeUltraHDR(
+          imageData.width,
+          imageData.height,
+          sdrPixels,
+          pqPixels,
+          reportProgress ? { onProgress: (fraction) => reportProgress('assemble', fraction) } : {},
+        )
+      } else {
+        const encodeOptions = {
+          ...(request.idatCompressionLevel !== undefined ? { idatCompressionLevel: request.idatCompressionLevel } : {}),
+          ...(request.compressionBackend !== undefined ? { compressionBackend: request.compressionBackend } : {}),
+          ...(shouldCollectStats ? { encodeStats } : {}),
+          hasAlpha: channels === 4,
+          transferFunction,
+          masteringDisplay: masteringDisplayForContent(contentLightLevel, request.targetPeakNits, masteringPrimaries(request.gamutVolume)),
+          contentLightLevel,
+          recipe: createRecipe(request.boost, lookControls, sourceLookOptions.toneCurve),
+          ...(reportProgress ? { onProgress: reportProgress } : {}),
+        }
+        fileData = await encodePNG(imageData.width, imageData.height, pqPixels, encodeOptions)
       }
-      const pngData = await encodePNG(imageData.width, imageData.height, pqPixels, encodeOptions)
       const encodeMs = performance.now() - encodeStart
       const totalMs = performance.now() - totalStart
 
@@ -300,7 +852,7 @@ export class WorkerRuntime {
             processMs,
             encodeMs,
             totalMs,
-            outputBytes: pngData.byteLength,
+            outputBytes: fileData.byteLength,
             encode: encodeStats,
           }
         : undefined
@@ -309,8 +861,10 @@ export class WorkerRuntime {
         type: 'result',
         id: request.id,
         ok: true,
-        pngData,
+        format: outputFormat,
+        fileData,
         ...(stats ? { stats } : {}),
+        ...(abl ? { abl } : {}),
       }
     } catch (error) {
       return toWorkerErrorResponse(request, 'result', error)
@@ -319,26 +873,75 @@ export class WorkerRuntime {
 
   private async handlePreview(request: WorkerPreviewRequest): Promise<WorkerResponseMessage | null> {
     try {
-      const imageData = await decodeRequestImageData(request)
+      const imageData = await this.resolveImageData(request)
       if (this.isCancelled(request.id)) return null
 
       const maxLongEdge = normalizePreviewMaxLongEdge(request.previewMaxLongEdge)
-      const previewImageData = downscaleImageData(imageData, maxLongEdge)
+      const previewImageData = this.resolvePreviewImageData(request, imageData, maxLongEdge)
       if (this.isCancelled(request.id)) return null
 
       const lookControls = resolveLookControls(request)
       const output = request.output ?? 'sdr-rgba'
+      const alpha = resolveRequestAlpha(request, previewImageData)
+      const alphaOptions = alpha ? { alpha } : {}
 
+      const transferFunction = request.transferFunction ?? DEFAULT_TRANSFER_FUNCTION
+      const sourceLookOptions = resolveSourceLookOptions(request)
+      const captionOptions = await resolveCaptionOptions(request, previewImageData)
+      if (this.isCancelled(request.id)) return null
+      const baseGradingOptions = {
+        transferFunction,
+        ...alphaOptions,
+        ...sourceLookOptions,
+        ...resolveMappingOptions(request),
+        ...captionOptions,
+      }
+      const gradingOptions = {
+        ...baseGradingOptions,
+        ...resolveBloomOptions(request, previewImageData, lookControls, baseGradingOptions),
+      }
+      const { ablOptions, abl } = resolveAblLimiting(request, previewImageData, lookControls, gradingOptions)
+
+      // The scopes and ABL report describe the export. The HDR preview measures
+      // them while it encodes and the false-color map needs every pixel, but the
+      // SDR preview draws its own approximation, so a sample grid is enough.
+      const channels = outputChannelsForAlpha(alpha)
+      const contentLightLevel = createContentLightLevel()
+      const scopes = createScopeData()
+      const localContrastGains = computeLocalContrastGains(previewImageData, lookControls, alpha)
+      const measureOptions = {
+        contentLightLevel,
+        scopes,
+        ...(localContrastGains ? { localContrastGains } : {}),
+        ...gradingOptions,
+        ...ablOptions,
+      }
+      let pqPixels: Uint16Array | null = null
+      let falseColor: Uint8ClampedArray | null = null
       if (output === 'hdr-png') {
-        const pqPixels = processPixels(
+        pqPixels = processPixels(
           previewImageData,
           request.boost,
           lookControls,
-          this.getOrCreatePqBuffer(previewImageData.width, previewImageData.height),
+          this.getOrCreatePqBuffer(previewImageData.width, previewImageData.height, channels),
+          measureOptions,
         )
-        if (this.isCancelled(request.id)) return null
-
-        const pngData = await encodePNG(previewImageData.width, previewImageData.height, pqPixels)
+      } else if (output === 'false-color') {
+        falseColor = new Uint8ClampedArray(previewImageData.width * previewImageData.height * 4)
+        measureExportPixels(previewImageData, request.boost, lookControls, { ...measureOptions, falseColor })
+      } else {
+        measureExportPixels(previewImageData, request.boost, lookControls, measureOptions, PREVIEW_SCOPE_SAMPLES)
+      }
+      if (this.isCancelled(request.id)) return null
+      if (abl) abl.fallAfterNits = contentLightLevel.maxFALL
+
+      if (pqPixels) {
+        const pngData = await encodePNG(previewImageData.width, previewImageData.height, pqPixels, {
+          hasAlpha: channels === 4,
+          transferFunction,
+          masteringDisplay: masteringDisplayForContent(contentLightLevel, request.targetPeakNits, masteringPrimaries(request.gamutVolume)),
+          contentLightLevel,
+        })
         if (this.isCancelled(request.id)) return null
 
         const response: WorkerPreviewSuccessResponse = {
@@ -348,16 +951,22 @@ export class WorkerRuntime {
           width: previewImageData.width,
           height: previewImageData.height,
           pngData,
+          ...(abl ? { abl } : {}),
+          scopes,
         }
         return response
       }
 
-      const pixels = processPreviewPixels(
-        previewImageData,
-        request.boost,
-        lookControls,
-        this.getOrCreatePreviewBuffer(previewImageData.width, previewImageData.height),
-      )
+      // Preview pixels are allocated per request: the response transfers them to the page.
+      const pixels =
+        falseColor ??
+        processPreviewPixels(previewImageData, request.boost, lookControls, undefined, {
+          ...alphaOptions,
+          ...sourceLookOptions,
+          ...resolveSdrGamutOptions(request),
+          ...captionOptions,
+          ...(localContrastGains ? { localContrastGains } : {}),
+        })
 
       if (this.isCancelled(request.id)) return null
 
@@ -368,6 +977,8 @@ export class WorkerRuntime {
         width: previewImageData.width,
         height: previewImageData.height,
         pixels,
+        ...(abl ? { abl } : {}),
+        scopes,
       }
 
       return response
@@ -1,11 +1,24 @@
 import type { WorkerRequestMessage, WorkerResponseMessage } from './worker-protocol'
+import { createStripPool, stripWorkerCount, type StripPool } from './strip-processing'
 import { WorkerRuntime } from './worker-runtime'
 
-const runtime = new WorkerRuntime()
+function createExportStripPool(): StripPool | undefined {
+  // Workers spawned from a worker are missing in some older browsers.
+  if (typeof Worker === 'undefined' || typeof navigator === 'undefined') return undefined
+  const size = stripWorkerCount(navigator.hardwareConcurrency)
+  if (size === 0) return undefined
+  return createStripPool(size, () => new Worker(new URL('./strip-worker.ts', import.meta.url), { type: 'module' }))
+}
+
+const stripPool = createExportStripPool()
+const runtime = new WorkerRuntime({
+  ...(stripPool ? { stripPool } : {}),
+  onProgress: (message) => self.postMessage(message),
+})
 
 function postResult(message: WorkerResponseMessage): void {
   if (message.type === 'result' && message.ok) {
-    self.postMessage(message, { transfer: [message.pngData.buffer] })
+    self.postMessage(message, { transfer: [message.fileData.buffer] })
     return
   }
   if (message.type === 'preview-result' && message.ok) {
@@ -13,6 +26,7 @@ function postResult(message: WorkerResponseMessage): void {
       self.postMessage(message, { transfer: [message.pngData.buffer] })
       return
     }
+    // The runtime allocates preview pixels per request, so this detaches nothing it reuses.
     self.postMessage(message, { transfer: [message.pixels.buffer] })
     return
   }
@@ -12,21 +12,63 @@ export function Home() {
     image,
     boost,
     lookControls,
+    autoLookPending,
+    canUndoAutoLook,
+    toneCurve,
+    alphaMode,
+    flattenColor,
+    transferFunction,
+    upConversion,
+    targetPeakNits,
+    gamutMapping,
+    gamutVolume,
+    fallBudgetNits,
+    ablReport,
+    scopes,
+    colorLutName,
+    lutSpace,
+    lutStrength,
+    caption,
+    exportFormat,
     processing,
+    exportProgress,
     downloaded,
     dragover,
     previewPending,
     previewReady,
     previewImageSrc,
     hdrPreviewEnabled,
+    setFalseColor,
     errorMessage,
+    pendingRecipe,
     decodeCanvasRef,
     previewCanvasRef,
     fileInputRef,
     setBoost,
     setLookControl,
+    applyAutoLook,
+    undoAutoLook,
+    setCurvePoints,
+    resetToneCurve,
+    setAlphaMode,
+    setFlattenColor,
+    setTransferFunction,
+    setUpConversion,
+    setTargetPeakNits,
+    setGamutMapping,
+    setGamutVolume,
+    setFallBudgetNits,
+    loadColorLut,
+    clearColorLut,
+    setLutSpace,
+    setLutStrength,
+    setCaption,
+    setExportFormat,
+    restoreRecipe,
+    dismissRecipe,
     reset,
     convert,
+    cancelConvert,
     handleDrop,
     handleDragOver,
     handleDragLeave,
@@ -53,8 +95,10 @@ export function Home() {
       imageName={image?.name}
       imageWidth={image?.width}
       imageHeight={image?.height}
-      boost={boost}
-      exposure={lookControls.exposure}
+      onSetFalseColor={setFalseColor}
+      scopes={scopes}
+      abl={ablReport}
+      transferFunction={transferFunction}
     />
   )
 
@@ -78,19 +122,71 @@ export function Home() {
               imageHeight={image.height}
               boost={boost}
               lookControls={lookControls}
+              autoLookPending={autoLookPending}
+              canUndoAutoLook={canUndoAutoLook}
+              toneCurve={toneCurve}
+              alphaMode={alphaMode}
+              flattenColor={flattenColor}
+              transferFunction={transferFunction}
+              upConversion={upConversion}
+              targetPeakNits={targetPeakNits}
+              gamutMapping={gamutMapping}
+              gamutVolume={gamutVolume}
+              fallBudgetNits={fallBudgetNits}
+              colorLutName={colorLutName}
+              lutSpace={lutSpace}
+              lutStrength={lutStrength}
+              caption={caption}
+              exportFormat={exportFormat}
               processing={processing}
+              exportProgress={exportProgress}
               downloaded={downloaded}
               hdrPreviewEnabled={hdrPreviewEnabled}
               onSetBoost={setBoost}
               onSetLookControl={setLookControl}
+              onAutoLook={() => void applyAutoLook()}
+              onUndoAutoLook={undoAutoLook}
+              onSetCurvePoints={setCurvePoints}
+              onResetToneCurve={resetToneCurve}
+              onSetAlphaMode={setAlphaMode}
+              onSetFlattenColor={setFlattenColor}
+              onSetTransferFunction={setTransferFunction}
+              onSetGamutMapping={setGamutMapping}
+              onSetGamutVolume={setGamutVolume}
+              onSetUpConversion={setUpConversion}
+              onSetTargetPeakNits={setTargetPeakNits}
+              onSetFallBudgetNits={setFallBudgetNits}
+              onLoadColorLut={(file) => void loadColorLut(file)}
+              onClearColorLut={clearColorLut}
+              onSetLutSpace={setLutSpace}
+              onSetLutStrength={setLutStrength}
+              onSetCaption={setCaption}
+              onSetExportFormat={setExportFormat}
               onReset={reset}
               onConvert={convert}
+              onCancelConvert={cancelConvert}
             />
           </div>
         ) : (
           <section class="hero">{previewPane}</section>
         )}
 
+        {image && pendingRecipe && (
+          <div class="recipe-banner" role="status">
+            <span class="recipe-banner__message">
+              Made with Supernova {pendingRecipe.appVersion} at boost {pendingRecipe.boost.toFixed(1)}. Restore its settings?
+            </span>
+            <div class="recipe-banner__actions">
+              <button class="btn btn-secondary" onClick={restoreRecipe}>
+                Restore
+              </button>
+              <button class="btn btn-secondary" onClick={dismissRecipe}>
+                Dismiss
+              </button>
+            </div>
+          </div>
+        )}
+
         {errorMessage && (
           <div class="error-banner" role="alert">
             <span class="error-banner__icon" aria-hidden="true">
@@ -242,16 +242,80 @@ export function HowItWorks() {
           <li>
             <strong>Boost.</strong> HDR export brightness. 1.0≈100 nits, 4.0≈1600 nits, 10≈10000 nits in the final PNG.
           </li>
+          <li>
+            <strong>Display peak.</strong> Fits the export into a 600, 1000, 1600 or 4000-nit display with the BT.2390 EETF, so highlights
+            roll off smoothly instead of being crushed by the viewer's tone mapper. The mastering metadata records the same peak.
+          </li>
+          <li>
+            <strong>OLED limit.</strong> OLED panels dim the whole screen when too much of it is bright. With a 150, 250 or 400-nit MaxFALL
+            budget, broad bright regions are scaled back until the frame average fits, while small specular peaks keep their full
+            brightness. The Peak readout shows how hard the limiter had to work.
+          </li>
+          <li>
+            <strong>Mapping.</strong> Boost uses the slider above. BT.2408 pins SDR white to the 203-nit HDR reference white; BT.2446 A and
+            C apply the broadcast inverse tone mapping curves (Method A peaks at 1000 nits). The standards modes ignore Boost.
+          </li>
           <li>
             <strong>Saturation.</strong> Primary color intensity, shown in the main panel for quick edits.
           </li>
           <li>
-            <strong>Fine tune.</strong> Exposure, Temperature, Tint, Gamma, Contrast, Highlight Roll-off, Shadow Lift, Vibrance.
+            <strong>Auto.</strong> Reads the image's histogram, clipping and color cast in the background and sets Exposure, Contrast,
+            Blacks, Whites, Temperature and Tint as a starting point. It corrects only part of a cast, and less on strongly colored scenes;
+            Undo brings back the look it replaced.
+          </li>
+          <li>
+            <strong>Fine tune.</strong> Exposure, Temperature, Tint, Gamma, Contrast, Shadow Lift, Vibrance.
+          </li>
+          <li>
+            <strong>Highlights.</strong> Highlight Roll-off plus Specular Focus, Threshold and Feather. Specular Focus keeps skin and
+            midtones near SDR white and spends the boost only on highlights and light sources above a softly feathered threshold.
           </li>
           <li>
             <strong>Advanced.</strong> Blacks, Whites, Clarity, Highlight Saturation, Shadow Glow. Tucked behind a disclosure for visitors
             who want them.
           </li>
+          <li>
+            <strong>Clarity.</strong> Real local contrast: an edge-aware guided filter splits luminance into a smooth base and fine detail,
+            and Clarity scales the detail. Strong edges stay clean, and highlight texture is held back from clipping. The filter radius
+            follows the image size, so the preview matches the download.
+          </li>
+          <li>
+            <strong>LUT.</strong> Load a 1D or 3D .cube look from Resolve or Photoshop. It is applied to the SDR source before the HDR
+            expansion, in the sRGB, linear or log (ACEScct) space it was built for, and Strength blends it with the original.
+          </li>
+          <li>
+            <strong>Curve.</strong> Drag points on the luma curve, or on the red, green and blue curves, to shape tone before the HDR
+            expansion. The luma curve keeps hue; points are joined smoothly without overshoot, and the curve is saved in the recipe.
+          </li>
+          <li>
+            <strong>HSL.</strong> Under Advanced, eight hue bands from red to magenta each get Hue, Saturation and Luminance. Hue is read in
+            Oklab, so a band follows the color you see, and neighbouring bands blend smoothly, so you can push neon signs without turning
+            skin orange.
+          </li>
+          <li>
+            <strong>Bloom.</strong> Highlights above the Threshold spill light into their surroundings. The glow is blurred through a
+            Gaussian pyramid in linear light and added before encoding, so it is part of the HDR file. Radius sets how far it spreads.
+          </li>
+          <li>
+            <strong>Gamut.</strong> Strong saturation can push colors past what BT.2020 can hold. Clip cuts each channel, which can shift
+            hue and flatten neon gradients; Compress pulls chroma in toward grey at the same brightness, and Perceptual does it at constant
+            Oklab hue. Volume P3 keeps the export inside what current panels can show.
+          </li>
+          <li>
+            <strong>Caption.</strong> Set a line of text in Space Grotesk or Inter with its own brightness, from 100 to 10,000 nits, so a
+            title can glow far above a 400-nit photo. It is drawn after every other step, so the OLED limit and highlight roll-off leave it
+            alone; only a display peak you fit the export to caps it. Outline adds a black edge for legibility.
+          </li>
+          <li>
+            <strong>Scopes.</strong> The Peak readout above the preview measures the graded HDR signal, not the SDR picture on screen: Peak
+            is the brightest value in the file, Nits is a luminance histogram on a log axis up to 10,000 nits, and Wave and Parade show luma
+            and red, green and blue across the frame on a PQ scale with 100 and 1,000-nit lines.
+          </li>
+          <li>
+            <strong>False color.</strong> A Compare mode that paints the export by brightness, so an SDR laptop can still show what will
+            glow: under 100 nits stays grey, then 100–400, 400–1,000, 1,000–4,000 and over 4,000 nits each get a color, and the legend names
+            every band.
+          </li>
           <li>
             <strong>Preview.</strong> Uses the converted HDR PNG when the browser and display support it, with automatic SDR fallback
             otherwise.
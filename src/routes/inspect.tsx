@@ -0,0 +1,346 @@
+import type { ComponentChildren } from 'preact'
+import { useCallback, useEffect, useRef, useState } from 'preact/hooks'
+import type { Chromaticity } from '../lib/hdr-metadata'
+import type { NitsHistogram, PNGInspection } from '../lib/png-inspect'
+import type { InspectWorkerResponse } from '../lib/worker-protocol'
+import { ArrowLeftIcon, HOME_ROUTE, INSPECT_ROUTE, useSeoRouteHead } from './shared'
+
+type InspectState =
+  | { status: 'idle' }
+  | { status: 'inspecting'; fileName: string }
+  | { status: 'done'; fileName: string; fileSize: number; report: PNGInspection }
+  | { status: 'error'; fileName: string; message: string }
+
+function formatChromaticity([x, y]: Chromaticity): string {
+  return `${x.toFixed(4)}, ${y.toFixed(4)}`
+}
+
+function formatNits(nits: number): string {
+  if (nits >= 100) return Math.round(nits).toLocaleString()
+  if (nits >= 1) return nits.toFixed(1)
+  return nits.toFixed(3)
+}
+
+function formatHex(value: number): string {
+  return value.toString(16).padStart(8, '0')
+}
+
+function FieldList({ rows }: { rows: [label: string, value: ComponentChildren][] }) {
+  return (
+    <dl class="inspect-fields">
+      {rows.map(([label, value]) => (
+        <div class="inspect-fields__row" key={label}>
+          <dt>{label}</dt>
+          <dd>{value}</dd>
+        </div>
+      ))}
+    </dl>
+  )
+}
+
+function MissingChunk({ type, note }: { type: string; note: string }) {
+  return (
+    <p class="inspect-missing">
+      No <code>{type}</code> chunk. {note}
+    </p>
+  )
+}
+
+const DECODED_AS_LABELS: Record<NitsHistogram['decodedAs'], string> = {
+  pq: 'PQ (ST 2084)',
+  hlg: 'HLG on a 1,000-nit display',
+  srgb: 'sRGB at 100 nits (no HDR transfer signalled)',
+}
+
+function NitsHistogramChart({ histogram }: { histogram: NitsHistogram }) {
+  // Log-scaled bar heights so a few bright pixels stay visible next to a large
+  // midtone population.
+  const maxCount = Math.max(1, ...histogram.bins.map((bin) => bin.count))
+  const logMax = Math.log1p(maxCount)
+
+  return (
+    <div class="inspect-histogram">
+      <div class="inspect-histogram__bars" role="img" aria-label={`Luminance histogram peaking at ${formatNits(histogram.peakNits)} nits`}>
+        {histogram.bins.map((bin, index) => (
+          <span
+            key={index}
+            class={`inspect-histogram__bar${bin.minNits >= 100 ? ' inspect-histogram__bar--hdr' : ''}`}
+            style={{ height: `${(Math.log1p(bin.count) / logMax) * 100}%` }}
+            title={`${formatNits(bin.minNits)}–${formatNits(bin.maxNits)} nits: ${bin.count.toLocaleString()} px`}
+          />
+        ))}
+      </div>
+      <div class="inspect-histogram__axis" aria-hidden="true">
+        <span>0</span>
+        <span>100</span>
+        <span>1,000</span>
+        <span>10,000 nits</span>
+      </div>
+      <FieldList
+        rows={[
+          ['Decoded as', DECODED_AS_LABELS[histogram.decodedAs]],
+          ['Peak', `${formatNits(histogram.peakNits)} nits`],
+          ['Mean', `${formatNits(histogram.meanNits)} nits`],
+          ['Pixels', histogram.pixelCount.toLocaleString()],
+        ]}
+      />
+    </div>
+  )
+}
+
+function InspectReport({ fileName, fileSize, report }: { fileName: string; fileSize: number; report: PNGInspection }) {
+  const { header, cicp, chrm, iccp, masteringDisplay, contentLightLevel, recipe } = report
+
+  return (
+    <>
+      <section class="how-section inspect-section">
+        <h2>{fileName}</h2>
+        {header ? (
+          <FieldList
+            rows={[
+              ['Dimensions', `${header.width} × ${header.height}`],
+              ['Bit depth', `${header.bitDepth}-bit`],
+              ['Color type', `${header.colorTypeName} (${header.colorType})`],
+              ['Interlace', header.interlaced ? 'Adam7' : 'None'],
+              ['File size', `${(fileSize / 1024).toFixed(1)} KB`],
+            ]}
+          />
+        ) : (
+          <MissingChunk type="IHDR" note="The file has no readable header." />
+        )}
+        {report.warnings.length > 0 && (
+          <ul class="inspect-warnings" role="alert">
+            {report.warnings.map((warning) => (
+              <li key={warning}>{warning}</li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section class="how-section inspect-section">
+        <h2>Signal (cICP)</h2>
+        {cicp ? (
+          <FieldList
+            rows={[
+              ['Primaries', `${cicp.primaries.name} (${cicp.primaries.code})`],
+              ['Transfer', `${cicp.transfer.name} (${cicp.transfer.code})`],
+              ['Matrix', `${cicp.matrix.name} (${cicp.matrix.code})`],
+              ['Range', cicp.fullRange ? 'Full (1)' : 'Narrow (0)'],
+            ]}
+          />
+        ) : (
+          <MissingChunk type="cICP" note="Browsers that rely on cICP will treat this file as SDR." />
+        )}
+      </section>
+
+      <section class="how-section inspect-section">
+        <h2>Chromaticity (cHRM)</h2>
+        {chrm ? (
+          <FieldList
+            rows={[
+              ['White point', formatChromaticity(chrm.whitePoint)],
+              ['Red', formatChromaticity(chrm.red)],
+              ['Green', formatChromaticity(chrm.green)],
+              ['Blue', formatChromaticity(chrm.blue)],
+            ]}
+          />
+        ) : (
+          <MissingChunk type="cHRM" note="Decoders without cICP fall back to sRGB primaries." />
+        )}
+      </section>
+
+      <section class="how-section inspect-section">
+        <h2>ICC profile (iCCP)</h2>
+        {iccp ? (
+          <FieldList
+            rows={[
+              ['Name', iccp.name],
+              ['Description', iccp.description ?? '—'],
+              ['Version', iccp.version],
+              ['Class / space / PCS', `${iccp.deviceClass} / ${iccp.colorSpace} / ${iccp.connectionSpace}`],
+              ['Profile size', `${iccp.profileSize.toLocaleString()} bytes`],
+            ]}
+          />
+        ) : (
+          <MissingChunk type="iCCP" note="Apps that only read ICC profiles will assume sRGB." />
+        )}
+      </section>
+
+      <section class="how-section inspect-section">
+        <h2>HDR light levels (mDCv / cLLi)</h2>
+        {masteringDisplay || contentLightLevel ? (
+          <FieldList
+            rows={[
+              ...(masteringDisplay
+                ? ([
+                    ['Mastering peak', `${formatNits(masteringDisplay.maxLuminance)} nits`],
+                    ['Mastering black', `${masteringDisplay.minLuminance} nits`],
+                    ['Mastering white', formatChromaticity(masteringDisplay.whitePoint)],
+                  ] as [string, string][])
+                : []),
+              ...(contentLightLevel
+                ? ([
+                    ['MaxCLL', `${formatNits(contentLightLevel.maxCLL)} nits`],
+                    ['MaxFALL', `${formatNits(contentLightLevel.maxFALL)} nits`],
+                  ] as [string, string][])
+                : []),
+            ]}
+          />
+        ) : (
+          <MissingChunk type="mDCv or cLLi" note="Tone mappers have to guess the content's brightness." />
+        )}
+      </section>
+
+      <section class="how-section inspect-section">
+        <h2>Luminance histogram</h2>
+        {report.histogram ? <NitsHistogramChart histogram={report.histogram} /> : <p class="inspect-missing">{report.histogramError}</p>}
+      </section>
+
+      {recipe && (
+        <section class="how-section inspect-section">
+          <h2>Supernova recipe</h2>
+          <FieldList
+            rows={[
+              ['App version', recipe.appVersion],
+              ['Boost', recipe.boost.toFixed(1)],
+              ...Object.entries(recipe.lookControls).map(([key, value]) => [key, String(value)] as [string, string]),
+            ]}
+          />
+        </section>
+      )}
+
+      <section class="how-section inspect-section">
+        <h2>Chunks</h2>
+        <div class="inspect-table-wrap">
+          <table class="inspect-table">
+            <thead>
+              <tr>
+                <th scope="col">Type</th>
+                <th scope="col">Offset</th>
+                <th scope="col">Length</th>
+                <th scope="col">CRC</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.chunks.map((chunk) => (
+                <tr key={chunk.offset} class={chunk.crcValid ? undefined : 'inspect-table__row--bad'}>
+                  <td>
+                    <code>{chunk.type}</code>
+                    {chunk.critical && <span class="inspect-table__tag">critical</span>}
+                  </td>
+                  <td>{chunk.offset.toLocaleString()}</td>
+                  <td>{chunk.length.toLocaleString()}</td>
+                  <td>
+                    <code>{formatHex(chunk.crc)}</code> {chunk.crcValid ? '✓' : '✗ mismatch'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </section>
+    </>
+  )
+}
+
+export function Inspect() {
+  useSeoRouteHead(INSPECT_ROUTE.canonicalPath)
+  const [state, setState] = useState<InspectState>({ status: 'idle' })
+  const [dragover, setDragover] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const workerRef = useRef<Worker | null>(null)
+
+  // Inflating and histogramming a large PNG takes seconds, so each file gets
+  // its own worker; dropping another file abandons the one in flight.
+  const inspectFile = useCallback((file: File) => {
+    workerRef.current?.terminate()
+    const worker = new Worker(new URL('../lib/inspect-worker.ts', import.meta.url), { type: 'module' })
+    workerRef.current = worker
+    setState({ status: 'inspecting', fileName: file.name })
+
+    const finish = (next: InspectState) => {
+      worker.terminate()
+      if (workerRef.current !== worker) return
+      workerRef.current = null
+      setState(next)
+    }
+    worker.onmessage = (event: MessageEvent<InspectWorkerResponse>) => {
+      const response = event.data
+      finish(
+        response.ok
+          ? { status: 'done', fileName: file.name, fileSize: file.size, report: response.report }
+          : { status: 'error', fileName: file.name, message: response.error },
+      )
+    }
+    worker.onerror = (event) => {
+      event.preventDefault()
+      finish({ status: 'error', fileName: file.name, message: event.message || 'The inspector crashed' })
+    }
+    worker.postMessage({ file })
+  }, [])
+
+  useEffect(() => () => workerRef.current?.terminate(), [])
+
+  const handleDrop = useCallback(
+    (event: DragEvent) => {
+      event.preventDefault()
+      setDragover(false)
+      const file = event.dataTransfer?.files?.[0]
+      if (file) inspectFile(file)
+    },
+    [inspectFile],
+  )
+
+  const handleFileSelect = useCallback(
+    (event: Event) => {
+      const file = (event.target as HTMLInputElement)?.files?.[0]
+      if (file) inspectFile(file)
+    },
+    [inspectFile],
+  )
+
+  return (
+    <div class="how-it-works">
+      <a class="how-back-link" href={HOME_ROUTE.routerPath}>
+        <ArrowLeftIcon />
+        Back to HDR PNG Converter
+      </a>
+      <section class="how-hero">
+        <h1>HDR PNG Inspector</h1>
+        <p>
+          Drop any PNG to see what it actually carries: chunk list with CRC checks, cICP, cHRM, and ICC color signalling, HDR light levels,
+          and a luminance histogram in nits. Nothing leaves your browser.
+        </p>
+      </section>
+
+      <button
+        type="button"
+        class={`inspect-dropzone${dragover ? ' inspect-dropzone--active' : ''}`}
+        aria-busy={state.status === 'inspecting'}
+        onClick={() => fileInputRef.current?.click()}
+        onDragOver={(event) => {
+          event.preventDefault()
+          setDragover(true)
+        }}
+        onDragLeave={() => setDragover(false)}
+        onDrop={handleDrop}
+      >
+        {state.status === 'inspecting' ? `Inspecting ${state.fileName}…` : 'Drop a PNG here or click to choose one'}
+      </button>
+      <input ref={fileInputRef} type="file" accept="image/png" hidden onChange={handleFileSelect} />
+
+      {state.status === 'error' && (
+        <div class="error-banner" role="alert">
+          <span class="error-banner__icon" aria-hidden="true">
+            ⚠
+          </span>
+          <span class="error-banner__message">
+            {state.fileName}: {state.message}
+          </span>
+        </div>
+      )}
+
+      {state.status === 'done' && <InspectReport fileName={state.fileName} fileSize={state.fileSize} report={state.report} />}
+    </div>
+  )
+}
@@ -12,6 +12,7 @@ import {
 
 export const HOME_ROUTE = getSingleSeoRouteByTemplate('home')
 export const HOW_IT_WORKS_ROUTE = getSingleSeoRouteByTemplate('how-it-works')
+export const INSPECT_ROUTE = getSingleSeoRouteByTemplate('inspector')
 export const NOT_FOUND_ROUTE = getSingleSeoRouteByTemplate('not-found')
 export const FORMAT_GUIDE_ROUTES = getSeoRoutesByTemplate('intent-guide')
 